@@ -7,13 +7,17 @@ import {
   useState,
   type ReactNode,
 } from "react";
+import { useLocale } from "@/components/locale-provider";
 import {
+  AUTH_STORAGE_KEY,
   createSessionFromLogin,
+  getTokenExpiry,
   readStoredSession,
+  subscribeToSession,
   writeStoredSession,
   type AuthSession,
 } from "@/lib/auth";
-import { extractApiErrorMessage, login as loginRequest } from "@/lib/api";
+import { extractApiErrorMessage, login as loginRequest, refreshAccessToken } from "@/lib/api";
 import type { LoginRequest, LoginResponse, UpdateUserResponse } from "@/types/api";
 
 interface LoginResult {
@@ -25,20 +29,54 @@ interface AuthContextValue {
   session: AuthSession | null;
   isHydrated: boolean;
   isAuthenticated: boolean;
+  sessionExpiresAt: number | null;
+  isSessionExpiring: boolean;
+  canRefreshSession: boolean;
   login: (payload: LoginRequest) => Promise<LoginResult>;
   logout: () => void;
+  refreshSession: () => Promise<boolean>;
   applyProfileUpdate: (payload: UpdateUserResponse) => void;
 }
 
+const REFRESH_LEAD_MS = 60 * 1000;
+const EXPIRY_WARNING_LEAD_MS = 2 * 60 * 1000;
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
 const AuthContext = createContext<AuthContextValue | null>(null);
 
+function scheduleAt(timestamp: number, callback: () => void): number {
+  const delay = Math.min(Math.max(0, timestamp - Date.now()), MAX_TIMEOUT_MS);
+  return window.setTimeout(callback, delay);
+}
+
 export function AuthProvider({ children }: Readonly<{ children: ReactNode }>) {
+  const { t } = useLocale();
   const [session, setSession] = useState<AuthSession | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
+  const [isSessionExpiring, setIsSessionExpiring] = useState(false);
+
+  const sessionExpiresAt = useMemo(
+    () => (session ? getTokenExpiry(session.token) : null),
+    [session],
+  );
 
   useEffect(() => {
     setSession(readStoredSession());
     setIsHydrated(true);
+
+    const unsubscribe = subscribeToSession(setSession);
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === AUTH_STORAGE_KEY) {
+        setSession(readStoredSession());
+      }
+    };
+
+    window.addEventListener("storage", onStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("storage", onStorage);
+    };
   }, []);
 
   const login = useCallback(async (payload: LoginRequest): Promise<LoginResult> => {
@@ -46,7 +84,7 @@ export function AuthProvider({ children }: Readonly<{ children: ReactNode }>) {
       const response = await loginRequest(payload);
       const nextSession = createSessionFromLogin(response);
       if (!nextSession) {
-        throw new Error("Unable to parse login token.");
+        throw new Error(t("auth.invalidToken"));
       }
 
       setSession(nextSession);
@@ -55,36 +93,72 @@ export function AuthProvider({ children }: Readonly<{ children: ReactNode }>) {
     } catch (error) {
       throw new Error(extractApiErrorMessage(error));
     }
-  }, []);
+  }, [t]);
 
   const logout = useCallback(() => {
     setSession(null);
     writeStoredSession(null);
   }, []);
 
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    const token = await refreshAccessToken();
+    return Boolean(token);
+  }, []);
+
+  useEffect(() => {
+    setIsSessionExpiring(false);
+
+    if (!session || sessionExpiresAt === null) {
+      return;
+    }
+
+    const timeoutIds: number[] = [];
+
+    if (session.refreshToken) {
+      timeoutIds.push(
+        scheduleAt(sessionExpiresAt - REFRESH_LEAD_MS, () => {
+          void refreshAccessToken().then((token) => {
+            if (!token) {
+              setIsSessionExpiring(true);
+            }
+          });
+        }),
+      );
+    } else {
+      timeoutIds.push(
+        scheduleAt(sessionExpiresAt - EXPIRY_WARNING_LEAD_MS, () => {
+          setIsSessionExpiring(true);
+        }),
+        scheduleAt(sessionExpiresAt, logout),
+      );
+    }
+
+    return () => {
+      timeoutIds.forEach((timeoutId) => window.clearTimeout(timeoutId));
+    };
+  }, [session, sessionExpiresAt, logout]);
+
   const applyProfileUpdate = useCallback((payload: UpdateUserResponse) => {
-    setSession((current) => {
-      if (!current) {
-        return current;
-      }
+    const current = readStoredSession();
+    if (!current) {
+      return;
+    }
 
-      const nextSession: AuthSession = {
-        ...current,
-        user: {
-          ...current.user,
-          email: payload.email,
-          firstName: payload.firstName,
-          lastName: payload.lastName,
-          displayName: `${payload.firstName} ${payload.lastName}`.trim(),
-          role: payload.role,
-          mobileNumber: payload.mobileNumber ?? undefined,
-          avatarPath: payload.avatarPath ?? undefined,
-        },
-      };
+    const nextSession: AuthSession = {
+      ...current,
+      user: {
+        ...current.user,
+        email: payload.email,
+        firstName: payload.firstName,
+        lastName: payload.lastName,
+        displayName: `${payload.firstName} ${payload.lastName}`.trim(),
+        role: payload.role,
+        mobileNumber: payload.mobileNumber ?? undefined,
+        avatarPath: payload.avatarPath ?? undefined,
+      },
+    };
 
-      writeStoredSession(nextSession);
-      return nextSession;
-    });
+    writeStoredSession(nextSession);
   }, []);
 
   const value = useMemo<AuthContextValue>(
@@ -92,11 +166,24 @@ export function AuthProvider({ children }: Readonly<{ children: ReactNode }>) {
       session,
       isHydrated,
       isAuthenticated: Boolean(session?.token),
+      sessionExpiresAt,
+      isSessionExpiring,
+      canRefreshSession: Boolean(session?.refreshToken),
       login,
       logout,
+      refreshSession,
       applyProfileUpdate,
     }),
-    [session, isHydrated, login, logout, applyProfileUpdate],
+    [
+      session,
+      isHydrated,
+      sessionExpiresAt,
+      isSessionExpiring,
+      login,
+      logout,
+      refreshSession,
+      applyProfileUpdate,
+    ],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,80 @@
+import { useLocale } from "@/components/locale-provider";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  getCountryName,
+  inferIbanCountry,
+  type BankDetailsField,
+  type BankDetailsFieldErrors,
+} from "@/lib/validations/bank-details";
+import type { MessageKey } from "@/lib/i18n";
+import type { BankDetails } from "@/types/api";
+
+interface BankDetailsFieldsProps {
+  idPrefix: string;
+  value: BankDetails;
+  errors: BankDetailsFieldErrors;
+  onChange: (field: BankDetailsField, value: string) => void;
+  disabled?: boolean;
+}
+
+interface BankFieldConfig {
+  field: Exclude<BankDetailsField, "bankCountry">;
+  suffix: string;
+  label: MessageKey;
+  placeholder?: MessageKey;
+}
+
+const FIELDS: BankFieldConfig[] = [
+  { field: "accountHolderName", suffix: "holder", label: "bank.accountHolderName" },
+  { field: "bankName", suffix: "name", label: "bank.bankName" },
+  { field: "accountNumber", suffix: "account", label: "bank.accountNumber" },
+  {
+    field: "routingNumber",
+    suffix: "routing",
+    label: "bank.routingNumber",
+    placeholder: "bank.routingNumberPlaceholder",
+  },
+  { field: "iban", suffix: "iban", label: "bank.iban", placeholder: "bank.ibanPlaceholder" },
+  { field: "swiftCode", suffix: "swift", label: "bank.swiftCode", placeholder: "bank.swiftCodePlaceholder" },
+];
+
+export function BankDetailsFields({
+  idPrefix,
+  value,
+  errors,
+  onChange,
+  disabled,
+}: Readonly<BankDetailsFieldsProps>) {
+  const { locale, t } = useLocale();
+  const bankCountry = (value.iban ? inferIbanCountry(value.iban) : null) ?? value.bankCountry ?? null;
+
+  return (
+    <>
+      {FIELDS.map(({ field, suffix, label, placeholder }) => {
+        const inputId = `${idPrefix}-${suffix}`;
+        const error = errors[field];
+
+        return (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={inputId}>{t(label)}</Label>
+            <Input
+              id={inputId}
+              value={value[field]}
+              placeholder={placeholder ? t(placeholder) : undefined}
+              disabled={disabled}
+              aria-invalid={Boolean(error)}
+              onChange={(event) => onChange(field, event.target.value)}
+            />
+            {error ? <p className="text-xs text-destructive">{error}</p> : null}
+            {field === "iban" && !error && bankCountry ? (
+              <p className="text-xs text-muted-foreground">
+                {t("bank.country", { country: getCountryName(bankCountry, locale), code: bankCountry })}
+              </p>
+            ) : null}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import { useLocale } from "@/components/locale-provider";
+import type { ChartPoint } from "@/lib/analytics";
+
+interface BarChartProps {
+  data: ChartPoint[];
+  formatValue?: (value: number) => string;
+  emptyMessage?: string;
+}
+
+/** Vertical bars, one per point, scaled against the largest value. */
+export function ColumnChart({ data, formatValue, emptyMessage }: Readonly<BarChartProps>) {
+  const { formatNumber, t } = useLocale();
+  const format = formatValue ?? ((value: number) => formatNumber(value));
+  const maxValue = Math.max(0, ...data.map((point) => point.value));
+
+  if (maxValue === 0) {
+    return <p className="py-10 text-center text-sm text-muted-foreground">{emptyMessage ?? t("charts.empty")}</p>;
+  }
+
+  return (
+    <div className="flex h-48 items-end gap-1.5" role="img" aria-label={t("charts.columnChart")}>
+      {data.map((point) => (
+        <div key={point.label} className="flex h-full min-w-0 flex-1 flex-col items-center justify-end gap-1">
+          <div
+            className="w-full rounded-t-sm bg-emerald-500/80 dark:bg-emerald-400/70"
+            style={{ height: `${(point.value / maxValue) * 100}%` }}
+            title={`${point.label}: ${format(point.value)}`}
+          />
+          <span className="w-full truncate text-center text-[10px] text-muted-foreground">{point.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Horizontal bars with the label and value beside each bar. */
+export function BarList({ data, formatValue, emptyMessage }: Readonly<BarChartProps>) {
+  const { formatNumber, t } = useLocale();
+  const format = formatValue ?? ((value: number) => formatNumber(value));
+  const maxValue = Math.max(0, ...data.map((point) => point.value));
+
+  if (maxValue === 0) {
+    return <p className="py-10 text-center text-sm text-muted-foreground">{emptyMessage ?? t("charts.empty")}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {data.map((point) => (
+        <li key={point.label} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate">{point.label}</span>
+            <span className="font-medium">{format(point.value)}</span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-emerald-500/80 dark:bg-emerald-400/70"
+              style={{ width: `${(point.value / maxValue) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
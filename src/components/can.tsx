@@ -0,0 +1,28 @@
+import { useCallback, type ReactNode } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { can, type PermissionCheck } from "@/lib/permissions";
+
+export type CanFunction = (check: PermissionCheck, ownerId?: string) => boolean;
+
+export function useCan(): CanFunction {
+  const { session } = useAuth();
+  const role = session?.user.role;
+  const userId = session?.user.id ?? "";
+
+  return useCallback(
+    (check: PermissionCheck, ownerId?: string) => can(role, userId, check, ownerId),
+    [role, userId],
+  );
+}
+
+interface CanProps {
+  permission: PermissionCheck;
+  ownerId?: string;
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function Can({ permission, ownerId, fallback = null, children }: Readonly<CanProps>) {
+  const canAccess = useCan();
+  return <>{canAccess(permission, ownerId) ? children : fallback}</>;
+}
@@ -0,0 +1,59 @@
+import { useLocale } from "@/components/locale-provider";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+
+interface ConvertedAmountProps {
+  amount: number;
+  currency: string;
+  /** Empty to show the amount in its own currency. */
+  reportingCurrency: string;
+  convert: CurrencyConverter;
+  /** ISO date the rate must be effective on; defaults to today. */
+  asOf?: string;
+  maximumFractionDigits?: number;
+}
+
+/** Shows `amount` in the reporting currency, with the original amount and rate in a tooltip. */
+export function ConvertedAmount({
+  amount,
+  currency,
+  reportingCurrency,
+  convert,
+  asOf,
+  maximumFractionDigits,
+}: Readonly<ConvertedAmountProps>) {
+  const { t, formatCurrency, formatNumber } = useLocale();
+  const sourceCurrency = (currency || "USD").toUpperCase();
+  const original = formatCurrency(amount, sourceCurrency, maximumFractionDigits);
+
+  if (!reportingCurrency || reportingCurrency === sourceCurrency) {
+    return <>{original}</>;
+  }
+
+  const converted = convert(amount, sourceCurrency, reportingCurrency, asOf);
+  if (!converted) {
+    return (
+      <span
+        className="cursor-help text-muted-foreground"
+        title={t("currency.noRate", { from: sourceCurrency, to: reportingCurrency })}
+      >
+        {original}
+      </span>
+    );
+  }
+
+  const tooltip = [
+    t("currency.original", { amount: original }),
+    t("currency.rate", {
+      from: sourceCurrency,
+      to: reportingCurrency,
+      rate: formatNumber(converted.rate, { maximumSignificantDigits: 6 }),
+      date: converted.effectiveDate ?? "",
+    }),
+  ].join("\n");
+
+  return (
+    <span className="cursor-help underline decoration-dotted underline-offset-4" title={tooltip}>
+      {formatCurrency(converted.amount, reportingCurrency, maximumFractionDigits)}
+    </span>
+  );
+}
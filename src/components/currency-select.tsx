@@ -1,32 +1,50 @@
+import { useMemo, useState } from "react";
+import { Pin, PinOff } from "lucide-react";
+import {
+  DEFAULT_CURRENCY,
+  findCurrency,
+  readPinnedCurrencies,
+  writePinnedCurrencies,
+} from "@/lib/currencies";
+import { CURRENCIES, type CurrencyRecord } from "@/lib/currency-data";
+import { useLocale } from "@/components/locale-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Combobox,
+  ComboboxCollection,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxGroup,
+  ComboboxInput,
+  ComboboxItem,
+  ComboboxLabel,
+  ComboboxList,
+} from "@/components/ui/combobox";
+
 interface CurrencySelectProps {
   id?: string;
   name: string;
   value: string;
   onChange: (currency: string) => void;
   disabled?: boolean;
+  /** Allows clearing the selection, showing this text when empty, instead of defaulting to USD. */
   placeholder?: string;
 }
 
-const CURRENCIES = [
-  "USD",
-  "EUR",
-  "GBP",
-  "AED",
-  "SAR",
-  "INR",
-  "PKR",
-  "CAD",
-  "AUD",
-  "JPY",
-  "TRY",
-  "QAR",
-  "KWD",
-  "BHD",
-  "OMR",
-  "MYR",
-  "SGD",
-  "CHF",
-];
+interface CurrencyGroup {
+  value: string;
+  label: string;
+  items: CurrencyRecord[];
+}
+
+function formatCurrencyLabel(currency: CurrencyRecord): string {
+  return `${currency.code} — ${currency.name}`;
+}
+
+/** Keeps codes outside the registry, such as legacy project currencies, selectable as-is. */
+function toCurrencyRecord(code: string, unlistedName: string): CurrencyRecord {
+  return findCurrency(code) ?? { code, name: unlistedName, minorUnits: 2, symbol: code };
+}
 
 export function CurrencySelect({
   id,
@@ -34,23 +52,95 @@ export function CurrencySelect({
   value,
   onChange,
   disabled,
+  placeholder,
 }: Readonly<CurrencySelectProps>) {
-  const normalizedValue = (value || "USD").trim().toUpperCase();
+  const { t } = useLocale();
+  const unlistedName = t("currencySelect.unlisted");
+  const [pinnedCodes, setPinnedCodes] = useState(readPinnedCurrencies);
+  const fallback = placeholder === undefined ? DEFAULT_CURRENCY : "";
+  const normalizedValue = (value || fallback).trim().toUpperCase();
+  const selected = useMemo(
+    () => (normalizedValue ? toCurrencyRecord(normalizedValue, unlistedName) : null),
+    [normalizedValue, unlistedName],
+  );
+  const isPinned = Boolean(selected && pinnedCodes.includes(selected.code));
+
+  const groups = useMemo<CurrencyGroup[]>(() => {
+    const pinned = pinnedCodes.map((code) => toCurrencyRecord(code, unlistedName));
+    const others = CURRENCIES.filter((currency) => !pinnedCodes.includes(currency.code));
+    if (selected && !findCurrency(selected.code) && !pinnedCodes.includes(selected.code)) {
+      others.unshift(selected);
+    }
+
+    return [
+      { value: "pinned", label: t("currencySelect.pinned"), items: pinned },
+      { value: "all", label: t("currencySelect.all"), items: others },
+    ].filter((group) => group.items.length > 0);
+  }, [pinnedCodes, selected, t, unlistedName]);
+
+  function togglePinned() {
+    if (!selected) {
+      return;
+    }
+
+    const next = isPinned
+      ? pinnedCodes.filter((code) => code !== selected.code)
+      : [...pinnedCodes, selected.code];
+    writePinnedCurrencies(next);
+    setPinnedCodes(next);
+  }
 
   return (
-    <select
-      id={id}
-      name={name}
-      className="h-9 w-full rounded-md border bg-background px-3 text-sm"
-      value={normalizedValue}
-      onChange={(event) => onChange((event.target.value || "USD").toUpperCase())}
-      disabled={disabled}
-    >
-      {CURRENCIES.map((currencyCode) => (
-        <option key={currencyCode} value={currencyCode}>
-          {currencyCode}
-        </option>
-      ))}
-    </select>
+    <div className="flex items-center gap-1">
+      <Combobox
+        name={name}
+        items={groups}
+        value={selected}
+        onValueChange={(currency: CurrencyRecord | null) => onChange(currency?.code ?? fallback)}
+        itemToStringLabel={formatCurrencyLabel}
+        itemToStringValue={(currency: CurrencyRecord) => currency.code}
+        isItemEqualToValue={(currency, current) => currency.code === current.code}
+        disabled={disabled}
+      >
+        <ComboboxInput
+          id={id}
+          className="w-full min-w-0 flex-1"
+          placeholder={placeholder ?? t("currencySelect.search")}
+          disabled={disabled}
+          showClear={placeholder !== undefined && Boolean(selected)}
+        />
+        <ComboboxContent>
+          <ComboboxEmpty>{t("currencySelect.empty")}</ComboboxEmpty>
+          <ComboboxList>
+            {(group: CurrencyGroup) => (
+              <ComboboxGroup key={group.value} items={group.items}>
+                <ComboboxLabel>{group.label}</ComboboxLabel>
+                <ComboboxCollection>
+                  {(currency: CurrencyRecord) => (
+                    <ComboboxItem key={currency.code} value={currency}>
+                      <span className="w-10 font-medium">{currency.code}</span>
+                      <span className="flex-1 truncate">{currency.name}</span>
+                      <span className="text-xs text-muted-foreground">{currency.symbol}</span>
+                    </ComboboxItem>
+                  )}
+                </ComboboxCollection>
+              </ComboboxGroup>
+            )}
+          </ComboboxList>
+        </ComboboxContent>
+      </Combobox>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        disabled={disabled || !selected}
+        aria-pressed={isPinned}
+        title={isPinned ? t("currencySelect.unpin") : t("currencySelect.pinHint")}
+        onClick={togglePinned}
+      >
+        {isPinned ? <PinOff className="size-4" /> : <Pin className="size-4" />}
+        <span className="sr-only">{isPinned ? t("currencySelect.unpin") : t("currencySelect.pin")}</span>
+      </Button>
+    </div>
   );
 }
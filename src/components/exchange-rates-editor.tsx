@@ -0,0 +1,342 @@
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { extractApiErrorMessage, getExchangeRates, saveExchangeRates } from "@/lib/api";
+import { downloadCsv } from "@/lib/csv";
+import {
+  getExchangeRateKey,
+  normalizeExchangeRates,
+  parseExchangeRatesFile,
+  toIsoDate,
+  validateExchangeRate,
+} from "@/lib/exchange-rates";
+import { formatFileSize } from "@/lib/utils";
+import { useLocale } from "@/components/locale-provider";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ExchangeRate } from "@/types/api";
+
+const MAX_RATES_FILE_SIZE_BYTES = 2 * 1024 * 1024;
+
+interface ExchangeRateDraft {
+  key: number;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  effectiveDate: string;
+}
+
+interface ExchangeRatesEditorProps {
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function toExchangeRate(draft: ExchangeRateDraft): ExchangeRate {
+  return {
+    baseCurrency: draft.baseCurrency.trim().toUpperCase(),
+    quoteCurrency: draft.quoteCurrency.trim().toUpperCase(),
+    rate: draft.rate.trim() ? Number(draft.rate) : Number.NaN,
+    effectiveDate: draft.effectiveDate,
+  };
+}
+
+export function ExchangeRatesEditor({ onError, onSuccess }: Readonly<ExchangeRatesEditorProps>) {
+  const { locale, t } = useLocale();
+  const [drafts, setDrafts] = useState<ExchangeRateDraft[]>([]);
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const nextKeyRef = useRef(0);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  function toDrafts(rates: ExchangeRate[]): ExchangeRateDraft[] {
+    return rates.map((rate) => {
+      nextKeyRef.current += 1;
+      return { ...rate, key: nextKeyRef.current, rate: String(rate.rate) };
+    });
+  }
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadRates() {
+      try {
+        const rates = await getExchangeRates();
+        if (isActive) {
+          setDrafts(toDrafts(rates));
+        }
+      } catch (error) {
+        if (isActive) {
+          onErrorRef.current(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadRates();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  function updateDraft(key: number, field: keyof Omit<ExchangeRateDraft, "key">, value: string) {
+    setDrafts((current) => current.map((draft) => (draft.key === key ? { ...draft, [field]: value } : draft)));
+    setRowErrors((current) => {
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+  }
+
+  function addDraft() {
+    nextKeyRef.current += 1;
+    setDrafts((current) => [
+      ...current,
+      {
+        key: nextKeyRef.current,
+        baseCurrency: current.at(-1)?.baseCurrency ?? "USD",
+        quoteCurrency: "",
+        rate: "",
+        effectiveDate: toIsoDate(new Date()),
+      },
+    ]);
+  }
+
+  function removeDraft(key: number) {
+    setDrafts((current) => current.filter((draft) => draft.key !== key));
+  }
+
+  async function onFileSelected(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    setFileInputKey((current) => current + 1);
+    if (!file) {
+      return;
+    }
+
+    setUploadErrors([]);
+
+    if (!/\.(csv|json)$/i.test(file.name)) {
+      onError(t("exchangeRates.fileType"));
+      return;
+    }
+
+    if (file.size > MAX_RATES_FILE_SIZE_BYTES) {
+      onError(t("exchangeRates.fileSize", { size: formatFileSize(MAX_RATES_FILE_SIZE_BYTES) }));
+      return;
+    }
+
+    setIsReadingFile(true);
+
+    try {
+      const result = await parseExchangeRatesFile(file, locale);
+      setUploadErrors(result.errors);
+
+      if (result.rates.length > 0) {
+        // Uploaded rates replace drafts for the same pair and date; everything else is kept.
+        setDrafts((current) => {
+          const uploadedKeys = new Set(result.rates.map(getExchangeRateKey));
+          const kept = current.filter((draft) => !uploadedKeys.has(getExchangeRateKey(toExchangeRate(draft))));
+          return [...kept, ...toDrafts(result.rates)];
+        });
+        onSuccess(t("exchangeRates.loaded", { count: result.rates.length, name: file.name }));
+      }
+    } catch (error) {
+      onError(extractApiErrorMessage(error));
+    } finally {
+      setIsReadingFile(false);
+    }
+  }
+
+  function onDownloadRates() {
+    const rates = normalizeExchangeRates(drafts.map(toExchangeRate).filter((rate) => !validateExchangeRate(rate, locale)));
+    downloadCsv(`exchange-rates-${toIsoDate(new Date())}.csv`, [
+      ["baseCurrency", "quoteCurrency", "rate", "effectiveDate"],
+      ...rates.map((rate) => [rate.baseCurrency, rate.quoteCurrency, rate.rate, rate.effectiveDate]),
+    ]);
+  }
+
+  async function onSaveRates() {
+    const errors: Record<number, string> = {};
+    const rates = drafts.map((draft) => {
+      const rate = toExchangeRate(draft);
+      const error = validateExchangeRate(rate, locale);
+      if (error) {
+        errors[draft.key] = error;
+      }
+      return rate;
+    });
+
+    setRowErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      onError(t("exchangeRates.fixErrors"));
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const saved = await saveExchangeRates(rates);
+      setDrafts(toDrafts(saved));
+      setUploadErrors([]);
+      onSuccess(t("exchangeRates.saved"));
+    } catch (error) {
+      onError(extractApiErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const isBusy = isLoading || isReadingFile || isSaving;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("exchangeRates.title")}</CardTitle>
+        <CardDescription>{t("exchangeRates.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="exchange-rates-file">{t("exchangeRates.upload")}</Label>
+          <Input
+            key={fileInputKey}
+            id="exchange-rates-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            disabled={isBusy}
+            onChange={(event) => {
+              void onFileSelected(event);
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            {isReadingFile ? t("exchangeRates.readingFile") : t("exchangeRates.uploadHint")}
+          </p>
+          {uploadErrors.length > 0 ? (
+            <ul className="list-disc space-y-0.5 ps-5 text-xs text-destructive">
+              {uploadErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+
+        {isLoading ? <p className="text-sm text-muted-foreground">{t("exchangeRates.loading")}</p> : null}
+
+        {!isLoading && drafts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("exchangeRates.empty")}</p>
+        ) : null}
+
+        {drafts.length > 0 ? (
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-3 py-2 text-start font-medium">{t("exchangeRates.base")}</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("exchangeRates.quote")}</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("exchangeRates.rate")}</th>
+                  <th className="px-3 py-2 text-start font-medium">{t("exchangeRates.effectiveDate")}</th>
+                  <th className="px-3 py-2">
+                    <span className="sr-only">{t("projects.columnActions")}</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {drafts.map((draft) => (
+                  <tr key={draft.key} className="border-t align-top">
+                    <td className="px-3 py-2">
+                      <Input
+                        aria-label={t("exchangeRates.baseCurrency")}
+                        className="w-20 uppercase"
+                        maxLength={3}
+                        value={draft.baseCurrency}
+                        disabled={isSaving}
+                        onChange={(event) => updateDraft(draft.key, "baseCurrency", event.target.value)}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        aria-label={t("exchangeRates.quoteCurrency")}
+                        className="w-20 uppercase"
+                        maxLength={3}
+                        value={draft.quoteCurrency}
+                        disabled={isSaving}
+                        onChange={(event) => updateDraft(draft.key, "quoteCurrency", event.target.value)}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        aria-label={t("exchangeRates.rate")}
+                        className="w-32"
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={draft.rate}
+                        disabled={isSaving}
+                        onChange={(event) => updateDraft(draft.key, "rate", event.target.value)}
+                      />
+                      {rowErrors[draft.key] ? (
+                        <p className="mt-1 text-xs text-destructive">{rowErrors[draft.key]}</p>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        aria-label={t("exchangeRates.effectiveDate")}
+                        className="w-40"
+                        type="date"
+                        value={draft.effectiveDate}
+                        disabled={isSaving}
+                        onChange={(event) => updateDraft(draft.key, "effectiveDate", event.target.value)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-end">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={isSaving}
+                        onClick={() => removeDraft(draft.key)}
+                      >
+                        <Trash2 className="size-4" />
+                        <span className="sr-only">{t("exchangeRates.remove")}</span>
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" disabled={isBusy} onClick={addDraft}>
+            <Plus className="size-4" />
+            {t("exchangeRates.add")}
+          </Button>
+          <Button type="button" variant="outline" disabled={isBusy || drafts.length === 0} onClick={onDownloadRates}>
+            {t("exchangeRates.downloadCsv")}
+          </Button>
+          <Button
+            type="button"
+            disabled={isBusy}
+            onClick={() => {
+              void onSaveRates();
+            }}
+          >
+            {isSaving ? t("common.saving") : t("exchangeRates.save")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import { Check, Languages } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLocale } from "@/components/locale-provider";
+import { LOCALES, SUPPORTED_LOCALES } from "@/lib/i18n";
+
+export function LanguageToggle() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        render={
+          <Button variant="outline" size="icon">
+            <Languages className="h-[1.2rem] w-[1.2rem]" />
+            <span className="sr-only">{t("language.toggle")}</span>
+          </Button>
+        }
+      />
+      <DropdownMenuContent align="end">
+        {SUPPORTED_LOCALES.map((option) => (
+          <DropdownMenuItem key={option} lang={option} dir={LOCALES[option].dir} onClick={() => setLocale(option)}>
+            {LOCALES[option].label}
+            {option === locale ? <Check className="ms-auto size-4" /> : null}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,96 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_STORAGE_KEY,
+  formatCurrency,
+  formatDateTime,
+  formatNumber,
+  isLocale,
+  translate,
+  type Locale,
+  type TextDirection,
+  type Translate,
+} from "@/lib/i18n";
+
+type LocaleProviderProps = {
+  children: React.ReactNode;
+  defaultLocale?: Locale;
+  storageKey?: string;
+};
+
+type LocaleProviderState = {
+  locale: Locale;
+  dir: TextDirection;
+  /** BCP 47 tag for `Intl` APIs not covered by the helpers below. */
+  intlLocale: string;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatCurrency: (amount: number, currency: string, maximumFractionDigits?: number) => string;
+  formatDateTime: (value: string, options?: Intl.DateTimeFormatOptions) => string;
+};
+
+function createLocaleState(locale: Locale, setLocale: (locale: Locale) => void): LocaleProviderState {
+  return {
+    locale,
+    dir: LOCALES[locale].dir,
+    intlLocale: LOCALES[locale].intlLocale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: (value, options) => formatNumber(value, locale, options),
+    formatCurrency: (amount, currency, maximumFractionDigits) =>
+      formatCurrency(amount, currency, locale, maximumFractionDigits),
+    formatDateTime: (value, options) => formatDateTime(value, locale, options),
+  };
+}
+
+const LocaleProviderContext = createContext<LocaleProviderState>(createLocaleState(DEFAULT_LOCALE, () => null));
+
+export function LocaleProvider({
+  children,
+  defaultLocale = DEFAULT_LOCALE,
+  storageKey = LOCALE_STORAGE_KEY,
+  ...props
+}: LocaleProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(defaultLocale);
+  const [hasReadStoredLocale, setHasReadStoredLocale] = useState(false);
+
+  // The server always renders the default locale, so the stored one is only read after hydration.
+  // The pre-hydration script in the root route has already applied its `lang` and `dir`.
+  useEffect(() => {
+    const stored = localStorage.getItem(storageKey);
+    if (isLocale(stored)) {
+      setLocaleState(stored);
+    }
+    setHasReadStoredLocale(true);
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!hasReadStoredLocale) {
+      return;
+    }
+
+    const root = window.document.documentElement;
+    root.lang = locale;
+    root.dir = LOCALES[locale].dir;
+  }, [hasReadStoredLocale, locale]);
+
+  const setLocale = useCallback(
+    (nextLocale: Locale) => {
+      localStorage.setItem(storageKey, nextLocale);
+      setLocaleState(nextLocale);
+    },
+    [storageKey],
+  );
+
+  const value = useMemo(() => createLocaleState(locale, setLocale), [locale, setLocale]);
+
+  return (
+    <LocaleProviderContext.Provider {...props} value={value}>
+      {children}
+    </LocaleProviderContext.Provider>
+  );
+}
+
+export const useLocale = () => useContext(LocaleProviderContext);
@@ -0,0 +1,81 @@
+import { useMemo, useState } from "react";
+import { useLocale } from "@/components/locale-provider";
+import type { LocationOption } from "@/lib/locations";
+import {
+  Combobox,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxInput,
+  ComboboxItem,
+  ComboboxList,
+} from "@/components/ui/combobox";
+
+interface LocationComboboxProps {
+  id?: string;
+  options: readonly LocationOption[];
+  value: LocationOption | null;
+  onChange: (option: LocationOption | null) => void;
+  placeholder?: string;
+  /** Offers the typed text as an extra option when it matches nothing in the list. */
+  allowCustomValue?: boolean;
+  disabled?: boolean;
+  invalid?: boolean;
+}
+
+export function LocationCombobox({
+  id,
+  options,
+  value,
+  onChange,
+  placeholder,
+  allowCustomValue = false,
+  disabled = false,
+  invalid = false,
+}: Readonly<LocationComboboxProps>) {
+  const { t } = useLocale();
+  const [query, setQuery] = useState("");
+
+  const items = useMemo(() => {
+    const typed = query.trim();
+    if (
+      !allowCustomValue ||
+      !typed ||
+      options.some((option) => option.name.toLowerCase() === typed.toLowerCase())
+    ) {
+      return options;
+    }
+
+    return [...options, { code: "", name: typed }];
+  }, [allowCustomValue, options, query]);
+
+  return (
+    <Combobox
+      items={items}
+      value={value}
+      onValueChange={(option) => onChange(option)}
+      onInputValueChange={setQuery}
+      itemToStringLabel={(option) => option.name}
+      isItemEqualToValue={(option, selected) => option.code === selected.code && option.name === selected.name}
+      disabled={disabled}
+    >
+      <ComboboxInput
+        id={id}
+        className="w-full"
+        placeholder={placeholder}
+        disabled={disabled}
+        aria-invalid={invalid}
+        showClear={Boolean(value)}
+      />
+      <ComboboxContent>
+        <ComboboxEmpty>{t("location.noMatches")}</ComboboxEmpty>
+        <ComboboxList>
+          {(option: LocationOption) => (
+            <ComboboxItem key={`${option.code}:${option.name}`} value={option}>
+              {option.code ? option.name : t("location.useCustom", { name: option.name })}
+            </ComboboxItem>
+          )}
+        </ComboboxList>
+      </ComboboxContent>
+    </Combobox>
+  );
+}
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { RotateCcw, X } from "lucide-react";
+import {
+  extractApiErrorMessage,
+  uploadProjectMediaFile,
+  uploadProjectMediaResumable,
+  type ProjectMediaKind,
+} from "@/lib/api";
+import { cn, formatFileSize } from "@/lib/utils";
+import { useLocale } from "@/components/locale-provider";
+import { Button } from "@/components/ui/button";
+import type { Project } from "@/types/api";
+
+export type MediaUploadStatus = "queued" | "uploading" | "succeeded" | "failed" | "cancelled";
+
+export interface MediaUploadItem {
+  id: string;
+  fileName: string;
+  size: number;
+  kind: ProjectMediaKind;
+  status: MediaUploadStatus;
+  sentBytes: number;
+  errorMessage: string | null;
+}
+
+export interface MediaUploadRequest {
+  file: File;
+  kind: ProjectMediaKind;
+}
+
+export interface MediaUploadSummary {
+  succeeded: number;
+  total: number;
+}
+
+interface MediaUploadJob extends MediaUploadRequest {
+  projectId: string;
+  uploadId: string | null;
+  controller: AbortController | null;
+  cancelled: boolean;
+}
+
+let nextUploadId = 0;
+
+/**
+ * Uploads project media one file at a time with per-file progress, cancel and retry.
+ * Videos go through resumable chunked uploads, so retrying one continues where it stopped.
+ * `onUploaded` receives the refreshed project after every successful file.
+ */
+export function useMediaUploadQueue(onUploaded?: (project: Project) => void) {
+  const [items, setItems] = useState<MediaUploadItem[]>([]);
+  const jobsRef = useRef(new Map<string, MediaUploadJob>());
+  const onUploadedRef = useRef(onUploaded);
+
+  useEffect(() => {
+    onUploadedRef.current = onUploaded;
+  }, [onUploaded]);
+
+  useEffect(() => {
+    const jobs = jobsRef.current;
+    return () => {
+      jobs.forEach((job) => job.controller?.abort());
+    };
+  }, []);
+
+  const patchItem = useCallback((id: string, patch: Partial<MediaUploadItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const runJob = useCallback(
+    async (id: string): Promise<boolean> => {
+      const job = jobsRef.current.get(id);
+      if (!job) {
+        return false;
+      }
+
+      const controller = new AbortController();
+      job.controller = controller;
+      job.cancelled = false;
+      patchItem(id, { status: "uploading", errorMessage: null });
+
+      const progressOptions = {
+        signal: controller.signal,
+        onProgress: (sentBytes: number) => {
+          patchItem(id, { sentBytes: Math.min(sentBytes, job.file.size) });
+        },
+      };
+
+      try {
+        const project =
+          job.kind === "video"
+            ? await uploadProjectMediaResumable(job.projectId, job.file, job.kind, {
+                ...progressOptions,
+                uploadId: job.uploadId,
+                onUploadId: (uploadId) => {
+                  job.uploadId = uploadId;
+                },
+              })
+            : await uploadProjectMediaFile(job.projectId, job.file, job.kind, progressOptions);
+
+        patchItem(id, { status: "succeeded", sentBytes: job.file.size });
+        onUploadedRef.current?.(project);
+        return true;
+      } catch (error) {
+        patchItem(
+          id,
+          controller.signal.aborted
+            ? { status: "cancelled" }
+            : { status: "failed", errorMessage: extractApiErrorMessage(error) },
+        );
+        return false;
+      } finally {
+        job.controller = null;
+      }
+    },
+    [patchItem],
+  );
+
+  const uploadAll = useCallback(
+    async (projectId: string, requests: MediaUploadRequest[]): Promise<MediaUploadSummary> => {
+      const queued = requests.map((request) => {
+        nextUploadId += 1;
+        const id = `upload-${nextUploadId}`;
+        jobsRef.current.set(id, { ...request, projectId, uploadId: null, controller: null, cancelled: false });
+
+        return {
+          id,
+          fileName: request.file.name,
+          size: request.file.size,
+          kind: request.kind,
+          status: "queued" as const,
+          sentBytes: 0,
+          errorMessage: null,
+        };
+      });
+
+      setItems((current) => [...current, ...queued]);
+
+      let succeeded = 0;
+      for (const { id } of queued) {
+        if (jobsRef.current.get(id)?.cancelled) {
+          continue;
+        }
+
+        if (await runJob(id)) {
+          succeeded += 1;
+        }
+      }
+
+      return { succeeded, total: queued.length };
+    },
+    [runJob],
+  );
+
+  const cancel = useCallback(
+    (id: string) => {
+      const job = jobsRef.current.get(id);
+      if (!job) {
+        return;
+      }
+
+      job.cancelled = true;
+      if (job.controller) {
+        job.controller.abort();
+      } else {
+        patchItem(id, { status: "cancelled" });
+      }
+    },
+    [patchItem],
+  );
+
+  const clearFinished = useCallback(() => {
+    setItems((current) => {
+      const finished = current.filter((item) => item.status === "succeeded");
+      finished.forEach((item) => jobsRef.current.delete(item.id));
+      return current.filter((item) => item.status !== "succeeded");
+    });
+  }, []);
+
+  const isUploading = items.some((item) => item.status === "queued" || item.status === "uploading");
+
+  return { items, isUploading, uploadAll, retry: runJob, cancel, clearFinished };
+}
+
+interface MediaUploadListProps {
+  items: MediaUploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+export function MediaUploadList({ items, onCancel, onRetry }: Readonly<MediaUploadListProps>) {
+  const { t } = useLocale();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => {
+        const percent = item.size > 0 ? Math.round((item.sentBytes / item.size) * 100) : 100;
+        const canCancel = item.status === "queued" || item.status === "uploading";
+        const canRetry = item.status === "failed" || item.status === "cancelled";
+
+        return (
+          <li key={item.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{item.fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {t("mediaUpload.progress", {
+                    status: t(`mediaUpload.${item.status}`),
+                    sent: formatFileSize(item.sentBytes),
+                    total: formatFileSize(item.size),
+                    percent,
+                  })}
+                </p>
+              </div>
+              {canCancel ? (
+                <Button
+                  type="button"
+                  size="icon-sm"
+                  variant="ghost"
+                  aria-label={t("mediaUpload.cancel", { name: item.fileName })}
+                  onClick={() => onCancel(item.id)}
+                >
+                  <X className="size-4" />
+                </Button>
+              ) : null}
+              {canRetry ? (
+                <Button
+                  type="button"
+                  size="icon-sm"
+                  variant="ghost"
+                  aria-label={t("mediaUpload.retry", { name: item.fileName })}
+                  onClick={() => onRetry(item.id)}
+                >
+                  <RotateCcw className="size-4" />
+                </Button>
+              ) : null}
+            </div>
+            <div
+              className="h-2 overflow-hidden rounded-full bg-muted"
+              role="progressbar"
+              aria-label={t("mediaUpload.progressLabel", { name: item.fileName })}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+            >
+              <div
+                className={cn(
+                  "h-full rounded-full transition-[width]",
+                  item.status === "failed" ? "bg-destructive" : "bg-primary",
+                  item.status === "cancelled" && "bg-muted-foreground/40",
+                )}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            {item.errorMessage ? <p className="text-xs text-destructive">{item.errorMessage}</p> : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
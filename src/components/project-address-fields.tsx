@@ -0,0 +1,205 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Controller, useFieldArray, type Control, type FieldErrors } from "react-hook-form";
+import {
+  COUNTRY_OPTIONS,
+  getCityNames,
+  getSubdivisions,
+  type LocationOption,
+} from "@/lib/locations";
+import {
+  EMPTY_PROJECT_ADDRESS,
+  MAX_PROJECT_ADDRESSES,
+  type CreateProjectFormInput,
+  type CreateProjectFormValues,
+  type ProjectAddressFormValues,
+} from "@/lib/validations/project";
+import { useLocale } from "@/components/locale-provider";
+import { LocationCombobox } from "@/components/location-combobox";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+interface ProjectAddressFieldsProps {
+  idPrefix: string;
+  control: Control<CreateProjectFormInput, unknown, CreateProjectFormValues>;
+  errors: FieldErrors<CreateProjectFormInput>;
+  disabled?: boolean;
+}
+
+interface AddressPickersProps {
+  idPrefix: string;
+  value: ProjectAddressFormValues;
+  onChange: (value: ProjectAddressFormValues) => void;
+  errors?: Partial<Record<keyof ProjectAddressFormValues, { message?: string }>>;
+  disabled: boolean;
+}
+
+function toOption(name: string, code: string): LocationOption | null {
+  return name ? { code, name } : null;
+}
+
+function FieldError({ message }: Readonly<{ message?: string }>) {
+  return message ? <p className="text-xs text-destructive">{message}</p> : null;
+}
+
+/** Country → state → city pickers; changing a level clears the levels below it. */
+function AddressPickers({ idPrefix, value, onChange, errors, disabled }: Readonly<AddressPickersProps>) {
+  const { t } = useLocale();
+  const subdivisions = getSubdivisions(value.countryCode);
+  const stateOptions = subdivisions.map(({ code, name }) => ({ code, name }));
+  const cityOptions = getCityNames(value.countryCode, value.stateCode).map((name) => ({ code: name, name }));
+  const hasCountry = Boolean(value.country);
+
+  return (
+    <>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-country`}>{t("address.country")}</Label>
+        <LocationCombobox
+          id={`${idPrefix}-country`}
+          options={COUNTRY_OPTIONS}
+          value={toOption(value.country, value.countryCode)}
+          placeholder={t("address.searchCountries")}
+          disabled={disabled}
+          invalid={Boolean(errors?.country)}
+          onChange={(option) => {
+            if (option?.code === value.countryCode && option?.name === value.country) {
+              return;
+            }
+
+            onChange({
+              ...EMPTY_PROJECT_ADDRESS,
+              country: option?.name ?? "",
+              countryCode: option?.code ?? "",
+            });
+          }}
+        />
+        <FieldError message={errors?.country?.message} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-state`}>{t("address.state")}</Label>
+        <LocationCombobox
+          id={`${idPrefix}-state`}
+          options={stateOptions}
+          value={toOption(value.state, value.stateCode)}
+          placeholder={t(subdivisions.length > 0 ? "address.searchStates" : "address.typeState")}
+          allowCustomValue={subdivisions.length === 0}
+          disabled={disabled || !hasCountry}
+          invalid={Boolean(errors?.state)}
+          onChange={(option) => {
+            const state = option?.name ?? "";
+            const stateCode = option?.code ?? "";
+            onChange({
+              ...value,
+              state,
+              stateCode,
+              city: stateCode === value.stateCode && state === value.state ? value.city : "",
+            });
+          }}
+        />
+        <FieldError message={errors?.state?.message} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-city`}>{t("address.city")}</Label>
+        <LocationCombobox
+          id={`${idPrefix}-city`}
+          options={cityOptions}
+          value={toOption(value.city, value.city)}
+          placeholder={t("address.searchCity")}
+          allowCustomValue
+          disabled={disabled || !hasCountry}
+          invalid={Boolean(errors?.city)}
+          onChange={(option) => onChange({ ...value, city: option?.name ?? "" })}
+        />
+        <FieldError message={errors?.city?.message} />
+      </div>
+    </>
+  );
+}
+
+export function ProjectAddressFields({
+  idPrefix,
+  control,
+  errors,
+  disabled = false,
+}: Readonly<ProjectAddressFieldsProps>) {
+  const { t } = useLocale();
+  const { fields, append, remove, move } = useFieldArray({ control, name: "addresses" });
+  const listError = errors.addresses?.message ?? errors.addresses?.root?.message;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">{t("address.title")}</p>
+          <p className="text-xs text-muted-foreground">{t("address.description")}</p>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={disabled || fields.length >= MAX_PROJECT_ADDRESSES}
+          onClick={() => append({ ...EMPTY_PROJECT_ADDRESS })}
+        >
+          <Plus className="size-4" />
+          {t("address.add")}
+        </Button>
+      </div>
+
+      {fields.length === 0 ? <p className="text-sm text-muted-foreground">{t("address.empty")}</p> : null}
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="grid gap-3 rounded-md border p-3 sm:grid-cols-[repeat(3,minmax(0,1fr))_auto]">
+          <Controller
+            name={`addresses.${index}`}
+            control={control}
+            render={({ field: addressField }) => (
+              <AddressPickers
+                idPrefix={`${idPrefix}-address-${index}`}
+                value={addressField.value}
+                onChange={addressField.onChange}
+                errors={errors.addresses?.[index]}
+                disabled={disabled}
+              />
+            )}
+          />
+
+          <div className="flex items-start gap-1 sm:pt-6">
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              aria-label={t("address.moveUp", { index: index + 1 })}
+              disabled={disabled || index === 0}
+              onClick={() => move(index, index - 1)}
+            >
+              <ArrowUp className="size-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              aria-label={t("address.moveDown", { index: index + 1 })}
+              disabled={disabled || index === fields.length - 1}
+              onClick={() => move(index, index + 1)}
+            >
+              <ArrowDown className="size-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              aria-label={t("address.remove", { index: index + 1 })}
+              disabled={disabled}
+              onClick={() => remove(index)}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {listError ? <p className="text-xs text-destructive">{listError}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState } from "react";
+import { extractApiErrorMessage, getProjectDonations, reconcileProjectRaisedAmount } from "@/lib/api";
+import {
+  getDonationStatusBadgeVariant,
+  getDonationStatusLabel,
+  getDonorLabel,
+  getRaisedAmountDiscrepancy,
+  summarizeDonations,
+} from "@/lib/donations";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Donation, Project } from "@/types/api";
+import { useLocale } from "@/components/locale-provider";
+
+interface ProjectDonationsPanelProps {
+  project: Project;
+  canReconcile: boolean;
+  onProjectUpdated: (project: Project) => void;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+export function ProjectDonationsPanel({
+  project,
+  canReconcile,
+  onProjectUpdated,
+  onError,
+  onSuccess,
+}: Readonly<ProjectDonationsPanelProps>) {
+  const { locale, t, formatCurrency, formatDateTime } = useLocale();
+  const [donations, setDonations] = useState<Donation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isConfirmingReconcile, setIsConfirmingReconcile] = useState(false);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  const loadDonations = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+
+    try {
+      setDonations(await getProjectDonations(project.id));
+    } catch (error) {
+      const message = extractApiErrorMessage(error);
+      setDonations([]);
+      setLoadError(message);
+      onError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError, project.id]);
+
+  useEffect(() => {
+    void loadDonations();
+  }, [loadDonations]);
+
+  const summary = summarizeDonations(donations, project.currency);
+  const discrepancy = getRaisedAmountDiscrepancy(project.raisedAmount, summary.settledTotal, project.currency);
+  // Without the full donation list in the project currency the settled total would understate raisedAmount.
+  const isSummaryUnavailable = isLoading || loadError !== null;
+  const reconcileBlockedReason = loadError
+    ? t("donationsPanel.reconcileLoadFailed")
+    : !isLoading && summary.otherCurrencyCount > 0
+      ? t("donationsPanel.reconcileOtherCurrency")
+      : null;
+
+  async function confirmReconcile() {
+    setIsReconciling(true);
+
+    try {
+      const updated = await reconcileProjectRaisedAmount(project.id, summary.settledTotal);
+      onProjectUpdated(updated);
+      setIsConfirmingReconcile(false);
+      onSuccess(t("donationsPanel.reconciled", { amount: formatCurrency(updated.raisedAmount, updated.currency) }));
+    } catch (error) {
+      onError(extractApiErrorMessage(error));
+    } finally {
+      setIsReconciling(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <AlertDialog
+        open={isConfirmingReconcile}
+        onOpenChange={(open) => {
+          if (!open && !isReconciling) {
+            setIsConfirmingReconcile(false);
+          }
+        }}
+      >
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("donationsPanel.reconcile")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("donationsPanel.reconcileConfirm", {
+                from: formatCurrency(project.raisedAmount, project.currency),
+                to: formatCurrency(summary.settledTotal, project.currency),
+                count: summary.settledCount,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReconciling}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isReconciling}
+              onClick={() => {
+                void confirmReconcile();
+              }}
+            >
+              {isReconciling ? t("common.saving") : t("donationsPanel.reconcileAction")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">{t("donationsPanel.donations")}</p>
+          <p className="font-medium">{isSummaryUnavailable ? "-" : summary.donationCount}</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">{t("donationsPanel.succeededTotal")}</p>
+          <p className="font-medium">{isSummaryUnavailable ? "-" : formatCurrency(summary.settledTotal, project.currency)}</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">{t("donationsPanel.recordedRaised")}</p>
+          <p className="font-medium">{formatCurrency(project.raisedAmount, project.currency)}</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">{t("donationsPanel.difference")}</p>
+          <p className={discrepancy === 0 || isSummaryUnavailable ? "font-medium" : "font-medium text-destructive"}>
+            {isSummaryUnavailable ? "-" : formatCurrency(discrepancy, project.currency)}
+          </p>
+        </div>
+      </div>
+
+      {!isLoading && summary.otherCurrencyCount > 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {t("donationsPanel.otherCurrency", {
+            count: summary.otherCurrencyCount,
+            currency: (project.currency || "USD").toUpperCase(),
+          })}
+        </p>
+      ) : null}
+
+      {canReconcile ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading || isReconciling || reconcileBlockedReason !== null || discrepancy === 0}
+            onClick={() => setIsConfirmingReconcile(true)}
+          >
+            {t("donationsPanel.reconcile")}
+          </Button>
+          {loadError ? (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                void loadDonations();
+              }}
+            >
+              {t("donationsPanel.retry")}
+            </Button>
+          ) : null}
+          {reconcileBlockedReason ? (
+            <p className="text-xs text-muted-foreground">{reconcileBlockedReason}</p>
+          ) : !isLoading && discrepancy === 0 ? (
+            <p className="text-xs text-muted-foreground">{t("donationsPanel.matches")}</p>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="rounded-md border">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-3 py-2 text-start font-medium">{t("donations.columnDonor")}</th>
+                <th className="px-3 py-2 text-start font-medium">{t("donations.columnAmount")}</th>
+                <th className="px-3 py-2 text-start font-medium">{t("donations.columnDate")}</th>
+                <th className="px-3 py-2 text-start font-medium">{t("donations.paymentStatus")}</th>
+                <th className="px-3 py-2 text-start font-medium">{t("donations.columnReference")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td className="px-3 py-8 text-center text-muted-foreground" colSpan={5}>
+                    {t("overview.loadingDonations")}
+                  </td>
+                </tr>
+              ) : loadError ? (
+                <tr>
+                  <td className="px-3 py-8 text-center text-destructive" colSpan={5}>
+                    {loadError}
+                  </td>
+                </tr>
+              ) : donations.length === 0 ? (
+                <tr>
+                  <td className="px-3 py-8 text-center text-muted-foreground" colSpan={5}>
+                    {t("donationsPanel.empty")}
+                  </td>
+                </tr>
+              ) : (
+                donations.map((donation) => (
+                  <tr key={donation.id} className="border-t">
+                    <td className="px-3 py-3">{getDonorLabel(donation, locale)}</td>
+                    <td className="px-3 py-3">{formatCurrency(donation.amount, donation.currency)}</td>
+                    <td className="px-3 py-3">{formatDateTime(donation.donatedAt)}</td>
+                    <td className="px-3 py-3">
+                      <Badge variant={getDonationStatusBadgeVariant(donation.paymentStatus)}>
+                        {getDonationStatusLabel(donation.paymentStatus, locale)}
+                      </Badge>
+                    </td>
+                    <td className="px-3 py-3">
+                      {donation.paymentReference ? (
+                        <code className="text-xs">{donation.paymentReference}</code>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { useLocale } from "@/components/locale-provider";
+import { ProjectLifecycleBadge } from "@/components/project-lifecycle-badge";
+import {
+  getDaysRemaining,
+  getDaysUntilStart,
+  getFundingRatio,
+  getProjectLifecycle,
+  isAcceptingDonations,
+} from "@/lib/project-lifecycle";
+import type { Translate } from "@/lib/i18n";
+import type { Project } from "@/types/api";
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+function describeTimeline(project: Project, now: Date, t: Translate): string {
+  const lifecycle = getProjectLifecycle(project, now);
+  const daysRemaining = getDaysRemaining(project, now);
+
+  switch (lifecycle) {
+    case null:
+      return t("funding.startsOnApproval");
+    case "upcoming":
+      return t("funding.startsIn", { count: getDaysUntilStart(project, now) ?? 0 });
+    case "ended":
+      return t("funding.ended");
+    case "funded":
+      if (!isAcceptingDonations(project, now)) {
+        return t(project.autoCloseOnTarget ? "funding.autoClosed" : "funding.fundedAndEnded");
+      }
+      return daysRemaining === null
+        ? t("funding.fundedAccepting")
+        : t("funding.fundedAcceptingFor", { count: daysRemaining });
+    case "live":
+    default:
+      return daysRemaining === null ? t("funding.noEndDate") : t("funding.daysLeft", { count: daysRemaining });
+  }
+}
+
+/** Raised-versus-target bar with the project's lifecycle and a days-remaining countdown. */
+export function ProjectFundingProgress({ project }: Readonly<{ project: Project }>) {
+  const { t, formatCurrency, formatNumber } = useLocale();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => {
+      setNow(new Date());
+    }, REFRESH_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, []);
+
+  const ratio = getFundingRatio(project);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold">{t("funding.title")}</h3>
+          <ProjectLifecycleBadge state={getProjectLifecycle(project, now)} />
+        </div>
+        <p className="text-sm text-muted-foreground">{describeTimeline(project, now, t)}</p>
+      </div>
+      <div
+        className="h-2 overflow-hidden rounded-full bg-muted"
+        role="progressbar"
+        aria-label={t("funding.progressLabel")}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.min(100, Math.round(ratio * 100))}
+      >
+        <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+      </div>
+      <p className="text-sm">
+        <span className="font-medium">{formatCurrency(project.raisedAmount, project.currency)}</span>
+        <span className="text-muted-foreground">
+          {" "}
+          {t("funding.ofTarget", {
+            target: formatCurrency(project.targetAmount, project.currency),
+            percent: formatNumber(ratio, { style: "percent", maximumFractionDigits: 0 }),
+          })}
+        </span>
+      </p>
+    </div>
+  );
+}
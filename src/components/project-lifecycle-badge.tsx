@@ -0,0 +1,18 @@
+import { useLocale } from "@/components/locale-provider";
+import { Badge } from "@/components/ui/badge";
+import { getLifecycleBadgeVariant } from "@/lib/project-lifecycle";
+import type { ProjectLifecycleState } from "@/types/api";
+
+/** Renders nothing for projects without a lifecycle, i.e. those not yet approved. */
+export function ProjectLifecycleBadge({ state }: Readonly<{ state: ProjectLifecycleState | null }>) {
+  const { t } = useLocale();
+  if (!state) {
+    return null;
+  }
+
+  return (
+    <Badge variant={getLifecycleBadgeVariant(state)}>
+      {t(`projectLifecycle.${state}` as const)}
+    </Badge>
+  );
+}
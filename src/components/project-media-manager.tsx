@@ -0,0 +1,297 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { ArrowLeft, ArrowRight, GripVertical, Star, Trash2 } from "lucide-react";
+import {
+  extractApiErrorMessage,
+  reorderProjectImages,
+  resolveAssetUrl,
+  setProjectCoverImage,
+  updateProjectImageDetails,
+} from "@/lib/api";
+import {
+  MAX_IMAGE_ALT_TEXT_LENGTH,
+  MAX_IMAGE_CAPTION_LENGTH,
+  getProjectCoverImage,
+  getProjectImageAltText,
+  moveProjectImage,
+  sortProjectImages,
+} from "@/lib/project-media";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/components/locale-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ProjectImage } from "@/types/api";
+
+interface ImageDetailsDraft {
+  caption: string;
+  altText: string;
+}
+
+interface ProjectMediaManagerProps {
+  projectId: string;
+  images: ProjectImage[];
+  disabled?: boolean;
+  onImagesChange: (images: ProjectImage[]) => void;
+  onDelete: (image: ProjectImage) => void;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function toDraft(image: ProjectImage): ImageDetailsDraft {
+  return { caption: image.caption ?? "", altText: image.altText ?? "" };
+}
+
+/**
+ * Lists uploaded images in their saved order. Images can be dragged (or moved with the
+ * arrow buttons) to reorder them, marked as the cover, and given a caption and alt text.
+ * Order and cover changes are applied optimistically and rolled back if saving fails.
+ */
+export function ProjectMediaManager({
+  projectId,
+  images,
+  disabled = false,
+  onImagesChange,
+  onDelete,
+  onError,
+  onSuccess,
+}: Readonly<ProjectMediaManagerProps>) {
+  const { t, formatNumber } = useLocale();
+  const orderedImages = useMemo(() => sortProjectImages(images), [images]);
+  const coverImageId = getProjectCoverImage(images)?.id ?? null;
+
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, ImageDetailsDraft>>({});
+  const [busyImageId, setBusyImageId] = useState<string | null>(null);
+  const [isReordering, setIsReordering] = useState(false);
+
+  const isBusy = disabled || isReordering || busyImageId !== null;
+
+  async function onMove(fromIndex: number, toIndex: number) {
+    if (fromIndex === toIndex || toIndex < 0 || toIndex >= orderedImages.length) {
+      return;
+    }
+
+    const previous = images;
+    const next = moveProjectImage(orderedImages, fromIndex, toIndex);
+    onImagesChange(next);
+    setIsReordering(true);
+
+    try {
+      await reorderProjectImages(projectId, next);
+    } catch (error) {
+      onImagesChange(previous);
+      onError(extractApiErrorMessage(error));
+    } finally {
+      setIsReordering(false);
+    }
+  }
+
+  async function onSetCover(image: ProjectImage) {
+    const previous = images;
+    onImagesChange(images.map((item) => ({ ...item, isCover: item.id === image.id })));
+    setBusyImageId(image.id);
+
+    try {
+      await setProjectCoverImage(projectId, image);
+      onSuccess(t("mediaManager.coverSet", { name: image.fileName }));
+    } catch (error) {
+      onImagesChange(previous);
+      onError(extractApiErrorMessage(error));
+    } finally {
+      setBusyImageId(null);
+    }
+  }
+
+  async function onSaveDetails(image: ProjectImage) {
+    const draft = drafts[image.id] ?? toDraft(image);
+    setBusyImageId(image.id);
+
+    try {
+      const updated = await updateProjectImageDetails(image, draft);
+      onImagesChange(images.map((item) => (item.id === image.id ? updated : item)));
+      setDrafts((current) => {
+        const { [image.id]: _saved, ...rest } = current;
+        return rest;
+      });
+      onSuccess(t("mediaManager.detailsSaved"));
+    } catch (error) {
+      onError(extractApiErrorMessage(error));
+    } finally {
+      setBusyImageId(null);
+    }
+  }
+
+  function setDraftField(image: ProjectImage, field: keyof ImageDetailsDraft, value: string) {
+    setDrafts((current) => ({
+      ...current,
+      [image.id]: { ...(current[image.id] ?? toDraft(image)), [field]: value },
+    }));
+  }
+
+  // The manager sits inside the project form; Enter saves these details instead of submitting it.
+  function onDetailsKeyDown(event: KeyboardEvent<HTMLInputElement>, image: ProjectImage) {
+    if (event.key !== "Enter") {
+      return;
+    }
+
+    event.preventDefault();
+    if (!isBusy) {
+      void onSaveDetails(image);
+    }
+  }
+
+  if (orderedImages.length === 0) {
+    return <p className="text-xs text-muted-foreground">{t("mediaManager.empty")}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{t("mediaManager.hint")}</p>
+      <ul className="grid gap-3 sm:grid-cols-2">
+        {orderedImages.map((image, index) => {
+          const draft = drafts[image.id] ?? toDraft(image);
+          const isDirty = draft.caption !== (image.caption ?? "") || draft.altText !== (image.altText ?? "");
+          const isCover = image.id === coverImageId;
+
+          return (
+            <li
+              key={image.id}
+              draggable={!isBusy}
+              className={cn(
+                "space-y-3 rounded-md border p-3",
+                dragIndex === index && "opacity-50",
+                dropIndex === index && dragIndex !== index && "border-primary",
+              )}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", image.id);
+                setDragIndex(index);
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) {
+                  return;
+                }
+
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null) {
+                  void onMove(dragIndex, index);
+                }
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+            >
+              <div className="flex items-start gap-3">
+                <GripVertical className="mt-1 size-4 shrink-0 cursor-grab text-muted-foreground" aria-hidden />
+                <img
+                  src={resolveAssetUrl(image.storagePath)}
+                  alt={getProjectImageAltText(image)}
+                  className="h-20 w-24 shrink-0 rounded-md border object-cover"
+                />
+                <div className="min-w-0 flex-1 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-muted-foreground">#{formatNumber(index + 1)}</span>
+                    {isCover ? <Badge>{t("mediaManager.cover")}</Badge> : null}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">{image.fileName}</p>
+                  <div className="flex flex-wrap gap-1">
+                    <Button
+                      type="button"
+                      size="icon-sm"
+                      variant="ghost"
+                      aria-label={t("mediaManager.moveEarlier", { name: image.fileName })}
+                      disabled={isBusy || index === 0}
+                      onClick={() => {
+                        void onMove(index, index - 1);
+                      }}
+                    >
+                      <ArrowLeft className="size-4 rtl:rotate-180" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon-sm"
+                      variant="ghost"
+                      aria-label={t("mediaManager.moveLater", { name: image.fileName })}
+                      disabled={isBusy || index === orderedImages.length - 1}
+                      onClick={() => {
+                        void onMove(index, index + 1);
+                      }}
+                    >
+                      <ArrowRight className="size-4 rtl:rotate-180" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon-sm"
+                      variant="ghost"
+                      aria-label={t("mediaManager.setCover", { name: image.fileName })}
+                      disabled={isBusy || isCover}
+                      onClick={() => {
+                        void onSetCover(image);
+                      }}
+                    >
+                      <Star className={cn("size-4", isCover && "fill-current")} />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon-sm"
+                      variant="ghost"
+                      aria-label={t("mediaManager.delete", { name: image.fileName })}
+                      disabled={isBusy}
+                      onClick={() => onDelete(image)}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor={`image-caption-${image.id}`}>{t("mediaManager.caption")}</Label>
+                <Input
+                  id={`image-caption-${image.id}`}
+                  value={draft.caption}
+                  maxLength={MAX_IMAGE_CAPTION_LENGTH}
+                  disabled={isBusy}
+                  onChange={(event) => setDraftField(image, "caption", event.target.value)}
+                  onKeyDown={(event) => onDetailsKeyDown(event, image)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`image-alt-${image.id}`}>{t("mediaManager.altText")}</Label>
+                <Input
+                  id={`image-alt-${image.id}`}
+                  value={draft.altText}
+                  maxLength={MAX_IMAGE_ALT_TEXT_LENGTH}
+                  placeholder={t("mediaManager.altTextPlaceholder")}
+                  disabled={isBusy}
+                  onChange={(event) => setDraftField(image, "altText", event.target.value)}
+                  onKeyDown={(event) => onDetailsKeyDown(event, image)}
+                />
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={isBusy || !isDirty}
+                onClick={() => {
+                  void onSaveDetails(image);
+                }}
+              >
+                {busyImageId === image.id ? t("common.saving") : t("mediaManager.saveDetails")}
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
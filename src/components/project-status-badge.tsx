@@ -0,0 +1,17 @@
+import { useLocale } from "@/components/locale-provider";
+import { Badge } from "@/components/ui/badge";
+import { getProjectReviewStatus, getReviewStatusBadgeVariant } from "@/lib/project-status";
+import type { Project } from "@/types/api";
+
+export function ProjectStatusBadge({
+  project,
+}: Readonly<{ project: Pick<Project, "isApproved" | "reviewStatus"> }>) {
+  const { t } = useLocale();
+  const status = getProjectReviewStatus(project);
+
+  return (
+    <Badge variant={getReviewStatusBadgeVariant(status)}>
+      {t(`projectStatus.${status}` as const)}
+    </Badge>
+  );
+}
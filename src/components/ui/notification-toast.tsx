@@ -1,6 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
+import { useLocale } from "@/components/locale-provider";
 import { Button } from "@/components/ui/button";
 
 type NotificationType = "success" | "error";
@@ -12,10 +13,11 @@ interface NotificationToastProps {
 }
 
 export function NotificationToast({ type, message, onClose }: Readonly<NotificationToastProps>) {
+  const { t } = useLocale();
   const isSuccess = type === "success";
 
   return (
-    <div className="pointer-events-none fixed inset-x-4 top-4 z-[60] animate-in fade-in slide-in-from-top-2 duration-200 sm:inset-x-auto sm:right-4 sm:w-full sm:max-w-sm">
+    <div className="pointer-events-none fixed inset-x-4 top-4 z-[60] animate-in fade-in slide-in-from-top-2 duration-200 sm:inset-x-auto sm:end-4 sm:w-full sm:max-w-sm">
       <div
         className={cn(
           "pointer-events-auto rounded-xl border px-4 py-3 shadow-lg backdrop-blur",
@@ -35,7 +37,7 @@ export function NotificationToast({ type, message, onClose }: Readonly<Notificat
             className="h-6 px-2 text-xs"
             onClick={onClose}
           >
-            Close
+            {t("common.close")}
           </Button>
         </div>
       </div>
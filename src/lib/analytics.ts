@@ -0,0 +1,219 @@
+import { roundToMinorUnits } from "@/lib/currencies";
+import type { CurrencyConverter } from "@/lib/exchange-rates";
+import { getProjectLifecycle, isAcceptingDonations, parseDate, parseEndDate } from "@/lib/project-lifecycle";
+import { getProjectReviewStatus } from "@/lib/project-status";
+import type {
+  Category,
+  CurrencyTotals,
+  Donation,
+  Project,
+  ProjectCategoryCount,
+  ProjectOverview,
+  ProjectStatusCounts,
+} from "@/types/api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ENDING_SOON_DAYS = 7;
+export const LOW_FUNDING_RATIO = 0.1;
+export const MONTHLY_CHART_MONTHS = 12;
+
+export interface ConvertedCurrencyTotals extends CurrencyTotals {
+  /** Currencies left out because no rate reaches the reporting currency. */
+  unconverted: string[];
+}
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export type AttentionReason = "pendingApproval" | "endingSoon" | "lowFunding";
+
+export interface AttentionItem {
+  project: Project;
+  reasons: AttentionReason[];
+}
+
+function normalizeCurrency(currency: string | null | undefined): string {
+  return (currency || "USD").trim().toUpperCase();
+}
+
+export function getCurrencyTotals(projects: Project[]): CurrencyTotals[] {
+  const totals = new Map<string, CurrencyTotals>();
+
+  projects.forEach((project) => {
+    const currency = normalizeCurrency(project.currency);
+    const current = totals.get(currency) ?? { currency, raised: 0, target: 0 };
+    current.raised += project.raisedAmount;
+    current.target += project.targetAmount;
+    totals.set(currency, current);
+  });
+
+  return [...totals.values()].sort((a, b) => b.target - a.target);
+}
+
+/** Sums per-currency totals into `reportingCurrency` using today's rates. */
+export function convertCurrencyTotals(
+  totals: CurrencyTotals[],
+  reportingCurrency: string,
+  convert: CurrencyConverter,
+): ConvertedCurrencyTotals {
+  return totals.reduce<ConvertedCurrencyTotals>(
+    (combined, current) => {
+      const raised = convert(current.raised, current.currency, reportingCurrency);
+      const target = convert(current.target, current.currency, reportingCurrency);
+      if (!raised || !target) {
+        combined.unconverted.push(current.currency);
+        return combined;
+      }
+
+      combined.raised += raised.amount;
+      combined.target += target.amount;
+      return combined;
+    },
+    { currency: normalizeCurrency(reportingCurrency), raised: 0, target: 0, unconverted: [] },
+  );
+}
+
+export function getProjectStatusCounts(projects: Project[], now: Date): ProjectStatusCounts {
+  return projects.reduce<ProjectStatusCounts>(
+    (counts, project) => {
+      if (getProjectReviewStatus(project) === "submitted") {
+        counts.pending += 1;
+      } else if (isAcceptingDonations(project, now)) {
+        counts.active += 1;
+      } else if (getProjectLifecycle(project, now) === "ended") {
+        counts.expired += 1;
+      }
+
+      return counts;
+    },
+    { active: 0, pending: 0, expired: 0 },
+  );
+}
+
+export function countDistinctNpos(projects: Project[]): number {
+  return new Set(projects.map((project) => project.npoUserId)).size;
+}
+
+/** Anonymous donations without a donor id or email each count as their own donor. */
+export function countDistinctDonors(donations: Donation[]): number {
+  return new Set(
+    donations
+      .filter((donation) => donation.paymentStatus === "succeeded")
+      .map((donation) => donation.donorUserId || donation.donorEmail?.toLowerCase() || `donation:${donation.id}`),
+  ).size;
+}
+
+/** First day of the oldest month shown by `getMonthlyRaisedTotals`. */
+export function getMonthlyWindowStart(now: Date, months = MONTHLY_CHART_MONTHS): Date {
+  return new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+}
+
+/**
+ * Succeeded donations in `currency`, bucketed by calendar month for the last `months` months.
+ * Month labels are formatted for `intlLocale`. With `convert`, donations in other currencies are
+ * converted at the rate effective on their donation date; those without a rate are skipped.
+ */
+export function getMonthlyRaisedTotals(
+  donations: Donation[],
+  currency: string,
+  now: Date,
+  intlLocale: string,
+  convert: CurrencyConverter | null = null,
+  months = MONTHLY_CHART_MONTHS,
+): ChartPoint[] {
+  const formatter = new Intl.DateTimeFormat(intlLocale, { month: "short", year: "2-digit" });
+  const buckets = Array.from({ length: months }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (months - 1 - index), 1);
+    return { key: `${date.getFullYear()}-${date.getMonth()}`, label: formatter.format(date), value: 0 };
+  });
+  const bucketByKey = new Map(buckets.map((bucket) => [bucket.key, bucket]));
+  const normalizedCurrency = normalizeCurrency(currency);
+
+  donations.forEach((donation) => {
+    const donationCurrency = normalizeCurrency(donation.currency);
+    if (donation.paymentStatus !== "succeeded" || (!convert && donationCurrency !== normalizedCurrency)) {
+      return;
+    }
+
+    const donatedAt = parseDate(donation.donatedAt);
+    const bucket = donatedAt ? bucketByKey.get(`${donatedAt.getFullYear()}-${donatedAt.getMonth()}`) : undefined;
+    const amount = convert && donatedAt
+      ? convert(donation.amount, donationCurrency, normalizedCurrency, donatedAt.toISOString())?.amount
+      : donation.amount;
+    if (bucket && amount !== undefined) {
+      bucket.value += amount;
+    }
+  });
+
+  return buckets.map(({ label, value }) => ({ label, value: roundToMinorUnits(value, normalizedCurrency) }));
+}
+
+export function countProjectsPerCategory(projects: Project[]): ProjectCategoryCount[] {
+  const counts = new Map<number, number>();
+
+  projects.forEach((project) => {
+    counts.set(project.categoryId, (counts.get(project.categoryId) ?? 0) + 1);
+  });
+
+  return [...counts.entries()].map(([categoryId, count]) => ({ categoryId, count }));
+}
+
+/** `unknownLabel` names categories that are missing from `categories`. */
+export function getProjectsPerCategory(
+  categoryCounts: ProjectCategoryCount[],
+  categories: Category[],
+  unknownLabel: (categoryId: number) => string,
+): ChartPoint[] {
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const counts = new Map<string, number>();
+
+  categoryCounts.forEach(({ categoryId, count }) => {
+    const label = categoryNames.get(categoryId) ?? unknownLabel(categoryId);
+    counts.set(label, (counts.get(label) ?? 0) + count);
+  });
+
+  return [...counts.entries()]
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+}
+
+export function getAttentionItems(projects: Project[], now: Date): AttentionItem[] {
+  const endingSoonCutoff = now.getTime() + ENDING_SOON_DAYS * DAY_MS;
+
+  return projects.flatMap((project) => {
+    const reasons: AttentionReason[] = [];
+
+    if (getProjectReviewStatus(project) === "submitted") {
+      reasons.push("pendingApproval");
+    }
+
+    if (isAcceptingDonations(project, now)) {
+      const endDate = parseEndDate(project.endDate);
+      if (endDate && endDate.getTime() <= endingSoonCutoff) {
+        reasons.push("endingSoon");
+      }
+
+      if (project.targetAmount > 0 && project.raisedAmount / project.targetAmount < LOW_FUNDING_RATIO) {
+        reasons.push("lowFunding");
+      }
+    }
+
+    return reasons.length > 0 ? [{ project, reasons }] : [];
+  });
+}
+
+/** The overview figures for `projects` alone, for backends that cannot aggregate them. */
+export function summarizeProjects(projects: Project[], totalProjectCount: number, now: Date): ProjectOverview {
+  return {
+    currencyTotals: getCurrencyTotals(projects),
+    statusCounts: getProjectStatusCounts(projects, now),
+    categoryCounts: countProjectsPerCategory(projects),
+    npoCount: countDistinctNpos(projects),
+    attentionProjects: getAttentionItems(projects, now).map(({ project }) => project),
+    projectCount: projects.length,
+    totalProjectCount,
+  };
+}
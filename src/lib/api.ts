@@ -1,13 +1,56 @@
 import ky, { HTTPError, TimeoutError, type KyInstance, type Options } from "ky";
-import { getStoredToken } from "@/lib/auth";
-import type { Address, ApiErrorShape, Category, LoginRequest, LoginResponse, Project, UpdateUserResponse, User, UserRole } from "@/types/api";
+import {
+  applyRefreshedTokens,
+  getStoredToken,
+  isTokenExpired,
+  readStoredSession,
+  writeStoredSession,
+} from "@/lib/auth";
+import { getDocumentLocale, translate } from "@/lib/i18n";
+import { normalizeExchangeRates } from "@/lib/exchange-rates";
+import { DEFAULT_MEDIA_POLICY, resolveMediaPolicy } from "@/lib/media-policy";
+import { getProjectLifecycle } from "@/lib/project-lifecycle";
+import { PROJECT_REVIEW_STATUSES, getProjectReviewStatus } from "@/lib/project-status";
+import type {
+  Address,
+  ApiErrorShape,
+  AuditLogEntry,
+  AuditLogQuery,
+  BankDetails,
+  Category,
+  Donation,
+  DonationListQuery,
+  ExchangeRate,
+  LoginRequest,
+  LoginResponse,
+  MediaPolicy,
+  NpoBankAccount,
+  PagedResult,
+  Project,
+  ProjectImage,
+  ProjectListQuery,
+  ProjectOverview,
+  ProjectReviewStatus,
+  ProjectSortField,
+  ProjectTemplate,
+  RefreshTokenRequest,
+  RefreshTokenResponse,
+  UpdateUserResponse,
+  User,
+  UserRole,
+} from "@/types/api";
 
 const configuredBaseUrl = import.meta.env.VITE_API_BASE_URL?.trim();
 const DEFAULT_API_BASE_URL = "http://localhost:5000/api";
 export const API_BASE_URL = configuredBaseUrl && configuredBaseUrl.length > 0 ? configuredBaseUrl.replace(/\/$/, "") : DEFAULT_API_BASE_URL;
 
-const NETWORK_ERROR_MESSAGE = "Unable to reach API from browser. Check VITE_API_BASE_URL, CORS, and HTTPS/HTTP mismatch.";
-const FALLBACK_ERROR_MESSAGE = "Something went wrong. Please try again.";
+function getNetworkErrorMessage(): string {
+  return translate(getDocumentLocale(), "apiError.network");
+}
+
+function getFallbackErrorMessage(): string {
+  return translate(getDocumentLocale(), "apiError.fallback");
+}
 
 const API_ORIGIN = (() => {
   if (/^https?:\/\//i.test(API_BASE_URL)) {
@@ -41,17 +84,113 @@ class ApiRequestError extends Error {
   }
 }
 
+const AUTH_ENDPOINT_PATTERN = /\/users\/(login|refresh-token)\/?$/i;
+
+// Bypasses the apiClient hooks so a refresh can never wait on itself.
+const refreshClient: KyInstance = ky.create({
+  prefixUrl: toPrefixUrl(API_BASE_URL),
+  retry: 0,
+});
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+function isAuthEndpoint(request: Request): boolean {
+  try {
+    return AUTH_ENDPOINT_PATTERN.test(new URL(request.url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+function readBearerToken(request: Request): string | null {
+  const header = request.headers.get("Authorization");
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+}
+
+async function performTokenRefresh(): Promise<string | null> {
+  const session = readStoredSession();
+  if (!session?.refreshToken) {
+    return null;
+  }
+
+  const payload: RefreshTokenRequest = {
+    token: session.token,
+    refreshToken: session.refreshToken,
+  };
+
+  try {
+    const response = await refreshClient
+      .post("users/refresh-token", { json: payload })
+      .json<RefreshTokenResponse>();
+    const nextSession = applyRefreshedTokens(session, response);
+    writeStoredSession(nextSession);
+    return nextSession.token;
+  } catch (error) {
+    // A rejected refresh token ends the session; network failures keep it for a later attempt.
+    if (error instanceof HTTPError && [400, 401, 403].includes(error.response.status)) {
+      writeStoredSession(null);
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Exchanges the stored refresh token for a new access token. Concurrent callers
+ * share one in-flight request. Resolves to `null` when no refresh was possible.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = performTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+}
+
 export const apiClient: KyInstance = ky.create({
   prefixUrl: toPrefixUrl(API_BASE_URL),
   hooks: {
     beforeRequest: [
-      (request) => {
-        const token = getStoredToken();
+      async (request) => {
+        if (isAuthEndpoint(request)) {
+          return;
+        }
+
+        // Requests issued while a refresh is running wait for the new token.
+        if (refreshInFlight) {
+          await refreshInFlight;
+        }
+
+        let token = getStoredToken();
+        if (token && isTokenExpired(token)) {
+          token = (await refreshAccessToken()) ?? getStoredToken();
+        }
+
         if (token) {
           request.headers.set("Authorization", `Bearer ${token}`);
         }
       },
     ],
+    afterResponse: [
+      async (request, _options, response, state) => {
+        if (response.status !== 401 || state.retryCount > 0 || isAuthEndpoint(request)) {
+          return;
+        }
+
+        // Another request may already have refreshed the token this one was sent with.
+        const currentToken = getStoredToken();
+        if (currentToken && currentToken !== readBearerToken(request)) {
+          return ky.retry({ delay: 0 });
+        }
+
+        const refreshedToken = await refreshAccessToken();
+        if (refreshedToken) {
+          return ky.retry({ delay: 0 });
+        }
+      },
+    ],
   },
 });
 
@@ -80,15 +219,15 @@ async function normalizeApiError(error: unknown): Promise<ApiRequestError> {
   }
 
   if (error instanceof TimeoutError) {
-    return new ApiRequestError("Request timed out.");
+    return new ApiRequestError(translate(getDocumentLocale(), "apiError.timeout"));
   }
 
   if (error instanceof Error) {
     const isNetworkError = /failed to fetch|networkerror|load failed|fetch/i.test(error.message);
-    return new ApiRequestError(isNetworkError ? NETWORK_ERROR_MESSAGE : error.message);
+    return new ApiRequestError(isNetworkError ? getNetworkErrorMessage() : error.message);
   }
 
-  return new ApiRequestError(FALLBACK_ERROR_MESSAGE);
+  return new ApiRequestError(getFallbackErrorMessage());
 }
 
 async function requestJson<T>(path: string, options?: Options): Promise<T> {
@@ -107,6 +246,107 @@ async function requestVoid(path: string, options?: Options): Promise<void> {
   }
 }
 
+export interface UploadProgressOptions {
+  signal?: AbortSignal;
+  /** Receives the number of file bytes sent so far. */
+  onProgress?: (sentBytes: number) => void;
+}
+
+interface UploadRequest extends UploadProgressOptions {
+  method: "post" | "put";
+  body: FormData | Blob;
+  headers?: Record<string, string>;
+}
+
+function readXhrBody(xhr: XMLHttpRequest): unknown {
+  if (!xhr.responseText) {
+    return null;
+  }
+
+  const contentType = xhr.getResponseHeader("content-type")?.toLowerCase() ?? "";
+  if (!contentType.includes("application/json")) {
+    return xhr.responseText;
+  }
+
+  try {
+    return JSON.parse(xhr.responseText);
+  } catch {
+    return null;
+  }
+}
+
+function sendUploadRequest(
+  url: string,
+  token: string | null,
+  request: UploadRequest,
+): Promise<{ status: number; data: unknown }> {
+  return new Promise((resolve, reject) => {
+    if (request.signal?.aborted) {
+      reject(new DOMException("Upload cancelled.", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method.toUpperCase(), url);
+    if (token) {
+      xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    }
+    Object.entries(request.headers ?? {}).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    xhr.upload.onprogress = (event) => {
+      request.onProgress?.(event.loaded);
+    };
+    xhr.onload = () => {
+      resolve({ status: xhr.status, data: readXhrBody(xhr) });
+    };
+    xhr.onerror = () => {
+      reject(new ApiRequestError(getNetworkErrorMessage()));
+    };
+    xhr.onabort = () => {
+      reject(new DOMException("Upload cancelled.", "AbortError"));
+    };
+    request.signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+    xhr.send(request.body);
+  });
+}
+
+/**
+ * Sends a request body through XMLHttpRequest, which reports upload progress in every
+ * browser and has no timeout. Applies the same token handling as the `apiClient` hooks.
+ */
+async function requestWithUploadProgress<T>(path: string, request: UploadRequest): Promise<T> {
+  const url = `${toPrefixUrl(API_BASE_URL)}${path}`;
+
+  if (refreshInFlight) {
+    await refreshInFlight;
+  }
+
+  let token = getStoredToken();
+  if (token && isTokenExpired(token)) {
+    token = (await refreshAccessToken()) ?? getStoredToken();
+  }
+
+  let response = await sendUploadRequest(url, token, request);
+  if (response.status === 401) {
+    const refreshedToken = await refreshAccessToken();
+    if (refreshedToken) {
+      response = await sendUploadRequest(url, refreshedToken, request);
+    }
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new ApiRequestError(translate(getDocumentLocale(), "apiError.status", { status: String(response.status) }), {
+      status: response.status,
+      data: response.data,
+    });
+  }
+
+  return response.data as T;
+}
+
 function readApiErrorMessage(data: unknown): string | null {
   if (!data || typeof data !== "object") {
     return null;
@@ -167,13 +407,48 @@ export function extractApiErrorMessage(error: unknown): string {
   if (error instanceof Error) {
     const isNetworkError = /failed to fetch|networkerror|load failed|fetch/i.test(error.message);
     if (isNetworkError) {
-      return NETWORK_ERROR_MESSAGE;
+      return getNetworkErrorMessage();
     }
 
-    return error.message || FALLBACK_ERROR_MESSAGE;
+    return error.message || getFallbackErrorMessage();
   }
 
-  return FALLBACK_ERROR_MESSAGE;
+  return getFallbackErrorMessage();
+}
+
+/**
+ * The server writes an audit entry inside each audited mutation, taking the actor from the
+ * authenticated request and the timestamp from its own clock, and masks bank account numbers
+ * in the recorded changes. The client only reads the log.
+ */
+export async function getAuditLogs(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+  const searchParams: Record<string, string | number> = {
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+
+  if (query.action) {
+    searchParams.action = query.action;
+  }
+  if (query.targetType) {
+    searchParams.targetType = query.targetType;
+  }
+  if (query.actorUserId) {
+    searchParams.actorUserId = query.actorUserId;
+  }
+  if (query.from) {
+    searchParams.from = query.from;
+  }
+  if (query.to) {
+    searchParams.to = query.to;
+  }
+
+  const search = query.search?.trim();
+  if (search) {
+    searchParams.search = search;
+  }
+
+  return requestJson<PagedResult<AuditLogEntry>>("audit-logs", { searchParams });
 }
 
 export async function login(payload: LoginRequest): Promise<LoginResponse> {
@@ -187,15 +462,106 @@ export async function getCategories(): Promise<Category[]> {
   return requestJson<Category[]>("categories");
 }
 
+export interface CategoryPayload {
+  name: string;
+  image?: File | null;
+}
+
+function toCategoryFormData(payload: CategoryPayload): FormData {
+  const formData = new FormData();
+  formData.append("name", payload.name.trim());
+  if (payload.image) {
+    formData.append("image", payload.image);
+  }
+
+  return formData;
+}
+
+export async function createCategory(payload: CategoryPayload): Promise<Category> {
+  return requestJson<Category>("categories", {
+    method: "post",
+    body: toCategoryFormData(payload),
+  });
+}
+
+export async function updateCategory(categoryId: number, payload: CategoryPayload): Promise<Category> {
+  return requestJson<Category>(`categories/${categoryId}`, {
+    method: "put",
+    body: toCategoryFormData(payload),
+  });
+}
+
+export async function deleteCategory(categoryId: number): Promise<void> {
+  await requestVoid(`categories/${categoryId}`, {
+    method: "delete",
+  });
+}
+
+export async function getProjectsByCategory(categoryId: number): Promise<Project[]> {
+  return requestJson<Project[]>(`projects/by-category/${categoryId}`);
+}
+
 export async function getUsers(): Promise<User[]> {
   return requestJson<User[]>("users");
 }
 
+export async function getUserById(userId: string): Promise<User> {
+  return requestJson<User>(`users/${userId}`);
+}
+
+export interface InviteUserPayload {
+  email: string;
+  firstName: string;
+  lastName: string;
+  mobileNumber?: string;
+  role: UserRole;
+}
+
+export interface CreateUserPayload extends InviteUserPayload {
+  password: string;
+}
+
+export async function createUser(payload: CreateUserPayload): Promise<User> {
+  return requestJson<User>("users", {
+    method: "post",
+    json: payload,
+  });
+}
+
+export async function inviteUser(payload: InviteUserPayload): Promise<User> {
+  return requestJson<User>("users/invite", {
+    method: "post",
+    json: payload,
+  });
+}
+
+export async function setUserActive(userId: string, isActive: boolean): Promise<UpdateUserResponse> {
+  return requestJson<UpdateUserResponse>(`users/${userId}`, {
+    method: "patch",
+    json: { isActive },
+  });
+}
+
+export async function setUserNpoStatus(userId: string, isNpo: boolean): Promise<UpdateUserResponse> {
+  return requestJson<UpdateUserResponse>(`users/${userId}`, {
+    method: "patch",
+    json: { isNpo },
+  });
+}
+
+export async function deleteUser(userId: string): Promise<void> {
+  await requestVoid(`users/${userId}`, {
+    method: "delete",
+  });
+}
+
 function normalizeAddresses(addresses: Address[]): Address[] {
   return addresses
     .map((address) => ({
       country: address.country.trim(),
+      countryCode: address.countryCode?.trim().toUpperCase() || undefined,
       state: address.state.trim(),
+      stateCode: address.stateCode?.trim().toUpperCase() || undefined,
       city: address.city.trim(),
     }))
     .filter((address) => address.country && address.state && address.city);
@@ -210,6 +576,7 @@ export interface CreateProjectPayload {
   description: string;
   targetAmount: number;
   currency: string;
+  autoCloseOnTarget?: boolean;
   addresses: Address[];
   images: File[];
   videos: File[];
@@ -227,11 +594,20 @@ export async function createProject(payload: CreateProjectPayload): Promise<Proj
   formData.append("description", payload.description);
   formData.append("targetAmount", String(payload.targetAmount));
   formData.append("currency", payload.currency.trim().toUpperCase());
+  if (payload.autoCloseOnTarget !== undefined) {
+    formData.append("autoCloseOnTarget", String(payload.autoCloseOnTarget));
+  }
 
   const normalizedAddresses = normalizeAddresses(payload.addresses);
   normalizedAddresses.forEach((address, index) => {
     formData.append(`addresses[${index}].country`, address.country);
+    if (address.countryCode) {
+      formData.append(`addresses[${index}].countryCode`, address.countryCode);
+    }
     formData.append(`addresses[${index}].state`, address.state);
+    if (address.stateCode) {
+      formData.append(`addresses[${index}].stateCode`, address.stateCode);
+    }
     formData.append(`addresses[${index}].city`, address.city);
   });
 
@@ -257,6 +633,8 @@ export interface UpdateProjectPayload {
   description: string;
   targetAmount: number;
   currency: string;
+  /** Left out when the editor may not change it, so the stored setting is kept. */
+  autoCloseOnTarget?: boolean;
   addresses: Address[];
 }
 
@@ -274,6 +652,9 @@ export async function updateProject(projectId: string, payload: UpdateProjectPay
     currency: payload.currency.trim().toUpperCase(),
     addresses: normalizedAddresses,
   };
+  if (payload.autoCloseOnTarget !== undefined) {
+    body.autoCloseOnTarget = payload.autoCloseOnTarget;
+  }
 
   await requestVoid(`projects/${projectId}`, {
     method: "patch",
@@ -283,36 +664,257 @@ export async function updateProject(projectId: string, payload: UpdateProjectPay
   return getProjectById(projectId);
 }
 
-export async function setProjectApproval(projectId: string, isApproved: boolean): Promise<Project> {
-  await requestVoid(`projects/${projectId}`, {
-    method: "patch",
-    json: { isApproved },
+export interface ProjectReviewPayload {
+  status: ProjectReviewStatus;
+  comment?: string;
+}
+
+export async function updateProjectReviewStatus(
+  projectId: string,
+  payload: ProjectReviewPayload,
+): Promise<Project> {
+  await requestVoid(`projects/${projectId}/review`, {
+    method: "post",
+    json: {
+      status: payload.status,
+      comment: payload.comment?.trim() || null,
+    },
   });
 
   return getProjectById(projectId);
 }
 
+export async function submitProjectForReview(projectId: string): Promise<Project> {
+  return updateProjectReviewStatus(projectId, { status: "submitted" });
+}
+
+export async function setProjectCategory(projectId: string, categoryId: number): Promise<void> {
+  await requestVoid(`projects/${projectId}`, {
+    method: "patch",
+    json: { categoryId },
+  });
+}
+
 export async function getProjectById(projectId: string): Promise<Project> {
   return requestJson<Project>(`projects/${projectId}`);
 }
 
-export interface AddProjectMediaPayload {
-  images: File[];
-  videos: File[];
+/** Downloads a stored image or video so it can be uploaded again, e.g. into a duplicated project. */
+export async function downloadProjectMediaFile(media: ProjectImage): Promise<File> {
+  try {
+    const blob = await ky.get(resolveAssetUrl(media.storagePath)).blob();
+    return new File([blob], media.fileName, { type: media.contentType || blob.type });
+  } catch (error) {
+    throw await normalizeApiError(error);
+  }
 }
 
-export async function addProjectMedia(projectId: string, payload: AddProjectMediaPayload): Promise<Project> {
-  const formData = new FormData();
-  payload.images.forEach((file) => {
-    formData.append("images", file);
-  });
-  payload.videos.forEach((file) => {
-    formData.append("videos", file);
+export interface ProjectTemplatePayload {
+  npoUserId: string;
+  name: string;
+  title: string;
+  categoryId: number;
+  description: string;
+  targetAmount: number;
+  currency: string;
+  autoCloseOnTarget?: boolean;
+  addresses: Address[];
+}
+
+/**
+ * Lists templates visible to the caller, narrowed to one NPO when `npoUserId` is given.
+ * Backends without templates yield an empty list so project creation keeps working.
+ */
+export async function getProjectTemplates(npoUserId?: string): Promise<ProjectTemplate[]> {
+  try {
+    return await requestJson<ProjectTemplate[]>("project-templates", {
+      searchParams: npoUserId ? { npoUserId } : undefined,
+    });
+  } catch (error) {
+    if (isUnsupportedEndpointError(error)) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/** Audited on the server as `projectTemplate.create`, like the other writes. */
+export async function createProjectTemplate(payload: ProjectTemplatePayload): Promise<ProjectTemplate> {
+  return requestJson<ProjectTemplate>("project-templates", {
+    method: "post",
+    json: {
+      ...payload,
+      name: payload.name.trim(),
+      currency: payload.currency.trim().toUpperCase(),
+      addresses: normalizeAddresses(payload.addresses),
+    },
   });
+}
 
-  return requestJson<Project>(`projects/${projectId}/images`, {
+let mediaPolicyRequest: Promise<MediaPolicy> | null = null;
+
+/**
+ * Loads the server's media limits once per session. Backends without the config endpoint
+ * use `DEFAULT_MEDIA_POLICY`; other failures are retried on the next call.
+ */
+export function getMediaPolicy(): Promise<MediaPolicy> {
+  mediaPolicyRequest ??= requestJson<Partial<Record<keyof MediaPolicy, unknown>>>("config/media")
+    .then(resolveMediaPolicy)
+    .catch((error: unknown) => {
+      if (isUnsupportedEndpointError(error)) {
+        return DEFAULT_MEDIA_POLICY;
+      }
+
+      mediaPolicyRequest = null;
+      throw error;
+    });
+
+  return mediaPolicyRequest;
+}
+
+let exchangeRatesRequest: Promise<ExchangeRate[]> | null = null;
+
+/**
+ * Loads the exchange-rate table once per session. Backends without the endpoint have no rates,
+ * so reports fall back to per-currency totals.
+ */
+export function getExchangeRates(): Promise<ExchangeRate[]> {
+  exchangeRatesRequest ??= requestJson<ExchangeRate[]>("exchange-rates")
+    .then(normalizeExchangeRates)
+    .catch((error: unknown) => {
+      if (isUnsupportedEndpointError(error)) {
+        return [];
+      }
+
+      exchangeRatesRequest = null;
+      throw error;
+    });
+
+  return exchangeRatesRequest;
+}
+
+/** Replaces the whole rates table. */
+export async function saveExchangeRates(rates: ExchangeRate[]): Promise<ExchangeRate[]> {
+  const normalized = normalizeExchangeRates(rates);
+
+  const saved = normalizeExchangeRates(
+    await requestJson<ExchangeRate[]>("exchange-rates", {
+      method: "put",
+      json: { rates: normalized },
+    }),
+  );
+  exchangeRatesRequest = Promise.resolve(saved);
+
+  return saved;
+}
+
+export type ProjectMediaKind = "image" | "video";
+
+/** Uploads one media file in a single request. */
+export async function uploadProjectMediaFile(
+  projectId: string,
+  file: File,
+  kind: ProjectMediaKind,
+  options: UploadProgressOptions = {},
+): Promise<Project> {
+  const formData = new FormData();
+  formData.append(kind === "image" ? "images" : "videos", file);
+
+  return requestWithUploadProgress<Project>(`projects/${projectId}/images`, {
     method: "put",
     body: formData,
+    ...options,
+  });
+}
+
+export const MEDIA_UPLOAD_CHUNK_SIZE_BYTES = 2 * 1024 * 1024;
+
+interface MediaUploadSession {
+  uploadId: string;
+  receivedBytes: number;
+}
+
+export interface ResumableUploadOptions extends UploadProgressOptions {
+  /** Session left by an interrupted attempt; the upload continues from its last received byte. */
+  uploadId?: string | null;
+  /** Receives the session id as soon as it exists so a later retry can resume it. */
+  onUploadId?: (uploadId: string) => void;
+}
+
+async function openMediaUploadSession(
+  projectId: string,
+  file: File,
+  uploadId: string | null | undefined,
+): Promise<MediaUploadSession> {
+  if (uploadId) {
+    try {
+      return await requestJson<MediaUploadSession>(`projects/${projectId}/uploads/${uploadId}`);
+    } catch (error) {
+      // Expired sessions start over; anything else is a real failure.
+      if (!(error instanceof ApiRequestError && error.status === 404)) {
+        throw error;
+      }
+    }
+  }
+
+  return requestJson<MediaUploadSession>(`projects/${projectId}/uploads`, {
+    method: "post",
+    json: {
+      fileName: file.name,
+      contentType: file.type,
+      size: file.size,
+    },
+  });
+}
+
+/**
+ * Uploads a file in `MEDIA_UPLOAD_CHUNK_SIZE_BYTES` chunks through an upload session, so a
+ * dropped connection only loses the chunk in flight. Falls back to `uploadProjectMediaFile`
+ * when the backend does not expose upload sessions.
+ */
+export async function uploadProjectMediaResumable(
+  projectId: string,
+  file: File,
+  kind: ProjectMediaKind,
+  options: ResumableUploadOptions = {},
+): Promise<Project> {
+  let session: MediaUploadSession;
+  try {
+    session = await openMediaUploadSession(projectId, file, options.uploadId);
+  } catch (error) {
+    if (!isUnsupportedEndpointError(error)) {
+      throw error;
+    }
+
+    return uploadProjectMediaFile(projectId, file, kind, options);
+  }
+
+  options.onUploadId?.(session.uploadId);
+
+  let offset = session.receivedBytes;
+  options.onProgress?.(offset);
+
+  while (offset < file.size) {
+    const chunkStart = offset;
+    const chunkEnd = Math.min(chunkStart + MEDIA_UPLOAD_CHUNK_SIZE_BYTES, file.size);
+
+    await requestWithUploadProgress<unknown>(`projects/${projectId}/uploads/${session.uploadId}`, {
+      method: "put",
+      body: file.slice(chunkStart, chunkEnd),
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Range": `bytes ${chunkStart}-${chunkEnd - 1}/${file.size}`,
+      },
+      signal: options.signal,
+      onProgress: (sentBytes) => options.onProgress?.(chunkStart + sentBytes),
+    });
+
+    offset = chunkEnd;
+  }
+
+  return requestJson<Project>(`projects/${projectId}/uploads/${session.uploadId}/complete`, {
+    method: "post",
+    signal: options.signal,
   });
 }
 
@@ -328,6 +930,43 @@ export async function deleteProjectImage(projectImageId: string): Promise<void>
   });
 }
 
+/** Saves the image order; `images` must list every project image in its new position. */
+export async function reorderProjectImages(projectId: string, images: ProjectImage[]): Promise<void> {
+  await requestVoid(`projects/${projectId}/images/order`, {
+    method: "put",
+    json: { imageIds: images.map((image) => image.id) },
+  });
+}
+
+export async function setProjectCoverImage(projectId: string, image: ProjectImage): Promise<void> {
+  await requestVoid(`projects/${projectId}/cover-image`, {
+    method: "put",
+    json: { imageId: image.id },
+  });
+}
+
+export interface ProjectImageDetailsPayload {
+  caption: string;
+  altText: string;
+}
+
+export async function updateProjectImageDetails(
+  image: ProjectImage,
+  payload: ProjectImageDetailsPayload,
+): Promise<ProjectImage> {
+  const details = {
+    caption: payload.caption.trim() || null,
+    altText: payload.altText.trim() || null,
+  };
+
+  await requestVoid(`project-images/${image.id}`, {
+    method: "patch",
+    json: details,
+  });
+
+  return { ...image, ...details };
+}
+
 export async function updateUserRole(userId: string, role: UserRole): Promise<{ role: UserRole }> {
   return requestJson<{ role: UserRole }>(`users/${userId}/role`, {
     method: "patch",
@@ -349,6 +988,88 @@ export async function updateOwnProfile(userId: string, payload: UpdateProfilePay
   });
 }
 
+function normalizeBankDetails(details: BankDetails): BankDetails {
+  return {
+    accountHolderName: details.accountHolderName.trim(),
+    bankName: details.bankName.trim(),
+    accountNumber: details.accountNumber.trim(),
+    iban: details.iban.replace(/\s+/g, "").toUpperCase(),
+    swiftCode: details.swiftCode.trim().toUpperCase(),
+    routingNumber: details.routingNumber.trim(),
+    bankCountry: details.bankCountry?.trim().toUpperCase() || null,
+  };
+}
+
+export async function getNpoBankAccount(userId: string): Promise<NpoBankAccount | null> {
+  try {
+    return await requestJson<NpoBankAccount>(`users/${userId}/bank-account`);
+  } catch (error) {
+    if (error instanceof ApiRequestError && error.status === 404) {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+export async function createNpoBankAccount(userId: string, details: BankDetails): Promise<NpoBankAccount> {
+  return requestJson<NpoBankAccount>(`users/${userId}/bank-account`, {
+    method: "post",
+    json: normalizeBankDetails(details),
+  });
+}
+
+export async function updateNpoBankAccount(userId: string, details: BankDetails): Promise<NpoBankAccount> {
+  return requestJson<NpoBankAccount>(`users/${userId}/bank-account`, {
+    method: "put",
+    json: normalizeBankDetails(details),
+  });
+}
+
+export async function queryDonations(query: DonationListQuery): Promise<PagedResult<Donation>> {
+  const searchParams: Record<string, string | number> = {
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+
+  if (query.projectId) {
+    searchParams.projectId = query.projectId;
+  }
+  if (query.npoUserId) {
+    searchParams.npoUserId = query.npoUserId;
+  }
+  if (query.paymentStatus) {
+    searchParams.paymentStatus = query.paymentStatus;
+  }
+  if (query.from) {
+    searchParams.from = query.from;
+  }
+  if (query.to) {
+    searchParams.to = query.to;
+  }
+
+  const search = query.search?.trim();
+  if (search) {
+    searchParams.search = search;
+  }
+
+  return requestJson<PagedResult<Donation>>("donations", { searchParams });
+}
+
+export async function getProjectDonations(projectId: string): Promise<Donation[]> {
+  return requestJson<Donation[]>(`projects/${projectId}/donations`);
+}
+
+/** Overwrites a project's `raisedAmount` with the total of its settled donations. */
+export async function reconcileProjectRaisedAmount(projectId: string, raisedAmount: number): Promise<Project> {
+  await requestVoid(`projects/${projectId}`, {
+    method: "patch",
+    json: { raisedAmount },
+  });
+
+  return getProjectById(projectId);
+}
+
 function toDateEpoch(value: string | undefined | null): number {
   if (!value) {
     return Number.NEGATIVE_INFINITY;
@@ -371,7 +1092,7 @@ export async function getProjectsForDashboard(): Promise<Project[]> {
 
   const categoryMap = new Map(categories.map((category) => [category.id, category]));
 
-  const projectsByCategory = await Promise.all(categories.map((category) => requestJson<Project[]>(`projects/by-category/${category.id}`)));
+  const projectsByCategory = await Promise.all(categories.map((category) => getProjectsByCategory(category.id)));
 
   const deduped = new Map<string, Project>();
 
@@ -388,3 +1109,159 @@ export async function getProjectsForDashboard(): Promise<Project[]> {
     (a, b) => toDateEpoch(getProjectCreatedDate(b)) - toDateEpoch(getProjectCreatedDate(a)),
   );
 }
+
+function isUnsupportedEndpointError(error: unknown): boolean {
+  return error instanceof ApiRequestError && (error.status === 404 || error.status === 405 || error.status === 501);
+}
+
+function toProjectSearchParams(query: ProjectListQuery): Record<string, string | number> {
+  const searchParams: Record<string, string | number> = {
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+
+  if (query.sortBy) {
+    searchParams.sortBy = query.sortBy;
+    searchParams.sortDirection = query.sortDirection ?? "asc";
+  }
+  if (query.status) {
+    searchParams.status = query.status;
+  }
+  if (query.lifecycle) {
+    searchParams.lifecycle = query.lifecycle;
+  }
+  if (query.npoUserId) {
+    searchParams.npoUserId = query.npoUserId;
+  }
+  if (query.categoryId !== undefined) {
+    searchParams.categoryId = query.categoryId;
+  }
+
+  const search = query.search?.trim();
+  if (search) {
+    searchParams.search = search;
+  }
+
+  return searchParams;
+}
+
+function getProjectSortValue(project: Project, field: ProjectSortField): string | number {
+  switch (field) {
+    case "title":
+      return project.title.toLowerCase();
+    case "category":
+      return (project.category?.name ?? String(project.categoryId)).toLowerCase();
+    case "owner":
+      return project.npoUserId;
+    case "targetAmount":
+      return project.targetAmount;
+    case "raisedAmount":
+      return project.raisedAmount;
+    case "startDate":
+      return toDateEpoch(project.startDate);
+    case "status":
+      return PROJECT_REVIEW_STATUSES.indexOf(getProjectReviewStatus(project));
+    case "createdDate":
+    default:
+      return toDateEpoch(getProjectCreatedDate(project));
+  }
+}
+
+function paginateProjectsLocally(projects: Project[], query: ProjectListQuery): PagedResult<Project> {
+  const search = query.search?.trim().toLowerCase() ?? "";
+  const now = new Date();
+
+  const filtered = projects.filter((project) => {
+    if (query.status && getProjectReviewStatus(project) !== query.status) {
+      return false;
+    }
+    if (query.lifecycle && getProjectLifecycle(project, now) !== query.lifecycle) {
+      return false;
+    }
+    if (query.npoUserId && project.npoUserId !== query.npoUserId) {
+      return false;
+    }
+    if (query.categoryId !== undefined && project.categoryId !== query.categoryId) {
+      return false;
+    }
+    if (!search) {
+      return true;
+    }
+
+    return [project.title, project.description, project.category?.name ?? ""].some((value) =>
+      value.toLowerCase().includes(search),
+    );
+  });
+
+  const sortBy = query.sortBy ?? "createdDate";
+  const direction = (query.sortBy ? query.sortDirection : "desc") === "desc" ? -1 : 1;
+  const sorted = [...filtered].sort((a, b) => {
+    const left = getProjectSortValue(a, sortBy);
+    const right = getProjectSortValue(b, sortBy);
+    if (left === right) {
+      return 0;
+    }
+
+    return (left < right ? -1 : 1) * direction;
+  });
+
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    items: sorted.slice(start, start + query.pageSize),
+    totalCount: sorted.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+// null until the first query tells us whether the backend paginates `GET projects`.
+let supportsProjectQuery: boolean | null = null;
+
+/**
+ * Fetches one page of projects using server-side filtering, sorting and paging.
+ * Falls back to the per-category fan-out in `getProjectsForDashboard` and pages in
+ * memory when the backend does not expose the paginated endpoint.
+ */
+export async function queryProjects(query: ProjectListQuery): Promise<PagedResult<Project>> {
+  if (supportsProjectQuery !== false) {
+    try {
+      const response = await requestJson<PagedResult<Project> | Project[]>("projects", {
+        searchParams: toProjectSearchParams(query),
+      });
+
+      if (!Array.isArray(response)) {
+        supportsProjectQuery = true;
+        return response;
+      }
+
+      // Backends without paging may still list every project here, which beats the fan-out.
+      return paginateProjectsLocally(response, query);
+    } catch (error) {
+      if (supportsProjectQuery === true || !isUnsupportedEndpointError(error)) {
+        throw error;
+      }
+
+      supportsProjectQuery = false;
+    }
+  }
+
+  return paginateProjectsLocally(await getProjectsForDashboard(), query);
+}
+
+/**
+ * Loads the dashboard overview aggregated on the server, narrowed to one NPO when `npoUserId` is
+ * given. Backends without the endpoint yield null so callers can summarize a sample instead.
+ */
+export async function getProjectOverview(npoUserId?: string): Promise<ProjectOverview | null> {
+  try {
+    return await requestJson<ProjectOverview>("projects/overview", {
+      searchParams: npoUserId ? { npoUserId } : undefined,
+    });
+  } catch (error) {
+    if (isUnsupportedEndpointError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { translate, type Locale } from "@/lib/i18n";
+import type { AuditAction, AuditChange, AuditLogEntry, AuditTargetType } from "@/types/api";
+
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  "project.update",
+  "project.review",
+  "project.delete",
+  "project.media.delete",
+  "project.media.update",
+  "project.reconcile",
+  "user.role.update",
+  "bank.create",
+  "bank.update",
+  "exchangeRates.update",
+  "projectTemplate.create",
+];
+
+export const AUDIT_TARGET_TYPES: readonly AuditTargetType[] = [
+  "project",
+  "projectMedia",
+  "user",
+  "bankAccount",
+  "exchangeRates",
+  "projectTemplate",
+];
+
+/** Actions the backend adds later are shown as sent. */
+export function getAuditActionLabel(action: AuditAction, locale: Locale): string {
+  return AUDIT_ACTIONS.includes(action) ? translate(locale, `auditAction.${action}`) : action;
+}
+
+export function getAuditTargetLabel(targetType: AuditTargetType, locale: Locale): string {
+  return AUDIT_TARGET_TYPES.includes(targetType) ? translate(locale, `auditTarget.${targetType}`) : targetType;
+}
+
+export function describeAuditChanges(changes: AuditChange[], locale: Locale): string {
+  const empty = translate(locale, "audit.emptyValue");
+  return changes
+    .map((change) => `${change.field}: ${change.before ?? empty} → ${change.after ?? empty}`)
+    .join("\n");
+}
+
+export function auditEntriesToRows(entries: AuditLogEntry[], locale: Locale): string[][] {
+  return [
+    [
+      translate(locale, "audit.columnTimestamp"),
+      translate(locale, "audit.columnActor"),
+      translate(locale, "audit.columnActorId"),
+      translate(locale, "audit.columnAction"),
+      translate(locale, "audit.columnTargetType"),
+      translate(locale, "audit.columnTarget"),
+      translate(locale, "audit.columnTargetId"),
+      translate(locale, "audit.columnChanges"),
+    ],
+    ...entries.map((entry) => [
+      entry.occurredAt,
+      entry.actorName ?? "",
+      entry.actorUserId,
+      getAuditActionLabel(entry.action, locale),
+      getAuditTargetLabel(entry.targetType, locale),
+      entry.targetLabel ?? "",
+      entry.targetId,
+      describeAuditChanges(entry.changes, locale),
+    ]),
+  ];
+}
@@ -1,4 +1,4 @@
-import type { LoginResponse, UserRole } from "@/types/api";
+import type { LoginResponse, RefreshTokenResponse, UserRole } from "@/types/api";
 
 export const AUTH_STORAGE_KEY = "hadyaa.admin.auth";
 
@@ -23,9 +23,14 @@ export interface SessionUser {
 
 export interface AuthSession {
   token: string;
+  refreshToken?: string;
   user: SessionUser;
 }
 
+type SessionListener = (session: AuthSession | null) => void;
+
+const sessionListeners = new Set<SessionListener>();
+
 const ROLE_CLAIM = "http://schemas.microsoft.com/ws/2008/06/identity/claims/role";
 const NAME_ID_CLAIM =
   "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier";
@@ -78,13 +83,22 @@ function getEmailFromPayload(payload: JwtPayload): string {
   return typeof email === "string" ? email : "";
 }
 
-export function isTokenExpired(token: string): boolean {
+export function getTokenExpiry(token: string): number | null {
   const payload = decodeJwtPayload(token);
   if (!payload?.exp) {
+    return null;
+  }
+
+  return payload.exp * 1000;
+}
+
+export function isTokenExpired(token: string): boolean {
+  const expiresAt = getTokenExpiry(token);
+  if (expiresAt === null) {
     return false;
   }
 
-  return payload.exp * 1000 <= Date.now();
+  return expiresAt <= Date.now();
 }
 
 export function createSessionFromLogin(
@@ -105,6 +119,7 @@ export function createSessionFromLogin(
 
   return {
     token: loginResponse.token,
+    refreshToken: loginResponse.refreshToken ?? undefined,
     user: {
       id,
       role: getRoleFromPayload(payload),
@@ -119,6 +134,17 @@ export function createSessionFromLogin(
   };
 }
 
+export function applyRefreshedTokens(
+  session: AuthSession,
+  response: RefreshTokenResponse,
+): AuthSession {
+  return {
+    ...session,
+    token: response.token,
+    refreshToken: response.refreshToken ?? session.refreshToken,
+  };
+}
+
 export function readStoredSession(): AuthSession | null {
   if (typeof window === "undefined") {
     return null;
@@ -131,7 +157,9 @@ export function readStoredSession(): AuthSession | null {
 
   try {
     const session = JSON.parse(raw) as AuthSession;
-    if (!session.token || !session.user?.id || isTokenExpired(session.token)) {
+    // An expired access token is still usable as long as it can be refreshed.
+    const isUnrecoverable = isTokenExpired(session.token ?? "") && !session.refreshToken;
+    if (!session.token || !session.user?.id || isUnrecoverable) {
       window.localStorage.removeItem(AUTH_STORAGE_KEY);
       return null;
     }
@@ -150,10 +178,22 @@ export function writeStoredSession(session: AuthSession | null): void {
 
   if (!session) {
     window.localStorage.removeItem(AUTH_STORAGE_KEY);
-    return;
+  } else {
+    window.localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(session));
   }
 
-  window.localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(session));
+  sessionListeners.forEach((listener) => listener(session));
+}
+
+/**
+ * Notifies `listener` whenever the stored session is written, including token
+ * refreshes performed by the API client outside of React.
+ */
+export function subscribeToSession(listener: SessionListener): () => void {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
 }
 
 export function getStoredToken(): string | null {
@@ -1,6 +1,8 @@
-import type { BankDetails } from "@/types/api";
+import { createNpoBankAccount, getNpoBankAccount, updateNpoBankAccount } from "@/lib/api";
+import type { BankDetails, NpoBankAccount } from "@/types/api";
 
-const BANK_KEY_PREFIX = "hadyaa.admin.bank.";
+// Bank details used to live in localStorage under this prefix, keyed by user id.
+const LEGACY_BANK_KEY_PREFIX = "hadyaa.admin.bank.";
 
 export const EMPTY_BANK_DETAILS: BankDetails = {
   accountHolderName: "",
@@ -11,23 +13,41 @@ export const EMPTY_BANK_DETAILS: BankDetails = {
   routingNumber: "",
 };
 
-function getStorageKey(userId: string): string {
-  return `${BANK_KEY_PREFIX}${userId}`;
-}
+let migrationInFlight: Promise<number> | null = null;
 
-export function readBankDetails(userId: string): BankDetails {
-  if (typeof window === "undefined") {
+export function toBankDetails(account: NpoBankAccount | null): BankDetails {
+  if (!account) {
     return { ...EMPTY_BANK_DETAILS };
   }
 
-  const raw = window.localStorage.getItem(getStorageKey(userId));
+  return {
+    accountHolderName: account.accountHolderName ?? "",
+    bankName: account.bankName ?? "",
+    accountNumber: account.accountNumber ?? "",
+    iban: account.iban ?? "",
+    swiftCode: account.swiftCode ?? "",
+    routingNumber: account.routingNumber ?? "",
+    bankCountry: account.bankCountry ?? null,
+  };
+}
+
+export async function saveBankDetails(
+  userId: string,
+  details: BankDetails,
+  existing: NpoBankAccount | null,
+): Promise<NpoBankAccount> {
+  return existing ? updateNpoBankAccount(userId, details) : createNpoBankAccount(userId, details);
+}
+
+function readLegacyBankDetails(storageKey: string): BankDetails | null {
+  const raw = window.localStorage.getItem(storageKey);
   if (!raw) {
-    return { ...EMPTY_BANK_DETAILS };
+    return null;
   }
 
   try {
     const parsed = JSON.parse(raw) as Partial<BankDetails>;
-    return {
+    const details: BankDetails = {
       accountHolderName: parsed.accountHolderName ?? "",
       bankName: parsed.bankName ?? "",
       accountNumber: parsed.accountNumber ?? "",
@@ -35,15 +55,70 @@ export function readBankDetails(userId: string): BankDetails {
       swiftCode: parsed.swiftCode ?? "",
       routingNumber: parsed.routingNumber ?? "",
     };
+
+    return Object.values(details).some((value) => Boolean(value?.trim())) ? details : null;
   } catch {
-    return { ...EMPTY_BANK_DETAILS };
+    return null;
   }
 }
 
-export function writeBankDetails(userId: string, details: BankDetails): void {
+function listLegacyBankKeys(): string[] {
+  const keys: string[] = [];
+  for (let index = 0; index < window.localStorage.length; index += 1) {
+    const key = window.localStorage.key(index);
+    if (key?.startsWith(LEGACY_BANK_KEY_PREFIX)) {
+      keys.push(key);
+    }
+  }
+
+  return keys;
+}
+
+async function migrateLegacyEntries(canMigrate: (userId: string) => boolean): Promise<number> {
+  let migratedCount = 0;
+
+  for (const storageKey of listLegacyBankKeys()) {
+    const userId = storageKey.slice(LEGACY_BANK_KEY_PREFIX.length);
+    if (!userId || !canMigrate(userId)) {
+      continue;
+    }
+
+    const details = readLegacyBankDetails(storageKey);
+
+    try {
+      if (details) {
+        // Details already on the server were entered later, so they win over the local copy.
+        const existing = await getNpoBankAccount(userId);
+        if (!existing) {
+          await createNpoBankAccount(userId, details);
+          migratedCount += 1;
+        }
+      }
+
+      window.localStorage.removeItem(storageKey);
+    } catch {
+      // Leave the entry in place so the next visit can retry it.
+    }
+  }
+
+  return migratedCount;
+}
+
+/**
+ * Pushes bank details saved by older versions of the panel to the backend and clears
+ * them from localStorage. Entries for users the caller may not manage are left alone.
+ * Resolves to the number of accounts created on the server.
+ */
+export function migrateLocalBankDetails(canMigrate: (userId: string) => boolean): Promise<number> {
   if (typeof window === "undefined") {
-    return;
+    return Promise.resolve(0);
+  }
+
+  if (!migrationInFlight) {
+    migrationInFlight = migrateLegacyEntries(canMigrate).finally(() => {
+      migrationInFlight = null;
+    });
   }
 
-  window.localStorage.setItem(getStorageKey(userId), JSON.stringify(details));
+  return migrationInFlight;
 }
@@ -0,0 +1,128 @@
+type CsvCell = string | number | boolean | null | undefined;
+
+export type DecimalSeparator = "." | ",";
+
+function escapeCsvCell(value: CsvCell): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadCsv(fileName: string, rows: CsvCell[][]): void {
+  // The BOM makes Excel open UTF-8 files with the right encoding.
+  downloadFile(fileName, `\uFEFF${toCsv(rows)}`, "text/csv;charset=utf-8");
+}
+
+function detectDelimiter(text: string): "," | ";" | "\t" {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = { ",": 0, ";": 0, "\t": 0 };
+  let inQuotes = false;
+
+  for (const char of firstLine) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char in counts) {
+      counts[char as keyof typeof counts] += 1;
+    }
+  }
+
+  if (counts[";"] > counts[","] && counts[";"] >= counts["\t"]) {
+    return ";";
+  }
+
+  return counts["\t"] > counts[","] ? "\t" : ",";
+}
+
+/** Excel locales that write decimal commas save CSV with semicolons, so the delimiter tells the two apart. */
+export function detectCsvDecimalSeparator(text: string): DecimalSeparator {
+  return detectDelimiter(text.replace(/^\uFEFF/, "")) === ";" ? "," : ".";
+}
+
+/**
+ * Reads a number written with `decimalSeparator`, where the other separator may only group thousands.
+ * Anything else is NaN, so "15,600" is 15600 or an error but never 15.6.
+ */
+export function parseDecimal(value: string, decimalSeparator: DecimalSeparator): number {
+  const text = value.replace(/\s/g, "");
+  const pattern =
+    decimalSeparator === ","
+      ? /^[-+]?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/
+      : /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+  if (!pattern.test(text)) {
+    return Number.NaN;
+  }
+
+  return Number(decimalSeparator === "," ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, ""));
+}
+
+/**
+ * Parses RFC 4180 CSV, including quoted fields with embedded delimiters and line breaks.
+ * Semicolon- and tab-separated files (as saved by some Excel locales) are detected from the header line.
+ * Blank lines are kept as rows so callers can report row numbers as a spreadsheet shows them.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,67 @@
+import { CURRENCIES, type CurrencyRecord } from "@/lib/currency-data";
+
+export const DEFAULT_CURRENCY = "USD";
+export const PINNED_CURRENCIES_STORAGE_KEY = "hadyaa-pinned-currencies";
+
+/** Shown at the top of currency pickers until the user pins their own. */
+export const DEFAULT_PINNED_CURRENCIES: readonly string[] = ["USD", "EUR", "GBP", "AED", "SAR", "PKR", "INR"];
+
+/** Used for codes outside the registry, which is also what `Intl` assumes for unknown currencies. */
+const FALLBACK_MINOR_UNITS = 2;
+
+const CURRENCY_BY_CODE = new Map(CURRENCIES.map((currency) => [currency.code, currency]));
+
+export function normalizeCurrencyCode(code: string | null | undefined): string {
+  return (code || DEFAULT_CURRENCY).trim().toUpperCase();
+}
+
+export function findCurrency(code: string | null | undefined): CurrencyRecord | undefined {
+  return code ? CURRENCY_BY_CODE.get(code.trim().toUpperCase()) : undefined;
+}
+
+export function isCurrencyCode(code: string | null | undefined): boolean {
+  return Boolean(findCurrency(code));
+}
+
+export function getCurrencyMinorUnits(code: string | null | undefined): number {
+  return findCurrency(normalizeCurrencyCode(code))?.minorUnits ?? FALLBACK_MINOR_UNITS;
+}
+
+/** `step` attribute for amount inputs, e.g. "1" for JPY and "0.001" for KWD. */
+export function getCurrencyAmountStep(code: string | null | undefined): string {
+  const minorUnits = getCurrencyMinorUnits(code);
+  return minorUnits === 0 ? "1" : `0.${"1".padStart(minorUnits, "0")}`;
+}
+
+/** Rounds to the currency's minor unit, e.g. whole yen or thousandths of a dinar. */
+export function roundToMinorUnits(amount: number, code: string | null | undefined): number {
+  const factor = 10 ** getCurrencyMinorUnits(code);
+  return Math.round(amount * factor) / factor;
+}
+
+/** Checks that a typed amount has no more decimals than the currency allows. */
+export function hasValidMinorUnits(amount: string, code: string | null | undefined): boolean {
+  const decimals = amount.trim().split(".")[1] ?? "";
+  return decimals.replace(/0+$/, "").length <= getCurrencyMinorUnits(code);
+}
+
+export function readPinnedCurrencies(): string[] {
+  if (typeof window === "undefined") {
+    return [...DEFAULT_PINNED_CURRENCIES];
+  }
+
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(PINNED_CURRENCIES_STORAGE_KEY) ?? "null");
+    if (Array.isArray(stored)) {
+      return stored.filter((code): code is string => typeof code === "string" && isCurrencyCode(code));
+    }
+  } catch {
+    // Corrupt values fall back to the defaults below.
+  }
+
+  return [...DEFAULT_PINNED_CURRENCIES];
+}
+
+export function writePinnedCurrencies(codes: readonly string[]): void {
+  localStorage.setItem(PINNED_CURRENCIES_STORAGE_KEY, JSON.stringify(codes));
+}
@@ -0,0 +1,184 @@
+/**
+ * Offline ISO 4217 currency list used for amount formatting and currency pickers. Every active
+ * currency and fund code is listed; precious metals, testing and "no currency" codes (X-codes
+ * other than the CFA, CFP, East Caribbean and Caribbean currencies) are left out.
+ */
+
+export interface CurrencyRecord {
+  /** ISO 4217 alphabetic code. */
+  code: string;
+  name: string;
+  /** Digits after the decimal separator (ISO 4217 minor unit exponent). */
+  minorUnits: number;
+  /** Common local symbol; codes without a distinct symbol repeat the code. */
+  symbol: string;
+}
+
+export const CURRENCIES: readonly CurrencyRecord[] = [
+  { code: "AED", name: "UAE Dirham", minorUnits: 2, symbol: "د.إ" },
+  { code: "AFN", name: "Afghani", minorUnits: 2, symbol: "؋" },
+  { code: "ALL", name: "Lek", minorUnits: 2, symbol: "L" },
+  { code: "AMD", name: "Armenian Dram", minorUnits: 2, symbol: "֏" },
+  { code: "ANG", name: "Netherlands Antillean Guilder", minorUnits: 2, symbol: "ƒ" },
+  { code: "AOA", name: "Kwanza", minorUnits: 2, symbol: "Kz" },
+  { code: "ARS", name: "Argentine Peso", minorUnits: 2, symbol: "$" },
+  { code: "AUD", name: "Australian Dollar", minorUnits: 2, symbol: "A$" },
+  { code: "AWG", name: "Aruban Florin", minorUnits: 2, symbol: "ƒ" },
+  { code: "AZN", name: "Azerbaijan Manat", minorUnits: 2, symbol: "₼" },
+  { code: "BAM", name: "Convertible Mark", minorUnits: 2, symbol: "KM" },
+  { code: "BBD", name: "Barbados Dollar", minorUnits: 2, symbol: "Bds$" },
+  { code: "BDT", name: "Taka", minorUnits: 2, symbol: "৳" },
+  { code: "BGN", name: "Bulgarian Lev", minorUnits: 2, symbol: "лв" },
+  { code: "BHD", name: "Bahraini Dinar", minorUnits: 3, symbol: "BD" },
+  { code: "BIF", name: "Burundi Franc", minorUnits: 0, symbol: "FBu" },
+  { code: "BMD", name: "Bermudian Dollar", minorUnits: 2, symbol: "$" },
+  { code: "BND", name: "Brunei Dollar", minorUnits: 2, symbol: "B$" },
+  { code: "BOB", name: "Boliviano", minorUnits: 2, symbol: "Bs" },
+  { code: "BOV", name: "Mvdol", minorUnits: 2, symbol: "BOV" },
+  { code: "BRL", name: "Brazilian Real", minorUnits: 2, symbol: "R$" },
+  { code: "BSD", name: "Bahamian Dollar", minorUnits: 2, symbol: "B$" },
+  { code: "BTN", name: "Ngultrum", minorUnits: 2, symbol: "Nu." },
+  { code: "BWP", name: "Pula", minorUnits: 2, symbol: "P" },
+  { code: "BYN", name: "Belarusian Ruble", minorUnits: 2, symbol: "Br" },
+  { code: "BZD", name: "Belize Dollar", minorUnits: 2, symbol: "BZ$" },
+  { code: "CAD", name: "Canadian Dollar", minorUnits: 2, symbol: "CA$" },
+  { code: "CDF", name: "Congolese Franc", minorUnits: 2, symbol: "FC" },
+  { code: "CHE", name: "WIR Euro", minorUnits: 2, symbol: "CHE" },
+  { code: "CHF", name: "Swiss Franc", minorUnits: 2, symbol: "CHF" },
+  { code: "CHW", name: "WIR Franc", minorUnits: 2, symbol: "CHW" },
+  { code: "CLF", name: "Unidad de Fomento", minorUnits: 4, symbol: "UF" },
+  { code: "CLP", name: "Chilean Peso", minorUnits: 0, symbol: "$" },
+  { code: "CNY", name: "Yuan Renminbi", minorUnits: 2, symbol: "¥" },
+  { code: "COP", name: "Colombian Peso", minorUnits: 2, symbol: "$" },
+  { code: "COU", name: "Unidad de Valor Real", minorUnits: 2, symbol: "COU" },
+  { code: "CRC", name: "Costa Rican Colon", minorUnits: 2, symbol: "₡" },
+  { code: "CUP", name: "Cuban Peso", minorUnits: 2, symbol: "$" },
+  { code: "CVE", name: "Cabo Verde Escudo", minorUnits: 2, symbol: "Esc" },
+  { code: "CZK", name: "Czech Koruna", minorUnits: 2, symbol: "Kč" },
+  { code: "DJF", name: "Djibouti Franc", minorUnits: 0, symbol: "Fdj" },
+  { code: "DKK", name: "Danish Krone", minorUnits: 2, symbol: "kr" },
+  { code: "DOP", name: "Dominican Peso", minorUnits: 2, symbol: "RD$" },
+  { code: "DZD", name: "Algerian Dinar", minorUnits: 2, symbol: "DA" },
+  { code: "EGP", name: "Egyptian Pound", minorUnits: 2, symbol: "E£" },
+  { code: "ERN", name: "Nakfa", minorUnits: 2, symbol: "Nfk" },
+  { code: "ETB", name: "Ethiopian Birr", minorUnits: 2, symbol: "Br" },
+  { code: "EUR", name: "Euro", minorUnits: 2, symbol: "€" },
+  { code: "FJD", name: "Fiji Dollar", minorUnits: 2, symbol: "FJ$" },
+  { code: "FKP", name: "Falkland Islands Pound", minorUnits: 2, symbol: "£" },
+  { code: "GBP", name: "Pound Sterling", minorUnits: 2, symbol: "£" },
+  { code: "GEL", name: "Lari", minorUnits: 2, symbol: "₾" },
+  { code: "GHS", name: "Ghana Cedi", minorUnits: 2, symbol: "GH₵" },
+  { code: "GIP", name: "Gibraltar Pound", minorUnits: 2, symbol: "£" },
+  { code: "GMD", name: "Dalasi", minorUnits: 2, symbol: "D" },
+  { code: "GNF", name: "Guinean Franc", minorUnits: 0, symbol: "FG" },
+  { code: "GTQ", name: "Quetzal", minorUnits: 2, symbol: "Q" },
+  { code: "GYD", name: "Guyana Dollar", minorUnits: 2, symbol: "G$" },
+  { code: "HKD", name: "Hong Kong Dollar", minorUnits: 2, symbol: "HK$" },
+  { code: "HNL", name: "Lempira", minorUnits: 2, symbol: "L" },
+  { code: "HTG", name: "Gourde", minorUnits: 2, symbol: "G" },
+  { code: "HUF", name: "Forint", minorUnits: 2, symbol: "Ft" },
+  { code: "IDR", name: "Rupiah", minorUnits: 2, symbol: "Rp" },
+  { code: "ILS", name: "New Israeli Sheqel", minorUnits: 2, symbol: "₪" },
+  { code: "INR", name: "Indian Rupee", minorUnits: 2, symbol: "₹" },
+  { code: "IQD", name: "Iraqi Dinar", minorUnits: 3, symbol: "ع.د" },
+  { code: "IRR", name: "Iranian Rial", minorUnits: 2, symbol: "﷼" },
+  { code: "ISK", name: "Iceland Krona", minorUnits: 0, symbol: "kr" },
+  { code: "JMD", name: "Jamaican Dollar", minorUnits: 2, symbol: "J$" },
+  { code: "JOD", name: "Jordanian Dinar", minorUnits: 3, symbol: "JD" },
+  { code: "JPY", name: "Yen", minorUnits: 0, symbol: "¥" },
+  { code: "KES", name: "Kenyan Shilling", minorUnits: 2, symbol: "KSh" },
+  { code: "KGS", name: "Som", minorUnits: 2, symbol: "с" },
+  { code: "KHR", name: "Riel", minorUnits: 2, symbol: "៛" },
+  { code: "KMF", name: "Comorian Franc", minorUnits: 0, symbol: "CF" },
+  { code: "KPW", name: "North Korean Won", minorUnits: 2, symbol: "₩" },
+  { code: "KRW", name: "Won", minorUnits: 0, symbol: "₩" },
+  { code: "KWD", name: "Kuwaiti Dinar", minorUnits: 3, symbol: "KD" },
+  { code: "KYD", name: "Cayman Islands Dollar", minorUnits: 2, symbol: "CI$" },
+  { code: "KZT", name: "Tenge", minorUnits: 2, symbol: "₸" },
+  { code: "LAK", name: "Lao Kip", minorUnits: 2, symbol: "₭" },
+  { code: "LBP", name: "Lebanese Pound", minorUnits: 2, symbol: "L£" },
+  { code: "LKR", name: "Sri Lanka Rupee", minorUnits: 2, symbol: "Rs" },
+  { code: "LRD", name: "Liberian Dollar", minorUnits: 2, symbol: "L$" },
+  { code: "LSL", name: "Loti", minorUnits: 2, symbol: "L" },
+  { code: "LYD", name: "Libyan Dinar", minorUnits: 3, symbol: "LD" },
+  { code: "MAD", name: "Moroccan Dirham", minorUnits: 2, symbol: "DH" },
+  { code: "MDL", name: "Moldovan Leu", minorUnits: 2, symbol: "L" },
+  { code: "MGA", name: "Malagasy Ariary", minorUnits: 2, symbol: "Ar" },
+  { code: "MKD", name: "Denar", minorUnits: 2, symbol: "ден" },
+  { code: "MMK", name: "Kyat", minorUnits: 2, symbol: "K" },
+  { code: "MNT", name: "Tugrik", minorUnits: 2, symbol: "₮" },
+  { code: "MOP", name: "Pataca", minorUnits: 2, symbol: "MOP$" },
+  { code: "MRU", name: "Ouguiya", minorUnits: 2, symbol: "UM" },
+  { code: "MUR", name: "Mauritius Rupee", minorUnits: 2, symbol: "Rs" },
+  { code: "MVR", name: "Rufiyaa", minorUnits: 2, symbol: "Rf" },
+  { code: "MWK", name: "Malawi Kwacha", minorUnits: 2, symbol: "MK" },
+  { code: "MXN", name: "Mexican Peso", minorUnits: 2, symbol: "MX$" },
+  { code: "MXV", name: "Mexican Unidad de Inversion (UDI)", minorUnits: 2, symbol: "MXV" },
+  { code: "MYR", name: "Malaysian Ringgit", minorUnits: 2, symbol: "RM" },
+  { code: "MZN", name: "Mozambique Metical", minorUnits: 2, symbol: "MT" },
+  { code: "NAD", name: "Namibia Dollar", minorUnits: 2, symbol: "N$" },
+  { code: "NGN", name: "Naira", minorUnits: 2, symbol: "₦" },
+  { code: "NIO", name: "Cordoba Oro", minorUnits: 2, symbol: "C$" },
+  { code: "NOK", name: "Norwegian Krone", minorUnits: 2, symbol: "kr" },
+  { code: "NPR", name: "Nepalese Rupee", minorUnits: 2, symbol: "Rs" },
+  { code: "NZD", name: "New Zealand Dollar", minorUnits: 2, symbol: "NZ$" },
+  { code: "OMR", name: "Rial Omani", minorUnits: 3, symbol: "OMR" },
+  { code: "PAB", name: "Balboa", minorUnits: 2, symbol: "B/." },
+  { code: "PEN", name: "Sol", minorUnits: 2, symbol: "S/" },
+  { code: "PGK", name: "Kina", minorUnits: 2, symbol: "K" },
+  { code: "PHP", name: "Philippine Peso", minorUnits: 2, symbol: "₱" },
+  { code: "PKR", name: "Pakistan Rupee", minorUnits: 2, symbol: "Rs" },
+  { code: "PLN", name: "Zloty", minorUnits: 2, symbol: "zł" },
+  { code: "PYG", name: "Guarani", minorUnits: 0, symbol: "₲" },
+  { code: "QAR", name: "Qatari Rial", minorUnits: 2, symbol: "QR" },
+  { code: "RON", name: "Romanian Leu", minorUnits: 2, symbol: "lei" },
+  { code: "RSD", name: "Serbian Dinar", minorUnits: 2, symbol: "дин." },
+  { code: "RUB", name: "Russian Ruble", minorUnits: 2, symbol: "₽" },
+  { code: "RWF", name: "Rwanda Franc", minorUnits: 0, symbol: "FRw" },
+  { code: "SAR", name: "Saudi Riyal", minorUnits: 2, symbol: "SR" },
+  { code: "SBD", name: "Solomon Islands Dollar", minorUnits: 2, symbol: "SI$" },
+  { code: "SCR", name: "Seychelles Rupee", minorUnits: 2, symbol: "SR" },
+  { code: "SDG", name: "Sudanese Pound", minorUnits: 2, symbol: "SDG" },
+  { code: "SEK", name: "Swedish Krona", minorUnits: 2, symbol: "kr" },
+  { code: "SGD", name: "Singapore Dollar", minorUnits: 2, symbol: "S$" },
+  { code: "SHP", name: "Saint Helena Pound", minorUnits: 2, symbol: "£" },
+  { code: "SLE", name: "Leone", minorUnits: 2, symbol: "Le" },
+  { code: "SOS", name: "Somali Shilling", minorUnits: 2, symbol: "Sh" },
+  { code: "SRD", name: "Surinam Dollar", minorUnits: 2, symbol: "$" },
+  { code: "SSP", name: "South Sudanese Pound", minorUnits: 2, symbol: "£" },
+  { code: "STN", name: "Dobra", minorUnits: 2, symbol: "Db" },
+  { code: "SVC", name: "El Salvador Colon", minorUnits: 2, symbol: "₡" },
+  { code: "SYP", name: "Syrian Pound", minorUnits: 2, symbol: "£S" },
+  { code: "SZL", name: "Lilangeni", minorUnits: 2, symbol: "E" },
+  { code: "THB", name: "Baht", minorUnits: 2, symbol: "฿" },
+  { code: "TJS", name: "Somoni", minorUnits: 2, symbol: "SM" },
+  { code: "TMT", name: "Turkmenistan New Manat", minorUnits: 2, symbol: "m" },
+  { code: "TND", name: "Tunisian Dinar", minorUnits: 3, symbol: "DT" },
+  { code: "TOP", name: "Pa'anga", minorUnits: 2, symbol: "T$" },
+  { code: "TRY", name: "Turkish Lira", minorUnits: 2, symbol: "₺" },
+  { code: "TTD", name: "Trinidad and Tobago Dollar", minorUnits: 2, symbol: "TT$" },
+  { code: "TWD", name: "New Taiwan Dollar", minorUnits: 2, symbol: "NT$" },
+  { code: "TZS", name: "Tanzanian Shilling", minorUnits: 2, symbol: "TSh" },
+  { code: "UAH", name: "Hryvnia", minorUnits: 2, symbol: "₴" },
+  { code: "UGX", name: "Uganda Shilling", minorUnits: 0, symbol: "USh" },
+  { code: "USD", name: "US Dollar", minorUnits: 2, symbol: "$" },
+  { code: "USN", name: "US Dollar (Next day)", minorUnits: 2, symbol: "USN" },
+  { code: "UYI", name: "Uruguay Peso en Unidades Indexadas (UI)", minorUnits: 0, symbol: "UYI" },
+  { code: "UYU", name: "Peso Uruguayo", minorUnits: 2, symbol: "$U" },
+  { code: "UYW", name: "Unidad Previsional", minorUnits: 4, symbol: "UYW" },
+  { code: "UZS", name: "Uzbekistan Sum", minorUnits: 2, symbol: "so'm" },
+  { code: "VED", name: "Bolívar Soberano", minorUnits: 2, symbol: "Bs.D" },
+  { code: "VES", name: "Bolívar Soberano", minorUnits: 2, symbol: "Bs.S" },
+  { code: "VND", name: "Dong", minorUnits: 0, symbol: "₫" },
+  { code: "VUV", name: "Vatu", minorUnits: 0, symbol: "VT" },
+  { code: "WST", name: "Tala", minorUnits: 2, symbol: "WS$" },
+  { code: "XAF", name: "CFA Franc BEAC", minorUnits: 0, symbol: "FCFA" },
+  { code: "XCD", name: "East Caribbean Dollar", minorUnits: 2, symbol: "EC$" },
+  { code: "XCG", name: "Caribbean Guilder", minorUnits: 2, symbol: "Cg" },
+  { code: "XOF", name: "CFA Franc BCEAO", minorUnits: 0, symbol: "CFA" },
+  { code: "XPF", name: "CFP Franc", minorUnits: 0, symbol: "₣" },
+  { code: "YER", name: "Yemeni Rial", minorUnits: 2, symbol: "﷼" },
+  { code: "ZAR", name: "Rand", minorUnits: 2, symbol: "R" },
+  { code: "ZMW", name: "Zambian Kwacha", minorUnits: 2, symbol: "ZK" },
+  { code: "ZWG", name: "Zimbabwe Gold", minorUnits: 2, symbol: "ZiG" },
+];
@@ -0,0 +1,81 @@
+import { roundToMinorUnits } from "@/lib/currencies";
+import { translate, type Locale } from "@/lib/i18n";
+import type { Donation, DonationPaymentStatus } from "@/types/api";
+
+export type DonationStatusBadgeVariant = "default" | "secondary" | "destructive" | "outline";
+
+export const DONATION_PAYMENT_STATUSES: readonly DonationPaymentStatus[] = ["pending", "succeeded", "failed", "refunded"];
+
+const BADGE_VARIANTS: Record<DonationPaymentStatus, DonationStatusBadgeVariant> = {
+  pending: "outline",
+  succeeded: "secondary",
+  failed: "destructive",
+  refunded: "default",
+};
+
+export function getDonationStatusBadgeVariant(status: DonationPaymentStatus): DonationStatusBadgeVariant {
+  return BADGE_VARIANTS[status] ?? "outline";
+}
+
+/** Statuses the backend adds later are shown as sent. */
+export function getDonationStatusLabel(status: DonationPaymentStatus, locale: Locale): string {
+  return DONATION_PAYMENT_STATUSES.includes(status) ? translate(locale, `donationStatus.${status}`) : status;
+}
+
+export function getDonorLabel(donation: Donation, locale: Locale): string {
+  if (donation.isAnonymous) {
+    return translate(locale, "donations.anonymous");
+  }
+
+  return (
+    donation.donorName?.trim() ||
+    donation.donorEmail ||
+    donation.donorUserId ||
+    translate(locale, "donations.unknownDonor")
+  );
+}
+
+export interface DonationSummary {
+  donationCount: number;
+  settledCount: number;
+  settledTotal: number;
+  /** Settled donations left out of `settledTotal` because they were paid in another currency. */
+  otherCurrencyCount: number;
+}
+
+/**
+ * Totals the donations that count towards a project's raised amount: only succeeded
+ * payments made in the project's own currency are summed.
+ */
+export function summarizeDonations(donations: Donation[], currency: string): DonationSummary {
+  const projectCurrency = currency.trim().toUpperCase();
+  let settledCount = 0;
+  let settledTotal = 0;
+  let otherCurrencyCount = 0;
+
+  donations.forEach((donation) => {
+    if (donation.paymentStatus !== "succeeded") {
+      return;
+    }
+
+    if (donation.currency.trim().toUpperCase() !== projectCurrency) {
+      otherCurrencyCount += 1;
+      return;
+    }
+
+    settledCount += 1;
+    settledTotal += donation.amount;
+  });
+
+  return {
+    donationCount: donations.length,
+    settledCount,
+    settledTotal: roundToMinorUnits(settledTotal, projectCurrency),
+    otherCurrencyCount,
+  };
+}
+
+/** Positive when the project reports more than its donations add up to. */
+export function getRaisedAmountDiscrepancy(raisedAmount: number, settledTotal: number, currency: string): number {
+  return roundToMinorUnits(raisedAmount - settledTotal, currency);
+}
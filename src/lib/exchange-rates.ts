@@ -0,0 +1,319 @@
+import { isCurrencyCode } from "@/lib/currencies";
+import { detectCsvDecimalSeparator, parseCsv, parseDecimal, type DecimalSeparator } from "@/lib/csv";
+import { translate, type Locale, type MessageKey } from "@/lib/i18n";
+import type { ExchangeRate } from "@/types/api";
+
+export const REPORTING_CURRENCY_STORAGE_KEY = "hadyaa-reporting-currency";
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ExchangeRateParseResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  /** Units of the target currency per unit of the source currency. */
+  rate: number;
+  /** Date of the oldest rate used, or null when no conversion was needed. */
+  effectiveDate: string | null;
+}
+
+/** Converts `amount` as of `asOf` (ISO date, default today); null when no rate connects the two currencies. */
+export type CurrencyConverter = (
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  asOf?: string,
+) => ConvertedAmount | null;
+
+interface RatePoint {
+  rate: number;
+  effectiveDate: string;
+}
+
+function normalizeCurrencyCode(value: unknown): string {
+  return typeof value === "string" ? value.trim().toUpperCase() : "";
+}
+
+export function toIsoDate(value: Date | string): string {
+  return typeof value === "string" ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+}
+
+function isValidIsoDate(value: string): boolean {
+  return ISO_DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+export function getExchangeRateKey(rate: Pick<ExchangeRate, "baseCurrency" | "quoteCurrency" | "effectiveDate">): string {
+  return `${rate.baseCurrency}/${rate.quoteCurrency}@${rate.effectiveDate}`;
+}
+
+function findExchangeRateProblem(rate: ExchangeRate): MessageKey | null {
+  if (!isCurrencyCode(rate.baseCurrency) || !isCurrencyCode(rate.quoteCurrency)) {
+    return "exchangeRates.invalidCurrency";
+  }
+
+  if (rate.baseCurrency === rate.quoteCurrency) {
+    return "exchangeRates.sameCurrency";
+  }
+
+  if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+    return "exchangeRates.invalidRate";
+  }
+
+  if (!isValidIsoDate(rate.effectiveDate)) {
+    return "exchangeRates.invalidDate";
+  }
+
+  return null;
+}
+
+/** Returns a message describing the first problem with `rate`, or null when it is usable. */
+export function validateExchangeRate(rate: ExchangeRate, locale: Locale): string | null {
+  const problem = findExchangeRateProblem(rate);
+  return problem ? translate(locale, problem) : null;
+}
+
+/** Upper-cases codes, keeps the last rate per pair and date, and sorts by pair then date. */
+export function normalizeExchangeRates(rates: ExchangeRate[]): ExchangeRate[] {
+  const byKey = new Map<string, ExchangeRate>();
+
+  rates.forEach((rate) => {
+    const normalized: ExchangeRate = {
+      baseCurrency: normalizeCurrencyCode(rate.baseCurrency),
+      quoteCurrency: normalizeCurrencyCode(rate.quoteCurrency),
+      rate: Number(rate.rate),
+      effectiveDate: toIsoDate(String(rate.effectiveDate ?? "")),
+    };
+    byKey.set(getExchangeRateKey(normalized), normalized);
+  });
+
+  return [...byKey.values()].sort(
+    (a, b) =>
+      a.baseCurrency.localeCompare(b.baseCurrency) ||
+      a.quoteCurrency.localeCompare(b.quoteCurrency) ||
+      a.effectiveDate.localeCompare(b.effectiveDate),
+  );
+}
+
+function readNumber(value: unknown, decimalSeparator: DecimalSeparator): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  return typeof value === "string" ? parseDecimal(value, decimalSeparator) : Number.NaN;
+}
+
+function collectRates(
+  candidates: ExchangeRate[],
+  label: (index: number) => string,
+  locale: Locale,
+): ExchangeRateParseResult {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const error = validateExchangeRate(candidate, locale);
+    if (error) {
+      errors.push(translate(locale, "exchangeRates.entryError", { entry: label(index), error }));
+    } else {
+      rates.push(candidate);
+    }
+  });
+
+  return { rates: normalizeExchangeRates(rates), errors };
+}
+
+function readJsonRate(entry: Record<string, unknown>): ExchangeRate {
+  return {
+    baseCurrency: normalizeCurrencyCode(entry.baseCurrency ?? entry.base ?? entry.from),
+    quoteCurrency: normalizeCurrencyCode(entry.quoteCurrency ?? entry.quote ?? entry.to ?? entry.currency),
+    rate: readNumber(entry.rate, "."),
+    effectiveDate: toIsoDate(String(entry.effectiveDate ?? entry.date ?? "")),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Accepts a list of rate objects, `{ rates: [...] }`, or provider snapshots shaped like
+ * `{ base: "USD", date: "2024-01-31", rates: { EUR: 0.92 } }` (alone or in a list).
+ */
+export function parseExchangeRatesJson(text: string, locale: Locale): ExchangeRateParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { rates: [], errors: [translate(locale, "exchangeRates.invalidJson")] };
+  }
+
+  const entries = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.rates) ? data.rates : [data];
+  const candidates = entries.flatMap((entry): ExchangeRate[] => {
+    if (!isRecord(entry)) {
+      return [readJsonRate({})];
+    }
+
+    if (isRecord(entry.rates)) {
+      return Object.entries(entry.rates).map(([quoteCurrency, rate]) =>
+        readJsonRate({ base: entry.base ?? entry.baseCurrency, date: entry.date ?? entry.effectiveDate, quoteCurrency, rate }),
+      );
+    }
+
+    return [readJsonRate(entry)];
+  });
+
+  if (candidates.length === 0) {
+    return { rates: [], errors: [translate(locale, "exchangeRates.noRates")] };
+  }
+
+  return collectRates(
+    candidates,
+    (index) => translate(locale, "exchangeRates.rateNumber", { index: index + 1 }),
+    locale,
+  );
+}
+
+const CSV_HEADER_ALIASES: Record<keyof ExchangeRate, string[]> = {
+  baseCurrency: ["basecurrency", "base", "from", "fromcurrency"],
+  quoteCurrency: ["quotecurrency", "quote", "to", "tocurrency", "currency"],
+  rate: ["rate", "exchangerate", "value"],
+  effectiveDate: ["effectivedate", "date", "effectivefrom", "validfrom"],
+};
+
+/** Expects a header row naming base, quote, rate and effective date columns in any order. */
+export function parseExchangeRatesCsv(text: string, locale: Locale): ExchangeRateParseResult {
+  const [headers = [], ...rows] = parseCsv(text).filter((row) => row.some((cell) => cell.trim()));
+  const decimalSeparator = detectCsvDecimalSeparator(text);
+  const normalizedHeaders = headers.map((header) => header.toLowerCase().replace(/[^a-z]/g, ""));
+  const columns = Object.fromEntries(
+    Object.entries(CSV_HEADER_ALIASES).map(([field, aliases]) => [
+      field,
+      normalizedHeaders.findIndex((header) => aliases.includes(header)),
+    ]),
+  ) as Record<keyof ExchangeRate, number>;
+
+  const missing = Object.entries(columns)
+    .filter(([, index]) => index < 0)
+    .map(([field]) => field);
+  if (missing.length > 0) {
+    return {
+      rates: [],
+      errors: [translate(locale, "exchangeRates.missingColumns", { columns: missing.join(", ") })],
+    };
+  }
+
+  if (rows.length === 0) {
+    return { rates: [], errors: [translate(locale, "exchangeRates.noRates")] };
+  }
+
+  const candidates = rows.map((row) => ({
+    baseCurrency: normalizeCurrencyCode(row[columns.baseCurrency]),
+    quoteCurrency: normalizeCurrencyCode(row[columns.quoteCurrency]),
+    rate: readNumber(row[columns.rate], decimalSeparator),
+    effectiveDate: toIsoDate(row[columns.effectiveDate]?.trim() ?? ""),
+  }));
+
+  // Row numbers count the header so they match what a spreadsheet shows.
+  return collectRates(
+    candidates,
+    (index) => translate(locale, "exchangeRates.rowNumber", { row: index + 2 }),
+    locale,
+  );
+}
+
+export async function parseExchangeRatesFile(file: File, locale: Locale): Promise<ExchangeRateParseResult> {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith(".json") || file.type === "application/json";
+  return isJson ? parseExchangeRatesJson(text, locale) : parseExchangeRatesCsv(text, locale);
+}
+
+function addRatePoint(index: Map<string, RatePoint[]>, from: string, to: string, point: RatePoint) {
+  const key = `${from}/${to}`;
+  const points = index.get(key) ?? [];
+  points.push(point);
+  index.set(key, points);
+}
+
+function findRatePoint(points: RatePoint[] | undefined, asOf: string): RatePoint | null {
+  let match: RatePoint | null = null;
+  for (const point of points ?? []) {
+    if (point.effectiveDate <= asOf && (!match || point.effectiveDate >= match.effectiveDate)) {
+      match = point;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Builds a converter over a rates table. Each conversion uses the latest rate effective on `asOf`,
+ * inverting rates entered the other way round and bridging through one shared currency when no
+ * direct pair exists.
+ */
+export function createCurrencyConverter(rates: ExchangeRate[]): CurrencyConverter {
+  const index = new Map<string, RatePoint[]>();
+  const currencies = new Set<string>();
+
+  rates.forEach((rate) => {
+    if (findExchangeRateProblem(rate)) {
+      return;
+    }
+
+    currencies.add(rate.baseCurrency);
+    currencies.add(rate.quoteCurrency);
+    addRatePoint(index, rate.baseCurrency, rate.quoteCurrency, { rate: rate.rate, effectiveDate: rate.effectiveDate });
+    addRatePoint(index, rate.quoteCurrency, rate.baseCurrency, { rate: 1 / rate.rate, effectiveDate: rate.effectiveDate });
+  });
+
+  function findRate(from: string, to: string, asOf: string): RatePoint | null {
+    const direct = findRatePoint(index.get(`${from}/${to}`), asOf);
+    if (direct) {
+      return direct;
+    }
+
+    for (const bridge of currencies) {
+      const first = findRatePoint(index.get(`${from}/${bridge}`), asOf);
+      const second = first ? findRatePoint(index.get(`${bridge}/${to}`), asOf) : null;
+      if (first && second) {
+        return {
+          rate: first.rate * second.rate,
+          effectiveDate: first.effectiveDate < second.effectiveDate ? first.effectiveDate : second.effectiveDate,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  return (amount, fromCurrency, toCurrency, asOf = toIsoDate(new Date())) => {
+    const from = normalizeCurrencyCode(fromCurrency) || "USD";
+    const to = normalizeCurrencyCode(toCurrency) || "USD";
+    if (from === to) {
+      return { amount, rate: 1, effectiveDate: null };
+    }
+
+    const match = findRate(from, to, toIsoDate(asOf));
+    return match ? { amount: amount * match.rate, rate: match.rate, effectiveDate: match.effectiveDate } : null;
+  };
+}
+
+export function readReportingCurrency(): string {
+  if (typeof window === "undefined") {
+    return "";
+  }
+
+  return normalizeCurrencyCode(localStorage.getItem(REPORTING_CURRENCY_STORAGE_KEY));
+}
+
+/** An empty currency switches reports back to each project's own currency. */
+export function writeReportingCurrency(currency: string): void {
+  const normalized = normalizeCurrencyCode(currency);
+  if (normalized) {
+    localStorage.setItem(REPORTING_CURRENCY_STORAGE_KEY, normalized);
+  } else {
+    localStorage.removeItem(REPORTING_CURRENCY_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,117 @@
+import { getCurrencyMinorUnits, normalizeCurrencyCode } from "@/lib/currencies";
+import { ar } from "@/lib/messages/ar";
+import { en, type Message, type MessageKey } from "@/lib/messages/en";
+import { ur } from "@/lib/messages/ur";
+
+export type { MessageKey } from "@/lib/messages/en";
+
+export type Locale = "en" | "ar" | "ur";
+export type TextDirection = "ltr" | "rtl";
+
+interface LocaleDefinition {
+  /** Name of the language in that language, as shown in the switcher. */
+  label: string;
+  dir: TextDirection;
+  /** BCP 47 tag passed to `Intl` formatters. */
+  intlLocale: string;
+}
+
+export const LOCALES: Record<Locale, LocaleDefinition> = {
+  en: { label: "English", dir: "ltr", intlLocale: "en-US" },
+  ar: { label: "العربية", dir: "rtl", intlLocale: "ar" },
+  ur: { label: "اردو", dir: "rtl", intlLocale: "ur-PK" },
+};
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+export const DEFAULT_LOCALE: Locale = "en";
+export const LOCALE_STORAGE_KEY = "hadyaa-locale";
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { en, ar, ur };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && Object.hasOwn(LOCALES, value);
+}
+
+/** The locale applied to the page, for code outside React such as the API client. */
+export function getDocumentLocale(): Locale {
+  if (typeof document === "undefined") {
+    return DEFAULT_LOCALE;
+  }
+
+  const { lang } = document.documentElement;
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Looks up `key` in the locale's catalog. Plural messages pick their form from
+ * `params.count`, and numeric params are formatted for the locale.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const { intlLocale } = LOCALES[locale];
+  const message = CATALOGS[locale][key];
+
+  let template: string;
+  if (typeof message === "string") {
+    template = message;
+  } else {
+    const count = typeof params?.count === "number" ? params.count : 0;
+    template = message[new Intl.PluralRules(intlLocale).select(count)] ?? message.other;
+  }
+
+  if (!params) {
+    return template;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return match;
+    }
+
+    return typeof value === "number" ? formatNumber(value, locale) : value;
+  });
+}
+
+export function formatNumber(value: number, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(LOCALES[locale].intlLocale, options).format(value);
+}
+
+/** Uses the currency's ISO 4217 minor units unless `maximumFractionDigits` rounds further. */
+export function formatCurrency(
+  amount: number,
+  currency: string,
+  locale: Locale,
+  maximumFractionDigits?: number,
+): string {
+  const normalizedCurrency = normalizeCurrencyCode(currency);
+  const minorUnits = getCurrencyMinorUnits(normalizedCurrency);
+  const fractionDigits = Math.min(maximumFractionDigits ?? minorUnits, minorUnits);
+
+  try {
+    return new Intl.NumberFormat(LOCALES[locale].intlLocale, {
+      style: "currency",
+      currency: normalizedCurrency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(fractionDigits)} ${normalizedCurrency}`;
+  }
+}
+
+/** Formats an ISO date string; values that do not parse are returned unchanged. */
+export function formatDateTime(
+  value: string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" },
+): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat(LOCALES[locale].intlLocale, options).format(date);
+}
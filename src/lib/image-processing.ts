@@ -0,0 +1,128 @@
+export type ProcessedImageFormat = "image/webp" | "image/jpeg";
+
+export interface ImageProcessingOptions {
+  /** Longest edge, in pixels, after downscaling. */
+  maxDimension: number;
+  format: ProcessedImageFormat;
+  /** Encoder quality between 0 and 1. */
+  quality: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  originalSize: number;
+}
+
+function readNumberSetting(value: string | undefined, fallback: number, min: number, max: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+}
+
+export const IMAGE_PROCESSING_OPTIONS: ImageProcessingOptions = {
+  maxDimension: readNumberSetting(import.meta.env.VITE_IMAGE_MAX_DIMENSION, 2048, 320, 8192),
+  format: import.meta.env.VITE_IMAGE_FORMAT?.trim().toLowerCase() === "jpeg" ? "image/jpeg" : "image/webp",
+  quality: readNumberSetting(import.meta.env.VITE_IMAGE_QUALITY, 0.82, 0.1, 1),
+};
+
+/** Largest original accepted; the processed output must still fit the upload limit. */
+export const MAX_SOURCE_IMAGE_SIZE_BYTES = 30 * 1024 * 1024;
+
+// Re-encoding would flatten animations and rasterize vectors, and neither format carries camera metadata.
+const PASSTHROUGH_TYPES = new Set(["image/gif", "image/svg+xml"]);
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    canvas.toBlob(resolve, type, quality);
+  });
+}
+
+let webpEncodingSupported: boolean | null = null;
+
+// Browsers without a WebP encoder silently return PNG; every browser encodes JPEG.
+function resolveOutputFormat(format: ProcessedImageFormat): ProcessedImageFormat {
+  if (format !== "image/webp") {
+    return format;
+  }
+
+  if (webpEncodingSupported === null) {
+    const probe = document.createElement("canvas");
+    probe.width = 1;
+    probe.height = 1;
+    webpEncodingSupported = probe.toDataURL("image/webp").startsWith("data:image/webp");
+  }
+
+  return webpEncodingSupported ? "image/webp" : "image/jpeg";
+}
+
+function toProcessedFileName(fileName: string, type: string): string {
+  const baseName = fileName.replace(/\.[^.]+$/, "") || "image";
+  return `${baseName}.${type === "image/webp" ? "webp" : "jpg"}`;
+}
+
+/**
+ * Applies the EXIF orientation, downscales to `maxDimension` and re-encodes the image.
+ * Redrawing through a canvas discards all metadata, including GPS coordinates.
+ */
+export async function processImage(
+  file: File,
+  options: ImageProcessingOptions = IMAGE_PROCESSING_OPTIONS,
+): Promise<ProcessedImage> {
+  if (PASSTHROUGH_TYPES.has(file.type)) {
+    return { file, originalSize: file.size };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(`Image '${file.name}' could not be read.`);
+  }
+
+  try {
+    const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error(`Image '${file.name}' could not be processed.`);
+    }
+
+    const format = resolveOutputFormat(options.format);
+    if (format === "image/jpeg") {
+      // JPEG has no alpha channel, so transparent areas would otherwise turn black.
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const blob = await canvasToBlob(canvas, format, options.quality);
+    if (!blob) {
+      throw new Error(`Image '${file.name}' could not be processed.`);
+    }
+
+    return {
+      file: new File([blob], toProcessedFileName(file.name, blob.type), {
+        type: blob.type,
+        lastModified: file.lastModified,
+      }),
+      originalSize: file.size,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Processes images one at a time so several large phone photos are never decoded at once. */
+export async function processImages(
+  files: File[],
+  options: ImageProcessingOptions = IMAGE_PROCESSING_OPTIONS,
+): Promise<ProcessedImage[]> {
+  const processed: ProcessedImage[] = [];
+  for (const file of files) {
+    processed.push(await processImage(file, options));
+  }
+
+  return processed;
+}
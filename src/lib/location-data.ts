@@ -0,0 +1,561 @@
+/**
+ * Offline ISO 3166 dataset used by the address pickers. Every ISO 3166-1 country is listed;
+ * ISO 3166-2 subdivisions and their main cities are bundled only for the countries the
+ * platform currently serves, and other countries fall back to free-text state and city.
+ */
+
+export interface CountryRecord {
+  /** ISO 3166-1 alpha-2 code. */
+  code: string;
+  /** ISO 3166-1 alpha-3 code. */
+  alpha3: string;
+  name: string;
+  /** Other spellings seen in free-text addresses. */
+  aliases?: readonly string[];
+}
+
+export interface SubdivisionRecord {
+  /** ISO 3166-2 code, prefixed with the country code. */
+  code: string;
+  name: string;
+  cities: readonly string[];
+}
+
+export const COUNTRIES: readonly CountryRecord[] = [
+  { code: "AF", alpha3: "AFG", name: "Afghanistan" },
+  { code: "AX", alpha3: "ALA", name: "Åland Islands" },
+  { code: "AL", alpha3: "ALB", name: "Albania" },
+  { code: "DZ", alpha3: "DZA", name: "Algeria" },
+  { code: "AS", alpha3: "ASM", name: "American Samoa" },
+  { code: "AD", alpha3: "AND", name: "Andorra" },
+  { code: "AO", alpha3: "AGO", name: "Angola" },
+  { code: "AI", alpha3: "AIA", name: "Anguilla" },
+  { code: "AQ", alpha3: "ATA", name: "Antarctica" },
+  { code: "AG", alpha3: "ATG", name: "Antigua and Barbuda" },
+  { code: "AR", alpha3: "ARG", name: "Argentina" },
+  { code: "AM", alpha3: "ARM", name: "Armenia" },
+  { code: "AW", alpha3: "ABW", name: "Aruba" },
+  { code: "AU", alpha3: "AUS", name: "Australia" },
+  { code: "AT", alpha3: "AUT", name: "Austria" },
+  { code: "AZ", alpha3: "AZE", name: "Azerbaijan" },
+  { code: "BS", alpha3: "BHS", name: "Bahamas" },
+  { code: "BH", alpha3: "BHR", name: "Bahrain" },
+  { code: "BD", alpha3: "BGD", name: "Bangladesh" },
+  { code: "BB", alpha3: "BRB", name: "Barbados" },
+  { code: "BY", alpha3: "BLR", name: "Belarus" },
+  { code: "BE", alpha3: "BEL", name: "Belgium" },
+  { code: "BZ", alpha3: "BLZ", name: "Belize" },
+  { code: "BJ", alpha3: "BEN", name: "Benin" },
+  { code: "BM", alpha3: "BMU", name: "Bermuda" },
+  { code: "BT", alpha3: "BTN", name: "Bhutan" },
+  { code: "BO", alpha3: "BOL", name: "Bolivia", aliases: ["Bolivia, Plurinational State of"] },
+  { code: "BQ", alpha3: "BES", name: "Bonaire, Sint Eustatius and Saba" },
+  { code: "BA", alpha3: "BIH", name: "Bosnia and Herzegovina" },
+  { code: "BW", alpha3: "BWA", name: "Botswana" },
+  { code: "BV", alpha3: "BVT", name: "Bouvet Island" },
+  { code: "BR", alpha3: "BRA", name: "Brazil" },
+  { code: "IO", alpha3: "IOT", name: "British Indian Ocean Territory" },
+  { code: "BN", alpha3: "BRN", name: "Brunei Darussalam", aliases: ["Brunei"] },
+  { code: "BG", alpha3: "BGR", name: "Bulgaria" },
+  { code: "BF", alpha3: "BFA", name: "Burkina Faso" },
+  { code: "BI", alpha3: "BDI", name: "Burundi" },
+  { code: "CV", alpha3: "CPV", name: "Cabo Verde", aliases: ["Cape Verde"] },
+  { code: "KH", alpha3: "KHM", name: "Cambodia" },
+  { code: "CM", alpha3: "CMR", name: "Cameroon" },
+  { code: "CA", alpha3: "CAN", name: "Canada" },
+  { code: "KY", alpha3: "CYM", name: "Cayman Islands" },
+  { code: "CF", alpha3: "CAF", name: "Central African Republic" },
+  { code: "TD", alpha3: "TCD", name: "Chad" },
+  { code: "CL", alpha3: "CHL", name: "Chile" },
+  { code: "CN", alpha3: "CHN", name: "China" },
+  { code: "CX", alpha3: "CXR", name: "Christmas Island" },
+  { code: "CC", alpha3: "CCK", name: "Cocos (Keeling) Islands" },
+  { code: "CO", alpha3: "COL", name: "Colombia" },
+  { code: "KM", alpha3: "COM", name: "Comoros" },
+  { code: "CG", alpha3: "COG", name: "Congo" },
+  { code: "CD", alpha3: "COD", name: "Congo, Democratic Republic of the", aliases: ["DR Congo", "DRC"] },
+  { code: "CK", alpha3: "COK", name: "Cook Islands" },
+  { code: "CR", alpha3: "CRI", name: "Costa Rica" },
+  { code: "CI", alpha3: "CIV", name: "Côte d'Ivoire", aliases: ["Ivory Coast"] },
+  { code: "HR", alpha3: "HRV", name: "Croatia" },
+  { code: "CU", alpha3: "CUB", name: "Cuba" },
+  { code: "CW", alpha3: "CUW", name: "Curaçao" },
+  { code: "CY", alpha3: "CYP", name: "Cyprus" },
+  { code: "CZ", alpha3: "CZE", name: "Czechia", aliases: ["Czech Republic"] },
+  { code: "DK", alpha3: "DNK", name: "Denmark" },
+  { code: "DJ", alpha3: "DJI", name: "Djibouti" },
+  { code: "DM", alpha3: "DMA", name: "Dominica" },
+  { code: "DO", alpha3: "DOM", name: "Dominican Republic" },
+  { code: "EC", alpha3: "ECU", name: "Ecuador" },
+  { code: "EG", alpha3: "EGY", name: "Egypt" },
+  { code: "SV", alpha3: "SLV", name: "El Salvador" },
+  { code: "GQ", alpha3: "GNQ", name: "Equatorial Guinea" },
+  { code: "ER", alpha3: "ERI", name: "Eritrea" },
+  { code: "EE", alpha3: "EST", name: "Estonia" },
+  { code: "SZ", alpha3: "SWZ", name: "Eswatini", aliases: ["Swaziland"] },
+  { code: "ET", alpha3: "ETH", name: "Ethiopia" },
+  { code: "FK", alpha3: "FLK", name: "Falkland Islands (Malvinas)" },
+  { code: "FO", alpha3: "FRO", name: "Faroe Islands" },
+  { code: "FJ", alpha3: "FJI", name: "Fiji" },
+  { code: "FI", alpha3: "FIN", name: "Finland" },
+  { code: "FR", alpha3: "FRA", name: "France" },
+  { code: "GF", alpha3: "GUF", name: "French Guiana" },
+  { code: "PF", alpha3: "PYF", name: "French Polynesia" },
+  { code: "TF", alpha3: "ATF", name: "French Southern Territories" },
+  { code: "GA", alpha3: "GAB", name: "Gabon" },
+  { code: "GM", alpha3: "GMB", name: "Gambia" },
+  { code: "GE", alpha3: "GEO", name: "Georgia" },
+  { code: "DE", alpha3: "DEU", name: "Germany" },
+  { code: "GH", alpha3: "GHA", name: "Ghana" },
+  { code: "GI", alpha3: "GIB", name: "Gibraltar" },
+  { code: "GR", alpha3: "GRC", name: "Greece" },
+  { code: "GL", alpha3: "GRL", name: "Greenland" },
+  { code: "GD", alpha3: "GRD", name: "Grenada" },
+  { code: "GP", alpha3: "GLP", name: "Guadeloupe" },
+  { code: "GU", alpha3: "GUM", name: "Guam" },
+  { code: "GT", alpha3: "GTM", name: "Guatemala" },
+  { code: "GG", alpha3: "GGY", name: "Guernsey" },
+  { code: "GN", alpha3: "GIN", name: "Guinea" },
+  { code: "GW", alpha3: "GNB", name: "Guinea-Bissau" },
+  { code: "GY", alpha3: "GUY", name: "Guyana" },
+  { code: "HT", alpha3: "HTI", name: "Haiti" },
+  { code: "HM", alpha3: "HMD", name: "Heard Island and McDonald Islands" },
+  { code: "VA", alpha3: "VAT", name: "Holy See", aliases: ["Vatican City"] },
+  { code: "HN", alpha3: "HND", name: "Honduras" },
+  { code: "HK", alpha3: "HKG", name: "Hong Kong", aliases: ["Hong Kong SAR"] },
+  { code: "HU", alpha3: "HUN", name: "Hungary" },
+  { code: "IS", alpha3: "ISL", name: "Iceland" },
+  { code: "IN", alpha3: "IND", name: "India" },
+  { code: "ID", alpha3: "IDN", name: "Indonesia" },
+  { code: "IR", alpha3: "IRN", name: "Iran", aliases: ["Iran, Islamic Republic of"] },
+  { code: "IQ", alpha3: "IRQ", name: "Iraq" },
+  { code: "IE", alpha3: "IRL", name: "Ireland" },
+  { code: "IM", alpha3: "IMN", name: "Isle of Man" },
+  { code: "IL", alpha3: "ISR", name: "Israel" },
+  { code: "IT", alpha3: "ITA", name: "Italy" },
+  { code: "JM", alpha3: "JAM", name: "Jamaica" },
+  { code: "JP", alpha3: "JPN", name: "Japan" },
+  { code: "JE", alpha3: "JEY", name: "Jersey" },
+  { code: "JO", alpha3: "JOR", name: "Jordan" },
+  { code: "KZ", alpha3: "KAZ", name: "Kazakhstan" },
+  { code: "KE", alpha3: "KEN", name: "Kenya" },
+  { code: "KI", alpha3: "KIR", name: "Kiribati" },
+  { code: "KP", alpha3: "PRK", name: "Korea, Democratic People's Republic of", aliases: ["North Korea"] },
+  { code: "KR", alpha3: "KOR", name: "Korea, Republic of", aliases: ["South Korea"] },
+  { code: "KW", alpha3: "KWT", name: "Kuwait" },
+  { code: "KG", alpha3: "KGZ", name: "Kyrgyzstan" },
+  { code: "LA", alpha3: "LAO", name: "Lao People's Democratic Republic", aliases: ["Laos"] },
+  { code: "LV", alpha3: "LVA", name: "Latvia" },
+  { code: "LB", alpha3: "LBN", name: "Lebanon" },
+  { code: "LS", alpha3: "LSO", name: "Lesotho" },
+  { code: "LR", alpha3: "LBR", name: "Liberia" },
+  { code: "LY", alpha3: "LBY", name: "Libya" },
+  { code: "LI", alpha3: "LIE", name: "Liechtenstein" },
+  { code: "LT", alpha3: "LTU", name: "Lithuania" },
+  { code: "LU", alpha3: "LUX", name: "Luxembourg" },
+  { code: "MO", alpha3: "MAC", name: "Macao", aliases: ["Macau"] },
+  { code: "MG", alpha3: "MDG", name: "Madagascar" },
+  { code: "MW", alpha3: "MWI", name: "Malawi" },
+  { code: "MY", alpha3: "MYS", name: "Malaysia" },
+  { code: "MV", alpha3: "MDV", name: "Maldives" },
+  { code: "ML", alpha3: "MLI", name: "Mali" },
+  { code: "MT", alpha3: "MLT", name: "Malta" },
+  { code: "MH", alpha3: "MHL", name: "Marshall Islands" },
+  { code: "MQ", alpha3: "MTQ", name: "Martinique" },
+  { code: "MR", alpha3: "MRT", name: "Mauritania" },
+  { code: "MU", alpha3: "MUS", name: "Mauritius" },
+  { code: "YT", alpha3: "MYT", name: "Mayotte" },
+  { code: "MX", alpha3: "MEX", name: "Mexico" },
+  { code: "FM", alpha3: "FSM", name: "Micronesia", aliases: ["Micronesia, Federated States of"] },
+  { code: "MD", alpha3: "MDA", name: "Moldova", aliases: ["Moldova, Republic of"] },
+  { code: "MC", alpha3: "MCO", name: "Monaco" },
+  { code: "MN", alpha3: "MNG", name: "Mongolia" },
+  { code: "ME", alpha3: "MNE", name: "Montenegro" },
+  { code: "MS", alpha3: "MSR", name: "Montserrat" },
+  { code: "MA", alpha3: "MAR", name: "Morocco" },
+  { code: "MZ", alpha3: "MOZ", name: "Mozambique" },
+  { code: "MM", alpha3: "MMR", name: "Myanmar", aliases: ["Burma"] },
+  { code: "NA", alpha3: "NAM", name: "Namibia" },
+  { code: "NR", alpha3: "NRU", name: "Nauru" },
+  { code: "NP", alpha3: "NPL", name: "Nepal" },
+  { code: "NL", alpha3: "NLD", name: "Netherlands", aliases: ["Holland", "The Netherlands"] },
+  { code: "NC", alpha3: "NCL", name: "New Caledonia" },
+  { code: "NZ", alpha3: "NZL", name: "New Zealand" },
+  { code: "NI", alpha3: "NIC", name: "Nicaragua" },
+  { code: "NE", alpha3: "NER", name: "Niger" },
+  { code: "NG", alpha3: "NGA", name: "Nigeria" },
+  { code: "NU", alpha3: "NIU", name: "Niue" },
+  { code: "NF", alpha3: "NFK", name: "Norfolk Island" },
+  { code: "MK", alpha3: "MKD", name: "North Macedonia", aliases: ["Macedonia"] },
+  { code: "MP", alpha3: "MNP", name: "Northern Mariana Islands" },
+  { code: "NO", alpha3: "NOR", name: "Norway" },
+  { code: "OM", alpha3: "OMN", name: "Oman" },
+  { code: "PK", alpha3: "PAK", name: "Pakistan" },
+  { code: "PW", alpha3: "PLW", name: "Palau" },
+  { code: "PS", alpha3: "PSE", name: "Palestine, State of", aliases: ["Palestine"] },
+  { code: "PA", alpha3: "PAN", name: "Panama" },
+  { code: "PG", alpha3: "PNG", name: "Papua New Guinea" },
+  { code: "PY", alpha3: "PRY", name: "Paraguay" },
+  { code: "PE", alpha3: "PER", name: "Peru" },
+  { code: "PH", alpha3: "PHL", name: "Philippines" },
+  { code: "PN", alpha3: "PCN", name: "Pitcairn" },
+  { code: "PL", alpha3: "POL", name: "Poland" },
+  { code: "PT", alpha3: "PRT", name: "Portugal" },
+  { code: "PR", alpha3: "PRI", name: "Puerto Rico" },
+  { code: "QA", alpha3: "QAT", name: "Qatar" },
+  { code: "RE", alpha3: "REU", name: "Réunion" },
+  { code: "RO", alpha3: "ROU", name: "Romania" },
+  { code: "RU", alpha3: "RUS", name: "Russian Federation", aliases: ["Russia"] },
+  { code: "RW", alpha3: "RWA", name: "Rwanda" },
+  { code: "BL", alpha3: "BLM", name: "Saint Barthélemy" },
+  { code: "SH", alpha3: "SHN", name: "Saint Helena, Ascension and Tristan da Cunha" },
+  { code: "KN", alpha3: "KNA", name: "Saint Kitts and Nevis" },
+  { code: "LC", alpha3: "LCA", name: "Saint Lucia" },
+  { code: "MF", alpha3: "MAF", name: "Saint Martin (French part)" },
+  { code: "PM", alpha3: "SPM", name: "Saint Pierre and Miquelon" },
+  { code: "VC", alpha3: "VCT", name: "Saint Vincent and the Grenadines" },
+  { code: "WS", alpha3: "WSM", name: "Samoa" },
+  { code: "SM", alpha3: "SMR", name: "San Marino" },
+  { code: "ST", alpha3: "STP", name: "Sao Tome and Principe" },
+  { code: "SA", alpha3: "SAU", name: "Saudi Arabia", aliases: ["KSA"] },
+  { code: "SN", alpha3: "SEN", name: "Senegal" },
+  { code: "RS", alpha3: "SRB", name: "Serbia" },
+  { code: "SC", alpha3: "SYC", name: "Seychelles" },
+  { code: "SL", alpha3: "SLE", name: "Sierra Leone" },
+  { code: "SG", alpha3: "SGP", name: "Singapore" },
+  { code: "SX", alpha3: "SXM", name: "Sint Maarten (Dutch part)" },
+  { code: "SK", alpha3: "SVK", name: "Slovakia" },
+  { code: "SI", alpha3: "SVN", name: "Slovenia" },
+  { code: "SB", alpha3: "SLB", name: "Solomon Islands" },
+  { code: "SO", alpha3: "SOM", name: "Somalia" },
+  { code: "ZA", alpha3: "ZAF", name: "South Africa" },
+  { code: "GS", alpha3: "SGS", name: "South Georgia and the South Sandwich Islands" },
+  { code: "SS", alpha3: "SSD", name: "South Sudan" },
+  { code: "ES", alpha3: "ESP", name: "Spain" },
+  { code: "LK", alpha3: "LKA", name: "Sri Lanka" },
+  { code: "SD", alpha3: "SDN", name: "Sudan" },
+  { code: "SR", alpha3: "SUR", name: "Suriname" },
+  { code: "SJ", alpha3: "SJM", name: "Svalbard and Jan Mayen" },
+  { code: "SE", alpha3: "SWE", name: "Sweden" },
+  { code: "CH", alpha3: "CHE", name: "Switzerland" },
+  { code: "SY", alpha3: "SYR", name: "Syrian Arab Republic", aliases: ["Syria"] },
+  { code: "TW", alpha3: "TWN", name: "Taiwan", aliases: ["Taiwan, Province of China"] },
+  { code: "TJ", alpha3: "TJK", name: "Tajikistan" },
+  { code: "TZ", alpha3: "TZA", name: "Tanzania", aliases: ["Tanzania, United Republic of"] },
+  { code: "TH", alpha3: "THA", name: "Thailand" },
+  { code: "TL", alpha3: "TLS", name: "Timor-Leste" },
+  { code: "TG", alpha3: "TGO", name: "Togo" },
+  { code: "TK", alpha3: "TKL", name: "Tokelau" },
+  { code: "TO", alpha3: "TON", name: "Tonga" },
+  { code: "TT", alpha3: "TTO", name: "Trinidad and Tobago" },
+  { code: "TN", alpha3: "TUN", name: "Tunisia" },
+  { code: "TR", alpha3: "TUR", name: "Türkiye", aliases: ["Turkey"] },
+  { code: "TM", alpha3: "TKM", name: "Turkmenistan" },
+  { code: "TC", alpha3: "TCA", name: "Turks and Caicos Islands" },
+  { code: "TV", alpha3: "TUV", name: "Tuvalu" },
+  { code: "UG", alpha3: "UGA", name: "Uganda" },
+  { code: "UA", alpha3: "UKR", name: "Ukraine" },
+  { code: "AE", alpha3: "ARE", name: "United Arab Emirates", aliases: ["UAE", "Emirates"] },
+  { code: "GB", alpha3: "GBR", name: "United Kingdom", aliases: ["UK", "Great Britain", "Britain"] },
+  { code: "US", alpha3: "USA", name: "United States", aliases: ["United States of America", "America"] },
+  { code: "UM", alpha3: "UMI", name: "United States Minor Outlying Islands" },
+  { code: "UY", alpha3: "URY", name: "Uruguay" },
+  { code: "UZ", alpha3: "UZB", name: "Uzbekistan" },
+  { code: "VU", alpha3: "VUT", name: "Vanuatu" },
+  { code: "VE", alpha3: "VEN", name: "Venezuela", aliases: ["Venezuela, Bolivarian Republic of"] },
+  { code: "VN", alpha3: "VNM", name: "Viet Nam", aliases: ["Vietnam"] },
+  { code: "VG", alpha3: "VGB", name: "Virgin Islands (British)" },
+  { code: "VI", alpha3: "VIR", name: "Virgin Islands (U.S.)" },
+  { code: "WF", alpha3: "WLF", name: "Wallis and Futuna" },
+  { code: "EH", alpha3: "ESH", name: "Western Sahara" },
+  { code: "YE", alpha3: "YEM", name: "Yemen" },
+  { code: "ZM", alpha3: "ZMB", name: "Zambia" },
+  { code: "ZW", alpha3: "ZWE", name: "Zimbabwe" },
+];
+
+export const SUBDIVISIONS_BY_COUNTRY: Readonly<Record<string, readonly SubdivisionRecord[]>> = {
+  AE: [
+    { code: "AE-AZ", name: "Abu Dhabi", cities: ["Abu Dhabi", "Al Ain", "Ruwais"] },
+    { code: "AE-AJ", name: "Ajman", cities: ["Ajman"] },
+    { code: "AE-DU", name: "Dubai", cities: ["Dubai", "Hatta", "Jebel Ali"] },
+    { code: "AE-FU", name: "Fujairah", cities: ["Fujairah", "Dibba Al-Fujairah"] },
+    { code: "AE-RK", name: "Ras Al Khaimah", cities: ["Ras Al Khaimah"] },
+    { code: "AE-SH", name: "Sharjah", cities: ["Sharjah", "Khor Fakkan", "Kalba"] },
+    { code: "AE-UQ", name: "Umm Al Quwain", cities: ["Umm Al Quwain"] },
+  ],
+  AU: [
+    { code: "AU-ACT", name: "Australian Capital Territory", cities: ["Canberra"] },
+    { code: "AU-NSW", name: "New South Wales", cities: ["Sydney", "Newcastle", "Wollongong"] },
+    { code: "AU-NT", name: "Northern Territory", cities: ["Darwin", "Alice Springs"] },
+    { code: "AU-QLD", name: "Queensland", cities: ["Brisbane", "Gold Coast", "Cairns", "Townsville"] },
+    { code: "AU-SA", name: "South Australia", cities: ["Adelaide", "Mount Gambier"] },
+    { code: "AU-TAS", name: "Tasmania", cities: ["Hobart", "Launceston"] },
+    { code: "AU-VIC", name: "Victoria", cities: ["Melbourne", "Geelong", "Ballarat"] },
+    { code: "AU-WA", name: "Western Australia", cities: ["Perth", "Bunbury"] },
+  ],
+  BH: [
+    { code: "BH-13", name: "Capital", cities: ["Manama"] },
+    { code: "BH-14", name: "Southern", cities: ["Riffa", "Isa Town"] },
+    { code: "BH-15", name: "Muharraq", cities: ["Muharraq"] },
+    { code: "BH-17", name: "Northern", cities: ["Hamad Town", "Budaiya"] },
+  ],
+  CA: [
+    { code: "CA-AB", name: "Alberta", cities: ["Calgary", "Edmonton", "Red Deer"] },
+    { code: "CA-BC", name: "British Columbia", cities: ["Vancouver", "Victoria", "Surrey", "Kelowna"] },
+    { code: "CA-MB", name: "Manitoba", cities: ["Winnipeg", "Brandon"] },
+    { code: "CA-NB", name: "New Brunswick", cities: ["Moncton", "Saint John", "Fredericton"] },
+    { code: "CA-NL", name: "Newfoundland and Labrador", cities: ["St. John's", "Corner Brook"] },
+    { code: "CA-NS", name: "Nova Scotia", cities: ["Halifax", "Sydney"] },
+    { code: "CA-NT", name: "Northwest Territories", cities: ["Yellowknife"] },
+    { code: "CA-NU", name: "Nunavut", cities: ["Iqaluit"] },
+    { code: "CA-ON", name: "Ontario", cities: ["Toronto", "Ottawa", "Mississauga", "Hamilton", "London"] },
+    { code: "CA-PE", name: "Prince Edward Island", cities: ["Charlottetown"] },
+    { code: "CA-QC", name: "Quebec", cities: ["Montreal", "Quebec City", "Laval", "Gatineau"] },
+    { code: "CA-SK", name: "Saskatchewan", cities: ["Saskatoon", "Regina"] },
+    { code: "CA-YT", name: "Yukon", cities: ["Whitehorse"] },
+  ],
+  DE: [
+    { code: "DE-BW", name: "Baden-Württemberg", cities: ["Stuttgart", "Mannheim", "Karlsruhe", "Freiburg im Breisgau"] },
+    { code: "DE-BY", name: "Bavaria", cities: ["Munich", "Nuremberg", "Augsburg"] },
+    { code: "DE-BE", name: "Berlin", cities: ["Berlin"] },
+    { code: "DE-BB", name: "Brandenburg", cities: ["Potsdam", "Cottbus"] },
+    { code: "DE-HB", name: "Bremen", cities: ["Bremen", "Bremerhaven"] },
+    { code: "DE-HH", name: "Hamburg", cities: ["Hamburg"] },
+    { code: "DE-HE", name: "Hesse", cities: ["Frankfurt am Main", "Wiesbaden", "Kassel"] },
+    { code: "DE-MV", name: "Mecklenburg-Western Pomerania", cities: ["Rostock", "Schwerin"] },
+    { code: "DE-NI", name: "Lower Saxony", cities: ["Hanover", "Brunswick", "Osnabrück"] },
+    { code: "DE-NW", name: "North Rhine-Westphalia", cities: ["Cologne", "Düsseldorf", "Dortmund", "Essen"] },
+    { code: "DE-RP", name: "Rhineland-Palatinate", cities: ["Mainz", "Ludwigshafen", "Koblenz"] },
+    { code: "DE-SL", name: "Saarland", cities: ["Saarbrücken"] },
+    { code: "DE-SN", name: "Saxony", cities: ["Leipzig", "Dresden", "Chemnitz"] },
+    { code: "DE-ST", name: "Saxony-Anhalt", cities: ["Magdeburg", "Halle (Saale)"] },
+    { code: "DE-SH", name: "Schleswig-Holstein", cities: ["Kiel", "Lübeck"] },
+    { code: "DE-TH", name: "Thuringia", cities: ["Erfurt", "Jena"] },
+  ],
+  GB: [
+    { code: "GB-ENG", name: "England", cities: ["London", "Birmingham", "Manchester", "Leeds", "Liverpool", "Bristol"] },
+    { code: "GB-NIR", name: "Northern Ireland", cities: ["Belfast", "Derry"] },
+    { code: "GB-SCT", name: "Scotland", cities: ["Glasgow", "Edinburgh", "Aberdeen", "Dundee"] },
+    { code: "GB-WLS", name: "Wales", cities: ["Cardiff", "Swansea", "Newport"] },
+  ],
+  IN: [
+    { code: "IN-AN", name: "Andaman and Nicobar Islands", cities: ["Port Blair"] },
+    { code: "IN-AP", name: "Andhra Pradesh", cities: ["Visakhapatnam", "Vijayawada", "Guntur", "Amaravati"] },
+    { code: "IN-AR", name: "Arunachal Pradesh", cities: ["Itanagar"] },
+    { code: "IN-AS", name: "Assam", cities: ["Guwahati", "Dibrugarh", "Silchar"] },
+    { code: "IN-BR", name: "Bihar", cities: ["Patna", "Gaya", "Bhagalpur"] },
+    { code: "IN-CH", name: "Chandigarh", cities: ["Chandigarh"] },
+    { code: "IN-CG", name: "Chhattisgarh", cities: ["Raipur", "Bhilai", "Bilaspur"] },
+    { code: "IN-DH", name: "Dadra and Nagar Haveli and Daman and Diu", cities: ["Daman", "Silvassa", "Diu"] },
+    { code: "IN-DL", name: "Delhi", cities: ["New Delhi", "Delhi"] },
+    { code: "IN-GA", name: "Goa", cities: ["Panaji", "Margao", "Vasco da Gama"] },
+    { code: "IN-GJ", name: "Gujarat", cities: ["Ahmedabad", "Surat", "Vadodara", "Rajkot"] },
+    { code: "IN-HR", name: "Haryana", cities: ["Gurugram", "Faridabad", "Panipat"] },
+    { code: "IN-HP", name: "Himachal Pradesh", cities: ["Shimla", "Dharamshala", "Manali"] },
+    { code: "IN-JK", name: "Jammu and Kashmir", cities: ["Srinagar", "Jammu"] },
+    { code: "IN-JH", name: "Jharkhand", cities: ["Ranchi", "Jamshedpur", "Dhanbad"] },
+    { code: "IN-KA", name: "Karnataka", cities: ["Bengaluru", "Mysuru", "Mangaluru", "Hubballi"] },
+    { code: "IN-KL", name: "Kerala", cities: ["Thiruvananthapuram", "Kochi", "Kozhikode"] },
+    { code: "IN-LA", name: "Ladakh", cities: ["Leh", "Kargil"] },
+    { code: "IN-LD", name: "Lakshadweep", cities: ["Kavaratti"] },
+    { code: "IN-MP", name: "Madhya Pradesh", cities: ["Bhopal", "Indore", "Jabalpur", "Gwalior"] },
+    { code: "IN-MH", name: "Maharashtra", cities: ["Mumbai", "Pune", "Nagpur", "Nashik"] },
+    { code: "IN-MN", name: "Manipur", cities: ["Imphal"] },
+    { code: "IN-ML", name: "Meghalaya", cities: ["Shillong"] },
+    { code: "IN-MZ", name: "Mizoram", cities: ["Aizawl"] },
+    { code: "IN-NL", name: "Nagaland", cities: ["Kohima", "Dimapur"] },
+    { code: "IN-OD", name: "Odisha", cities: ["Bhubaneswar", "Cuttack", "Rourkela"] },
+    { code: "IN-PY", name: "Puducherry", cities: ["Puducherry", "Karaikal"] },
+    { code: "IN-PB", name: "Punjab", cities: ["Ludhiana", "Amritsar", "Jalandhar", "Mohali"] },
+    { code: "IN-RJ", name: "Rajasthan", cities: ["Jaipur", "Jodhpur", "Udaipur", "Kota"] },
+    { code: "IN-SK", name: "Sikkim", cities: ["Gangtok"] },
+    { code: "IN-TN", name: "Tamil Nadu", cities: ["Chennai", "Coimbatore", "Madurai", "Tiruchirappalli"] },
+    { code: "IN-TS", name: "Telangana", cities: ["Hyderabad", "Warangal", "Karimnagar"] },
+    { code: "IN-TR", name: "Tripura", cities: ["Agartala"] },
+    { code: "IN-UP", name: "Uttar Pradesh", cities: ["Lucknow", "Kanpur", "Varanasi", "Agra", "Noida"] },
+    { code: "IN-UK", name: "Uttarakhand", cities: ["Dehradun", "Haridwar", "Rishikesh"] },
+    { code: "IN-WB", name: "West Bengal", cities: ["Kolkata", "Howrah", "Siliguri", "Durgapur"] },
+  ],
+  KE: [
+    { code: "KE-01", name: "Baringo", cities: ["Kabarnet"] },
+    { code: "KE-02", name: "Bomet", cities: ["Bomet"] },
+    { code: "KE-03", name: "Bungoma", cities: ["Bungoma", "Webuye"] },
+    { code: "KE-04", name: "Busia", cities: ["Busia"] },
+    { code: "KE-05", name: "Elgeyo/Marakwet", cities: ["Iten"] },
+    { code: "KE-06", name: "Embu", cities: ["Embu"] },
+    { code: "KE-07", name: "Garissa", cities: ["Garissa"] },
+    { code: "KE-08", name: "Homa Bay", cities: ["Homa Bay"] },
+    { code: "KE-09", name: "Isiolo", cities: ["Isiolo"] },
+    { code: "KE-10", name: "Kajiado", cities: ["Kajiado", "Kitengela", "Ngong"] },
+    { code: "KE-11", name: "Kakamega", cities: ["Kakamega", "Mumias"] },
+    { code: "KE-12", name: "Kericho", cities: ["Kericho"] },
+    { code: "KE-13", name: "Kiambu", cities: ["Kiambu", "Thika", "Ruiru"] },
+    { code: "KE-14", name: "Kilifi", cities: ["Kilifi", "Malindi"] },
+    { code: "KE-15", name: "Kirinyaga", cities: ["Kerugoya"] },
+    { code: "KE-16", name: "Kisii", cities: ["Kisii"] },
+    { code: "KE-17", name: "Kisumu", cities: ["Kisumu"] },
+    { code: "KE-18", name: "Kitui", cities: ["Kitui"] },
+    { code: "KE-19", name: "Kwale", cities: ["Kwale", "Ukunda"] },
+    { code: "KE-20", name: "Laikipia", cities: ["Nanyuki", "Rumuruti"] },
+    { code: "KE-21", name: "Lamu", cities: ["Lamu"] },
+    { code: "KE-22", name: "Machakos", cities: ["Machakos", "Athi River"] },
+    { code: "KE-23", name: "Makueni", cities: ["Wote"] },
+    { code: "KE-24", name: "Mandera", cities: ["Mandera"] },
+    { code: "KE-25", name: "Marsabit", cities: ["Marsabit"] },
+    { code: "KE-26", name: "Meru", cities: ["Meru"] },
+    { code: "KE-27", name: "Migori", cities: ["Migori"] },
+    { code: "KE-28", name: "Mombasa", cities: ["Mombasa"] },
+    { code: "KE-29", name: "Murang'a", cities: ["Murang'a"] },
+    { code: "KE-30", name: "Nairobi City", cities: ["Nairobi"] },
+    { code: "KE-31", name: "Nakuru", cities: ["Nakuru", "Naivasha", "Molo"] },
+    { code: "KE-32", name: "Nandi", cities: ["Kapsabet"] },
+    { code: "KE-33", name: "Narok", cities: ["Narok"] },
+    { code: "KE-34", name: "Nyamira", cities: ["Nyamira"] },
+    { code: "KE-35", name: "Nyandarua", cities: ["Ol Kalou"] },
+    { code: "KE-36", name: "Nyeri", cities: ["Nyeri"] },
+    { code: "KE-37", name: "Samburu", cities: ["Maralal"] },
+    { code: "KE-38", name: "Siaya", cities: ["Siaya"] },
+    { code: "KE-39", name: "Taita/Taveta", cities: ["Voi", "Wundanyi"] },
+    { code: "KE-40", name: "Tana River", cities: ["Hola"] },
+    { code: "KE-41", name: "Tharaka-Nithi", cities: ["Chuka"] },
+    { code: "KE-42", name: "Trans Nzoia", cities: ["Kitale"] },
+    { code: "KE-43", name: "Turkana", cities: ["Lodwar"] },
+    { code: "KE-44", name: "Uasin Gishu", cities: ["Eldoret"] },
+    { code: "KE-45", name: "Vihiga", cities: ["Vihiga"] },
+    { code: "KE-46", name: "Wajir", cities: ["Wajir"] },
+    { code: "KE-47", name: "West Pokot", cities: ["Kapenguria"] },
+  ],
+  KW: [
+    { code: "KW-AH", name: "Al Ahmadi", cities: ["Al Ahmadi", "Fahaheel"] },
+    { code: "KW-FA", name: "Al Farwaniyah", cities: ["Al Farwaniyah", "Jleeb Al-Shuyoukh"] },
+    { code: "KW-JA", name: "Al Jahra", cities: ["Al Jahra"] },
+    { code: "KW-KU", name: "Capital", cities: ["Kuwait City"] },
+    { code: "KW-HA", name: "Hawalli", cities: ["Hawalli", "Salmiya"] },
+    { code: "KW-MU", name: "Mubarak Al-Kabeer", cities: ["Mubarak Al-Kabeer"] },
+  ],
+  MY: [
+    { code: "MY-01", name: "Johor", cities: ["Johor Bahru", "Batu Pahat", "Muar"] },
+    { code: "MY-02", name: "Kedah", cities: ["Alor Setar", "Sungai Petani"] },
+    { code: "MY-03", name: "Kelantan", cities: ["Kota Bharu"] },
+    { code: "MY-04", name: "Melaka", cities: ["Malacca City"] },
+    { code: "MY-05", name: "Negeri Sembilan", cities: ["Seremban", "Port Dickson"] },
+    { code: "MY-06", name: "Pahang", cities: ["Kuantan", "Temerloh"] },
+    { code: "MY-07", name: "Pulau Pinang", cities: ["George Town", "Butterworth"] },
+    { code: "MY-08", name: "Perak", cities: ["Ipoh", "Taiping"] },
+    { code: "MY-09", name: "Perlis", cities: ["Kangar"] },
+    { code: "MY-10", name: "Selangor", cities: ["Shah Alam", "Petaling Jaya", "Klang", "Subang Jaya"] },
+    { code: "MY-11", name: "Terengganu", cities: ["Kuala Terengganu"] },
+    { code: "MY-12", name: "Sabah", cities: ["Kota Kinabalu", "Sandakan", "Tawau"] },
+    { code: "MY-13", name: "Sarawak", cities: ["Kuching", "Miri", "Sibu"] },
+    { code: "MY-14", name: "Kuala Lumpur", cities: ["Kuala Lumpur"] },
+    { code: "MY-15", name: "Labuan", cities: ["Victoria"] },
+    { code: "MY-16", name: "Putrajaya", cities: ["Putrajaya"] },
+  ],
+  OM: [
+    { code: "OM-DA", name: "Ad Dakhiliyah", cities: ["Nizwa", "Bahla"] },
+    { code: "OM-BU", name: "Al Buraimi", cities: ["Al Buraimi"] },
+    { code: "OM-WU", name: "Al Wusta", cities: ["Haima", "Duqm"] },
+    { code: "OM-ZA", name: "Ad Dhahirah", cities: ["Ibri"] },
+    { code: "OM-BJ", name: "Al Batinah South", cities: ["Rustaq", "Barka"] },
+    { code: "OM-BS", name: "Al Batinah North", cities: ["Sohar", "Saham"] },
+    { code: "OM-MA", name: "Muscat", cities: ["Muscat", "Seeb", "Muttrah"] },
+    { code: "OM-MU", name: "Musandam", cities: ["Khasab"] },
+    { code: "OM-SJ", name: "Ash Sharqiyah South", cities: ["Sur"] },
+    { code: "OM-SS", name: "Ash Sharqiyah North", cities: ["Ibra"] },
+    { code: "OM-ZU", name: "Dhofar", cities: ["Salalah"] },
+  ],
+  PK: [
+    { code: "PK-BA", name: "Balochistan", cities: ["Quetta", "Gwadar", "Turbat"] },
+    { code: "PK-GB", name: "Gilgit-Baltistan", cities: ["Gilgit", "Skardu"] },
+    { code: "PK-IS", name: "Islamabad", cities: ["Islamabad"] },
+    { code: "PK-JK", name: "Azad Jammu and Kashmir", cities: ["Muzaffarabad", "Mirpur"] },
+    { code: "PK-KP", name: "Khyber Pakhtunkhwa", cities: ["Peshawar", "Abbottabad", "Mardan", "Swat"] },
+    { code: "PK-PB", name: "Punjab", cities: ["Lahore", "Faisalabad", "Rawalpindi", "Multan", "Gujranwala"] },
+    { code: "PK-SD", name: "Sindh", cities: ["Karachi", "Hyderabad", "Sukkur", "Larkana"] },
+  ],
+  QA: [
+    { code: "QA-DA", name: "Doha", cities: ["Doha"] },
+    { code: "QA-KH", name: "Al Khor", cities: ["Al Khor"] },
+    { code: "QA-WA", name: "Al Wakrah", cities: ["Al Wakrah", "Mesaieed"] },
+    { code: "QA-RA", name: "Al Rayyan", cities: ["Al Rayyan", "Education City"] },
+    { code: "QA-MS", name: "Al Shamal", cities: ["Madinat ash Shamal"] },
+    { code: "QA-ZA", name: "Al Daayen", cities: ["Lusail", "Umm Qarn"] },
+    { code: "QA-US", name: "Umm Salal", cities: ["Umm Salal Muhammad"] },
+    { code: "QA-SH", name: "Al-Shahaniya", cities: ["Al-Shahaniya"] },
+  ],
+  SA: [
+    { code: "SA-01", name: "Riyadh", cities: ["Riyadh", "Al Kharj"] },
+    { code: "SA-02", name: "Makkah", cities: ["Mecca", "Jeddah", "Taif"] },
+    { code: "SA-03", name: "Madinah", cities: ["Medina", "Yanbu"] },
+    { code: "SA-04", name: "Eastern Province", cities: ["Dammam", "Khobar", "Dhahran", "Al Hofuf", "Jubail"] },
+    { code: "SA-05", name: "Al-Qassim", cities: ["Buraidah", "Unaizah"] },
+    { code: "SA-06", name: "Ha'il", cities: ["Ha'il"] },
+    { code: "SA-07", name: "Tabuk", cities: ["Tabuk"] },
+    { code: "SA-08", name: "Northern Borders", cities: ["Arar"] },
+    { code: "SA-09", name: "Jazan", cities: ["Jazan"] },
+    { code: "SA-10", name: "Najran", cities: ["Najran"] },
+    { code: "SA-11", name: "Al-Bahah", cities: ["Al Bahah"] },
+    { code: "SA-12", name: "Al-Jawf", cities: ["Sakakah"] },
+    { code: "SA-14", name: "Asir", cities: ["Abha", "Khamis Mushait"] },
+  ],
+  SG: [
+    { code: "SG-01", name: "Central Singapore", cities: ["Singapore"] },
+    { code: "SG-02", name: "North East", cities: ["Singapore"] },
+    { code: "SG-03", name: "North West", cities: ["Singapore"] },
+    { code: "SG-04", name: "South East", cities: ["Singapore"] },
+    { code: "SG-05", name: "South West", cities: ["Singapore"] },
+  ],
+  US: [
+    { code: "US-AL", name: "Alabama", cities: ["Birmingham", "Montgomery", "Huntsville", "Mobile"] },
+    { code: "US-AK", name: "Alaska", cities: ["Anchorage", "Fairbanks", "Juneau"] },
+    { code: "US-AZ", name: "Arizona", cities: ["Phoenix", "Tucson", "Mesa", "Flagstaff"] },
+    { code: "US-AR", name: "Arkansas", cities: ["Little Rock", "Fayetteville", "Fort Smith"] },
+    { code: "US-CA", name: "California", cities: ["Los Angeles", "San Francisco", "San Diego", "San Jose", "Sacramento", "Fresno"] },
+    { code: "US-CO", name: "Colorado", cities: ["Denver", "Colorado Springs", "Boulder", "Aurora"] },
+    { code: "US-CT", name: "Connecticut", cities: ["Hartford", "New Haven", "Bridgeport", "Stamford"] },
+    { code: "US-DE", name: "Delaware", cities: ["Wilmington", "Dover"] },
+    { code: "US-DC", name: "District of Columbia", cities: ["Washington"] },
+    { code: "US-FL", name: "Florida", cities: ["Miami", "Orlando", "Tampa", "Jacksonville", "Tallahassee"] },
+    { code: "US-GA", name: "Georgia", cities: ["Atlanta", "Savannah", "Augusta"] },
+    { code: "US-HI", name: "Hawaii", cities: ["Honolulu", "Hilo"] },
+    { code: "US-ID", name: "Idaho", cities: ["Boise", "Idaho Falls"] },
+    { code: "US-IL", name: "Illinois", cities: ["Chicago", "Springfield", "Aurora", "Peoria"] },
+    { code: "US-IN", name: "Indiana", cities: ["Indianapolis", "Fort Wayne", "Bloomington"] },
+    { code: "US-IA", name: "Iowa", cities: ["Des Moines", "Cedar Rapids", "Iowa City"] },
+    { code: "US-KS", name: "Kansas", cities: ["Wichita", "Topeka", "Kansas City"] },
+    { code: "US-KY", name: "Kentucky", cities: ["Louisville", "Lexington", "Frankfort"] },
+    { code: "US-LA", name: "Louisiana", cities: ["New Orleans", "Baton Rouge", "Shreveport"] },
+    { code: "US-ME", name: "Maine", cities: ["Portland", "Augusta", "Bangor"] },
+    { code: "US-MD", name: "Maryland", cities: ["Baltimore", "Annapolis", "Frederick"] },
+    { code: "US-MA", name: "Massachusetts", cities: ["Boston", "Worcester", "Springfield", "Cambridge"] },
+    { code: "US-MI", name: "Michigan", cities: ["Detroit", "Grand Rapids", "Lansing", "Ann Arbor"] },
+    { code: "US-MN", name: "Minnesota", cities: ["Minneapolis", "Saint Paul", "Duluth"] },
+    { code: "US-MS", name: "Mississippi", cities: ["Jackson", "Gulfport"] },
+    { code: "US-MO", name: "Missouri", cities: ["Kansas City", "St. Louis", "Springfield", "Jefferson City"] },
+    { code: "US-MT", name: "Montana", cities: ["Billings", "Missoula", "Helena"] },
+    { code: "US-NE", name: "Nebraska", cities: ["Omaha", "Lincoln"] },
+    { code: "US-NV", name: "Nevada", cities: ["Las Vegas", "Reno", "Carson City"] },
+    { code: "US-NH", name: "New Hampshire", cities: ["Manchester", "Concord", "Nashua"] },
+    { code: "US-NJ", name: "New Jersey", cities: ["Newark", "Jersey City", "Trenton"] },
+    { code: "US-NM", name: "New Mexico", cities: ["Albuquerque", "Santa Fe", "Las Cruces"] },
+    { code: "US-NY", name: "New York", cities: ["New York City", "Buffalo", "Rochester", "Albany", "Syracuse"] },
+    { code: "US-NC", name: "North Carolina", cities: ["Charlotte", "Raleigh", "Durham", "Greensboro"] },
+    { code: "US-ND", name: "North Dakota", cities: ["Fargo", "Bismarck"] },
+    { code: "US-OH", name: "Ohio", cities: ["Columbus", "Cleveland", "Cincinnati", "Toledo"] },
+    { code: "US-OK", name: "Oklahoma", cities: ["Oklahoma City", "Tulsa"] },
+    { code: "US-OR", name: "Oregon", cities: ["Portland", "Salem", "Eugene"] },
+    { code: "US-PA", name: "Pennsylvania", cities: ["Philadelphia", "Pittsburgh", "Harrisburg", "Allentown"] },
+    { code: "US-RI", name: "Rhode Island", cities: ["Providence", "Warwick"] },
+    { code: "US-SC", name: "South Carolina", cities: ["Columbia", "Charleston", "Greenville"] },
+    { code: "US-SD", name: "South Dakota", cities: ["Sioux Falls", "Rapid City", "Pierre"] },
+    { code: "US-TN", name: "Tennessee", cities: ["Nashville", "Memphis", "Knoxville", "Chattanooga"] },
+    { code: "US-TX", name: "Texas", cities: ["Houston", "Dallas", "Austin", "San Antonio", "Fort Worth", "El Paso"] },
+    { code: "US-UT", name: "Utah", cities: ["Salt Lake City", "Provo", "Ogden"] },
+    { code: "US-VT", name: "Vermont", cities: ["Burlington", "Montpelier"] },
+    { code: "US-VA", name: "Virginia", cities: ["Virginia Beach", "Richmond", "Norfolk", "Arlington"] },
+    { code: "US-WA", name: "Washington", cities: ["Seattle", "Spokane", "Tacoma", "Olympia"] },
+    { code: "US-WV", name: "West Virginia", cities: ["Charleston", "Huntington", "Morgantown"] },
+    { code: "US-WI", name: "Wisconsin", cities: ["Milwaukee", "Madison", "Green Bay"] },
+    { code: "US-WY", name: "Wyoming", cities: ["Cheyenne", "Casper"] },
+  ],
+};
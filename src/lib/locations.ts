@@ -0,0 +1,108 @@
+import {
+  COUNTRIES,
+  SUBDIVISIONS_BY_COUNTRY,
+  type CountryRecord,
+  type SubdivisionRecord,
+} from "@/lib/location-data";
+import type { Address } from "@/types/api";
+
+export interface LocationOption {
+  code: string;
+  name: string;
+}
+
+/** Folds case, accents and punctuation so "U.S.A." and "usa" or "Türkiye" and "turkiye" compare equal. */
+function toLookupKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+const COUNTRY_BY_KEY = new Map<string, CountryRecord>();
+COUNTRIES.forEach((country) => {
+  [country.code, country.alpha3, country.name, ...(country.aliases ?? [])].forEach((value) => {
+    const key = toLookupKey(value);
+    if (!COUNTRY_BY_KEY.has(key)) {
+      COUNTRY_BY_KEY.set(key, country);
+    }
+  });
+});
+
+export const COUNTRY_OPTIONS: readonly LocationOption[] = COUNTRIES.map(({ code, name }) => ({ code, name }));
+
+export function findCountry(value: string | null | undefined): CountryRecord | undefined {
+  return value ? COUNTRY_BY_KEY.get(toLookupKey(value)) : undefined;
+}
+
+export function getSubdivisions(countryCode: string | null | undefined): readonly SubdivisionRecord[] {
+  return countryCode ? (SUBDIVISIONS_BY_COUNTRY[countryCode.toUpperCase()] ?? []) : [];
+}
+
+export function hasSubdivisionData(countryCode: string | null | undefined): boolean {
+  return getSubdivisions(countryCode).length > 0;
+}
+
+/** Matches a subdivision by its full ISO code ("US-CA"), its local part ("CA") or its name. */
+export function findSubdivision(
+  countryCode: string | null | undefined,
+  value: string | null | undefined,
+): SubdivisionRecord | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const key = toLookupKey(value);
+  return getSubdivisions(countryCode).find(
+    (subdivision) =>
+      toLookupKey(subdivision.code) === key ||
+      toLookupKey(subdivision.code.split("-")[1] ?? "") === key ||
+      toLookupKey(subdivision.name) === key,
+  );
+}
+
+/** Cities of one subdivision, or of the whole country when no subdivision is selected. */
+export function getCityNames(
+  countryCode: string | null | undefined,
+  stateCode?: string | null,
+): readonly string[] {
+  const subdivisions = getSubdivisions(countryCode);
+  if (stateCode) {
+    return subdivisions.find((subdivision) => subdivision.code === stateCode)?.cities ?? [];
+  }
+
+  return [...new Set(subdivisions.flatMap((subdivision) => subdivision.cities))];
+}
+
+/**
+ * Maps a free-text address onto the bundled dataset: recognised countries and subdivisions
+ * get their ISO codes and canonical names, and known cities get their canonical spelling.
+ * Parts that cannot be matched are kept as trimmed text.
+ */
+export function normalizeAddress(address: Address): Address {
+  const country = findCountry(address.countryCode) ?? findCountry(address.country);
+  if (!country) {
+    return {
+      ...address,
+      country: address.country.trim(),
+      countryCode: undefined,
+      state: address.state.trim(),
+      stateCode: undefined,
+      city: address.city.trim(),
+    };
+  }
+
+  const subdivision = findSubdivision(country.code, address.stateCode) ?? findSubdivision(country.code, address.state);
+  const cityKey = toLookupKey(address.city);
+  const city = getCityNames(country.code, subdivision?.code).find((name) => toLookupKey(name) === cityKey);
+
+  return {
+    ...address,
+    country: country.name,
+    countryCode: country.code,
+    state: subdivision?.name ?? address.state.trim(),
+    stateCode: subdivision?.code,
+    city: city ?? address.city.trim(),
+  };
+}
@@ -0,0 +1,322 @@
+import { formatNumber, translate, type Locale } from "@/lib/i18n";
+import { MAX_SOURCE_IMAGE_SIZE_BYTES } from "@/lib/image-processing";
+import { formatFileSize } from "@/lib/utils";
+import type { MediaPolicy } from "@/types/api";
+
+export const DEFAULT_MEDIA_POLICY: MediaPolicy = {
+  maxImageCount: 10,
+  maxVideoCount: 1,
+  maxImageSizeBytes: 5 * 1024 * 1024,
+  maxVideoSizeBytes: 20 * 1024 * 1024,
+  allowedImageTypes: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+  allowedVideoTypes: ["video/mp4", "video/webm", "video/quicktime"],
+  maxVideoDurationSeconds: 300,
+  maxVideoDimension: 3840,
+};
+
+const MEDIA_TYPE_LABELS: Record<string, string> = {
+  "image/jpeg": "JPEG",
+  "image/png": "PNG",
+  "image/webp": "WebP",
+  "image/gif": "GIF",
+  "image/heic": "HEIC",
+  "video/mp4": "MP4",
+  "video/webm": "WebM",
+  "video/quicktime": "MOV",
+};
+
+function readPositive(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function readOptionalPositive(value: unknown, fallback: number | null): number | null {
+  return value === null ? null : readPositive(value, fallback ?? 0) || null;
+}
+
+function readTypes(value: unknown, fallback: string[]): string[] {
+  if (!Array.isArray(value)) {
+    return fallback;
+  }
+
+  const types = value.filter((item): item is string => typeof item === "string").map((item) => item.toLowerCase());
+  return types.length > 0 ? types : fallback;
+}
+
+/** Fills gaps and invalid values in a server policy from `DEFAULT_MEDIA_POLICY`. */
+export function resolveMediaPolicy(raw: Partial<Record<keyof MediaPolicy, unknown>>): MediaPolicy {
+  return {
+    maxImageCount: readPositive(raw.maxImageCount, DEFAULT_MEDIA_POLICY.maxImageCount),
+    maxVideoCount: readPositive(raw.maxVideoCount, DEFAULT_MEDIA_POLICY.maxVideoCount),
+    maxImageSizeBytes: readPositive(raw.maxImageSizeBytes, DEFAULT_MEDIA_POLICY.maxImageSizeBytes),
+    maxVideoSizeBytes: readPositive(raw.maxVideoSizeBytes, DEFAULT_MEDIA_POLICY.maxVideoSizeBytes),
+    allowedImageTypes: readTypes(raw.allowedImageTypes, DEFAULT_MEDIA_POLICY.allowedImageTypes),
+    allowedVideoTypes: readTypes(raw.allowedVideoTypes, DEFAULT_MEDIA_POLICY.allowedVideoTypes),
+    maxVideoDurationSeconds: readOptionalPositive(
+      raw.maxVideoDurationSeconds,
+      DEFAULT_MEDIA_POLICY.maxVideoDurationSeconds,
+    ),
+    maxVideoDimension: readOptionalPositive(raw.maxVideoDimension, DEFAULT_MEDIA_POLICY.maxVideoDimension),
+  };
+}
+
+function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.round(totalSeconds % 60);
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+export function formatMediaTypes(types: string[]): string {
+  return types.map((type) => MEDIA_TYPE_LABELS[type] ?? type.split("/")[1]?.toUpperCase() ?? type).join(", ");
+}
+
+/** Pixel sizes read like measurements, so they skip digit grouping. */
+function formatPixels(value: number, locale: Locale): string {
+  return formatNumber(value, locale, { useGrouping: false });
+}
+
+function formatMediaCount(kind: "image" | "video", policy: MediaPolicy, locale: Locale): string {
+  return kind === "image"
+    ? translate(locale, "media.imageCount", { count: policy.maxImageCount })
+    : translate(locale, "media.videoCount", { count: policy.maxVideoCount });
+}
+
+export function formatMediaCountLimit(kind: "image" | "video", policy: MediaPolicy, locale: Locale): string {
+  return translate(locale, "media.countLimit", { limit: formatMediaCount(kind, policy, locale) });
+}
+
+/** One-line summary of the limits for a file picker hint. */
+export function describeMediaPolicy(kind: "image" | "video", policy: MediaPolicy, locale: Locale): string {
+  const upTo = translate(locale, "media.upTo", { limit: formatMediaCount(kind, policy, locale) });
+  if (kind === "image") {
+    return translate(locale, "media.imagePolicy", {
+      upTo,
+      types: formatMediaTypes(policy.allowedImageTypes),
+      size: formatFileSize(policy.maxImageSizeBytes),
+    });
+  }
+
+  const parts = [
+    upTo,
+    formatMediaTypes(policy.allowedVideoTypes),
+    translate(locale, "media.sizeEach", { size: formatFileSize(policy.maxVideoSizeBytes) }),
+  ];
+  if (policy.maxVideoDurationSeconds) {
+    parts.push(translate(locale, "media.maxDuration", { duration: formatDuration(policy.maxVideoDurationSeconds) }));
+  }
+  if (policy.maxVideoDimension) {
+    parts.push(translate(locale, "media.maxDimension", { pixels: formatPixels(policy.maxVideoDimension, locale) }));
+  }
+
+  return translate(locale, "media.videoPolicy", { details: parts.join(" · ") });
+}
+
+function matchesAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  return [...text].every((char, index) => bytes[offset + index] === char.charCodeAt(0));
+}
+
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "mif1", "msf1"]);
+
+/** `ftyp` major brands of MP4 video; M4A audio, AVIF and other ISO media files are not listed. */
+const MP4_BRANDS = new Set([
+  "isom",
+  "iso2",
+  "iso4",
+  "iso5",
+  "iso6",
+  "mp41",
+  "mp42",
+  "avc1",
+  "dash",
+  "mmp4",
+  "M4V ",
+  "M4VH",
+  "M4VP",
+  "f4v ",
+]);
+
+/** Keeps a video that never loads from leaving the picker busy. */
+const VIDEO_METADATA_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Identifies a file from its leading bytes, so a renamed file cannot pass as another type.
+ * Returns null for content that matches none of the known signatures.
+ */
+export async function detectMediaType(file: File): Promise<string | null> {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (bytes[0] === 0x89 && matchesAscii(bytes, 1, "PNG\r\n\u001a\n")) {
+    return "image/png";
+  }
+  if (matchesAscii(bytes, 0, "GIF87a") || matchesAscii(bytes, 0, "GIF89a")) {
+    return "image/gif";
+  }
+  if (matchesAscii(bytes, 0, "RIFF") && matchesAscii(bytes, 8, "WEBP")) {
+    return "image/webp";
+  }
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return "video/webm";
+  }
+  if (matchesAscii(bytes, 4, "ftyp")) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (brand === "qt  ") {
+      return "video/quicktime";
+    }
+    if (HEIF_BRANDS.has(brand)) {
+      return "image/heic";
+    }
+
+    return MP4_BRANDS.has(brand) ? "video/mp4" : null;
+  }
+
+  return null;
+}
+
+interface VideoMetadata {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+/** Resolves null when the browser cannot decode the video in time; the server still checks it. */
+function readVideoMetadata(file: File): Promise<VideoMetadata | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+    const timeoutId = window.setTimeout(() => finish(null), VIDEO_METADATA_TIMEOUT_MS);
+
+    function finish(metadata: VideoMetadata | null) {
+      window.clearTimeout(timeoutId);
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(metadata);
+    }
+
+    video.onloadedmetadata = () => {
+      finish({ durationSeconds: video.duration, width: video.videoWidth, height: video.videoHeight });
+    };
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+}
+
+async function checkContentType(
+  file: File,
+  allowedTypes: string[],
+  kind: "image" | "video",
+  locale: Locale,
+): Promise<string | null> {
+  const detectedType = await detectMediaType(file);
+  if (detectedType && allowedTypes.includes(detectedType)) {
+    return null;
+  }
+
+  return translate(locale, kind === "image" ? "media.unsupportedImage" : "media.unsupportedVideo", {
+    name: file.name,
+    types: formatMediaTypes(allowedTypes),
+  });
+}
+
+/** Checks picked images before they are processed; returns the first problem found. */
+export async function validateImageFiles(files: File[], policy: MediaPolicy, locale: Locale): Promise<string | null> {
+  for (const file of files) {
+    if (file.size > MAX_SOURCE_IMAGE_SIZE_BYTES) {
+      return translate(locale, "media.imageTooLarge", {
+        name: file.name,
+        size: formatFileSize(MAX_SOURCE_IMAGE_SIZE_BYTES),
+      });
+    }
+
+    const typeError = await checkContentType(file, policy.allowedImageTypes, "image", locale);
+    if (typeError) {
+      return typeError;
+    }
+  }
+
+  return null;
+}
+
+/** Checks picked videos' content type, size, duration and resolution; returns the first problem found. */
+export async function validateVideoFiles(files: File[], policy: MediaPolicy, locale: Locale): Promise<string | null> {
+  for (const file of files) {
+    if (file.size > policy.maxVideoSizeBytes) {
+      return translate(locale, "media.videoTooLarge", {
+        name: file.name,
+        size: formatFileSize(policy.maxVideoSizeBytes),
+      });
+    }
+
+    const typeError = await checkContentType(file, policy.allowedVideoTypes, "video", locale);
+    if (typeError) {
+      return typeError;
+    }
+
+    const metadata = await readVideoMetadata(file);
+    if (!metadata) {
+      continue;
+    }
+
+    if (policy.maxVideoDurationSeconds && metadata.durationSeconds > policy.maxVideoDurationSeconds) {
+      return translate(locale, "media.videoTooLong", {
+        name: file.name,
+        duration: formatDuration(policy.maxVideoDurationSeconds),
+      });
+    }
+
+    if (policy.maxVideoDimension && Math.max(metadata.width, metadata.height) > policy.maxVideoDimension) {
+      return translate(locale, "media.videoTooWide", {
+        name: file.name,
+        size: `${formatPixels(metadata.width, locale)}×${formatPixels(metadata.height, locale)}`,
+        pixels: formatPixels(policy.maxVideoDimension, locale),
+      });
+    }
+  }
+
+  return null;
+}
+
+export interface MediaSelection {
+  existingImageCount: number;
+  existingVideoCount: number;
+  images: File[];
+  videos: File[];
+}
+
+/**
+ * Final check before uploading: totals include media already on the project, and sizes are
+ * rechecked because the policy may have loaded after the files were picked.
+ */
+export function validateMediaSelection(selection: MediaSelection, policy: MediaPolicy, locale: Locale): string | null {
+  if (selection.existingImageCount + selection.images.length > policy.maxImageCount) {
+    return formatMediaCountLimit("image", policy, locale);
+  }
+
+  if (selection.existingVideoCount + selection.videos.length > policy.maxVideoCount) {
+    return formatMediaCountLimit("video", policy, locale);
+  }
+
+  const oversizedImage = selection.images.find((file) => file.size > policy.maxImageSizeBytes);
+  if (oversizedImage) {
+    return translate(locale, "media.imageTooLarge", {
+      name: oversizedImage.name,
+      size: formatFileSize(policy.maxImageSizeBytes),
+    });
+  }
+
+  const oversizedVideo = selection.videos.find((file) => file.size > policy.maxVideoSizeBytes);
+  if (oversizedVideo) {
+    return translate(locale, "media.videoTooLarge", {
+      name: oversizedVideo.name,
+      size: formatFileSize(policy.maxVideoSizeBytes),
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,993 @@
+import type { Message, MessageKey } from "@/lib/messages/en";
+
+export const ar: Record<MessageKey, Message> = {
+  "common.loading": "جارٍ التحميل...",
+  "common.cancel": "إلغاء",
+  "common.all": "الكل",
+  "common.you": "أنت",
+  "common.saving": "جارٍ الحفظ...",
+  "common.saveChanges": "حفظ التغييرات",
+  "common.from": "من",
+  "common.to": "إلى",
+  "common.yes": "نعم",
+  "common.no": "لا",
+  "common.close": "إغلاق",
+
+  "notFound.message": "الصفحة غير موجودة",
+  "notFound.goHome": "العودة إلى الرئيسية",
+
+  "theme.toggle": "تبديل المظهر",
+  "theme.light": "فاتح",
+  "theme.dark": "داكن",
+  "theme.system": "حسب النظام",
+
+  "language.toggle": "تغيير اللغة",
+
+  "login.email": "البريد الإلكتروني",
+  "login.password": "كلمة المرور",
+  "login.showPassword": "إظهار كلمة المرور",
+  "login.hidePassword": "إخفاء كلمة المرور",
+  "login.submit": "تسجيل الدخول",
+  "login.submitting": "جارٍ تسجيل الدخول...",
+  "login.failed": "فشل تسجيل الدخول.",
+
+  "dashboard.loading": "جارٍ تحميل لوحة التحكم...",
+  "dashboard.appName": "لوحة إدارة هديّة",
+  "dashboard.welcome": "مرحبًا، {name}",
+  "dashboard.role": "الدور: {role}",
+  "dashboard.logout": "تسجيل الخروج",
+  "dashboard.connectedTo": "متصل بالخادم:",
+
+  "nav.overview": "نظرة عامة",
+  "nav.projects": "المشاريع",
+  "nav.categories": "الفئات",
+  "nav.donations": "التبرعات",
+  "nav.profile": "الملف الشخصي والحساب البنكي",
+  "nav.users": "المستخدمون",
+  "nav.admin": "إعدادات المسؤول",
+  "nav.audit": "سجل التدقيق",
+
+  "session.title": "الجلسة على وشك الانتهاء",
+  "session.expiresIn": "تنتهي جلستك خلال {time}.",
+  "session.expiringSoon": "جلستك على وشك الانتهاء.",
+  "session.refreshFailed": "تعذّر تجديد الجلسة تلقائيًا. حاول مرة أخرى أو سجّل الدخول من جديد لمتابعة العمل.",
+  "session.signInToContinue": "احفظ عملك وسجّل الدخول من جديد لمتابعة العمل.",
+  "session.renewing": "جارٍ التجديد...",
+  "session.tryAgain": "حاول مرة أخرى",
+  "session.dismiss": "تجاهل",
+  "session.signInAgain": "تسجيل الدخول من جديد",
+
+  "projectStatus.draft": "مسودة",
+  "projectStatus.submitted": "مُرسل للمراجعة",
+  "projectStatus.changesRequested": "مطلوب تعديلات",
+  "projectStatus.approved": "معتمد",
+  "projectStatus.rejected": "مرفوض",
+  "projectStatus.archived": "مؤرشف",
+
+  "projectLifecycle.upcoming": "قادم",
+  "projectLifecycle.live": "جارٍ",
+  "projectLifecycle.funded": "مكتمل التمويل",
+  "projectLifecycle.ended": "منتهٍ",
+
+  "currency.reportIn": "عرض المبالغ بـ",
+  "currency.ownCurrency": "عملة المشروع",
+  "currency.original": "المبلغ الأصلي: {amount}",
+  "currency.rate": "1 {from} = {rate} {to} (ساري من {date})",
+  "currency.noRate": "لا يوجد سعر صرف من {from} إلى {to}؛ يُعرض المبلغ الأصلي.",
+
+  "pagination.summary": "الصفحة {page} من {pageCount}",
+  "pagination.pageSize": "{size} / صفحة",
+  "pagination.first": "الأولى",
+  "pagination.previous": "السابقة",
+  "pagination.next": "التالية",
+  "pagination.last": "الأخيرة",
+
+  "projects.title": "المشاريع",
+  "projects.descriptionAll": "يمكن للمسؤول عرض جميع المشاريع وإدارتها.",
+  "projects.descriptionOwn": "يمكن لمستخدمي الجمعيات عرض مشاريعهم وإدارتها فقط.",
+  "projects.export": "تصدير",
+  "projects.reviewQueue": "قائمة المراجعة",
+  "projects.import": "استيراد",
+  "projects.create": "إنشاء مشروع جديد",
+  "projects.backToProjects": "العودة إلى المشاريع",
+  "projects.search": "بحث",
+  "projects.searchPlaceholder": "ابحث بالعنوان أو الوصف أو الفئة...",
+  "projects.category": "الفئة",
+  "projects.status": "الحالة",
+  "projects.lifecycle": "جمع التبرعات",
+  "projects.owner": "الجمعية المالكة",
+  "projects.clearFilters": "مسح عوامل التصفية",
+  "projects.results": "النتائج: {count}",
+  "projects.columnTitle": "العنوان",
+  "projects.columnCreatedDate": "تاريخ الإنشاء",
+  "projects.columnTarget": "المبلغ المستهدف",
+  "projects.columnRaised": "المبلغ المجموع",
+  "projects.columnStartDate": "تاريخ البدء",
+  "projects.columnActions": "الإجراءات",
+  "projects.noActions": "لا توجد إجراءات",
+  "projects.preview": "معاينة",
+  "projects.edit": "تعديل",
+  "projects.delete": "حذف",
+  "projects.duplicate": "تكرار",
+  "projects.saveTemplate": "حفظ كقالب",
+  "projects.templateDescription": "احفظ عنوان \"{title}\" ووصفه وفئته ومبلغه المستهدف وعناوينه لبدء مشاريع جديدة منه.",
+  "projects.templateName": "اسم القالب",
+  "projects.templateNameRequired": "اسم القالب مطلوب.",
+  "projects.templateSaving": "جارٍ الحفظ...",
+  "projects.templateSaved": "تم حفظ القالب \"{name}\".",
+  "projects.loading": "جارٍ تحميل المشاريع...",
+  "projects.empty": "لم يتم العثور على مشاريع.",
+  "projects.deleteTitle": "حذف المشروع",
+  "projects.deleteConfirm": "هل تريد حذف \"{title}\" نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.",
+  "projects.deleteConfirmGeneric": "هل تريد حذف هذا المشروع نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.",
+  "projects.deleting": "جارٍ الحذف...",
+  "projects.deleted": "تم حذف المشروع بنجاح.",
+  "projects.exportTitle": "تصدير المشاريع",
+  "projects.exportDescription": "نزّل المشاريع كجدول بيانات يتضمن أسماء المالكين والفئات.",
+  "projects.exportFormat": "الصيغة",
+  "projects.exportRows": "الصفوف",
+  "projects.exportFiltered": "عوامل التصفية والترتيب الحالية ({count})",
+  "projects.exportAll": "جميع المشاريع",
+  "projects.exportLocalized": "تنسيق المبالغ والتواريخ حسب لغتي",
+  "projects.exportProgress": "تم جلب {loaded} من {total} مشروعًا...",
+  "projects.exporting": "جارٍ التصدير...",
+  "projects.exported": {
+    zero: "لم يتم تصدير أي مشروع.",
+    one: "تم تصدير مشروع واحد.",
+    two: "تم تصدير مشروعين.",
+    few: "تم تصدير {count} مشاريع.",
+    many: "تم تصدير {count} مشروعًا.",
+    other: "تم تصدير {count} مشروع.",
+  },
+
+  "charts.empty": "لا توجد بيانات بعد.",
+  "charts.columnChart": "مخطط أعمدة",
+
+  "overview.title": "نظرة عامة",
+  "overview.descriptionAll": "تقدّم جمع التبرعات وحالة المشاريع على مستوى المنصة.",
+  "overview.descriptionOwn": "تقدّم جمع التبرعات وحالة مشاريعك.",
+  "overview.eachProjectCurrency": "عملة كل مشروع",
+  "overview.loading": "جارٍ تحميل النظرة العامة...",
+  "overview.activeProjects": "المشاريع النشطة",
+  "overview.pendingApproval": "بانتظار الاعتماد",
+  "overview.expiredProjects": "المشاريع المنتهية",
+  "overview.npos": "الجمعيات",
+  "overview.donors": "المتبرعون (آخر 12 شهرًا)",
+  "overview.raisedVsTarget": "المجموع مقابل المستهدف",
+  "overview.noProjects": "لا توجد مشاريع بعد.",
+  "overview.raisedOfTarget": "{raised} من {target}",
+  "overview.ofTarget": "من {target}",
+  "overview.of": "من",
+  "overview.unconverted": "لا يوجد سعر صرف إلى {currency} للعملات {currencies}؛ لذا استُبعدت تلك المشاريع من المجموع.",
+  "overview.ratesUnavailable": "تعذر تحميل أسعار الصرف، لذا تظهر الإجماليات بعملة كل مشروع بدلًا من {currency}.",
+  "overview.partialProjects": "تغطي هذه الأرقام أحدث {count} من أصل {total} مشروع.",
+  "overview.fundsRaised": "الأموال المجموعة",
+  "overview.fundsRaisedDescription": "التبرعات الناجحة شهريًا خلال العام الماضي.",
+  "overview.chartCurrency": "عملة المخطط",
+  "overview.loadingDonations": "جارٍ تحميل التبرعات...",
+  "overview.noConvertibleDonations": "لا توجد تبرعات لها سعر صرف إلى {currency} خلال العام الماضي.",
+  "overview.noDonations": "لا توجد تبرعات بعملة {currency} خلال العام الماضي.",
+  "overview.projectsPerCategory": "المشاريع حسب الفئة",
+  "overview.projectsPerCategoryDescription": "كيفية توزّع المشاريع على الفئات.",
+  "overview.unknownCategory": "الفئة {id}",
+  "overview.needsAttention": "بحاجة إلى متابعة",
+  "overview.needsAttentionDescription": "مشاريع بانتظار الاعتماد أو تنتهي خلال {days} أيام أو دون {percent} من المبلغ المستهدف.",
+  "overview.nothingNeedsAttention": "لا شيء يحتاج إلى متابعة حاليًا.",
+  "overview.endsOn": "ينتهي في {date}",
+  "overview.moreNeedAttention": {
+    zero: "ولا يوجد المزيد في",
+    one: "ومشروع آخر في",
+    two: "ومشروعان آخران في",
+    few: "و{count} مشاريع أخرى في",
+    many: "و{count} مشروعًا آخر في",
+    other: "و{count} مشروع آخر في",
+  },
+  "overview.viewProjects": "صفحة المشاريع",
+
+  "attention.pendingApproval": "بانتظار الاعتماد",
+  "attention.endingSoon": "ينتهي خلال {days} أيام",
+  "attention.lowFunding": "تمويل أقل من {percent}",
+
+  "currencySelect.search": "ابحث عن عملة...",
+  "currencySelect.empty": "لم يتم العثور على عملات.",
+  "currencySelect.pinned": "المثبّتة",
+  "currencySelect.all": "جميع العملات",
+  "currencySelect.unlisted": "عملة غير مدرجة",
+  "currencySelect.pin": "تثبيت العملة",
+  "currencySelect.pinHint": "تثبيت العملة في أعلى القائمة",
+  "currencySelect.unpin": "إلغاء تثبيت العملة",
+
+  "donationStatus.pending": "قيد الانتظار",
+  "donationStatus.succeeded": "ناجح",
+  "donationStatus.failed": "فاشل",
+  "donationStatus.refunded": "مُسترد",
+
+  "donations.title": "التبرعات",
+  "donations.descriptionAll": "جميع التبرعات المستلمة في المشاريع، مع حالة الدفع والمرجع.",
+  "donations.descriptionOwn": "التبرعات التي تلقتها مشاريعك.",
+  "donations.searchPlaceholder": "ابحث باسم المتبرع أو المرجع...",
+  "donations.npo": "الجمعية",
+  "donations.paymentStatus": "حالة الدفع",
+  "donations.columnDonor": "المتبرع",
+  "donations.columnAmount": "المبلغ",
+  "donations.columnCurrency": "العملة",
+  "donations.columnProject": "المشروع",
+  "donations.columnDate": "التاريخ",
+  "donations.columnReference": "المرجع",
+  "donations.empty": "لم يتم العثور على تبرعات.",
+  "donations.anonymous": "مجهول",
+  "donations.unknownDonor": "متبرع غير معروف",
+
+  "donationsPanel.donations": "التبرعات",
+  "donationsPanel.succeededTotal": "إجمالي الناجحة",
+  "donationsPanel.recordedRaised": "المبلغ المجموع المسجّل",
+  "donationsPanel.difference": "الفرق",
+  "donationsPanel.otherCurrency": {
+    zero: "لا توجد تبرعات ناجحة بعملة غير {currency}.",
+    one: "تبرع ناجح واحد بعملة غير {currency} غير مشمول في الإجمالي.",
+    two: "تبرعان ناجحان بعملة غير {currency} غير مشمولين في الإجمالي.",
+    few: "{count} تبرعات ناجحة بعملة غير {currency} غير مشمولة في الإجمالي.",
+    many: "{count} تبرعًا ناجحًا بعملة غير {currency} غير مشمول في الإجمالي.",
+    other: "{count} تبرع ناجح بعملة غير {currency} غير مشمول في الإجمالي.",
+  },
+  "donationsPanel.reconcile": "مطابقة المبلغ المجموع",
+  "donationsPanel.reconcileAction": "مطابقة",
+  "donationsPanel.reconcileConfirm": {
+    zero: "هل تريد تغيير المبلغ المجموع من {from} إلى {to}؟ لا توجد تبرعات ناجحة.",
+    one: "هل تريد تغيير المبلغ المجموع من {from} إلى {to}، وهو إجمالي تبرع ناجح واحد؟",
+    two: "هل تريد تغيير المبلغ المجموع من {from} إلى {to}، وهو إجمالي تبرعين ناجحين؟",
+    few: "هل تريد تغيير المبلغ المجموع من {from} إلى {to}، وهو إجمالي {count} تبرعات ناجحة؟",
+    many: "هل تريد تغيير المبلغ المجموع من {from} إلى {to}، وهو إجمالي {count} تبرعًا ناجحًا؟",
+    other: "هل تريد تغيير المبلغ المجموع من {from} إلى {to}، وهو إجمالي {count} تبرع ناجح؟",
+  },
+  "donationsPanel.reconciled": "تم تعيين المبلغ المجموع إلى {amount}.",
+  "donationsPanel.matches": "المبلغ المجموع يطابق التبرعات الناجحة.",
+  "donationsPanel.reconcileLoadFailed": "تعذر تحميل التبرعات، لذا لا يمكن مطابقة المبلغ المجموع.",
+  "donationsPanel.reconcileOtherCurrency": "المطابقة غير متاحة لأن التبرعات بعملات أخرى غير مشمولة في إجمالي التبرعات الناجحة.",
+  "donationsPanel.retry": "إعادة المحاولة",
+  "donationsPanel.empty": "لا توجد تبرعات مسجلة لهذا المشروع.",
+
+  "landing.network": "شبكة التبرعات",
+  "landing.adminLogin": "دخول المسؤول",
+  "landing.tagline": "عطاء شفاف ونتائج حقيقية",
+  "landing.headline": "حوّل كل تبرع إلى أثر مجتمعي ملموس.",
+  "landing.intro": "موّل مشاريع محلية موثوقة مع تتبّع مباشر للتقدّم ومساءلة علنية ومعالجة آمنة للتبرعات في كل حملة.",
+  "landing.startDonating": "ابدأ التبرع",
+  "landing.exploreCampaigns": "استكشف الحملات",
+  "landing.statMeals": "وجبات مكفولة",
+  "landing.statFamilies": "أسر مدعومة",
+  "landing.statProjects": "مشاريع مجتمعية",
+  "landing.spotlight": "تبرع مميز",
+  "landing.spotlightTitle": "حملة رمضان لإغاثة الأسر",
+  "landing.spotlightDetail": "ساعد {families} أسرة في الحصول على الغذاء ودعم المأوى واللوازم المدرسية خلال الأيام الـ{days} القادمة.",
+  "landing.raised": "تم جمعه",
+  "landing.milestones": "مراحل مشاريع مدقّقة",
+  "landing.fieldUpdates": "ملخصات يومية من الميدان",
+  "landing.receipts": "إيصالات وتفصيل للإنفاق",
+  "landing.tierStarter": "هدية البداية",
+  "landing.tierStarterDetail": "توفر مستلزمات مياه نظيفة لأسرة واحدة.",
+  "landing.tierMonthly": "أثر شهري",
+  "landing.tierMonthlyDetail": "يدعم الاحتياجات الأسبوعية للأسر المحتاجة.",
+  "landing.tierCommunity": "بنّاء المجتمع",
+  "landing.tierCommunityDetail": "يموّل برامج الأحياء المحلية التي يقودها متطوعون.",
+  "landing.securePayments": "مدفوعات آمنة",
+  "landing.securePaymentsDetail": "تشفير بمستوى البنوك وسجلات معاملات موثّقة.",
+  "landing.communityVerified": "موثّق من المجتمع",
+  "landing.communityVerifiedDetail": "مشاريع يراجعها قادة محليون قبل نشرها.",
+  "landing.transparentAllocation": "توزيع شفاف",
+  "landing.transparentAllocationDetail": "تفصيل واضح لكيفية صرف كل دولار.",
+  "landing.joinCircle": "انضم إلى دائرة الأثر",
+  "landing.giveWithConfidence": "تبرّع بثقة وتابع كل خطوة.",
+  "landing.donateNow": "تبرّع الآن",
+
+  "categories.title": "الفئات",
+  "categories.description": "تشمل أعداد المشاريع المشاريع المعلّقة والمعتمدة.",
+  "categories.newTitle": "فئة جديدة",
+  "categories.newDescription": "تجمع الفئات المشاريع للمتبرعين وعوامل التصفية.",
+  "categories.editTitle": "تعديل الفئة",
+  "categories.editDescription": "غيّر اسم الفئة أو استبدل صورتها.",
+  "categories.name": "الاسم",
+  "categories.image": "الصورة",
+  "categories.replaceImage": "استبدال الصورة",
+  "categories.imagePreview": "معاينة الفئة",
+  "categories.noImage": "لا توجد صورة",
+  "categories.projects": "المشاريع",
+  "categories.create": "إنشاء فئة",
+  "categories.loading": "جارٍ تحميل الفئات...",
+  "categories.empty": "لا توجد فئات بعد.",
+  "categories.imageTypeError": "يرجى اختيار ملف صورة.",
+  "categories.imageSizeError": "يجب ألا يتجاوز حجم صورة الفئة {size}.",
+  "categories.nameRequired": "اسم الفئة مطلوب.",
+  "categories.nameTaken": "توجد فئة بهذا الاسم بالفعل.",
+  "categories.created": "تم إنشاء الفئة.",
+  "categories.updated": "تم تحديث الفئة.",
+  "categories.deleted": "تم حذف الفئة.",
+  "categories.reassignedAndDeleted": "تم نقل المشاريع وحذف الفئة.",
+  "categories.deleteTitle": "حذف الفئة",
+  "categories.deleteConfirm": "هل تريد حذف \"{name}\" نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.",
+  "categories.stillHoldsProjects": {
+    zero: "لا تحتوي \"{name}\" على أي مشروع.",
+    one: "لا تزال \"{name}\" تحتوي على مشروع واحد. انقله إلى فئة أخرى قبل حذفها.",
+    two: "لا تزال \"{name}\" تحتوي على مشروعين. انقلهما إلى فئة أخرى قبل حذفها.",
+    few: "لا تزال \"{name}\" تحتوي على {count} مشاريع. انقلها إلى فئة أخرى قبل حذفها.",
+    many: "لا تزال \"{name}\" تحتوي على {count} مشروعًا. انقلها إلى فئة أخرى قبل حذفها.",
+    other: "لا تزال \"{name}\" تحتوي على {count} مشروع. انقلها إلى فئة أخرى قبل حذفها.",
+  },
+  "categories.moveProjectsTo": "نقل المشاريع إلى",
+  "categories.selectCategory": "اختر فئة",
+  "categories.noReassignTargets": "أنشئ فئة أخرى أولًا لنقل هذه المشاريع إليها.",
+  "categories.chooseReassignTarget": "اختر فئة لنقل المشاريع المتبقية إليها.",
+  "categories.reassignAndDelete": "نقل وحذف",
+  "categories.movingProject": "جارٍ نقل المشروع {index} من {total}...",
+  "categories.deletingCategory": "جارٍ حذف الفئة...",
+
+  "role.admin": "مسؤول",
+  "role.npo": "منظمة غير ربحية",
+  "role.donor": "متبرع",
+
+  "permissionGroup.projects": "المشاريع",
+  "permissionGroup.categories": "الفئات",
+  "permissionGroup.donations": "التبرعات",
+  "permissionGroup.users": "المستخدمون / الأدوار",
+  "permissionGroup.audit": "التدقيق",
+  "permissionGroup.reporting": "التقارير",
+  "permissionGroup.profile": "الملف الشخصي",
+  "permissionGroup.bank": "البيانات المصرفية",
+
+  "permission.project.view.any": "عرض جميع المشاريع",
+  "permission.project.view.own": "عرض المشاريع الخاصة",
+  "permission.project.create": "إنشاء مشاريع",
+  "permission.project.update.any": "تعديل أي مشروع",
+  "permission.project.update.own": "تعديل المشاريع الخاصة",
+  "permission.project.delete.any": "حذف أي مشروع",
+  "permission.project.delete.own": "حذف المشاريع الخاصة",
+  "permission.project.approve": "مراجعة المشاريع واعتمادها",
+  "permission.project.import": "استيراد المشاريع بالجملة من جداول البيانات",
+  "permission.project.autoClose": "إغلاق المشاريع تلقائيًا عند بلوغ هدفها",
+  "permission.user.view": "عرض المستخدمين",
+  "permission.user.create": "دعوة المستخدمين وإنشاؤهم",
+  "permission.user.update": "تفعيل الحسابات وتعطيلها وتمييز حسابات المنظمات غير الربحية",
+  "permission.user.delete": "حذف المستخدمين",
+  "permission.user.role.update": "تغيير أدوار المستخدمين",
+  "permission.category.manage": "إنشاء الفئات وإعادة تسميتها وحذفها",
+  "permission.donation.view.any": "عرض جميع التبرعات",
+  "permission.donation.view.own": "عرض التبرعات للمشاريع الخاصة",
+  "permission.donation.reconcile": "مطابقة المبالغ المجموعة مع التبرعات",
+  "permission.audit.view": "تصفح سجل التدقيق وتصديره",
+  "permission.exchangeRate.manage": "رفع أسعار الصرف وتعديلها",
+  "permission.profile.update.own": "تعديل الملف الشخصي",
+  "permission.bank.update.any": "إدارة البيانات المصرفية لأي منظمة غير ربحية",
+  "permission.bank.update.own": "إدارة البيانات المصرفية الخاصة",
+
+  "admin.adminOnly": "يمكن للمسؤولين فقط الوصول إلى هذا القسم.",
+  "admin.roleUpdated": "تم تحديث دور المستخدم.",
+  "admin.selectNpoRequired": "يرجى اختيار مستخدم منظمة غير ربحية.",
+  "admin.bankSaved": "تم حفظ البيانات المصرفية للمنظمة.",
+  "admin.title": "إعدادات المسؤول",
+  "admin.description": "إدارة المستخدمين والأدوار وأسعار الصرف والحسابات المصرفية المستلمة للمنظمات غير الربحية.",
+  "admin.loadingUsers": "جارٍ تحميل المستخدمين...",
+  "admin.rolesTitle": "إدارة أدوار المستخدمين",
+  "admin.rolesDescription": "يملك المسؤول صلاحيات كاملة. تعتمد صلاحيات المنظمات والمتبرعين على الدور.",
+  "admin.saveRole": "حفظ الدور",
+  "admin.matrixTitle": "مصفوفة الصلاحيات",
+  "admin.matrixDescription": "مُنشأة من تعريفات الصلاحيات التي تطبقها لوحة التحكم.",
+  "admin.role": "الدور",
+  "admin.noAccess": "لا يوجد وصول",
+  "admin.bankTitle": "البيانات المصرفية للمنظمة",
+  "admin.bankDescription": "اضبط الحساب المستلم الذي تُرسل إليه مدفوعات المنظمة.",
+  "admin.npoUser": "مستخدم المنظمة",
+  "admin.selectNpoUser": "اختر مستخدم المنظمة",
+  "admin.saveBank": "حفظ البيانات المصرفية للمنظمة",
+
+  "bank.loading": "جارٍ تحميل البيانات المصرفية...",
+  "bank.accountHolderName": "اسم صاحب الحساب",
+  "bank.bankName": "اسم البنك",
+  "bank.accountNumber": "رقم الحساب",
+  "bank.routingNumber": "رقم التوجيه",
+  "bank.routingNumberPlaceholder": "رقم ABA من 9 أرقام",
+  "bank.iban": "رقم الآيبان (IBAN)",
+  "bank.ibanPlaceholder": "مثال: DE89 3704 0044 0532 0130 00",
+  "bank.swiftCode": "رمز SWIFT/BIC",
+  "bank.swiftCodePlaceholder": "مثال: DEUTDEFF",
+  "bank.country": "بلد البنك: {country} ({code})",
+
+  "profile.title": "الملف الشخصي",
+  "profile.description": "حدّث بيانات حسابك. تُحفظ التغييرات على الخادم.",
+  "profile.save": "حفظ الملف الشخصي",
+  "profile.updated": "تم تحديث الملف الشخصي بنجاح.",
+  "profile.bankTitle": "البيانات المصرفية للاستلام",
+  "profile.bankDescription": "بيانات الدفع للمنظمة التي يستخدمها المسؤولون لتحويل الأموال المجموعة.",
+  "profile.saveBank": "حفظ البيانات المصرفية",
+  "profile.bankSaved": "تم حفظ البيانات المصرفية للاستلام.",
+
+  "users.title": "المستخدمون",
+  "users.description": "ابحث في الحسابات وأدر حالتها وراجع بيانات الملفات الشخصية.",
+  "users.addUser": "إضافة مستخدم",
+  "users.searchPlaceholder": "ابحث بالاسم أو البريد الإلكتروني أو الجوال...",
+  "users.columnUser": "المستخدم",
+  "users.npoAccount": "حساب منظمة غير ربحية",
+  "users.notNpo": "ليس منظمة غير ربحية",
+  "users.status": "الحالة",
+  "users.active": "نشط",
+  "users.inactive": "غير نشط",
+  "users.view": "عرض",
+  "users.deactivate": "تعطيل",
+  "users.reactivate": "إعادة التفعيل",
+  "users.markNpo": "تمييز كمنظمة غير ربحية",
+  "users.unmarkNpo": "إلغاء تمييز المنظمة",
+  "users.empty": "لم يتم العثور على مستخدمين.",
+  "users.reactivated": "تمت إعادة تفعيل {name}.",
+  "users.deactivated": "تم تعطيل {name}.",
+  "users.markedNpo": "تم تمييز {name} كحساب منظمة غير ربحية.",
+  "users.unmarkedNpo": "لم يعد {name} مميزًا كحساب منظمة غير ربحية.",
+  "users.deleted": "تم حذف {name}.",
+  "users.invitationSent": "تم إرسال دعوة إلى {email}.",
+  "users.created": "تم إنشاء {name}.",
+  "users.deleteTitle": "حذف المستخدم",
+  "users.deleteConfirm": "هل تريد حذف {name} ({email}) نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.",
+  "users.deleteConfirmGeneric": "هل تريد حذف هذا المستخدم نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.",
+  "users.formTitle": "دعوة مستخدم أو إنشاؤه",
+  "users.formDescription": "يتلقى المستخدمون المدعوون بريدًا إلكترونيًا لتعيين كلمة المرور الخاصة بهم.",
+  "users.email": "البريد الإلكتروني",
+  "users.firstName": "الاسم الأول",
+  "users.lastName": "اسم العائلة",
+  "users.mobileNumber": "رقم الجوال",
+  "users.password": "كلمة المرور",
+  "users.passwordFromInvite": "يعيّنها المستخدم من الدعوة",
+  "users.sendInvite": "إرسال دعوة بالبريد الإلكتروني بدلًا من تعيين كلمة مرور",
+  "users.sendInvitation": "إرسال الدعوة",
+  "users.createUser": "إنشاء مستخدم",
+  "users.loadingDetails": "جارٍ تحميل بيانات المستخدم...",
+  "users.addresses": "العناوين",
+  "users.noAddresses": "لا توجد عناوين مسجلة.",
+
+  "validation.emailRequired": "البريد الإلكتروني مطلوب",
+  "validation.emailInvalid": "أدخل عنوان بريد إلكتروني صالحًا",
+  "validation.firstNameRequired": "الاسم الأول مطلوب",
+  "validation.firstNameMax": "يجب ألا يتجاوز الاسم الأول {max} حرفًا",
+  "validation.lastNameRequired": "اسم العائلة مطلوب",
+  "validation.lastNameMax": "يجب ألا يتجاوز اسم العائلة {max} حرفًا",
+  "validation.roleRequired": "الدور مطلوب",
+  "validation.passwordMin": "يجب أن تتكون كلمة المرور من {min} أحرف على الأقل",
+  "validation.accountHolderRequired": "اسم صاحب الحساب مطلوب",
+  "validation.accountHolderMax": "يجب ألا يتجاوز اسم صاحب الحساب {max} حرفًا",
+  "validation.bankNameRequired": "اسم البنك مطلوب",
+  "validation.bankNameMax": "يجب ألا يتجاوز اسم البنك {max} حرفًا",
+  "validation.accountNumberFormat": "يجب أن يتكون رقم الحساب من 4 إلى 34 حرفًا أو رقمًا",
+  "validation.swiftFormat": "يجب أن يتكون رمز SWIFT/BIC من 8 أو 11 حرفًا (مثل DEUTDEFF أو DEUTDEFF500)",
+  "validation.accountOrIbanRequired": "أدخل رقم الحساب أو رقم الآيبان",
+  "validation.ibanFormat": "يجب أن يبدأ رقم الآيبان برمز الدولة ورقمي تحقق",
+  "validation.ibanCountry": "لا تصدر {country} أرقام آيبان",
+  "validation.ibanLength": "يجب أن يتكون رقم الآيبان في {country} من {length} حرفًا",
+  "validation.ibanChecksum": "رقم التحقق في الآيبان غير صالح. تحقق من الأخطاء الإملائية",
+  "validation.swiftCountryMismatch": "بلد رمز SWIFT/BIC ({swiftCountry}) لا يطابق بلد الآيبان ({ibanCountry})",
+  "validation.routingNumber": "يجب أن يتكون رقم التوجيه من 9 أرقام مع رقم تحقق ABA صالح",
+  "validation.addressFieldRequired": "{field} مطلوب عند إدخال العنوان",
+  "validation.selectCountry": "اختر دولة من القائمة",
+  "validation.selectState": "اختر ولاية من القائمة",
+  "validation.ownerRequired": "مالك المنظمة غير الربحية مطلوب",
+  "validation.titleRequired": "عنوان المشروع مطلوب",
+  "validation.titleMax": "يجب ألا يتجاوز عنوان المشروع {max} حرفًا",
+  "validation.categoryRequired": "الفئة مطلوبة",
+  "validation.startDateRequired": "تاريخ البدء مطلوب",
+  "validation.descriptionRequired": "الوصف مطلوب",
+  "validation.descriptionMax": "يجب ألا يتجاوز الوصف {max} حرفًا",
+  "validation.targetRequired": "المبلغ المستهدف مطلوب",
+  "validation.targetPositive": "يجب أن يكون المبلغ المستهدف أكبر من 0",
+  "validation.currencyRequired": "العملة مطلوبة",
+  "validation.currencyFormat": "يجب أن تكون العملة رمزًا من 3 أحرف (مثل USD)",
+  "validation.currencyIso": "يجب أن تكون العملة رمز ISO 4217",
+  "validation.addressesMax": "أضف {max} عناوين كحد أقصى",
+  "validation.endBeforeStart": "يجب أن يكون تاريخ الانتهاء في تاريخ البدء أو بعده",
+  "validation.amountWhole": "يجب أن تكون مبالغ {currency} أرقامًا صحيحة",
+  "validation.amountDecimals": {
+    zero: "لا تسمح مبالغ {currency} بأي منازل عشرية",
+    one: "تسمح مبالغ {currency} بمنزلة عشرية واحدة كحد أقصى",
+    two: "تسمح مبالغ {currency} بمنزلتين عشريتين كحد أقصى",
+    few: "تسمح مبالغ {currency} بـ {count} منازل عشرية كحد أقصى",
+    many: "تسمح مبالغ {currency} بـ {count} منزلة عشرية كحد أقصى",
+    other: "تسمح مبالغ {currency} بـ {count} منزلة عشرية كحد أقصى",
+  },
+
+  "auditAction.project.update": "تم تعديل المشروع",
+  "auditAction.project.review": "تم تغيير حالة مراجعة المشروع",
+  "auditAction.project.delete": "تم حذف المشروع",
+  "auditAction.project.media.delete": "تم حذف وسائط المشروع",
+  "auditAction.project.media.update": "تم تحديث وسائط المشروع",
+  "auditAction.project.reconcile": "تمت مطابقة المبلغ المجموع",
+  "auditAction.user.role.update": "تم تغيير دور المستخدم",
+  "auditAction.bank.create": "تمت إضافة البيانات المصرفية",
+  "auditAction.bank.update": "تم تغيير البيانات المصرفية",
+  "auditAction.exchangeRates.update": "تم تغيير أسعار الصرف",
+  "auditAction.projectTemplate.create": "تم حفظ قالب المشروع",
+
+  "auditTarget.project": "مشروع",
+  "auditTarget.projectMedia": "وسائط المشروع",
+  "auditTarget.user": "مستخدم",
+  "auditTarget.bankAccount": "حساب مصرفي",
+  "auditTarget.exchangeRates": "أسعار الصرف",
+  "auditTarget.projectTemplate": "قالب مشروع",
+
+  "audit.title": "سجل التدقيق",
+  "audit.description": "من غيّر المشاريع وأدوار المستخدمين والوسائط والبيانات المصرفية، ومتى.",
+  "audit.exportCsv": "تصدير CSV",
+  "audit.exporting": "جارٍ التصدير...",
+  "audit.exported": {
+    zero: "لم يتم تصدير أي إدخالات.",
+    one: "تم تصدير إدخال واحد.",
+    two: "تم تصدير إدخالين.",
+    few: "تم تصدير {count} إدخالات.",
+    many: "تم تصدير {count} إدخالًا.",
+    other: "تم تصدير {count} إدخال.",
+  },
+  "audit.exportedPartial": "تم تصدير أحدث {count} من أصل {total} إدخال. ضيّق عوامل التصفية لتصدير الباقي.",
+  "audit.searchPlaceholder": "ابحث حسب الهدف أو الحقل...",
+  "audit.columnWhen": "الوقت",
+  "audit.columnTimestamp": "الطابع الزمني",
+  "audit.columnActor": "المنفّذ",
+  "audit.columnActorId": "معرّف المنفّذ",
+  "audit.columnAction": "الإجراء",
+  "audit.columnTargetType": "نوع الهدف",
+  "audit.columnTarget": "الهدف",
+  "audit.columnTargetId": "معرّف الهدف",
+  "audit.columnChanges": "التغييرات",
+  "audit.showChanges": "عرض ({count})",
+  "audit.hideChanges": "إخفاء",
+  "audit.noChanges": "لا يوجد",
+  "audit.loading": "جارٍ تحميل إدخالات التدقيق...",
+  "audit.empty": "لم يتم العثور على إدخالات تدقيق.",
+  "audit.field": "الحقل",
+  "audit.before": "قبل",
+  "audit.after": "بعد",
+  "audit.emptyValue": "(فارغ)",
+
+  "media.imageCount": {
+    zero: "{count} صورة",
+    one: "صورة واحدة",
+    two: "صورتين",
+    few: "{count} صور",
+    many: "{count} صورة",
+    other: "{count} صورة",
+  },
+  "media.videoCount": {
+    zero: "{count} فيديو",
+    one: "فيديو واحد",
+    two: "فيديوهين",
+    few: "{count} فيديوهات",
+    many: "{count} فيديو",
+    other: "{count} فيديو",
+  },
+  "media.countLimit": "يمكن أن يحتوي المشروع على {limit} كحد أقصى.",
+  "media.upTo": "حتى {limit}",
+  "media.imagePolicy": "{upTo} · {types} · {size} لكل صورة بعد التحسين.",
+  "media.videoPolicy": "{details}.",
+  "media.sizeEach": "{size} لكل ملف",
+  "media.maxDuration": "بمدة {duration} كحد أقصى",
+  "media.maxDimension": "{pixels} بكسل كحد أقصى للضلع الأطول",
+  "media.unsupportedImage": "'{name}' ليست صورة مدعومة. الصيغ المسموح بها: {types}.",
+  "media.unsupportedVideo": "'{name}' ليس فيديو مدعومًا. الصيغ المسموح بها: {types}.",
+  "media.imageTooLarge": "الصورة '{name}' تتجاوز {size}.",
+  "media.videoTooLarge": "الفيديو '{name}' يتجاوز {size}.",
+  "media.videoTooLong": "الفيديو '{name}' أطول من {duration}.",
+  "media.videoTooWide": "أبعاد الفيديو '{name}' هي {size}؛ يجب ألا يتجاوز الضلع الأطول {pixels} بكسل.",
+
+  "mediaUpload.queued": "في الانتظار",
+  "mediaUpload.uploading": "جارٍ الرفع",
+  "mediaUpload.succeeded": "تم الرفع",
+  "mediaUpload.failed": "فشل",
+  "mediaUpload.cancelled": "أُلغي",
+  "mediaUpload.progress": "{status} · {sent} من {total} ({percent}%)",
+  "mediaUpload.progressLabel": "تقدم رفع {name}",
+  "mediaUpload.cancel": "إلغاء رفع {name}",
+  "mediaUpload.retry": "إعادة محاولة رفع {name}",
+
+  "mediaManager.empty": "لا توجد صور مرفوعة.",
+  "mediaManager.hint": "اسحب الصور أو استخدم الأسهم لتغيير ترتيبها. تحدد النجمة صورة الغلاف.",
+  "mediaManager.cover": "الغلاف",
+  "mediaManager.coverSet": "أصبحت '{name}' صورة الغلاف.",
+  "mediaManager.detailsSaved": "تم حفظ تفاصيل الصورة.",
+  "mediaManager.moveEarlier": "نقل {name} إلى الأمام",
+  "mediaManager.moveLater": "نقل {name} إلى الخلف",
+  "mediaManager.setCover": "تعيين {name} كغلاف",
+  "mediaManager.delete": "حذف {name}",
+  "mediaManager.caption": "التعليق",
+  "mediaManager.altText": "النص البديل",
+  "mediaManager.altTextPlaceholder": "صِف الصورة لقارئات الشاشة",
+  "mediaManager.saveDetails": "حفظ التفاصيل",
+
+  "funding.title": "جمع التبرعات",
+  "funding.progressLabel": "تقدم التمويل",
+  "funding.ofTarget": "من {target} · {percent}",
+  "funding.startsOnApproval": "يبدأ جمع التبرعات بعد اعتماد المشروع.",
+  "funding.startsIn": {
+    zero: "يبدأ اليوم.",
+    one: "يبدأ خلال يوم واحد.",
+    two: "يبدأ خلال يومين.",
+    few: "يبدأ خلال {count} أيام.",
+    many: "يبدأ خلال {count} يومًا.",
+    other: "يبدأ خلال {count} يوم.",
+  },
+  "funding.ended": "انتهى جمع التبرعات.",
+  "funding.autoClosed": "تم بلوغ الهدف؛ أُغلقت التبرعات تلقائيًا.",
+  "funding.fundedAndEnded": "تم بلوغ الهدف؛ انتهى جمع التبرعات.",
+  "funding.fundedAccepting": "تم بلوغ الهدف؛ لا يزال قبول التبرعات مستمرًا.",
+  "funding.fundedAcceptingFor": {
+    zero: "تم بلوغ الهدف؛ يُقبل التبرع حتى نهاية اليوم.",
+    one: "تم بلوغ الهدف؛ يُقبل التبرع لمدة يوم واحد.",
+    two: "تم بلوغ الهدف؛ يُقبل التبرع لمدة يومين.",
+    few: "تم بلوغ الهدف؛ يُقبل التبرع لمدة {count} أيام.",
+    many: "تم بلوغ الهدف؛ يُقبل التبرع لمدة {count} يومًا.",
+    other: "تم بلوغ الهدف؛ يُقبل التبرع لمدة {count} يوم.",
+  },
+  "funding.noEndDate": "لا يوجد تاريخ انتهاء.",
+  "funding.daysLeft": {
+    zero: "ينتهي اليوم.",
+    one: "بقي يوم واحد.",
+    two: "بقي يومان.",
+    few: "بقيت {count} أيام.",
+    many: "بقي {count} يومًا.",
+    other: "بقي {count} يوم.",
+  },
+
+  "location.noMatches": "لا توجد نتائج مطابقة.",
+  "location.useCustom": "استخدام \"{name}\"",
+
+  "address.title": "العناوين (اختياري)",
+  "address.description": "أضف كل مدينة يُنفَّذ فيها المشروع.",
+  "address.add": "إضافة عنوان",
+  "address.empty": "لم تتم إضافة عناوين.",
+  "address.country": "الدولة",
+  "address.searchCountries": "ابحث عن الدول",
+  "address.state": "الولاية / المنطقة",
+  "address.searchStates": "ابحث عن المناطق",
+  "address.typeState": "اكتب اسم المنطقة",
+  "address.city": "المدينة",
+  "address.searchCity": "ابحث عن مدينة أو اكتب اسمها",
+  "address.moveUp": "نقل العنوان {index} للأعلى",
+  "address.moveDown": "نقل العنوان {index} للأسفل",
+  "address.remove": "إزالة العنوان {index}",
+
+  "exchangeRates.title": "أسعار الصرف",
+  "exchangeRates.description": "أسعار تُستخدم لجمع المبالغ بعملات مختلفة في التقارير. يسري كل سعر من تاريخ نفاذه حتى يصدر سعر أحدث للزوج نفسه؛ وتُشتق الأسعار العكسية والتقاطعية تلقائيًا.",
+  "exchangeRates.upload": "رفع الأسعار",
+  "exchangeRates.readingFile": "جارٍ قراءة الملف...",
+  "exchangeRates.uploadHint": "ملف CSV بأعمدة baseCurrency وquoteCurrency وrate وeffectiveDate، أو JSON كقائمة أسعار أو لقطات { base, date, rates }.",
+  "exchangeRates.loading": "جارٍ تحميل أسعار الصرف...",
+  "exchangeRates.empty": "لا توجد أسعار صرف بعد. ارفع ملفًا أو أضف الأسعار يدويًا.",
+  "exchangeRates.base": "الأساس",
+  "exchangeRates.quote": "المقابل",
+  "exchangeRates.rate": "السعر",
+  "exchangeRates.effectiveDate": "تاريخ النفاذ",
+  "exchangeRates.baseCurrency": "العملة الأساسية",
+  "exchangeRates.quoteCurrency": "العملة المقابلة",
+  "exchangeRates.remove": "إزالة السعر",
+  "exchangeRates.add": "إضافة سعر",
+  "exchangeRates.downloadCsv": "تنزيل CSV",
+  "exchangeRates.save": "حفظ أسعار الصرف",
+  "exchangeRates.saved": "تم حفظ أسعار الصرف.",
+  "exchangeRates.fixErrors": "صحّح أسعار الصرف المميزة قبل الحفظ.",
+  "exchangeRates.fileType": "اختر ملف ‎.csv أو ‎.json.",
+  "exchangeRates.fileSize": "يجب ألا يتجاوز حجم ملف الأسعار {size}.",
+  "exchangeRates.loaded": {
+    one: "تم تحميل سعر واحد من {name}. راجعه واحفظه لتطبيقه.",
+    two: "تم تحميل سعرين من {name}. راجعهما واحفظ لتطبيقهما.",
+    few: "تم تحميل {count} أسعار من {name}. راجعها واحفظ لتطبيقها.",
+    many: "تم تحميل {count} سعرًا من {name}. راجعها واحفظ لتطبيقها.",
+    other: "تم تحميل {count} سعر من {name}. راجعها واحفظ لتطبيقها.",
+  },
+  "exchangeRates.invalidCurrency": "يجب أن تكون العملات رموز ISO 4217.",
+  "exchangeRates.sameCurrency": "يجب أن تختلف العملة الأساسية عن العملة المقابلة.",
+  "exchangeRates.invalidRate": "يجب أن يكون السعر رقمًا موجبًا.",
+  "exchangeRates.invalidDate": "يجب أن يكون تاريخ النفاذ تاريخًا صالحًا بصيغة YYYY-MM-DD.",
+  "exchangeRates.invalidJson": "الملف ليس JSON صالحًا.",
+  "exchangeRates.noRates": "لا يحتوي الملف على أي أسعار.",
+  "exchangeRates.missingColumns": "أعمدة مفقودة: {columns}.",
+  "exchangeRates.rateNumber": "السعر {index}",
+  "exchangeRates.rowNumber": "الصف {row}",
+  "exchangeRates.entryError": "{entry}: {error}",
+
+  "projectImport.title": "استيراد المشاريع",
+  "projectImport.description": "أنشئ عدة مشاريع دفعة واحدة من ملف CSV أو Excel. يتم التحقق من الصفوف قبل حفظ أي شيء.",
+  "projectImport.stepUpload": "1. الرفع",
+  "projectImport.stepMap": "2. ربط الأعمدة",
+  "projectImport.stepReview": "3. المراجعة",
+  "projectImport.stepResult": "4. التقرير",
+  "projectImport.file": "ملف جدول البيانات",
+  "projectImport.readingFile": "جارٍ قراءة الملف...",
+  "projectImport.fileHint": "CSV أو XLSX، حتى {max} صف. يجب أن يحتوي الصف الأول على عناوين الأعمدة؛ تتم قراءة ورقة العمل الأولى فقط. اكتب التواريخ بالصيغة YYYY-MM-DD.",
+  "projectImport.templatePrompt": "ابدأ من القالب:",
+  "projectImport.downloadCsvTemplate": "تنزيل قالب CSV",
+  "projectImport.downloadXlsxTemplate": "تنزيل قالب XLSX",
+  "projectImport.fileType": "اختر ملف ‎.csv أو ‎.xlsx.",
+  "projectImport.fileSize": "يجب ألا يتجاوز حجم ملفات الاستيراد {size}.",
+  "projectImport.noRows": "لا يحتوي الملف على صفوف بيانات أسفل العناوين.",
+  "projectImport.tooManyRows": "استورد {max} مشروع كحد أقصى لكل ملف. يحتوي هذا الملف على {count}.",
+  "projectImport.readFailed": "تعذرت قراءة الملف.",
+  "projectImport.mapDescription": {
+    one: "اربط أعمدة {name} (صف واحد) بحقول المشروع. يمكن تحديد مالكي المنظمات غير الربحية بالبريد الإلكتروني أو معرّف المستخدم، والفئات بالاسم أو المعرّف.",
+    two: "اربط أعمدة {name} (صفان) بحقول المشروع. يمكن تحديد مالكي المنظمات غير الربحية بالبريد الإلكتروني أو معرّف المستخدم، والفئات بالاسم أو المعرّف.",
+    few: "اربط أعمدة {name} ({count} صفوف) بحقول المشروع. يمكن تحديد مالكي المنظمات غير الربحية بالبريد الإلكتروني أو معرّف المستخدم، والفئات بالاسم أو المعرّف.",
+    other: "اربط أعمدة {name} ({count} صف) بحقول المشروع. يمكن تحديد مالكي المنظمات غير الربحية بالبريد الإلكتروني أو معرّف المستخدم، والفئات بالاسم أو المعرّف.",
+  },
+  "projectImport.notImported": "لا يتم استيراده",
+  "projectImport.columnFallback": "العمود {index}",
+  "projectImport.missingFields": "اربط الحقول المطلوبة: {fields}.",
+  "projectImport.chooseAnother": "اختيار ملف آخر",
+  "projectImport.validateRows": "التحقق من الصفوف",
+  "projectImport.readyCount": "{count} جاهز",
+  "projectImport.errorCount": "{count} بها أخطاء",
+  "projectImport.showOnlyInvalid": "إظهار الصفوف التي بها أخطاء فقط",
+  "projectImport.columnRow": "الصف",
+  "projectImport.columnResult": "النتيجة",
+  "projectImport.columnOutcome": "الحالة",
+  "projectImport.columnReason": "السبب",
+  "projectImport.columnMessage": "الرسالة",
+  "projectImport.ready": "جاهز",
+  "projectImport.fieldError": "{field}: {error}",
+  "projectImport.progress": "تم إنشاء {processed} من {total} مشروع...",
+  "projectImport.backToMapping": "العودة إلى ربط الأعمدة",
+  "projectImport.importing": "جارٍ الاستيراد...",
+  "projectImport.importRows": {
+    one: "استيراد مشروع واحد",
+    two: "استيراد مشروعين",
+    few: "استيراد {count} مشاريع",
+    many: "استيراد {count} مشروعًا",
+    other: "استيراد {count} مشروع",
+  },
+  "projectImport.importAndSkip": {
+    one: "استيراد مشروع واحد وتخطي {skipped}",
+    two: "استيراد مشروعين وتخطي {skipped}",
+    few: "استيراد {count} مشاريع وتخطي {skipped}",
+    many: "استيراد {count} مشروعًا وتخطي {skipped}",
+    other: "استيراد {count} مشروع وتخطي {skipped}",
+  },
+  "projectImport.imported": {
+    one: "تم استيراد مشروع واحد.",
+    two: "تم استيراد مشروعين.",
+    few: "تم استيراد {count} مشاريع.",
+    many: "تم استيراد {count} مشروعًا.",
+    other: "تم استيراد {count} مشروع.",
+  },
+  "projectImport.downloadReport": "تنزيل التقرير",
+  "projectImport.importAnother": "استيراد ملف آخر",
+  "projectImport.viewProjects": "عرض المشاريع",
+  "projectImport.noOwnerMatch": "لا يوجد مستخدم منظمة غير ربحية يطابق \"{value}\"",
+  "projectImport.noCategoryMatch": "لا توجد فئة تطابق \"{value}\"",
+  "projectImport.invalidDate": "\"{value}\" ليس تاريخًا صالحًا؛ استخدم الصيغة YYYY-MM-DD",
+  "projectImport.invalidAmount": "\"{value}\" ليس مبلغًا صالحًا",
+
+  "importOutcome.created": "تم الإنشاء",
+  "importOutcome.skipped": "تم التخطي",
+  "importOutcome.failed": "فشل",
+
+  "projectForm.selectOwner": "اختر مستخدم المنظمة غير الربحية",
+  "projectForm.title": "عنوان المشروع",
+  "projectForm.selectCategory": "اختر الفئة",
+  "projectForm.targetAmount": "المبلغ المستهدف",
+  "projectForm.currency": "العملة",
+  "projectForm.endDateOptional": "تاريخ الانتهاء (اختياري)",
+  "projectForm.endDate": "تاريخ الانتهاء",
+  "projectForm.description": "الوصف",
+  "projectForm.autoClose": "إيقاف قبول التبرعات عند بلوغ المبلغ المستهدف",
+  "projectForm.imageHint": "يتم تصغير الصور إلى {pixels} بكسل كحد أقصى وإزالة بيانات الموقع منها قبل الرفع.",
+  "projectForm.optimizingImages": "جارٍ تحسين الصور...",
+  "projectForm.checkingVideos": "جارٍ فحص مقاطع الفيديو...",
+  "projectForm.imageStillTooLarge": "لا تزال الصورة '{name}' أكبر من {size} بعد الضغط.",
+  "projectForm.imagesSelected": {
+    one: "تم اختيار ملف واحد",
+    two: "تم اختيار ملفين",
+    few: "تم اختيار {count} ملفات",
+    many: "تم اختيار {count} ملفًا",
+    other: "تم اختيار {count} ملف",
+  },
+  "projectForm.noFilesSelected": "لم يتم اختيار أي ملف",
+  "projectForm.videosSelected": {
+    one: "تم اختيار مقطع فيديو واحد",
+    two: "تم اختيار مقطعي فيديو",
+    few: "تم اختيار {count} مقاطع فيديو",
+    many: "تم اختيار {count} مقطع فيديو",
+    other: "تم اختيار {count} مقطع فيديو",
+  },
+  "projectForm.noVideosSelected": "لم يتم اختيار أي مقطع فيديو.",
+  "projectForm.noImagesSelected": "لم يتم اختيار أي صورة.",
+  "projectForm.uploads": "عمليات الرفع",
+
+  "projectCreate.title": "إنشاء مشروع",
+  "projectCreate.forbidden": "يمكن للمسؤولين ومستخدمي المنظمات غير الربحية فقط إنشاء المشاريع.",
+  "projectCreate.description": "يستخدم هذا النموذج react-hook-form مع التحقق عبر zod.",
+  "projectCreate.loading": "جارٍ تحميل بيانات النموذج...",
+  "projectCreate.duplicateLoadFailed": "تعذر تحميل المشروع المراد تكراره: {error}",
+  "projectCreate.prefilled": "تمت التعبئة مسبقًا من «{title}». اختر تواريخ جديدة لهذه الحملة.",
+  "projectCreate.copyingMedia": "جارٍ نسخ الوسائط...",
+  "projectCreate.mediaCopied": "تم نسخ الوسائط",
+  "projectCreate.copyMedia": "نسخ الوسائط ({images} صورة، {videos} فيديو)",
+  "projectCreate.template": "البدء من قالب",
+  "projectCreate.noTemplate": "بدون قالب",
+  "projectCreate.templateHint": "يملأ العنوان والوصف والفئة والهدف والعناوين. لا يتم نسخ التواريخ والوسائط.",
+  "projectCreate.images": "صور المشروع",
+  "projectCreate.videos": "مقاطع فيديو المشروع",
+  "projectCreate.imagePreview": "معاينة الصور",
+  "projectCreate.videoPreview": "معاينة الفيديو",
+  "projectCreate.uploadIncomplete": {
+    one: "تم إنشاء المشروع، لكن لم يتم رفع ملف واحد. أعد المحاولة أدناه أو تابع بدونه.",
+    two: "تم إنشاء المشروع، لكن لم يتم رفع ملفين. أعد المحاولة أدناه أو تابع بدونهما.",
+    few: "تم إنشاء المشروع، لكن لم يتم رفع {count} ملفات. أعد المحاولة أدناه أو تابع بدونها.",
+    many: "تم إنشاء المشروع، لكن لم يتم رفع {count} ملفًا. أعد المحاولة أدناه أو تابع بدونها.",
+    other: "تم إنشاء المشروع، لكن لم يتم رفع {count} ملف. أعد المحاولة أدناه أو تابع بدونها.",
+  },
+  "projectCreate.uploading": "جارٍ الرفع...",
+  "projectCreate.continue": "المتابعة إلى المشاريع",
+  "projectCreate.creating": "جارٍ الإنشاء...",
+
+  "projectEdit.title": "تعديل المشروع",
+  "projectEdit.forbidden": "يمكن للمسؤولين ومستخدمي المنظمات غير الربحية فقط تعديل المشاريع.",
+  "projectEdit.description": "حدّث تفاصيل المشروع ووسائطه في صفحة مخصصة.",
+  "projectEdit.loading": "جارٍ تحميل المشروع...",
+  "projectEdit.notFound": "المشروع غير موجود أو لا يمكن الوصول إليه.",
+  "projectEdit.goBack": "رجوع",
+  "projectEdit.notAllowed": "غير مسموح لك بتعديل هذا المشروع.",
+  "projectEdit.reviewStatus": "حالة المراجعة",
+  "projectEdit.submitting": "جارٍ الإرسال...",
+  "projectEdit.resubmit": "إعادة الإرسال للمراجعة",
+  "projectEdit.reviewerFeedback": "ملاحظات المراجع",
+  "projectEdit.resubmitHint": "احفظ تغييراتك أولًا، ثم أعد الإرسال ليتمكن المسؤول من مراجعة المشروع مرة أخرى.",
+  "projectEdit.saved": "تم تحديث المشروع بنجاح.",
+  "projectEdit.resubmitted": "تمت إعادة إرسال المشروع للمراجعة.",
+  "projectEdit.mediaRemoved": "تمت إزالة وسائط المشروع.",
+  "projectEdit.uploadIncomplete": {
+    one: "تم حفظ المشروع، لكن لم يتم رفع ملف واحد. أعد المحاولة من قائمة الرفع.",
+    two: "تم حفظ المشروع، لكن لم يتم رفع ملفين. أعد المحاولة من قائمة الرفع.",
+    few: "تم حفظ المشروع، لكن لم يتم رفع {count} ملفات. أعد المحاولة من قائمة الرفع.",
+    many: "تم حفظ المشروع، لكن لم يتم رفع {count} ملفًا. أعد المحاولة من قائمة الرفع.",
+    other: "تم حفظ المشروع، لكن لم يتم رفع {count} ملف. أعد المحاولة من قائمة الرفع.",
+  },
+  "projectEdit.addImages": "إضافة مزيد من الصور",
+  "projectEdit.addVideos": "إضافة مزيد من مقاطع الفيديو",
+  "projectEdit.newImagePreview": "معاينة الصور الجديدة",
+  "projectEdit.newVideoPreview": "معاينة مقاطع الفيديو الجديدة",
+  "projectEdit.noNewImages": "لم يتم اختيار صور جديدة.",
+  "projectEdit.noNewVideos": "لم يتم اختيار مقاطع فيديو جديدة.",
+  "projectEdit.uploadedImages": "الصور المرفوعة",
+  "projectEdit.uploadedVideos": "مقاطع الفيديو المرفوعة",
+  "projectEdit.noUploadedVideos": "لا توجد مقاطع فيديو مرفوعة.",
+  "projectEdit.updating": "جارٍ التحديث...",
+
+  "review.approve": "اعتماد",
+  "review.requestChanges": "طلب تعديلات",
+  "review.reject": "رفض",
+  "review.archive": "أرشفة",
+  "review.commentLabel": "تعليق للمنظمة غير الربحية",
+
+  "projectPreview.title": "معاينة المشروع",
+  "projectPreview.forbidden": "يمكن للمسؤولين فقط معاينة المشاريع واعتمادها.",
+  "projectPreview.description": "صفحة مراجعة للمسؤولين فقط لاعتماد المشاريع أو إعادتها أو رفضها أو أرشفتها.",
+  "projectPreview.loading": "جارٍ تحميل معاينة المشروع...",
+  "projectPreview.notFound": "المشروع غير موجود.",
+  "projectPreview.tabDetails": "التفاصيل",
+  "projectPreview.tabDonations": "التبرعات",
+  "projectPreview.approved": "تم اعتماد المشروع.",
+  "projectPreview.changesRequested": "تم طلب تعديلات من المنظمة غير الربحية.",
+  "projectPreview.rejected": "تم رفض المشروع.",
+  "projectPreview.archived": "تمت أرشفة المشروع.",
+  "projectPreview.commentRequired": "يلزم إدخال تعليق لتعيين حالة هذا المشروع إلى \"{status}\".",
+  "projectPreview.imageRemoved": "تمت إزالة الصورة.",
+  "projectPreview.videoRemoved": "تمت إزالة الفيديو.",
+  "projectPreview.previewImage": "معاينة {name}",
+  "projectPreview.removeImageTitle": "إزالة الصورة",
+  "projectPreview.removeVideoTitle": "إزالة الفيديو",
+  "projectPreview.removeConfirm": "حذف \"{name}\" من هذا المشروع؟",
+  "projectPreview.removeConfirmGeneric": "حذف عنصر الوسائط هذا من هذا المشروع؟",
+  "projectPreview.removing": "جارٍ الإزالة...",
+  "projectPreview.remove": "إزالة",
+  "projectPreview.review": "المراجعة",
+  "projectPreview.reviewer": "المراجع",
+  "projectPreview.commentPlaceholder": "مطلوب عند طلب تعديلات أو الرفض.",
+  "projectPreview.raisedAmount": "المبلغ المجموع",
+  "projectPreview.autoClose": "الإغلاق التلقائي",
+  "projectPreview.autoCloseOn": "عند بلوغ الهدف",
+  "projectPreview.autoCloseOff": "متوقف",
+  "projectPreview.approvedAt": "تاريخ الاعتماد",
+  "projectPreview.approvedBy": "اعتمده",
+  "projectPreview.addresses": "العناوين",
+  "projectPreview.images": "الصور",
+  "projectPreview.noImages": "لم يتم رفع أي صور.",
+  "projectPreview.videos": "مقاطع الفيديو",
+  "projectPreview.noVideos": "لم يتم رفع أي مقاطع فيديو.",
+
+  "reviewQueue.description": "المشاريع المرسلة، الأقدم أولًا. اختر عدة مشاريع لمراجعتها معًا.",
+  "reviewQueue.selectAll": "تحديد الكل",
+  "reviewQueue.selectRow": "تحديد {title}",
+  "reviewQueue.columnProject": "المشروع",
+  "reviewQueue.columnSubmitted": "تاريخ الإرسال",
+  "reviewQueue.progressApproved": "جارٍ اعتماد {done} من {total}...",
+  "reviewQueue.progressChangesRequested": "جارٍ طلب تعديلات على {done} من {total}...",
+  "reviewQueue.progressRejected": "جارٍ رفض {done} من {total}...",
+  "reviewQueue.doneApproved": {
+    one: "تم اعتماد مشروع واحد.",
+    two: "تم اعتماد مشروعين.",
+    few: "تم اعتماد {count} مشاريع.",
+    many: "تم اعتماد {count} مشروعًا.",
+    other: "تم اعتماد {count} مشروع.",
+  },
+  "reviewQueue.doneChangesRequested": {
+    one: "تمت إعادة مشروع واحد لإجراء تعديلات.",
+    two: "تمت إعادة مشروعين لإجراء تعديلات.",
+    few: "تمت إعادة {count} مشاريع لإجراء تعديلات.",
+    many: "تمت إعادة {count} مشروعًا لإجراء تعديلات.",
+    other: "تمت إعادة {count} مشروع لإجراء تعديلات.",
+  },
+  "reviewQueue.doneRejected": {
+    one: "تم رفض مشروع واحد.",
+    two: "تم رفض مشروعين.",
+    few: "تم رفض {count} مشاريع.",
+    many: "تم رفض {count} مشروعًا.",
+    other: "تم رفض {count} مشروع.",
+  },
+  "reviewQueue.partialApproved": "تم اعتماد {count} من المشاريع وفشل {failed}. تبقى العناصر الفاشلة محددة لإعادة المحاولة.",
+  "reviewQueue.partialChangesRequested": "تمت إعادة {count} من المشاريع لإجراء تعديلات وفشل {failed}. تبقى العناصر الفاشلة محددة لإعادة المحاولة.",
+  "reviewQueue.partialRejected": "تم رفض {count} من المشاريع وفشل {failed}. تبقى العناصر الفاشلة محددة لإعادة المحاولة.",
+  "reviewQueue.rejectTitle": "رفض المشاريع",
+  "reviewQueue.rejectConfirm": {
+    one: "رفض مشروع واحد؟ لا يتم نشر المشاريع المرفوضة.",
+    two: "رفض مشروعين؟ لا يتم نشر المشاريع المرفوضة.",
+    few: "رفض {count} مشاريع؟ لا يتم نشر المشاريع المرفوضة.",
+    many: "رفض {count} مشروعًا؟ لا يتم نشر المشاريع المرفوضة.",
+    other: "رفض {count} مشروع؟ لا يتم نشر المشاريع المرفوضة.",
+  },
+  "reviewQueue.requestChangesConfirm": {
+    one: "إعادة مشروع واحد إلى منظمته لإجراء تعديلات.",
+    two: "إعادة مشروعين إلى منظماتهما لإجراء تعديلات.",
+    few: "إعادة {count} مشاريع إلى منظماتها لإجراء تعديلات.",
+    many: "إعادة {count} مشروعًا إلى منظماتها لإجراء تعديلات.",
+    other: "إعادة {count} مشروع إلى منظماتها لإجراء تعديلات.",
+  },
+  "reviewQueue.commentPlaceholder": "اشرح ما يجب تغييره...",
+  "reviewQueue.selectedCount": "تم تحديد {count}",
+  "reviewQueue.awaiting": {
+    one: "مشروع واحد بانتظار المراجعة",
+    two: "مشروعان بانتظار المراجعة",
+    few: "{count} مشاريع بانتظار المراجعة",
+    many: "{count} مشروعًا بانتظار المراجعة",
+    other: "{count} مشروع بانتظار المراجعة",
+  },
+  "reviewQueue.showingOldest": "عرض الأقدم {count}",
+  "reviewQueue.retryFailed": "إعادة محاولة الفاشلة ({count})",
+  "reviewQueue.approveSelected": "اعتماد المحدد",
+  "reviewQueue.rejectSelected": "رفض المحدد",
+  "reviewQueue.refresh": "تحديث",
+  "reviewQueue.loading": "جارٍ تحميل المشاريع المرسلة...",
+  "reviewQueue.empty": "لا يوجد شيء آخر للمراجعة.",
+  "reviewQueue.shortcutNext": "المشروع التالي",
+  "reviewQueue.shortcutPrevious": "المشروع السابق",
+  "reviewQueue.shortcutToggle": "تبديل التحديد",
+  "reviewQueue.shortcutApprove": "اعتماد المشروع المحدد حاليًا",
+  "reviewQueue.shortcutRequestChanges": "طلب تعديلات على المشروع المحدد حاليًا",
+  "reviewQueue.shortcutReject": "رفض المشروع المحدد حاليًا",
+  "reviewQueue.shortcutOpen": "فتح المعاينة",
+
+  "auth.invalidToken": "تعذرت قراءة رمز تسجيل الدخول.",
+
+  "apiError.network": "تعذر الوصول إلى واجهة API من المتصفح. تحقق من VITE_API_BASE_URL وإعدادات CORS وعدم التطابق بين HTTPS وHTTP.",
+  "apiError.fallback": "حدث خطأ ما. يرجى المحاولة مرة أخرى.",
+  "apiError.timeout": "انتهت مهلة الطلب.",
+  "apiError.status": "فشل الطلب برمز الحالة {status}",
+
+  "xlsx.invalidWorkbook": "الملف ليس مصنف XLSX صالحًا.",
+  "xlsx.unsupportedCompression": "يستخدم مصنف XLSX طريقة ضغط غير مدعومة.",
+  "xlsx.noWorksheet": "لا يحتوي مصنف XLSX على ورقة عمل.",
+
+  "projectExport.sheetName": "المشاريع",
+  "projectExport.id": "المعرّف",
+  "projectExport.title": "العنوان",
+  "projectExport.category": "الفئة",
+  "projectExport.categoryId": "معرّف الفئة",
+  "projectExport.owner": "المالك",
+  "projectExport.ownerId": "معرّف المالك",
+  "projectExport.createdDate": "تاريخ الإنشاء",
+  "projectExport.startDate": "تاريخ البدء",
+  "projectExport.endDate": "تاريخ الانتهاء",
+  "projectExport.targetAmount": "المبلغ المستهدف",
+  "projectExport.raisedAmount": "المبلغ المجموع",
+  "projectExport.currency": "العملة",
+  "projectExport.status": "الحالة",
+};
@@ -0,0 +1,911 @@
+/** Plural forms follow `Intl.PluralRules`; `other` is required as the fallback. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export const en = {
+  "common.loading": "Loading...",
+  "common.cancel": "Cancel",
+  "common.all": "All",
+  "common.you": "You",
+  "common.saving": "Saving...",
+  "common.saveChanges": "Save Changes",
+  "common.from": "From",
+  "common.to": "To",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.close": "Close",
+
+  "notFound.message": "Page not found",
+  "notFound.goHome": "Go Home",
+
+  "theme.toggle": "Toggle theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+
+  "language.toggle": "Change language",
+
+  "login.email": "Email",
+  "login.password": "Password",
+  "login.showPassword": "Show password",
+  "login.hidePassword": "Hide password",
+  "login.submit": "Login",
+  "login.submitting": "Signing in...",
+  "login.failed": "Login failed.",
+
+  "dashboard.loading": "Loading dashboard...",
+  "dashboard.appName": "Hadyaa Admin Panel",
+  "dashboard.welcome": "Welcome, {name}",
+  "dashboard.role": "Role: {role}",
+  "dashboard.logout": "Logout",
+  "dashboard.connectedTo": "Connected to backend:",
+
+  "nav.overview": "Overview",
+  "nav.projects": "Projects",
+  "nav.categories": "Categories",
+  "nav.donations": "Donations",
+  "nav.profile": "Profile & Bank",
+  "nav.users": "Users",
+  "nav.admin": "Admin Settings",
+  "nav.audit": "Audit Log",
+
+  "session.title": "Session About to Expire",
+  "session.expiresIn": "Your session expires in {time}.",
+  "session.expiringSoon": "Your session is about to expire.",
+  "session.refreshFailed": "We could not renew it automatically. Try again or sign in again to keep working.",
+  "session.signInToContinue": "Save your work and sign in again to keep working.",
+  "session.renewing": "Renewing...",
+  "session.tryAgain": "Try Again",
+  "session.dismiss": "Dismiss",
+  "session.signInAgain": "Sign In Again",
+
+  "projectStatus.draft": "Draft",
+  "projectStatus.submitted": "Submitted",
+  "projectStatus.changesRequested": "Changes Requested",
+  "projectStatus.approved": "Approved",
+  "projectStatus.rejected": "Rejected",
+  "projectStatus.archived": "Archived",
+
+  "projectLifecycle.upcoming": "Upcoming",
+  "projectLifecycle.live": "Live",
+  "projectLifecycle.funded": "Fully Funded",
+  "projectLifecycle.ended": "Ended",
+
+  "currency.reportIn": "Amounts in",
+  "currency.ownCurrency": "Project currency",
+  "currency.original": "Original: {amount}",
+  "currency.rate": "1 {from} = {rate} {to} (effective {date})",
+  "currency.noRate": "No {from} to {to} exchange rate; showing the original amount.",
+
+  "pagination.summary": "Page {page} of {pageCount}",
+  "pagination.pageSize": "{size} / page",
+  "pagination.first": "First",
+  "pagination.previous": "Prev",
+  "pagination.next": "Next",
+  "pagination.last": "Last",
+
+  "projects.title": "Projects",
+  "projects.descriptionAll": "Admin can view and manage all projects.",
+  "projects.descriptionOwn": "NPO users can view and manage only their own projects.",
+  "projects.export": "Export",
+  "projects.reviewQueue": "Review Queue",
+  "projects.import": "Import",
+  "projects.create": "Create New Project",
+  "projects.backToProjects": "Back to Projects",
+  "projects.search": "Search",
+  "projects.searchPlaceholder": "Search by title, description, category...",
+  "projects.category": "Category",
+  "projects.status": "Status",
+  "projects.lifecycle": "Fundraising",
+  "projects.owner": "NPO Owner",
+  "projects.clearFilters": "Clear Filters",
+  "projects.results": "Results: {count}",
+  "projects.columnTitle": "Title",
+  "projects.columnCreatedDate": "Created Date",
+  "projects.columnTarget": "Target",
+  "projects.columnRaised": "Raised",
+  "projects.columnStartDate": "Start Date",
+  "projects.columnActions": "Actions",
+  "projects.noActions": "No actions",
+  "projects.preview": "Preview",
+  "projects.edit": "Edit",
+  "projects.delete": "Delete",
+  "projects.duplicate": "Duplicate",
+  "projects.saveTemplate": "Save as Template",
+  "projects.templateDescription": "Save the title, description, category, target and addresses of \"{title}\" to start new projects from.",
+  "projects.templateName": "Template name",
+  "projects.templateNameRequired": "Template name is required.",
+  "projects.templateSaving": "Saving...",
+  "projects.templateSaved": "Template \"{name}\" saved.",
+  "projects.loading": "Loading projects...",
+  "projects.empty": "No projects found.",
+  "projects.deleteTitle": "Delete Project",
+  "projects.deleteConfirm": "Delete \"{title}\" permanently? This action cannot be undone.",
+  "projects.deleteConfirmGeneric": "Delete this project permanently? This action cannot be undone.",
+  "projects.deleting": "Deleting...",
+  "projects.deleted": "Project deleted successfully.",
+  "projects.exportTitle": "Export Projects",
+  "projects.exportDescription": "Download projects as a spreadsheet, including owner and category names.",
+  "projects.exportFormat": "Format",
+  "projects.exportRows": "Rows",
+  "projects.exportFiltered": "Current filters and sort ({count})",
+  "projects.exportAll": "All projects",
+  "projects.exportLocalized": "Format amounts and dates for my language",
+  "projects.exportProgress": "Fetched {loaded} of {total} projects...",
+  "projects.exporting": "Exporting...",
+  "projects.exported": {
+    one: "Exported {count} project.",
+    other: "Exported {count} projects.",
+  },
+
+  "charts.empty": "No data yet.",
+  "charts.columnChart": "Column chart",
+
+  "overview.title": "Overview",
+  "overview.descriptionAll": "Fundraising progress and project health across the platform.",
+  "overview.descriptionOwn": "Fundraising progress and health of your projects.",
+  "overview.eachProjectCurrency": "Each project's currency",
+  "overview.loading": "Loading overview...",
+  "overview.activeProjects": "Active Projects",
+  "overview.pendingApproval": "Pending Approval",
+  "overview.expiredProjects": "Expired Projects",
+  "overview.npos": "NPOs",
+  "overview.donors": "Donors (Last 12 Months)",
+  "overview.raisedVsTarget": "Raised vs. Target",
+  "overview.noProjects": "No projects yet.",
+  "overview.raisedOfTarget": "{raised} of {target}",
+  "overview.ofTarget": "of {target}",
+  "overview.of": "of",
+  "overview.unconverted": "No {currency} exchange rate for {currencies}; those projects are left out of the total.",
+  "overview.ratesUnavailable": "Exchange rates could not be loaded, so totals are shown in each project's currency instead of {currency}.",
+  "overview.partialProjects": "These figures cover the {count} most recent of {total} projects.",
+  "overview.fundsRaised": "Funds Raised",
+  "overview.fundsRaisedDescription": "Succeeded donations per month over the last year.",
+  "overview.chartCurrency": "Chart currency",
+  "overview.loadingDonations": "Loading donations...",
+  "overview.noConvertibleDonations": "No donations with a {currency} exchange rate in the last year.",
+  "overview.noDonations": "No {currency} donations in the last year.",
+  "overview.projectsPerCategory": "Projects per Category",
+  "overview.projectsPerCategoryDescription": "How projects are spread across categories.",
+  "overview.unknownCategory": "Category {id}",
+  "overview.needsAttention": "Needs Attention",
+  "overview.needsAttentionDescription": "Projects pending approval, ending within {days} days, or below {percent} of their target.",
+  "overview.nothingNeedsAttention": "Nothing needs attention right now.",
+  "overview.endsOn": "ends {date}",
+  "overview.moreNeedAttention": "And {count} more on the",
+  "overview.viewProjects": "projects page",
+
+  "attention.pendingApproval": "Pending approval",
+  "attention.endingSoon": "Ends within {days} days",
+  "attention.lowFunding": "Below {percent} funded",
+
+  "currencySelect.search": "Search currencies...",
+  "currencySelect.empty": "No currencies found.",
+  "currencySelect.pinned": "Pinned",
+  "currencySelect.all": "All currencies",
+  "currencySelect.unlisted": "Unlisted currency",
+  "currencySelect.pin": "Pin currency",
+  "currencySelect.pinHint": "Pin currency to the top of the list",
+  "currencySelect.unpin": "Unpin currency",
+
+  "donationStatus.pending": "Pending",
+  "donationStatus.succeeded": "Succeeded",
+  "donationStatus.failed": "Failed",
+  "donationStatus.refunded": "Refunded",
+
+  "donations.title": "Donations",
+  "donations.descriptionAll": "Every donation received across projects, with its payment status and reference.",
+  "donations.descriptionOwn": "Donations received by your projects.",
+  "donations.searchPlaceholder": "Search by donor or reference...",
+  "donations.npo": "NPO",
+  "donations.paymentStatus": "Payment Status",
+  "donations.columnDonor": "Donor",
+  "donations.columnAmount": "Amount",
+  "donations.columnCurrency": "Currency",
+  "donations.columnProject": "Project",
+  "donations.columnDate": "Date",
+  "donations.columnReference": "Reference",
+  "donations.empty": "No donations found.",
+  "donations.anonymous": "Anonymous",
+  "donations.unknownDonor": "Unknown donor",
+
+  "donationsPanel.donations": "Donations",
+  "donationsPanel.succeededTotal": "Succeeded Total",
+  "donationsPanel.recordedRaised": "Recorded Raised Amount",
+  "donationsPanel.difference": "Difference",
+  "donationsPanel.otherCurrency": {
+    one: "{count} succeeded donation in a currency other than {currency} is not included in the total.",
+    other: "{count} succeeded donations in a currency other than {currency} are not included in the total.",
+  },
+  "donationsPanel.reconcile": "Reconcile Raised Amount",
+  "donationsPanel.reconcileAction": "Reconcile",
+  "donationsPanel.reconcileConfirm": {
+    one: "Change the raised amount from {from} to {to}, the total of {count} succeeded donation?",
+    other: "Change the raised amount from {from} to {to}, the total of {count} succeeded donations?",
+  },
+  "donationsPanel.reconciled": "Raised amount set to {amount}.",
+  "donationsPanel.matches": "The raised amount matches the succeeded donations.",
+  "donationsPanel.reconcileLoadFailed": "Donations could not be loaded, so the raised amount cannot be reconciled.",
+  "donationsPanel.reconcileOtherCurrency": "Reconciling is unavailable because donations in other currencies are not included in the succeeded total.",
+  "donationsPanel.retry": "Retry",
+  "donationsPanel.empty": "No donations recorded for this project.",
+
+  "landing.network": "Donation Network",
+  "landing.adminLogin": "Admin Login",
+  "landing.tagline": "Transparent Giving, Real Outcomes",
+  "landing.headline": "Turn every donation into measurable community impact.",
+  "landing.intro": "Fund trusted local projects with live progress tracking, public accountability, and secure donation handling for every campaign.",
+  "landing.startDonating": "Start Donating",
+  "landing.exploreCampaigns": "Explore Campaigns",
+  "landing.statMeals": "Meals Sponsored",
+  "landing.statFamilies": "Families Supported",
+  "landing.statProjects": "Community Projects",
+  "landing.spotlight": "Donation Spotlight",
+  "landing.spotlightTitle": "Ramadan Family Relief Drive",
+  "landing.spotlightDetail": "Help {families} families access food, shelter support, and school supplies over the next {days} days.",
+  "landing.raised": "Raised",
+  "landing.milestones": "Audited project milestones",
+  "landing.fieldUpdates": "Daily field update summaries",
+  "landing.receipts": "Receipts and spending breakdown",
+  "landing.tierStarter": "Starter Gift",
+  "landing.tierStarterDetail": "Provides clean water kits for one family.",
+  "landing.tierMonthly": "Monthly Impact",
+  "landing.tierMonthlyDetail": "Supports weekly essentials for vulnerable households.",
+  "landing.tierCommunity": "Community Builder",
+  "landing.tierCommunityDetail": "Funds local volunteer-led neighborhood programs.",
+  "landing.securePayments": "Secure Payments",
+  "landing.securePaymentsDetail": "Bank-level encryption and verified transaction records.",
+  "landing.communityVerified": "Community Verified",
+  "landing.communityVerifiedDetail": "Projects reviewed by local leaders before publishing.",
+  "landing.transparentAllocation": "Transparent Allocation",
+  "landing.transparentAllocationDetail": "Clear breakdown of how each dollar is applied.",
+  "landing.joinCircle": "Join the Impact Circle",
+  "landing.giveWithConfidence": "Give with confidence. Track every step.",
+  "landing.donateNow": "Donate Now",
+
+  "categories.title": "Categories",
+  "categories.description": "Project counts include pending and approved projects.",
+  "categories.newTitle": "New Category",
+  "categories.newDescription": "Categories group projects for donors and filters.",
+  "categories.editTitle": "Edit Category",
+  "categories.editDescription": "Rename the category or replace its image.",
+  "categories.name": "Name",
+  "categories.image": "Image",
+  "categories.replaceImage": "Replace Image",
+  "categories.imagePreview": "Category preview",
+  "categories.noImage": "No image",
+  "categories.projects": "Projects",
+  "categories.create": "Create Category",
+  "categories.loading": "Loading categories...",
+  "categories.empty": "No categories yet.",
+  "categories.imageTypeError": "Please choose an image file.",
+  "categories.imageSizeError": "Category image must be {size} or smaller.",
+  "categories.nameRequired": "Category name is required.",
+  "categories.nameTaken": "A category with this name already exists.",
+  "categories.created": "Category created.",
+  "categories.updated": "Category updated.",
+  "categories.deleted": "Category deleted.",
+  "categories.reassignedAndDeleted": "Projects reassigned and category deleted.",
+  "categories.deleteTitle": "Delete Category",
+  "categories.deleteConfirm": "Delete \"{name}\" permanently? This action cannot be undone.",
+  "categories.stillHoldsProjects": {
+    one: "\"{name}\" still holds {count} project. Move it to another category before deleting it.",
+    other: "\"{name}\" still holds {count} projects. Move them to another category before deleting it.",
+  },
+  "categories.moveProjectsTo": "Move projects to",
+  "categories.selectCategory": "Select category",
+  "categories.noReassignTargets": "Create another category first so these projects have somewhere to go.",
+  "categories.chooseReassignTarget": "Choose a category to move the remaining projects to.",
+  "categories.reassignAndDelete": "Reassign & Delete",
+  "categories.movingProject": "Moving project {index} of {total}...",
+  "categories.deletingCategory": "Deleting category...",
+
+  "role.admin": "Admin",
+  "role.npo": "NPO",
+  "role.donor": "Donor",
+
+  "permissionGroup.projects": "Projects",
+  "permissionGroup.categories": "Categories",
+  "permissionGroup.donations": "Donations",
+  "permissionGroup.users": "Users / Roles",
+  "permissionGroup.audit": "Audit",
+  "permissionGroup.reporting": "Reporting",
+  "permissionGroup.profile": "Profile",
+  "permissionGroup.bank": "Bank Details",
+
+  "permission.project.view.any": "View all projects",
+  "permission.project.view.own": "View own projects",
+  "permission.project.create": "Create projects",
+  "permission.project.update.any": "Edit any project",
+  "permission.project.update.own": "Edit own projects",
+  "permission.project.delete.any": "Delete any project",
+  "permission.project.delete.own": "Delete own projects",
+  "permission.project.approve": "Review and approve projects",
+  "permission.project.import": "Bulk import projects from spreadsheets",
+  "permission.project.autoClose": "Close projects automatically when their target is reached",
+  "permission.user.view": "View users",
+  "permission.user.create": "Invite and create users",
+  "permission.user.update": "Activate, deactivate and flag NPO accounts",
+  "permission.user.delete": "Delete users",
+  "permission.user.role.update": "Change user roles",
+  "permission.category.manage": "Create, rename and delete categories",
+  "permission.donation.view.any": "View all donations",
+  "permission.donation.view.own": "View donations to own projects",
+  "permission.donation.reconcile": "Reconcile raised amounts with donations",
+  "permission.audit.view": "Browse and export the audit log",
+  "permission.exchangeRate.manage": "Upload and edit exchange rates",
+  "permission.profile.update.own": "Edit own profile",
+  "permission.bank.update.any": "Manage any NPO's bank details",
+  "permission.bank.update.own": "Manage own bank details",
+
+  "admin.adminOnly": "Only admin users can access this section.",
+  "admin.roleUpdated": "User role updated.",
+  "admin.selectNpoRequired": "Please select an NPO user.",
+  "admin.bankSaved": "NPO bank details saved.",
+  "admin.title": "Admin Configuration",
+  "admin.description": "Manage users, roles, exchange rates, and NPO receiving bank details.",
+  "admin.loadingUsers": "Loading users...",
+  "admin.rolesTitle": "User Role Management",
+  "admin.rolesDescription": "Admin has full access. NPO and Donor permissions depend on role.",
+  "admin.saveRole": "Save Role",
+  "admin.matrixTitle": "Permissions Matrix",
+  "admin.matrixDescription": "Generated from the permission definitions the dashboard enforces.",
+  "admin.role": "Role",
+  "admin.noAccess": "No access",
+  "admin.bankTitle": "NPO Bank Details",
+  "admin.bankDescription": "Configure the receiving account NPO payouts are sent to.",
+  "admin.npoUser": "NPO User",
+  "admin.selectNpoUser": "Select NPO user",
+  "admin.saveBank": "Save NPO Bank Details",
+
+  "bank.loading": "Loading bank details...",
+  "bank.accountHolderName": "Account Holder Name",
+  "bank.bankName": "Bank Name",
+  "bank.accountNumber": "Account Number",
+  "bank.routingNumber": "Routing Number",
+  "bank.routingNumberPlaceholder": "9-digit ABA number",
+  "bank.iban": "IBAN",
+  "bank.ibanPlaceholder": "e.g. DE89 3704 0044 0532 0130 00",
+  "bank.swiftCode": "SWIFT/BIC",
+  "bank.swiftCodePlaceholder": "e.g. DEUTDEFF",
+  "bank.country": "Bank country: {country} ({code})",
+
+  "profile.title": "Profile",
+  "profile.description": "Update your account details. Changes are persisted to backend.",
+  "profile.save": "Save Profile",
+  "profile.updated": "Profile updated successfully.",
+  "profile.bankTitle": "Receiving Bank Details",
+  "profile.bankDescription": "NPO payout details used by admins to transfer raised funds.",
+  "profile.saveBank": "Save Bank Details",
+  "profile.bankSaved": "Receiving bank details saved.",
+
+  "users.title": "Users",
+  "users.description": "Search accounts, manage their status and review profile details.",
+  "users.addUser": "Add User",
+  "users.searchPlaceholder": "Search by name, email or mobile...",
+  "users.columnUser": "User",
+  "users.npoAccount": "NPO Account",
+  "users.notNpo": "Not NPO",
+  "users.status": "Status",
+  "users.active": "Active",
+  "users.inactive": "Inactive",
+  "users.view": "View",
+  "users.deactivate": "Deactivate",
+  "users.reactivate": "Reactivate",
+  "users.markNpo": "Mark as NPO",
+  "users.unmarkNpo": "Unmark NPO",
+  "users.empty": "No users found.",
+  "users.reactivated": "{name} reactivated.",
+  "users.deactivated": "{name} deactivated.",
+  "users.markedNpo": "{name} marked as an NPO account.",
+  "users.unmarkedNpo": "{name} is no longer marked as an NPO account.",
+  "users.deleted": "{name} deleted.",
+  "users.invitationSent": "Invitation sent to {email}.",
+  "users.created": "{name} created.",
+  "users.deleteTitle": "Delete User",
+  "users.deleteConfirm": "Delete {name} ({email}) permanently? This action cannot be undone.",
+  "users.deleteConfirmGeneric": "Delete this user permanently? This action cannot be undone.",
+  "users.formTitle": "Invite or Create User",
+  "users.formDescription": "Invited users receive an email to set their own password.",
+  "users.email": "Email",
+  "users.firstName": "First Name",
+  "users.lastName": "Last Name",
+  "users.mobileNumber": "Mobile Number",
+  "users.password": "Password",
+  "users.passwordFromInvite": "Set by the user from the invitation",
+  "users.sendInvite": "Send an invitation email instead of setting a password",
+  "users.sendInvitation": "Send Invitation",
+  "users.createUser": "Create User",
+  "users.loadingDetails": "Loading user details...",
+  "users.addresses": "Addresses",
+  "users.noAddresses": "No addresses on file.",
+
+  "validation.emailRequired": "Email is required",
+  "validation.emailInvalid": "Enter a valid email address",
+  "validation.firstNameRequired": "First name is required",
+  "validation.firstNameMax": "First name must be at most {max} characters",
+  "validation.lastNameRequired": "Last name is required",
+  "validation.lastNameMax": "Last name must be at most {max} characters",
+  "validation.roleRequired": "Role is required",
+  "validation.passwordMin": "Password must be at least {min} characters",
+  "validation.accountHolderRequired": "Account holder name is required",
+  "validation.accountHolderMax": "Account holder name must be at most {max} characters",
+  "validation.bankNameRequired": "Bank name is required",
+  "validation.bankNameMax": "Bank name must be at most {max} characters",
+  "validation.accountNumberFormat": "Account number must be 4-34 letters or digits",
+  "validation.swiftFormat": "SWIFT/BIC must be 8 or 11 characters (for example, DEUTDEFF or DEUTDEFF500)",
+  "validation.accountOrIbanRequired": "Enter an account number or an IBAN",
+  "validation.ibanFormat": "IBAN must start with a country code and two check digits",
+  "validation.ibanCountry": "{country} does not issue IBANs",
+  "validation.ibanLength": "{country} IBANs must be {length} characters",
+  "validation.ibanChecksum": "IBAN checksum is invalid. Check for typos",
+  "validation.swiftCountryMismatch": "SWIFT/BIC country ({swiftCountry}) does not match the IBAN country ({ibanCountry})",
+  "validation.routingNumber": "Routing number must be 9 digits with a valid ABA checksum",
+  "validation.addressFieldRequired": "{field} is required when address is provided",
+  "validation.selectCountry": "Select a country from the list",
+  "validation.selectState": "Select a state from the list",
+  "validation.ownerRequired": "NPO owner is required",
+  "validation.titleRequired": "Project title is required",
+  "validation.titleMax": "Project title must be at most {max} characters",
+  "validation.categoryRequired": "Category is required",
+  "validation.startDateRequired": "Start date is required",
+  "validation.descriptionRequired": "Description is required",
+  "validation.descriptionMax": "Description must be at most {max} characters",
+  "validation.targetRequired": "Target amount is required",
+  "validation.targetPositive": "Target amount must be greater than 0",
+  "validation.currencyRequired": "Currency is required",
+  "validation.currencyFormat": "Currency must be a 3-letter code (for example, USD)",
+  "validation.currencyIso": "Currency must be an ISO 4217 code",
+  "validation.addressesMax": "Add at most {max} addresses",
+  "validation.endBeforeStart": "End date must be on or after the start date",
+  "validation.amountWhole": "{currency} amounts must be whole numbers",
+  "validation.amountDecimals": {
+    one: "{currency} amounts allow at most {count} decimal place",
+    other: "{currency} amounts allow at most {count} decimal places",
+  },
+
+  "auditAction.project.update": "Project edited",
+  "auditAction.project.review": "Project review status changed",
+  "auditAction.project.delete": "Project deleted",
+  "auditAction.project.media.delete": "Project media deleted",
+  "auditAction.project.media.update": "Project media updated",
+  "auditAction.project.reconcile": "Raised amount reconciled",
+  "auditAction.user.role.update": "User role changed",
+  "auditAction.bank.create": "Bank details added",
+  "auditAction.bank.update": "Bank details changed",
+  "auditAction.exchangeRates.update": "Exchange rates changed",
+  "auditAction.projectTemplate.create": "Project template saved",
+
+  "auditTarget.project": "Project",
+  "auditTarget.projectMedia": "Project media",
+  "auditTarget.user": "User",
+  "auditTarget.bankAccount": "Bank account",
+  "auditTarget.exchangeRates": "Exchange rates",
+  "auditTarget.projectTemplate": "Project template",
+
+  "audit.title": "Audit Log",
+  "audit.description": "Who changed projects, user roles, media and bank details, and when.",
+  "audit.exportCsv": "Export CSV",
+  "audit.exporting": "Exporting...",
+  "audit.exported": {
+    one: "Exported {count} entry.",
+    other: "Exported {count} entries.",
+  },
+  "audit.exportedPartial": "Exported the newest {count} of {total} entries. Narrow the filters to export the rest.",
+  "audit.searchPlaceholder": "Search by target or field...",
+  "audit.columnWhen": "When",
+  "audit.columnTimestamp": "Timestamp",
+  "audit.columnActor": "Actor",
+  "audit.columnActorId": "Actor ID",
+  "audit.columnAction": "Action",
+  "audit.columnTargetType": "Target Type",
+  "audit.columnTarget": "Target",
+  "audit.columnTargetId": "Target ID",
+  "audit.columnChanges": "Changes",
+  "audit.showChanges": "Show ({count})",
+  "audit.hideChanges": "Hide",
+  "audit.noChanges": "None",
+  "audit.loading": "Loading audit entries...",
+  "audit.empty": "No audit entries found.",
+  "audit.field": "Field",
+  "audit.before": "Before",
+  "audit.after": "After",
+  "audit.emptyValue": "(empty)",
+
+  "media.imageCount": {
+    one: "{count} image",
+    other: "{count} images",
+  },
+  "media.videoCount": {
+    one: "{count} video",
+    other: "{count} videos",
+  },
+  "media.countLimit": "A project can have at most {limit}.",
+  "media.upTo": "Up to {limit}",
+  "media.imagePolicy": "{upTo} · {types} · {size} each after optimization.",
+  "media.videoPolicy": "{details}.",
+  "media.sizeEach": "{size} each",
+  "media.maxDuration": "at most {duration} long",
+  "media.maxDimension": "at most {pixels}px on the longest edge",
+  "media.unsupportedImage": "'{name}' is not a supported image. Allowed formats: {types}.",
+  "media.unsupportedVideo": "'{name}' is not a supported video. Allowed formats: {types}.",
+  "media.imageTooLarge": "Image '{name}' exceeds {size}.",
+  "media.videoTooLarge": "Video '{name}' exceeds {size}.",
+  "media.videoTooLong": "Video '{name}' is longer than {duration}.",
+  "media.videoTooWide": "Video '{name}' is {size}; the longest edge may be at most {pixels}px.",
+
+  "mediaUpload.queued": "Waiting",
+  "mediaUpload.uploading": "Uploading",
+  "mediaUpload.succeeded": "Uploaded",
+  "mediaUpload.failed": "Failed",
+  "mediaUpload.cancelled": "Cancelled",
+  "mediaUpload.progress": "{status} · {sent} of {total} ({percent}%)",
+  "mediaUpload.progressLabel": "{name} upload progress",
+  "mediaUpload.cancel": "Cancel upload of {name}",
+  "mediaUpload.retry": "Retry upload of {name}",
+
+  "mediaManager.empty": "No uploaded images.",
+  "mediaManager.hint": "Drag images or use the arrows to change their order. The star sets the cover image.",
+  "mediaManager.cover": "Cover",
+  "mediaManager.coverSet": "'{name}' is now the cover image.",
+  "mediaManager.detailsSaved": "Image details saved.",
+  "mediaManager.moveEarlier": "Move {name} earlier",
+  "mediaManager.moveLater": "Move {name} later",
+  "mediaManager.setCover": "Set {name} as cover",
+  "mediaManager.delete": "Delete {name}",
+  "mediaManager.caption": "Caption",
+  "mediaManager.altText": "Alt Text",
+  "mediaManager.altTextPlaceholder": "Describe the image for screen readers",
+  "mediaManager.saveDetails": "Save Details",
+
+  "funding.title": "Fundraising",
+  "funding.progressLabel": "Funding progress",
+  "funding.ofTarget": "of {target} · {percent}",
+  "funding.startsOnApproval": "Fundraising starts once the project is approved.",
+  "funding.startsIn": {
+    one: "Starts in {count} day.",
+    other: "Starts in {count} days.",
+  },
+  "funding.ended": "Fundraising has ended.",
+  "funding.autoClosed": "Target reached; donations closed automatically.",
+  "funding.fundedAndEnded": "Target reached; fundraising has ended.",
+  "funding.fundedAccepting": "Target reached; still accepting donations.",
+  "funding.fundedAcceptingFor": {
+    one: "Target reached; still accepting donations for {count} day.",
+    other: "Target reached; still accepting donations for {count} days.",
+  },
+  "funding.noEndDate": "No end date.",
+  "funding.daysLeft": {
+    one: "{count} day left.",
+    other: "{count} days left.",
+  },
+
+  "location.noMatches": "No matches found.",
+  "location.useCustom": "Use \"{name}\"",
+
+  "address.title": "Addresses (optional)",
+  "address.description": "Add every city the project runs in.",
+  "address.add": "Add Address",
+  "address.empty": "No addresses added.",
+  "address.country": "Country",
+  "address.searchCountries": "Search countries",
+  "address.state": "State",
+  "address.searchStates": "Search states",
+  "address.typeState": "Type a state",
+  "address.city": "City",
+  "address.searchCity": "Search or type a city",
+  "address.moveUp": "Move address {index} up",
+  "address.moveDown": "Move address {index} down",
+  "address.remove": "Remove address {index}",
+
+  "exchangeRates.title": "Exchange Rates",
+  "exchangeRates.description": "Rates used to total amounts across currencies in reports. Each rate applies from its effective date until a newer one for the same pair; reverse and cross rates are derived automatically.",
+  "exchangeRates.upload": "Upload Rates",
+  "exchangeRates.readingFile": "Reading file...",
+  "exchangeRates.uploadHint": "CSV with baseCurrency, quoteCurrency, rate and effectiveDate columns, or JSON as a list of rates or { base, date, rates } snapshots.",
+  "exchangeRates.loading": "Loading exchange rates...",
+  "exchangeRates.empty": "No exchange rates yet. Upload a file or add rates manually.",
+  "exchangeRates.base": "Base",
+  "exchangeRates.quote": "Quote",
+  "exchangeRates.rate": "Rate",
+  "exchangeRates.effectiveDate": "Effective Date",
+  "exchangeRates.baseCurrency": "Base currency",
+  "exchangeRates.quoteCurrency": "Quote currency",
+  "exchangeRates.remove": "Remove rate",
+  "exchangeRates.add": "Add Rate",
+  "exchangeRates.downloadCsv": "Download CSV",
+  "exchangeRates.save": "Save Exchange Rates",
+  "exchangeRates.saved": "Exchange rates saved.",
+  "exchangeRates.fixErrors": "Fix the highlighted exchange rates before saving.",
+  "exchangeRates.fileType": "Choose a .csv or .json file.",
+  "exchangeRates.fileSize": "Rate files must be {size} or smaller.",
+  "exchangeRates.loaded": {
+    one: "Loaded {count} rate from {name}. Review it and save to apply.",
+    other: "Loaded {count} rates from {name}. Review them and save to apply.",
+  },
+  "exchangeRates.invalidCurrency": "Currencies must be ISO 4217 codes.",
+  "exchangeRates.sameCurrency": "Base and quote currencies must differ.",
+  "exchangeRates.invalidRate": "Rate must be a positive number.",
+  "exchangeRates.invalidDate": "Effective date must be a valid YYYY-MM-DD date.",
+  "exchangeRates.invalidJson": "The file is not valid JSON.",
+  "exchangeRates.noRates": "The file does not contain any rates.",
+  "exchangeRates.missingColumns": "Missing column(s): {columns}.",
+  "exchangeRates.rateNumber": "Rate {index}",
+  "exchangeRates.rowNumber": "Row {row}",
+  "exchangeRates.entryError": "{entry}: {error}",
+
+  "projectImport.title": "Import Projects",
+  "projectImport.description": "Create many projects at once from a CSV or Excel file. Rows are validated before anything is saved.",
+  "projectImport.stepUpload": "1. Upload",
+  "projectImport.stepMap": "2. Map Columns",
+  "projectImport.stepReview": "3. Review",
+  "projectImport.stepResult": "4. Report",
+  "projectImport.file": "Spreadsheet File",
+  "projectImport.readingFile": "Reading file...",
+  "projectImport.fileHint": "CSV or XLSX, up to {max} rows. The first row must contain column headers; only the first worksheet is read. Write dates as YYYY-MM-DD.",
+  "projectImport.templatePrompt": "Start from the template:",
+  "projectImport.downloadCsvTemplate": "Download CSV Template",
+  "projectImport.downloadXlsxTemplate": "Download XLSX Template",
+  "projectImport.fileType": "Choose a .csv or .xlsx file.",
+  "projectImport.fileSize": "Import files must be {size} or smaller.",
+  "projectImport.noRows": "The file has no data rows below the header.",
+  "projectImport.tooManyRows": "Import at most {max} projects per file. This file has {count}.",
+  "projectImport.readFailed": "Unable to read the file.",
+  "projectImport.mapDescription": {
+    one: "Match the columns in {name} ({count} row) to project fields. NPO owners can be given by email or user ID, and categories by name or ID.",
+    other: "Match the columns in {name} ({count} rows) to project fields. NPO owners can be given by email or user ID, and categories by name or ID.",
+  },
+  "projectImport.notImported": "Not imported",
+  "projectImport.columnFallback": "Column {index}",
+  "projectImport.missingFields": "Map the required fields: {fields}.",
+  "projectImport.chooseAnother": "Choose Another File",
+  "projectImport.validateRows": "Validate Rows",
+  "projectImport.readyCount": "{count} ready",
+  "projectImport.errorCount": "{count} with errors",
+  "projectImport.showOnlyInvalid": "Show only rows with errors",
+  "projectImport.columnRow": "Row",
+  "projectImport.columnResult": "Result",
+  "projectImport.columnOutcome": "Outcome",
+  "projectImport.columnReason": "Reason",
+  "projectImport.columnMessage": "Message",
+  "projectImport.ready": "Ready",
+  "projectImport.fieldError": "{field}: {error}",
+  "projectImport.progress": "Created {processed} of {total} projects...",
+  "projectImport.backToMapping": "Back to Mapping",
+  "projectImport.importing": "Importing...",
+  "projectImport.importRows": {
+    one: "Import {count} Project",
+    other: "Import {count} Projects",
+  },
+  "projectImport.importAndSkip": {
+    one: "Import {count} Project and Skip {skipped}",
+    other: "Import {count} Projects and Skip {skipped}",
+  },
+  "projectImport.imported": {
+    one: "Imported {count} project.",
+    other: "Imported {count} projects.",
+  },
+  "projectImport.downloadReport": "Download Report",
+  "projectImport.importAnother": "Import Another File",
+  "projectImport.viewProjects": "View Projects",
+  "projectImport.noOwnerMatch": "No NPO user matches \"{value}\"",
+  "projectImport.noCategoryMatch": "No category matches \"{value}\"",
+  "projectImport.invalidDate": "\"{value}\" is not a valid date; use YYYY-MM-DD",
+  "projectImport.invalidAmount": "\"{value}\" is not a valid amount",
+
+  "importOutcome.created": "Created",
+  "importOutcome.skipped": "Skipped",
+  "importOutcome.failed": "Failed",
+
+  "projectForm.selectOwner": "Select NPO user",
+  "projectForm.title": "Project Title",
+  "projectForm.selectCategory": "Select category",
+  "projectForm.targetAmount": "Target Amount",
+  "projectForm.currency": "Currency",
+  "projectForm.endDateOptional": "End Date (optional)",
+  "projectForm.endDate": "End Date",
+  "projectForm.description": "Description",
+  "projectForm.autoClose": "Stop accepting donations once the target amount is reached",
+  "projectForm.imageHint": "Images are resized to at most {pixels}px and stripped of location data before upload.",
+  "projectForm.optimizingImages": "Optimizing images...",
+  "projectForm.checkingVideos": "Checking videos...",
+  "projectForm.imageStillTooLarge": "Image '{name}' is still larger than {size} after compression.",
+  "projectForm.imagesSelected": {
+    one: "{count} file selected",
+    other: "{count} files selected",
+  },
+  "projectForm.noFilesSelected": "No files selected",
+  "projectForm.videosSelected": {
+    one: "{count} video selected",
+    other: "{count} videos selected",
+  },
+  "projectForm.noVideosSelected": "No videos selected.",
+  "projectForm.noImagesSelected": "No images selected.",
+  "projectForm.uploads": "Uploads",
+
+  "projectCreate.title": "Create Project",
+  "projectCreate.forbidden": "Only Admin and NPO users can create projects.",
+  "projectCreate.description": "This form uses react-hook-form with zod validation.",
+  "projectCreate.loading": "Loading form data...",
+  "projectCreate.duplicateLoadFailed": "Could not load the project to duplicate: {error}",
+  "projectCreate.prefilled": "Pre-filled from “{title}”. Pick new dates for this campaign.",
+  "projectCreate.copyingMedia": "Copying media...",
+  "projectCreate.mediaCopied": "Media copied",
+  "projectCreate.copyMedia": "Copy {images} image(s) and {videos} video(s)",
+  "projectCreate.template": "Start from Template",
+  "projectCreate.noTemplate": "No template",
+  "projectCreate.templateHint": "Fills in the title, description, category, target and addresses. Dates and media are not copied.",
+  "projectCreate.images": "Project Images",
+  "projectCreate.videos": "Project Videos",
+  "projectCreate.imagePreview": "Image Preview",
+  "projectCreate.videoPreview": "Video Preview",
+  "projectCreate.uploadIncomplete": {
+    one: "Project created, but {count} file did not upload. Retry it below or continue without it.",
+    other: "Project created, but {count} files did not upload. Retry them below or continue without them.",
+  },
+  "projectCreate.uploading": "Uploading...",
+  "projectCreate.continue": "Continue to Projects",
+  "projectCreate.creating": "Creating...",
+
+  "projectEdit.title": "Edit Project",
+  "projectEdit.forbidden": "Only Admin and NPO users can edit projects.",
+  "projectEdit.description": "Update project details and media in a dedicated page.",
+  "projectEdit.loading": "Loading project...",
+  "projectEdit.notFound": "Project not found or not accessible.",
+  "projectEdit.goBack": "Go Back",
+  "projectEdit.notAllowed": "You are not allowed to edit this project.",
+  "projectEdit.reviewStatus": "Review Status",
+  "projectEdit.submitting": "Submitting...",
+  "projectEdit.resubmit": "Resubmit for Review",
+  "projectEdit.reviewerFeedback": "Reviewer feedback",
+  "projectEdit.resubmitHint": "Save your changes first, then resubmit so an admin can review the project again.",
+  "projectEdit.saved": "Project updated successfully.",
+  "projectEdit.resubmitted": "Project resubmitted for review.",
+  "projectEdit.mediaRemoved": "Project media removed.",
+  "projectEdit.uploadIncomplete": {
+    one: "Project saved, but {count} file did not upload. Retry it from the upload list.",
+    other: "Project saved, but {count} files did not upload. Retry them from the upload list.",
+  },
+  "projectEdit.addImages": "Add More Images",
+  "projectEdit.addVideos": "Add More Videos",
+  "projectEdit.newImagePreview": "New Image Preview",
+  "projectEdit.newVideoPreview": "New Video Preview",
+  "projectEdit.noNewImages": "No new images selected.",
+  "projectEdit.noNewVideos": "No new videos selected.",
+  "projectEdit.uploadedImages": "Uploaded Images",
+  "projectEdit.uploadedVideos": "Uploaded Videos",
+  "projectEdit.noUploadedVideos": "No uploaded videos.",
+  "projectEdit.updating": "Updating...",
+
+  "review.approve": "Approve",
+  "review.requestChanges": "Request Changes",
+  "review.reject": "Reject",
+  "review.archive": "Archive",
+  "review.commentLabel": "Comment for the NPO",
+
+  "projectPreview.title": "Project Preview",
+  "projectPreview.forbidden": "Only admin users can preview and approve projects.",
+  "projectPreview.description": "Admin-only review page to approve, send back, reject or archive projects.",
+  "projectPreview.loading": "Loading project preview...",
+  "projectPreview.notFound": "Project not found.",
+  "projectPreview.tabDetails": "Details",
+  "projectPreview.tabDonations": "Donations",
+  "projectPreview.approved": "Project approved.",
+  "projectPreview.changesRequested": "Changes requested from the NPO.",
+  "projectPreview.rejected": "Project rejected.",
+  "projectPreview.archived": "Project archived.",
+  "projectPreview.commentRequired": "A comment is required to mark this project as \"{status}\".",
+  "projectPreview.imageRemoved": "Image removed.",
+  "projectPreview.videoRemoved": "Video removed.",
+  "projectPreview.previewImage": "Preview {name}",
+  "projectPreview.removeImageTitle": "Remove Image",
+  "projectPreview.removeVideoTitle": "Remove Video",
+  "projectPreview.removeConfirm": "Delete \"{name}\" from this project?",
+  "projectPreview.removeConfirmGeneric": "Delete this media item from this project?",
+  "projectPreview.removing": "Removing...",
+  "projectPreview.remove": "Remove",
+  "projectPreview.review": "Review",
+  "projectPreview.reviewer": "Reviewer",
+  "projectPreview.commentPlaceholder": "Required when requesting changes or rejecting.",
+  "projectPreview.raisedAmount": "Raised Amount",
+  "projectPreview.autoClose": "Auto-close",
+  "projectPreview.autoCloseOn": "When target is reached",
+  "projectPreview.autoCloseOff": "Off",
+  "projectPreview.approvedAt": "Approved At",
+  "projectPreview.approvedBy": "Approved By",
+  "projectPreview.addresses": "Addresses",
+  "projectPreview.images": "Images",
+  "projectPreview.noImages": "No images uploaded.",
+  "projectPreview.videos": "Videos",
+  "projectPreview.noVideos": "No videos uploaded.",
+
+  "reviewQueue.description": "Submitted projects, oldest first. Select several to review them together.",
+  "reviewQueue.selectAll": "Select all",
+  "reviewQueue.selectRow": "Select {title}",
+  "reviewQueue.columnProject": "Project",
+  "reviewQueue.columnSubmitted": "Submitted",
+  "reviewQueue.progressApproved": "Approving {done} of {total}...",
+  "reviewQueue.progressChangesRequested": "Requesting changes on {done} of {total}...",
+  "reviewQueue.progressRejected": "Rejecting {done} of {total}...",
+  "reviewQueue.doneApproved": {
+    one: "{count} project approved.",
+    other: "{count} projects approved.",
+  },
+  "reviewQueue.doneChangesRequested": {
+    one: "{count} project sent back for changes.",
+    other: "{count} projects sent back for changes.",
+  },
+  "reviewQueue.doneRejected": {
+    one: "{count} project rejected.",
+    other: "{count} projects rejected.",
+  },
+  "reviewQueue.partialApproved": {
+    one: "{count} project approved, {failed} failed. Failed items stay selected for retry.",
+    other: "{count} projects approved, {failed} failed. Failed items stay selected for retry.",
+  },
+  "reviewQueue.partialChangesRequested": {
+    one: "{count} project sent back for changes, {failed} failed. Failed items stay selected for retry.",
+    other: "{count} projects sent back for changes, {failed} failed. Failed items stay selected for retry.",
+  },
+  "reviewQueue.partialRejected": {
+    one: "{count} project rejected, {failed} failed. Failed items stay selected for retry.",
+    other: "{count} projects rejected, {failed} failed. Failed items stay selected for retry.",
+  },
+  "reviewQueue.rejectTitle": "Reject Projects",
+  "reviewQueue.rejectConfirm": {
+    one: "Reject {count} project? Rejected projects are not published.",
+    other: "Reject {count} projects? Rejected projects are not published.",
+  },
+  "reviewQueue.requestChangesConfirm": {
+    one: "Send {count} project back to their NPO for changes.",
+    other: "Send {count} projects back to their NPO for changes.",
+  },
+  "reviewQueue.commentPlaceholder": "Explain what needs to change...",
+  "reviewQueue.selectedCount": "{count} selected",
+  "reviewQueue.awaiting": {
+    one: "{count} project awaiting review",
+    other: "{count} projects awaiting review",
+  },
+  "reviewQueue.showingOldest": "showing the oldest {count}",
+  "reviewQueue.retryFailed": "Retry Failed ({count})",
+  "reviewQueue.approveSelected": "Approve Selected",
+  "reviewQueue.rejectSelected": "Reject Selected",
+  "reviewQueue.refresh": "Refresh",
+  "reviewQueue.loading": "Loading submitted projects...",
+  "reviewQueue.empty": "Nothing left to review.",
+  "reviewQueue.shortcutNext": "Next project",
+  "reviewQueue.shortcutPrevious": "Previous project",
+  "reviewQueue.shortcutToggle": "Toggle selection",
+  "reviewQueue.shortcutApprove": "Approve focused",
+  "reviewQueue.shortcutRequestChanges": "Request changes on focused",
+  "reviewQueue.shortcutReject": "Reject focused",
+  "reviewQueue.shortcutOpen": "Open preview",
+
+  "auth.invalidToken": "Unable to parse login token.",
+
+  "apiError.network": "Unable to reach API from browser. Check VITE_API_BASE_URL, CORS, and HTTPS/HTTP mismatch.",
+  "apiError.fallback": "Something went wrong. Please try again.",
+  "apiError.timeout": "Request timed out.",
+  "apiError.status": "Request failed with status code {status}",
+
+  "xlsx.invalidWorkbook": "The file is not a valid XLSX workbook.",
+  "xlsx.unsupportedCompression": "The XLSX workbook uses an unsupported compression method.",
+  "xlsx.noWorksheet": "The XLSX workbook does not contain a worksheet.",
+
+  "projectExport.sheetName": "Projects",
+  "projectExport.id": "ID",
+  "projectExport.title": "Title",
+  "projectExport.category": "Category",
+  "projectExport.categoryId": "Category ID",
+  "projectExport.owner": "Owner",
+  "projectExport.ownerId": "Owner ID",
+  "projectExport.createdDate": "Created Date",
+  "projectExport.startDate": "Start Date",
+  "projectExport.endDate": "End Date",
+  "projectExport.targetAmount": "Target Amount",
+  "projectExport.raisedAmount": "Raised Amount",
+  "projectExport.currency": "Currency",
+  "projectExport.status": "Status",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,874 @@
+import type { Message, MessageKey } from "@/lib/messages/en";
+
+export const ur: Record<MessageKey, Message> = {
+  "common.loading": "لوڈ ہو رہا ہے...",
+  "common.cancel": "منسوخ کریں",
+  "common.all": "سب",
+  "common.you": "آپ",
+  "common.saving": "محفوظ ہو رہا ہے...",
+  "common.saveChanges": "تبدیلیاں محفوظ کریں",
+  "common.from": "سے",
+  "common.to": "تک",
+  "common.yes": "ہاں",
+  "common.no": "نہیں",
+  "common.close": "بند کریں",
+
+  "notFound.message": "صفحہ نہیں ملا",
+  "notFound.goHome": "ہوم پر جائیں",
+
+  "theme.toggle": "تھیم تبدیل کریں",
+  "theme.light": "روشن",
+  "theme.dark": "تاریک",
+  "theme.system": "سسٹم کے مطابق",
+
+  "language.toggle": "زبان تبدیل کریں",
+
+  "login.email": "ای میل",
+  "login.password": "پاس ورڈ",
+  "login.showPassword": "پاس ورڈ دکھائیں",
+  "login.hidePassword": "پاس ورڈ چھپائیں",
+  "login.submit": "لاگ ان",
+  "login.submitting": "لاگ ان ہو رہا ہے...",
+  "login.failed": "لاگ ان ناکام رہا۔",
+
+  "dashboard.loading": "ڈیش بورڈ لوڈ ہو رہا ہے...",
+  "dashboard.appName": "ہدیہ ایڈمن پینل",
+  "dashboard.welcome": "خوش آمدید، {name}",
+  "dashboard.role": "کردار: {role}",
+  "dashboard.logout": "لاگ آؤٹ",
+  "dashboard.connectedTo": "بیک اینڈ سے منسلک:",
+
+  "nav.overview": "جائزہ",
+  "nav.projects": "منصوبے",
+  "nav.categories": "زمرے",
+  "nav.donations": "عطیات",
+  "nav.profile": "پروفائل اور بینک",
+  "nav.users": "صارفین",
+  "nav.admin": "ایڈمن ترتیبات",
+  "nav.audit": "آڈٹ لاگ",
+
+  "session.title": "سیشن ختم ہونے والا ہے",
+  "session.expiresIn": "آپ کا سیشن {time} میں ختم ہو جائے گا۔",
+  "session.expiringSoon": "آپ کا سیشن ختم ہونے والا ہے۔",
+  "session.refreshFailed": "ہم اسے خود بخود تجدید نہیں کر سکے۔ کام جاری رکھنے کے لیے دوبارہ کوشش کریں یا دوبارہ سائن ان کریں۔",
+  "session.signInToContinue": "کام جاری رکھنے کے لیے اپنا کام محفوظ کریں اور دوبارہ سائن ان کریں۔",
+  "session.renewing": "تجدید ہو رہی ہے...",
+  "session.tryAgain": "دوبارہ کوشش کریں",
+  "session.dismiss": "بند کریں",
+  "session.signInAgain": "دوبارہ سائن ان کریں",
+
+  "projectStatus.draft": "مسودہ",
+  "projectStatus.submitted": "جمع شدہ",
+  "projectStatus.changesRequested": "تبدیلیاں درکار",
+  "projectStatus.approved": "منظور شدہ",
+  "projectStatus.rejected": "مسترد",
+  "projectStatus.archived": "محفوظ شدہ",
+
+  "projectLifecycle.upcoming": "آنے والا",
+  "projectLifecycle.live": "جاری",
+  "projectLifecycle.funded": "مکمل فنڈ شدہ",
+  "projectLifecycle.ended": "ختم شدہ",
+
+  "currency.reportIn": "رقوم بطور",
+  "currency.ownCurrency": "منصوبے کی کرنسی",
+  "currency.original": "اصل رقم: {amount}",
+  "currency.rate": "1 {from} = {rate} {to} ({date} سے نافذ)",
+  "currency.noRate": "{from} سے {to} کی شرح تبادلہ موجود نہیں؛ اصل رقم دکھائی جا رہی ہے۔",
+
+  "pagination.summary": "صفحہ {page} از {pageCount}",
+  "pagination.pageSize": "{size} / صفحہ",
+  "pagination.first": "پہلا",
+  "pagination.previous": "پچھلا",
+  "pagination.next": "اگلا",
+  "pagination.last": "آخری",
+
+  "projects.title": "منصوبے",
+  "projects.descriptionAll": "ایڈمن تمام منصوبے دیکھ اور ان کا انتظام کر سکتا ہے۔",
+  "projects.descriptionOwn": "این پی او صارفین صرف اپنے منصوبے دیکھ اور ان کا انتظام کر سکتے ہیں۔",
+  "projects.export": "ایکسپورٹ",
+  "projects.reviewQueue": "جائزہ قطار",
+  "projects.import": "امپورٹ",
+  "projects.create": "نیا منصوبہ بنائیں",
+  "projects.backToProjects": "منصوبوں پر واپس جائیں",
+  "projects.search": "تلاش",
+  "projects.searchPlaceholder": "عنوان، تفصیل یا زمرے سے تلاش کریں...",
+  "projects.category": "زمرہ",
+  "projects.status": "حیثیت",
+  "projects.lifecycle": "فنڈ ریزنگ",
+  "projects.owner": "این پی او مالک",
+  "projects.clearFilters": "فلٹر صاف کریں",
+  "projects.results": "نتائج: {count}",
+  "projects.columnTitle": "عنوان",
+  "projects.columnCreatedDate": "تاریخ تخلیق",
+  "projects.columnTarget": "ہدف",
+  "projects.columnRaised": "جمع شدہ رقم",
+  "projects.columnStartDate": "تاریخ آغاز",
+  "projects.columnActions": "اقدامات",
+  "projects.noActions": "کوئی اقدام نہیں",
+  "projects.preview": "پیش نظارہ",
+  "projects.edit": "ترمیم",
+  "projects.delete": "حذف کریں",
+  "projects.duplicate": "نقل بنائیں",
+  "projects.saveTemplate": "ٹیمپلیٹ کے طور پر محفوظ کریں",
+  "projects.templateDescription": "\"{title}\" کا عنوان، تفصیل، زمرہ، ہدف اور پتے محفوظ کریں تاکہ ان سے نئے منصوبے شروع کیے جا سکیں۔",
+  "projects.templateName": "ٹیمپلیٹ کا نام",
+  "projects.templateNameRequired": "ٹیمپلیٹ کا نام درکار ہے۔",
+  "projects.templateSaving": "محفوظ ہو رہا ہے...",
+  "projects.templateSaved": "ٹیمپلیٹ \"{name}\" محفوظ ہو گیا۔",
+  "projects.loading": "منصوبے لوڈ ہو رہے ہیں...",
+  "projects.empty": "کوئی منصوبہ نہیں ملا۔",
+  "projects.deleteTitle": "منصوبہ حذف کریں",
+  "projects.deleteConfirm": "کیا \"{title}\" کو مستقل طور پر حذف کرنا ہے؟ یہ عمل واپس نہیں ہو سکتا۔",
+  "projects.deleteConfirmGeneric": "کیا اس منصوبے کو مستقل طور پر حذف کرنا ہے؟ یہ عمل واپس نہیں ہو سکتا۔",
+  "projects.deleting": "حذف ہو رہا ہے...",
+  "projects.deleted": "منصوبہ کامیابی سے حذف ہو گیا۔",
+  "projects.exportTitle": "منصوبے ایکسپورٹ کریں",
+  "projects.exportDescription": "منصوبوں کو اسپریڈشیٹ کے طور پر ڈاؤن لوڈ کریں، جس میں مالکان اور زمروں کے نام شامل ہوں۔",
+  "projects.exportFormat": "فارمیٹ",
+  "projects.exportRows": "قطاریں",
+  "projects.exportFiltered": "موجودہ فلٹر اور ترتیب ({count})",
+  "projects.exportAll": "تمام منصوبے",
+  "projects.exportLocalized": "رقوم اور تاریخیں میری زبان کے مطابق دکھائیں",
+  "projects.exportProgress": "{total} میں سے {loaded} منصوبے حاصل کیے گئے...",
+  "projects.exporting": "ایکسپورٹ ہو رہا ہے...",
+  "projects.exported": {
+    one: "{count} منصوبہ ایکسپورٹ ہوا۔",
+    other: "{count} منصوبے ایکسپورٹ ہوئے۔",
+  },
+
+  "charts.empty": "ابھی کوئی ڈیٹا نہیں۔",
+  "charts.columnChart": "کالم چارٹ",
+
+  "overview.title": "جائزہ",
+  "overview.descriptionAll": "پورے پلیٹ فارم پر فنڈ ریزنگ کی پیش رفت اور منصوبوں کی صورتحال۔",
+  "overview.descriptionOwn": "آپ کے منصوبوں کی فنڈ ریزنگ کی پیش رفت اور صورتحال۔",
+  "overview.eachProjectCurrency": "ہر منصوبے کی اپنی کرنسی",
+  "overview.loading": "جائزہ لوڈ ہو رہا ہے...",
+  "overview.activeProjects": "فعال منصوبے",
+  "overview.pendingApproval": "منظوری کے منتظر",
+  "overview.expiredProjects": "ختم شدہ منصوبے",
+  "overview.npos": "این پی اوز",
+  "overview.donors": "عطیہ دہندگان (گزشتہ 12 ماہ)",
+  "overview.raisedVsTarget": "جمع شدہ بمقابلہ ہدف",
+  "overview.noProjects": "ابھی کوئی منصوبہ نہیں۔",
+  "overview.raisedOfTarget": "{target} میں سے {raised}",
+  "overview.ofTarget": "از {target}",
+  "overview.of": "از",
+  "overview.unconverted": "{currencies} کے لیے {currency} کی شرح تبادلہ موجود نہیں؛ وہ منصوبے مجموعے میں شامل نہیں کیے گئے۔",
+  "overview.ratesUnavailable": "شرح تبادلہ لوڈ نہیں ہو سکیں، اس لیے مجموعے {currency} کے بجائے ہر منصوبے کی اپنی کرنسی میں دکھائے گئے ہیں۔",
+  "overview.partialProjects": "یہ اعداد و شمار {total} میں سے تازہ ترین {count} منصوبوں کا احاطہ کرتے ہیں۔",
+  "overview.fundsRaised": "جمع شدہ فنڈز",
+  "overview.fundsRaisedDescription": "گزشتہ سال کے دوران ہر ماہ کے کامیاب عطیات۔",
+  "overview.chartCurrency": "چارٹ کی کرنسی",
+  "overview.loadingDonations": "عطیات لوڈ ہو رہے ہیں...",
+  "overview.noConvertibleDonations": "گزشتہ سال میں {currency} کی شرح تبادلہ والا کوئی عطیہ نہیں۔",
+  "overview.noDonations": "گزشتہ سال میں {currency} میں کوئی عطیہ نہیں۔",
+  "overview.projectsPerCategory": "زمرے کے لحاظ سے منصوبے",
+  "overview.projectsPerCategoryDescription": "منصوبے زمروں میں کیسے تقسیم ہیں۔",
+  "overview.unknownCategory": "زمرہ {id}",
+  "overview.needsAttention": "توجہ درکار",
+  "overview.needsAttentionDescription": "منظوری کے منتظر، {days} دن میں ختم ہونے والے یا اپنے ہدف کے {percent} سے کم والے منصوبے۔",
+  "overview.nothingNeedsAttention": "اس وقت کسی چیز پر توجہ درکار نہیں۔",
+  "overview.endsOn": "{date} کو ختم",
+  "overview.moreNeedAttention": "اور {count} مزید، دیکھیں",
+  "overview.viewProjects": "منصوبوں کا صفحہ",
+
+  "attention.pendingApproval": "منظوری کا منتظر",
+  "attention.endingSoon": "{days} دن میں ختم",
+  "attention.lowFunding": "{percent} سے کم فنڈ شدہ",
+
+  "currencySelect.search": "کرنسی تلاش کریں...",
+  "currencySelect.empty": "کوئی کرنسی نہیں ملی۔",
+  "currencySelect.pinned": "پن کی گئی",
+  "currencySelect.all": "تمام کرنسیاں",
+  "currencySelect.unlisted": "غیر درج کرنسی",
+  "currencySelect.pin": "کرنسی پن کریں",
+  "currencySelect.pinHint": "کرنسی کو فہرست میں سب سے اوپر پن کریں",
+  "currencySelect.unpin": "کرنسی کا پن ہٹائیں",
+
+  "donationStatus.pending": "زیر التوا",
+  "donationStatus.succeeded": "کامیاب",
+  "donationStatus.failed": "ناکام",
+  "donationStatus.refunded": "رقم واپس",
+
+  "donations.title": "عطیات",
+  "donations.descriptionAll": "تمام منصوبوں میں موصول ہونے والے عطیات، ادائیگی کی حیثیت اور حوالے کے ساتھ۔",
+  "donations.descriptionOwn": "آپ کے منصوبوں کو موصول ہونے والے عطیات۔",
+  "donations.searchPlaceholder": "عطیہ دہندہ یا حوالے سے تلاش کریں...",
+  "donations.npo": "این پی او",
+  "donations.paymentStatus": "ادائیگی کی حیثیت",
+  "donations.columnDonor": "عطیہ دہندہ",
+  "donations.columnAmount": "رقم",
+  "donations.columnCurrency": "کرنسی",
+  "donations.columnProject": "منصوبہ",
+  "donations.columnDate": "تاریخ",
+  "donations.columnReference": "حوالہ",
+  "donations.empty": "کوئی عطیہ نہیں ملا۔",
+  "donations.anonymous": "گمنام",
+  "donations.unknownDonor": "نامعلوم عطیہ دہندہ",
+
+  "donationsPanel.donations": "عطیات",
+  "donationsPanel.succeededTotal": "کامیاب عطیات کا مجموعہ",
+  "donationsPanel.recordedRaised": "درج شدہ جمع رقم",
+  "donationsPanel.difference": "فرق",
+  "donationsPanel.otherCurrency": {
+    one: "{currency} کے علاوہ کسی اور کرنسی میں {count} کامیاب عطیہ مجموعے میں شامل نہیں۔",
+    other: "{currency} کے علاوہ کسی اور کرنسی میں {count} کامیاب عطیات مجموعے میں شامل نہیں۔",
+  },
+  "donationsPanel.reconcile": "جمع شدہ رقم کا میلان کریں",
+  "donationsPanel.reconcileAction": "میلان کریں",
+  "donationsPanel.reconcileConfirm": {
+    one: "کیا جمع شدہ رقم {from} سے بدل کر {to} کر دی جائے، جو {count} کامیاب عطیے کا مجموعہ ہے؟",
+    other: "کیا جمع شدہ رقم {from} سے بدل کر {to} کر دی جائے، جو {count} کامیاب عطیات کا مجموعہ ہے؟",
+  },
+  "donationsPanel.reconciled": "جمع شدہ رقم {amount} مقرر کر دی گئی۔",
+  "donationsPanel.matches": "جمع شدہ رقم کامیاب عطیات کے مطابق ہے۔",
+  "donationsPanel.reconcileLoadFailed": "عطیات لوڈ نہیں ہو سکے، اس لیے جمع شدہ رقم کا میلان نہیں ہو سکتا۔",
+  "donationsPanel.reconcileOtherCurrency": "میلان دستیاب نہیں کیونکہ دوسری کرنسیوں کے عطیات کامیاب مجموعے میں شامل نہیں۔",
+  "donationsPanel.retry": "دوبارہ کوشش کریں",
+  "donationsPanel.empty": "اس منصوبے کے لیے کوئی عطیہ درج نہیں۔",
+
+  "landing.network": "عطیات نیٹ ورک",
+  "landing.adminLogin": "ایڈمن لاگ ان",
+  "landing.tagline": "شفاف عطیہ، حقیقی نتائج",
+  "landing.headline": "ہر عطیے کو کمیونٹی پر قابلِ پیمائش اثر میں بدلیں۔",
+  "landing.intro": "قابلِ اعتماد مقامی منصوبوں کو فنڈ کریں، ہر مہم کے لیے براہِ راست پیش رفت، عوامی جوابدہی اور محفوظ عطیات کے ساتھ۔",
+  "landing.startDonating": "عطیہ دینا شروع کریں",
+  "landing.exploreCampaigns": "مہمات دیکھیں",
+  "landing.statMeals": "فراہم کردہ کھانے",
+  "landing.statFamilies": "مستفید خاندان",
+  "landing.statProjects": "کمیونٹی منصوبے",
+  "landing.spotlight": "نمایاں مہم",
+  "landing.spotlightTitle": "رمضان خاندانی امدادی مہم",
+  "landing.spotlightDetail": "اگلے {days} دنوں میں {families} خاندانوں کو خوراک، رہائش میں مدد اور اسکول کا سامان فراہم کرنے میں مدد کریں۔",
+  "landing.raised": "جمع شدہ",
+  "landing.milestones": "آڈٹ شدہ منصوبہ سنگ میل",
+  "landing.fieldUpdates": "روزانہ فیلڈ اپڈیٹ کے خلاصے",
+  "landing.receipts": "رسیدیں اور اخراجات کی تفصیل",
+  "landing.tierStarter": "ابتدائی عطیہ",
+  "landing.tierStarterDetail": "ایک خاندان کے لیے صاف پانی کی کٹس فراہم کرتا ہے۔",
+  "landing.tierMonthly": "ماہانہ اثر",
+  "landing.tierMonthlyDetail": "کمزور گھرانوں کی ہفتہ وار ضروریات میں مدد کرتا ہے۔",
+  "landing.tierCommunity": "کمیونٹی معمار",
+  "landing.tierCommunityDetail": "رضاکاروں کے زیرِ قیادت مقامی محلہ پروگراموں کو فنڈ کرتا ہے۔",
+  "landing.securePayments": "محفوظ ادائیگیاں",
+  "landing.securePaymentsDetail": "بینک کی سطح کی انکرپشن اور تصدیق شدہ لین دین کا ریکارڈ۔",
+  "landing.communityVerified": "کمیونٹی سے تصدیق شدہ",
+  "landing.communityVerifiedDetail": "شائع ہونے سے پہلے مقامی رہنما منصوبوں کا جائزہ لیتے ہیں۔",
+  "landing.transparentAllocation": "شفاف تقسیم",
+  "landing.transparentAllocationDetail": "ہر ڈالر کے استعمال کی واضح تفصیل۔",
+  "landing.joinCircle": "امپیکٹ سرکل میں شامل ہوں",
+  "landing.giveWithConfidence": "اعتماد سے عطیہ دیں، ہر قدم پر نظر رکھیں۔",
+  "landing.donateNow": "ابھی عطیہ دیں",
+
+  "categories.title": "زمرے",
+  "categories.description": "منصوبوں کی تعداد میں زیرِ التوا اور منظور شدہ منصوبے شامل ہیں۔",
+  "categories.newTitle": "نیا زمرہ",
+  "categories.newDescription": "زمرے عطیہ دہندگان اور فلٹرز کے لیے منصوبوں کو گروپ کرتے ہیں۔",
+  "categories.editTitle": "زمرے میں ترمیم",
+  "categories.editDescription": "زمرے کا نام بدلیں یا اس کی تصویر تبدیل کریں۔",
+  "categories.name": "نام",
+  "categories.image": "تصویر",
+  "categories.replaceImage": "تصویر تبدیل کریں",
+  "categories.imagePreview": "زمرے کا پیش نظارہ",
+  "categories.noImage": "کوئی تصویر نہیں",
+  "categories.projects": "منصوبے",
+  "categories.create": "زمرہ بنائیں",
+  "categories.loading": "زمرے لوڈ ہو رہے ہیں...",
+  "categories.empty": "ابھی کوئی زمرہ نہیں۔",
+  "categories.imageTypeError": "براہِ کرم تصویری فائل منتخب کریں۔",
+  "categories.imageSizeError": "زمرے کی تصویر {size} یا اس سے چھوٹی ہونی چاہیے۔",
+  "categories.nameRequired": "زمرے کا نام درکار ہے۔",
+  "categories.nameTaken": "اس نام کا زمرہ پہلے سے موجود ہے۔",
+  "categories.created": "زمرہ بن گیا۔",
+  "categories.updated": "زمرہ اپڈیٹ ہو گیا۔",
+  "categories.deleted": "زمرہ حذف ہو گیا۔",
+  "categories.reassignedAndDeleted": "منصوبے منتقل کر دیے گئے اور زمرہ حذف ہو گیا۔",
+  "categories.deleteTitle": "زمرہ حذف کریں",
+  "categories.deleteConfirm": "کیا \"{name}\" کو مستقل طور پر حذف کرنا ہے؟ یہ عمل واپس نہیں ہو سکتا۔",
+  "categories.stillHoldsProjects": {
+    one: "\"{name}\" میں ابھی {count} منصوبہ موجود ہے۔ حذف کرنے سے پہلے اسے کسی اور زمرے میں منتقل کریں۔",
+    other: "\"{name}\" میں ابھی {count} منصوبے موجود ہیں۔ حذف کرنے سے پہلے انہیں کسی اور زمرے میں منتقل کریں۔",
+  },
+  "categories.moveProjectsTo": "منصوبے منتقل کریں بطرف",
+  "categories.selectCategory": "زمرہ منتخب کریں",
+  "categories.noReassignTargets": "پہلے کوئی اور زمرہ بنائیں تاکہ یہ منصوبے وہاں منتقل کیے جا سکیں۔",
+  "categories.chooseReassignTarget": "باقی منصوبوں کو منتقل کرنے کے لیے زمرہ منتخب کریں۔",
+  "categories.reassignAndDelete": "منتقل اور حذف کریں",
+  "categories.movingProject": "{total} میں سے منصوبہ {index} منتقل ہو رہا ہے...",
+  "categories.deletingCategory": "زمرہ حذف ہو رہا ہے...",
+
+  "role.admin": "ایڈمن",
+  "role.npo": "غیر منافع بخش ادارہ",
+  "role.donor": "عطیہ دہندہ",
+
+  "permissionGroup.projects": "منصوبے",
+  "permissionGroup.categories": "زمرے",
+  "permissionGroup.donations": "عطیات",
+  "permissionGroup.users": "صارفین / کردار",
+  "permissionGroup.audit": "آڈٹ",
+  "permissionGroup.reporting": "رپورٹنگ",
+  "permissionGroup.profile": "پروفائل",
+  "permissionGroup.bank": "بینک کی تفصیلات",
+
+  "permission.project.view.any": "تمام منصوبے دیکھیں",
+  "permission.project.view.own": "اپنے منصوبے دیکھیں",
+  "permission.project.create": "منصوبے بنائیں",
+  "permission.project.update.any": "کسی بھی منصوبے میں ترمیم کریں",
+  "permission.project.update.own": "اپنے منصوبوں میں ترمیم کریں",
+  "permission.project.delete.any": "کوئی بھی منصوبہ حذف کریں",
+  "permission.project.delete.own": "اپنے منصوبے حذف کریں",
+  "permission.project.approve": "منصوبوں کا جائزہ لیں اور منظور کریں",
+  "permission.project.import": "اسپریڈشیٹ سے منصوبے بڑی تعداد میں درآمد کریں",
+  "permission.project.autoClose": "ہدف پورا ہونے پر منصوبے خودکار طور پر بند کریں",
+  "permission.user.view": "صارفین دیکھیں",
+  "permission.user.create": "صارفین کو مدعو کریں اور بنائیں",
+  "permission.user.update": "اکاؤنٹس فعال اور غیر فعال کریں اور غیر منافع بخش اکاؤنٹس کی نشاندہی کریں",
+  "permission.user.delete": "صارفین حذف کریں",
+  "permission.user.role.update": "صارفین کے کردار تبدیل کریں",
+  "permission.category.manage": "زمرے بنائیں، ان کا نام بدلیں اور حذف کریں",
+  "permission.donation.view.any": "تمام عطیات دیکھیں",
+  "permission.donation.view.own": "اپنے منصوبوں کے عطیات دیکھیں",
+  "permission.donation.reconcile": "جمع شدہ رقم کا عطیات سے ملان کریں",
+  "permission.audit.view": "آڈٹ لاگ دیکھیں اور برآمد کریں",
+  "permission.exchangeRate.manage": "شرح تبادلہ اپ لوڈ کریں اور ان میں ترمیم کریں",
+  "permission.profile.update.own": "اپنی پروفائل میں ترمیم کریں",
+  "permission.bank.update.any": "کسی بھی غیر منافع بخش ادارے کی بینک تفصیلات کا انتظام کریں",
+  "permission.bank.update.own": "اپنی بینک تفصیلات کا انتظام کریں",
+
+  "admin.adminOnly": "اس حصے تک صرف ایڈمن صارفین رسائی حاصل کر سکتے ہیں۔",
+  "admin.roleUpdated": "صارف کا کردار اپ ڈیٹ ہو گیا۔",
+  "admin.selectNpoRequired": "براہ کرم غیر منافع بخش ادارے کا صارف منتخب کریں۔",
+  "admin.bankSaved": "ادارے کی بینک تفصیلات محفوظ ہو گئیں۔",
+  "admin.title": "ایڈمن ترتیبات",
+  "admin.description": "صارفین، کرداروں، شرح تبادلہ اور غیر منافع بخش اداروں کے وصولی بینک اکاؤنٹس کا انتظام کریں۔",
+  "admin.loadingUsers": "صارفین لوڈ ہو رہے ہیں...",
+  "admin.rolesTitle": "صارفین کے کرداروں کا انتظام",
+  "admin.rolesDescription": "ایڈمن کو مکمل رسائی حاصل ہے۔ ادارے اور عطیہ دہندہ کی اجازتیں کردار پر منحصر ہیں۔",
+  "admin.saveRole": "کردار محفوظ کریں",
+  "admin.matrixTitle": "اجازتوں کا جدول",
+  "admin.matrixDescription": "ڈیش بورڈ میں نافذ اجازتوں کی تعریفوں سے تیار کردہ۔",
+  "admin.role": "کردار",
+  "admin.noAccess": "کوئی رسائی نہیں",
+  "admin.bankTitle": "ادارے کی بینک تفصیلات",
+  "admin.bankDescription": "وہ وصولی اکاؤنٹ ترتیب دیں جس میں ادارے کی ادائیگیاں بھیجی جاتی ہیں۔",
+  "admin.npoUser": "ادارے کا صارف",
+  "admin.selectNpoUser": "ادارے کا صارف منتخب کریں",
+  "admin.saveBank": "ادارے کی بینک تفصیلات محفوظ کریں",
+
+  "bank.loading": "بینک تفصیلات لوڈ ہو رہی ہیں...",
+  "bank.accountHolderName": "اکاؤنٹ ہولڈر کا نام",
+  "bank.bankName": "بینک کا نام",
+  "bank.accountNumber": "اکاؤنٹ نمبر",
+  "bank.routingNumber": "روٹنگ نمبر",
+  "bank.routingNumberPlaceholder": "9 ہندسوں کا ABA نمبر",
+  "bank.iban": "IBAN",
+  "bank.ibanPlaceholder": "مثلاً DE89 3704 0044 0532 0130 00",
+  "bank.swiftCode": "SWIFT/BIC",
+  "bank.swiftCodePlaceholder": "مثلاً DEUTDEFF",
+  "bank.country": "بینک کا ملک: {country} ({code})",
+
+  "profile.title": "پروفائل",
+  "profile.description": "اپنے اکاؤنٹ کی تفصیلات اپ ڈیٹ کریں۔ تبدیلیاں سرور پر محفوظ ہوتی ہیں۔",
+  "profile.save": "پروفائل محفوظ کریں",
+  "profile.updated": "پروفائل کامیابی سے اپ ڈیٹ ہو گئی۔",
+  "profile.bankTitle": "وصولی کی بینک تفصیلات",
+  "profile.bankDescription": "ادارے کی ادائیگی کی تفصیلات جنہیں ایڈمن جمع شدہ رقم منتقل کرنے کے لیے استعمال کرتے ہیں۔",
+  "profile.saveBank": "بینک تفصیلات محفوظ کریں",
+  "profile.bankSaved": "وصولی کی بینک تفصیلات محفوظ ہو گئیں۔",
+
+  "users.title": "صارفین",
+  "users.description": "اکاؤنٹس تلاش کریں، ان کی حالت کا انتظام کریں اور پروفائل کی تفصیلات دیکھیں۔",
+  "users.addUser": "صارف شامل کریں",
+  "users.searchPlaceholder": "نام، ای میل یا موبائل سے تلاش کریں...",
+  "users.columnUser": "صارف",
+  "users.npoAccount": "غیر منافع بخش اکاؤنٹ",
+  "users.notNpo": "غیر منافع بخش نہیں",
+  "users.status": "حالت",
+  "users.active": "فعال",
+  "users.inactive": "غیر فعال",
+  "users.view": "دیکھیں",
+  "users.deactivate": "غیر فعال کریں",
+  "users.reactivate": "دوبارہ فعال کریں",
+  "users.markNpo": "غیر منافع بخش کے طور پر نشان زد کریں",
+  "users.unmarkNpo": "غیر منافع بخش کا نشان ہٹائیں",
+  "users.empty": "کوئی صارف نہیں ملا۔",
+  "users.reactivated": "{name} دوبارہ فعال ہو گیا۔",
+  "users.deactivated": "{name} غیر فعال ہو گیا۔",
+  "users.markedNpo": "{name} کو غیر منافع بخش اکاؤنٹ کے طور پر نشان زد کر دیا گیا۔",
+  "users.unmarkedNpo": "{name} اب غیر منافع بخش اکاؤنٹ کے طور پر نشان زد نہیں ہے۔",
+  "users.deleted": "{name} حذف ہو گیا۔",
+  "users.invitationSent": "{email} کو دعوت نامہ بھیج دیا گیا۔",
+  "users.created": "{name} بن گیا۔",
+  "users.deleteTitle": "صارف حذف کریں",
+  "users.deleteConfirm": "{name} ({email}) کو مستقل طور پر حذف کریں؟ یہ عمل واپس نہیں ہو سکتا۔",
+  "users.deleteConfirmGeneric": "اس صارف کو مستقل طور پر حذف کریں؟ یہ عمل واپس نہیں ہو سکتا۔",
+  "users.formTitle": "صارف کو مدعو کریں یا بنائیں",
+  "users.formDescription": "مدعو صارفین کو اپنا پاس ورڈ سیٹ کرنے کے لیے ای میل موصول ہوتی ہے۔",
+  "users.email": "ای میل",
+  "users.firstName": "پہلا نام",
+  "users.lastName": "آخری نام",
+  "users.mobileNumber": "موبائل نمبر",
+  "users.password": "پاس ورڈ",
+  "users.passwordFromInvite": "صارف دعوت نامے سے خود سیٹ کرے گا",
+  "users.sendInvite": "پاس ورڈ سیٹ کرنے کے بجائے دعوتی ای میل بھیجیں",
+  "users.sendInvitation": "دعوت نامہ بھیجیں",
+  "users.createUser": "صارف بنائیں",
+  "users.loadingDetails": "صارف کی تفصیلات لوڈ ہو رہی ہیں...",
+  "users.addresses": "پتے",
+  "users.noAddresses": "کوئی پتہ درج نہیں۔",
+
+  "validation.emailRequired": "ای میل درکار ہے",
+  "validation.emailInvalid": "درست ای میل پتہ درج کریں",
+  "validation.firstNameRequired": "پہلا نام درکار ہے",
+  "validation.firstNameMax": "پہلا نام زیادہ سے زیادہ {max} حروف کا ہو سکتا ہے",
+  "validation.lastNameRequired": "آخری نام درکار ہے",
+  "validation.lastNameMax": "آخری نام زیادہ سے زیادہ {max} حروف کا ہو سکتا ہے",
+  "validation.roleRequired": "کردار درکار ہے",
+  "validation.passwordMin": "پاس ورڈ کم از کم {min} حروف کا ہونا چاہیے",
+  "validation.accountHolderRequired": "اکاؤنٹ ہولڈر کا نام درکار ہے",
+  "validation.accountHolderMax": "اکاؤنٹ ہولڈر کا نام زیادہ سے زیادہ {max} حروف کا ہو سکتا ہے",
+  "validation.bankNameRequired": "بینک کا نام درکار ہے",
+  "validation.bankNameMax": "بینک کا نام زیادہ سے زیادہ {max} حروف کا ہو سکتا ہے",
+  "validation.accountNumberFormat": "اکاؤنٹ نمبر 4 سے 34 حروف یا ہندسوں پر مشتمل ہونا چاہیے",
+  "validation.swiftFormat": "SWIFT/BIC کوڈ 8 یا 11 حروف کا ہونا چاہیے (مثلاً DEUTDEFF یا DEUTDEFF500)",
+  "validation.accountOrIbanRequired": "اکاؤنٹ نمبر یا IBAN درج کریں",
+  "validation.ibanFormat": "IBAN ملک کے کوڈ اور دو چیک ہندسوں سے شروع ہونا چاہیے",
+  "validation.ibanCountry": "{country} IBAN جاری نہیں کرتا",
+  "validation.ibanLength": "{country} کے IBAN {length} حروف کے ہونے چاہییں",
+  "validation.ibanChecksum": "IBAN کا چیک سم درست نہیں۔ ٹائپنگ کی غلطیاں چیک کریں",
+  "validation.swiftCountryMismatch": "SWIFT/BIC کا ملک ({swiftCountry}) IBAN کے ملک ({ibanCountry}) سے مطابقت نہیں رکھتا",
+  "validation.routingNumber": "روٹنگ نمبر 9 ہندسوں کا اور درست ABA چیک سم کے ساتھ ہونا چاہیے",
+  "validation.addressFieldRequired": "پتہ درج کرنے پر {field} لازمی ہے",
+  "validation.selectCountry": "فہرست سے ملک منتخب کریں",
+  "validation.selectState": "فہرست سے ریاست منتخب کریں",
+  "validation.ownerRequired": "غیر منافع بخش تنظیم کا مالک لازمی ہے",
+  "validation.titleRequired": "پروجیکٹ کا عنوان لازمی ہے",
+  "validation.titleMax": "پروجیکٹ کا عنوان زیادہ سے زیادہ {max} حروف کا ہو سکتا ہے",
+  "validation.categoryRequired": "زمرہ لازمی ہے",
+  "validation.startDateRequired": "آغاز کی تاریخ لازمی ہے",
+  "validation.descriptionRequired": "تفصیل لازمی ہے",
+  "validation.descriptionMax": "تفصیل زیادہ سے زیادہ {max} حروف کی ہو سکتی ہے",
+  "validation.targetRequired": "ہدف کی رقم لازمی ہے",
+  "validation.targetPositive": "ہدف کی رقم 0 سے زیادہ ہونی چاہیے",
+  "validation.currencyRequired": "کرنسی لازمی ہے",
+  "validation.currencyFormat": "کرنسی 3 حروف کا کوڈ ہونی چاہیے (مثلاً USD)",
+  "validation.currencyIso": "کرنسی ISO 4217 کوڈ ہونی چاہیے",
+  "validation.addressesMax": "زیادہ سے زیادہ {max} پتے شامل کریں",
+  "validation.endBeforeStart": "اختتام کی تاریخ آغاز کی تاریخ یا اس کے بعد ہونی چاہیے",
+  "validation.amountWhole": "{currency} کی رقوم مکمل اعداد ہونی چاہئیں",
+  "validation.amountDecimals": "{currency} کی رقوم میں زیادہ سے زیادہ {count} اعشاری مقامات کی اجازت ہے",
+
+  "auditAction.project.update": "منصوبے میں ترمیم کی گئی",
+  "auditAction.project.review": "منصوبے کے جائزے کی حالت تبدیل ہوئی",
+  "auditAction.project.delete": "منصوبہ حذف کیا گیا",
+  "auditAction.project.media.delete": "منصوبے کا میڈیا حذف کیا گیا",
+  "auditAction.project.media.update": "منصوبے کا میڈیا اپ ڈیٹ کیا گیا",
+  "auditAction.project.reconcile": "جمع شدہ رقم کا ملان کیا گیا",
+  "auditAction.user.role.update": "صارف کا کردار تبدیل کیا گیا",
+  "auditAction.bank.create": "بینک تفصیلات شامل کی گئیں",
+  "auditAction.bank.update": "بینک تفصیلات تبدیل کی گئیں",
+  "auditAction.exchangeRates.update": "شرح تبادلہ تبدیل کی گئی",
+  "auditAction.projectTemplate.create": "منصوبے کا سانچہ محفوظ کیا گیا",
+
+  "auditTarget.project": "منصوبہ",
+  "auditTarget.projectMedia": "منصوبے کا میڈیا",
+  "auditTarget.user": "صارف",
+  "auditTarget.bankAccount": "بینک اکاؤنٹ",
+  "auditTarget.exchangeRates": "شرح تبادلہ",
+  "auditTarget.projectTemplate": "منصوبے کا سانچہ",
+
+  "audit.title": "آڈٹ لاگ",
+  "audit.description": "کس نے منصوبوں، صارفین کے کرداروں، میڈیا اور بینک تفصیلات میں کب تبدیلی کی۔",
+  "audit.exportCsv": "CSV برآمد کریں",
+  "audit.exporting": "برآمد ہو رہا ہے...",
+  "audit.exported": {
+    one: "{count} اندراج برآمد کیا گیا۔",
+    other: "{count} اندراجات برآمد کیے گئے۔",
+  },
+  "audit.exportedPartial": "{total} میں سے تازہ ترین {count} اندراجات برآمد کیے گئے۔ باقی برآمد کرنے کے لیے فلٹر محدود کریں۔",
+  "audit.searchPlaceholder": "ہدف یا فیلڈ سے تلاش کریں...",
+  "audit.columnWhen": "کب",
+  "audit.columnTimestamp": "وقت",
+  "audit.columnActor": "کرنے والا",
+  "audit.columnActorId": "کرنے والے کی شناخت",
+  "audit.columnAction": "کارروائی",
+  "audit.columnTargetType": "ہدف کی قسم",
+  "audit.columnTarget": "ہدف",
+  "audit.columnTargetId": "ہدف کی شناخت",
+  "audit.columnChanges": "تبدیلیاں",
+  "audit.showChanges": "دکھائیں ({count})",
+  "audit.hideChanges": "چھپائیں",
+  "audit.noChanges": "کوئی نہیں",
+  "audit.loading": "آڈٹ اندراجات لوڈ ہو رہے ہیں...",
+  "audit.empty": "کوئی آڈٹ اندراج نہیں ملا۔",
+  "audit.field": "فیلڈ",
+  "audit.before": "پہلے",
+  "audit.after": "بعد میں",
+  "audit.emptyValue": "(خالی)",
+
+  "media.imageCount": {
+    one: "{count} تصویر",
+    other: "{count} تصاویر",
+  },
+  "media.videoCount": {
+    one: "{count} ویڈیو",
+    other: "{count} ویڈیوز",
+  },
+  "media.countLimit": "ایک منصوبے میں زیادہ سے زیادہ {limit} ہو سکتی ہیں۔",
+  "media.upTo": "زیادہ سے زیادہ {limit}",
+  "media.imagePolicy": "{upTo} · {types} · بہتر بنانے کے بعد ہر ایک {size}۔",
+  "media.videoPolicy": "{details}۔",
+  "media.sizeEach": "ہر ایک {size}",
+  "media.maxDuration": "زیادہ سے زیادہ {duration} طویل",
+  "media.maxDimension": "لمبے کنارے پر زیادہ سے زیادہ {pixels} پکسل",
+  "media.unsupportedImage": "'{name}' معاون تصویر نہیں ہے۔ اجازت یافتہ فارمیٹس: {types}۔",
+  "media.unsupportedVideo": "'{name}' معاون ویڈیو نہیں ہے۔ اجازت یافتہ فارمیٹس: {types}۔",
+  "media.imageTooLarge": "تصویر '{name}' {size} سے بڑی ہے۔",
+  "media.videoTooLarge": "ویڈیو '{name}' {size} سے بڑی ہے۔",
+  "media.videoTooLong": "ویڈیو '{name}' {duration} سے طویل ہے۔",
+  "media.videoTooWide": "ویڈیو '{name}' کا سائز {size} ہے؛ لمبا کنارہ زیادہ سے زیادہ {pixels} پکسل ہو سکتا ہے۔",
+
+  "mediaUpload.queued": "منتظر",
+  "mediaUpload.uploading": "اپ لوڈ ہو رہا ہے",
+  "mediaUpload.succeeded": "اپ لوڈ ہو گیا",
+  "mediaUpload.failed": "ناکام",
+  "mediaUpload.cancelled": "منسوخ",
+  "mediaUpload.progress": "{status} · {total} میں سے {sent} ({percent}%)",
+  "mediaUpload.progressLabel": "{name} کی اپ لوڈ پیش رفت",
+  "mediaUpload.cancel": "{name} کی اپ لوڈ منسوخ کریں",
+  "mediaUpload.retry": "{name} کی اپ لوڈ دوبارہ کوشش کریں",
+
+  "mediaManager.empty": "کوئی اپ لوڈ شدہ تصویر نہیں۔",
+  "mediaManager.hint": "ترتیب بدلنے کے لیے تصاویر گھسیٹیں یا تیر استعمال کریں۔ ستارہ سرورق کی تصویر مقرر کرتا ہے۔",
+  "mediaManager.cover": "سرورق",
+  "mediaManager.coverSet": "'{name}' اب سرورق کی تصویر ہے۔",
+  "mediaManager.detailsSaved": "تصویر کی تفصیلات محفوظ ہو گئیں۔",
+  "mediaManager.moveEarlier": "{name} کو پہلے لے جائیں",
+  "mediaManager.moveLater": "{name} کو بعد میں لے جائیں",
+  "mediaManager.setCover": "{name} کو سرورق بنائیں",
+  "mediaManager.delete": "{name} حذف کریں",
+  "mediaManager.caption": "کیپشن",
+  "mediaManager.altText": "متبادل متن",
+  "mediaManager.altTextPlaceholder": "اسکرین ریڈرز کے لیے تصویر کی وضاحت کریں",
+  "mediaManager.saveDetails": "تفصیلات محفوظ کریں",
+
+  "funding.title": "فنڈ ریزنگ",
+  "funding.progressLabel": "فنڈنگ کی پیش رفت",
+  "funding.ofTarget": "{target} میں سے · {percent}",
+  "funding.startsOnApproval": "منصوبہ منظور ہونے کے بعد فنڈ ریزنگ شروع ہوگی۔",
+  "funding.startsIn": {
+    one: "{count} دن میں شروع ہوگا۔",
+    other: "{count} دنوں میں شروع ہوگا۔",
+  },
+  "funding.ended": "فنڈ ریزنگ ختم ہو چکی ہے۔",
+  "funding.autoClosed": "ہدف پورا ہو گیا؛ عطیات خودکار طور پر بند ہو گئے۔",
+  "funding.fundedAndEnded": "ہدف پورا ہو گیا؛ فنڈ ریزنگ ختم ہو چکی ہے۔",
+  "funding.fundedAccepting": "ہدف پورا ہو گیا؛ عطیات اب بھی قبول کیے جا رہے ہیں۔",
+  "funding.fundedAcceptingFor": "ہدف پورا ہو گیا؛ مزید {count} دن عطیات قبول کیے جائیں گے۔",
+  "funding.noEndDate": "کوئی اختتامی تاریخ نہیں۔",
+  "funding.daysLeft": "{count} دن باقی۔",
+
+  "location.noMatches": "کوئی مماثلت نہیں ملی۔",
+  "location.useCustom": "\"{name}\" استعمال کریں",
+
+  "address.title": "پتے (اختیاری)",
+  "address.description": "ہر وہ شہر شامل کریں جہاں منصوبہ چلتا ہے۔",
+  "address.add": "پتہ شامل کریں",
+  "address.empty": "کوئی پتہ شامل نہیں کیا گیا۔",
+  "address.country": "ملک",
+  "address.searchCountries": "ممالک تلاش کریں",
+  "address.state": "صوبہ / ریاست",
+  "address.searchStates": "صوبے تلاش کریں",
+  "address.typeState": "صوبے کا نام لکھیں",
+  "address.city": "شہر",
+  "address.searchCity": "شہر تلاش کریں یا نام لکھیں",
+  "address.moveUp": "پتہ {index} اوپر لے جائیں",
+  "address.moveDown": "پتہ {index} نیچے لے جائیں",
+  "address.remove": "پتہ {index} ہٹائیں",
+
+  "exchangeRates.title": "شرح تبادلہ",
+  "exchangeRates.description": "رپورٹس میں مختلف کرنسیوں کی رقوم جمع کرنے کے لیے استعمال ہونے والی شرحیں۔ ہر شرح اپنی مؤثر تاریخ سے اسی جوڑی کی نئی شرح آنے تک لاگو رہتی ہے؛ الٹی اور کراس شرحیں خودکار طور پر نکالی جاتی ہیں۔",
+  "exchangeRates.upload": "شرحیں اپ لوڈ کریں",
+  "exchangeRates.readingFile": "فائل پڑھی جا رہی ہے...",
+  "exchangeRates.uploadHint": "baseCurrency، quoteCurrency، rate اور effectiveDate کالموں والی CSV، یا شرحوں کی فہرست یا { base, date, rates } اسنیپ شاٹس والی JSON۔",
+  "exchangeRates.loading": "شرح تبادلہ لوڈ ہو رہی ہے...",
+  "exchangeRates.empty": "ابھی کوئی شرح تبادلہ نہیں۔ فائل اپ لوڈ کریں یا شرحیں خود شامل کریں۔",
+  "exchangeRates.base": "بنیادی",
+  "exchangeRates.quote": "مقابل",
+  "exchangeRates.rate": "شرح",
+  "exchangeRates.effectiveDate": "مؤثر تاریخ",
+  "exchangeRates.baseCurrency": "بنیادی کرنسی",
+  "exchangeRates.quoteCurrency": "مقابل کرنسی",
+  "exchangeRates.remove": "شرح ہٹائیں",
+  "exchangeRates.add": "شرح شامل کریں",
+  "exchangeRates.downloadCsv": "CSV ڈاؤن لوڈ کریں",
+  "exchangeRates.save": "شرح تبادلہ محفوظ کریں",
+  "exchangeRates.saved": "شرح تبادلہ محفوظ ہو گئی۔",
+  "exchangeRates.fixErrors": "محفوظ کرنے سے پہلے نمایاں کردہ شرحیں درست کریں۔",
+  "exchangeRates.fileType": "‎.csv یا ‎.json فائل منتخب کریں۔",
+  "exchangeRates.fileSize": "شرحوں کی فائل {size} یا اس سے چھوٹی ہونی چاہیے۔",
+  "exchangeRates.loaded": {
+    one: "{name} سے {count} شرح لوڈ ہوئی۔ لاگو کرنے کے لیے جائزہ لے کر محفوظ کریں۔",
+    other: "{name} سے {count} شرحیں لوڈ ہوئیں۔ لاگو کرنے کے لیے جائزہ لے کر محفوظ کریں۔",
+  },
+  "exchangeRates.invalidCurrency": "کرنسیاں ISO 4217 کوڈ ہونی چاہییں۔",
+  "exchangeRates.sameCurrency": "بنیادی اور مقابل کرنسی مختلف ہونی چاہییں۔",
+  "exchangeRates.invalidRate": "شرح مثبت عدد ہونی چاہیے۔",
+  "exchangeRates.invalidDate": "مؤثر تاریخ YYYY-MM-DD شکل میں درست تاریخ ہونی چاہیے۔",
+  "exchangeRates.invalidJson": "فائل درست JSON نہیں ہے۔",
+  "exchangeRates.noRates": "فائل میں کوئی شرح موجود نہیں۔",
+  "exchangeRates.missingColumns": "غائب کالم: {columns}۔",
+  "exchangeRates.rateNumber": "شرح {index}",
+  "exchangeRates.rowNumber": "قطار {row}",
+  "exchangeRates.entryError": "{entry}: {error}",
+
+  "projectImport.title": "منصوبے امپورٹ کریں",
+  "projectImport.description": "CSV یا Excel فائل سے ایک ساتھ کئی منصوبے بنائیں۔ کچھ بھی محفوظ کرنے سے پہلے قطاروں کی جانچ کی جاتی ہے۔",
+  "projectImport.stepUpload": "1. اپ لوڈ",
+  "projectImport.stepMap": "2. کالم ملائیں",
+  "projectImport.stepReview": "3. جائزہ",
+  "projectImport.stepResult": "4. رپورٹ",
+  "projectImport.file": "اسپریڈشیٹ فائل",
+  "projectImport.readingFile": "فائل پڑھی جا رہی ہے...",
+  "projectImport.fileHint": "CSV یا XLSX، زیادہ سے زیادہ {max} قطاریں۔ پہلی قطار میں کالموں کے عنوان ہونے چاہییں؛ صرف پہلی ورک شیٹ پڑھی جاتی ہے۔ تاریخیں YYYY-MM-DD کی شکل میں لکھیں۔",
+  "projectImport.templatePrompt": "ٹیمپلیٹ سے شروع کریں:",
+  "projectImport.downloadCsvTemplate": "CSV ٹیمپلیٹ ڈاؤن لوڈ کریں",
+  "projectImport.downloadXlsxTemplate": "XLSX ٹیمپلیٹ ڈاؤن لوڈ کریں",
+  "projectImport.fileType": "‎.csv یا ‎.xlsx فائل منتخب کریں۔",
+  "projectImport.fileSize": "امپورٹ فائلیں {size} یا اس سے چھوٹی ہونی چاہییں۔",
+  "projectImport.noRows": "فائل میں عنوان کے نیچے ڈیٹا کی کوئی قطار نہیں ہے۔",
+  "projectImport.tooManyRows": "ہر فائل میں زیادہ سے زیادہ {max} منصوبے امپورٹ کریں۔ اس فائل میں {count} ہیں۔",
+  "projectImport.readFailed": "فائل پڑھی نہیں جا سکی۔",
+  "projectImport.mapDescription": "{name} کے کالموں ({count} قطاریں) کو منصوبے کے خانوں سے ملائیں۔ غیر منافع بخش تنظیم کے مالک ای میل یا یوزر آئی ڈی سے، اور زمرے نام یا آئی ڈی سے دیے جا سکتے ہیں۔",
+  "projectImport.notImported": "امپورٹ نہیں ہوگا",
+  "projectImport.columnFallback": "کالم {index}",
+  "projectImport.missingFields": "لازمی خانے ملائیں: {fields}۔",
+  "projectImport.chooseAnother": "دوسری فائل منتخب کریں",
+  "projectImport.validateRows": "قطاروں کی جانچ کریں",
+  "projectImport.readyCount": "{count} تیار",
+  "projectImport.errorCount": "{count} میں غلطیاں",
+  "projectImport.showOnlyInvalid": "صرف غلطیوں والی قطاریں دکھائیں",
+  "projectImport.columnRow": "قطار",
+  "projectImport.columnResult": "نتیجہ",
+  "projectImport.columnOutcome": "نتیجہ",
+  "projectImport.columnReason": "وجہ",
+  "projectImport.columnMessage": "پیغام",
+  "projectImport.ready": "تیار",
+  "projectImport.fieldError": "{field}: {error}",
+  "projectImport.progress": "{total} میں سے {processed} منصوبے بن گئے...",
+  "projectImport.backToMapping": "کالم ملانے پر واپس جائیں",
+  "projectImport.importing": "امپورٹ ہو رہا ہے...",
+  "projectImport.importRows": {
+    one: "{count} منصوبہ امپورٹ کریں",
+    other: "{count} منصوبے امپورٹ کریں",
+  },
+  "projectImport.importAndSkip": {
+    one: "{count} منصوبہ امپورٹ کریں اور {skipped} چھوڑ دیں",
+    other: "{count} منصوبے امپورٹ کریں اور {skipped} چھوڑ دیں",
+  },
+  "projectImport.imported": {
+    one: "{count} منصوبہ امپورٹ ہوا۔",
+    other: "{count} منصوبے امپورٹ ہوئے۔",
+  },
+  "projectImport.downloadReport": "رپورٹ ڈاؤن لوڈ کریں",
+  "projectImport.importAnother": "دوسری فائل امپورٹ کریں",
+  "projectImport.viewProjects": "منصوبے دیکھیں",
+  "projectImport.noOwnerMatch": "کوئی غیر منافع بخش صارف \"{value}\" سے میل نہیں کھاتا",
+  "projectImport.noCategoryMatch": "کوئی زمرہ \"{value}\" سے میل نہیں کھاتا",
+  "projectImport.invalidDate": "\"{value}\" درست تاریخ نہیں ہے؛ YYYY-MM-DD استعمال کریں",
+  "projectImport.invalidAmount": "\"{value}\" درست رقم نہیں ہے",
+
+  "importOutcome.created": "بن گیا",
+  "importOutcome.skipped": "چھوڑ دیا گیا",
+  "importOutcome.failed": "ناکام",
+
+  "projectForm.selectOwner": "غیر منافع بخش تنظیم کا صارف منتخب کریں",
+  "projectForm.title": "منصوبے کا عنوان",
+  "projectForm.selectCategory": "زمرہ منتخب کریں",
+  "projectForm.targetAmount": "ہدف کی رقم",
+  "projectForm.currency": "کرنسی",
+  "projectForm.endDateOptional": "اختتام کی تاریخ (اختیاری)",
+  "projectForm.endDate": "اختتام کی تاریخ",
+  "projectForm.description": "تفصیل",
+  "projectForm.autoClose": "ہدف کی رقم پوری ہوتے ہی عطیات قبول کرنا بند کریں",
+  "projectForm.imageHint": "اپ لوڈ سے پہلے تصاویر کو زیادہ سے زیادہ {pixels}px تک چھوٹا کیا جاتا ہے اور ان سے مقام کا ڈیٹا ہٹا دیا جاتا ہے۔",
+  "projectForm.optimizingImages": "تصاویر بہتر کی جا رہی ہیں...",
+  "projectForm.checkingVideos": "ویڈیوز کی جانچ ہو رہی ہے...",
+  "projectForm.imageStillTooLarge": "تصویر '{name}' کمپریشن کے بعد بھی {size} سے بڑی ہے۔",
+  "projectForm.imagesSelected": "{count} فائلیں منتخب ہیں",
+  "projectForm.noFilesSelected": "کوئی فائل منتخب نہیں",
+  "projectForm.videosSelected": "{count} ویڈیوز منتخب ہیں",
+  "projectForm.noVideosSelected": "کوئی ویڈیو منتخب نہیں۔",
+  "projectForm.noImagesSelected": "کوئی تصویر منتخب نہیں۔",
+  "projectForm.uploads": "اپ لوڈز",
+
+  "projectCreate.title": "منصوبہ بنائیں",
+  "projectCreate.forbidden": "صرف ایڈمن اور غیر منافع بخش تنظیم کے صارفین منصوبے بنا سکتے ہیں۔",
+  "projectCreate.description": "یہ فارم zod کی جانچ کے ساتھ react-hook-form استعمال کرتا ہے۔",
+  "projectCreate.loading": "فارم کا ڈیٹا لوڈ ہو رہا ہے...",
+  "projectCreate.duplicateLoadFailed": "نقل کے لیے منصوبہ لوڈ نہیں ہو سکا: {error}",
+  "projectCreate.prefilled": "“{title}” سے پہلے سے بھرا گیا۔ اس مہم کے لیے نئی تاریخیں منتخب کریں۔",
+  "projectCreate.copyingMedia": "میڈیا نقل ہو رہا ہے...",
+  "projectCreate.mediaCopied": "میڈیا نقل ہو گیا",
+  "projectCreate.copyMedia": "میڈیا نقل کریں ({images} تصاویر، {videos} ویڈیوز)",
+  "projectCreate.template": "ٹیمپلیٹ سے شروع کریں",
+  "projectCreate.noTemplate": "کوئی ٹیمپلیٹ نہیں",
+  "projectCreate.templateHint": "عنوان، تفصیل، زمرہ، ہدف اور پتے بھر دیتا ہے۔ تاریخیں اور میڈیا نقل نہیں ہوتے۔",
+  "projectCreate.images": "منصوبے کی تصاویر",
+  "projectCreate.videos": "منصوبے کی ویڈیوز",
+  "projectCreate.imagePreview": "تصاویر کا پیش منظر",
+  "projectCreate.videoPreview": "ویڈیوز کا پیش منظر",
+  "projectCreate.uploadIncomplete": "منصوبہ بن گیا، لیکن {count} فائلیں اپ لوڈ نہیں ہوئیں۔ نیچے دوبارہ کوشش کریں یا ان کے بغیر جاری رکھیں۔",
+  "projectCreate.uploading": "اپ لوڈ ہو رہا ہے...",
+  "projectCreate.continue": "منصوبوں پر جائیں",
+  "projectCreate.creating": "بن رہا ہے...",
+
+  "projectEdit.title": "منصوبے میں ترمیم کریں",
+  "projectEdit.forbidden": "صرف ایڈمن اور غیر منافع بخش تنظیم کے صارفین منصوبوں میں ترمیم کر سکتے ہیں۔",
+  "projectEdit.description": "منصوبے کی تفصیلات اور میڈیا ایک الگ صفحے پر اپ ڈیٹ کریں۔",
+  "projectEdit.loading": "منصوبہ لوڈ ہو رہا ہے...",
+  "projectEdit.notFound": "منصوبہ نہیں ملا یا قابل رسائی نہیں۔",
+  "projectEdit.goBack": "واپس جائیں",
+  "projectEdit.notAllowed": "آپ کو اس منصوبے میں ترمیم کی اجازت نہیں۔",
+  "projectEdit.reviewStatus": "جائزے کی حیثیت",
+  "projectEdit.submitting": "جمع ہو رہا ہے...",
+  "projectEdit.resubmit": "جائزے کے لیے دوبارہ جمع کریں",
+  "projectEdit.reviewerFeedback": "جائزہ کار کی رائے",
+  "projectEdit.resubmitHint": "پہلے اپنی تبدیلیاں محفوظ کریں، پھر دوبارہ جمع کریں تاکہ ایڈمن منصوبے کا دوبارہ جائزہ لے سکے۔",
+  "projectEdit.saved": "منصوبہ کامیابی سے اپ ڈیٹ ہو گیا۔",
+  "projectEdit.resubmitted": "منصوبہ جائزے کے لیے دوبارہ جمع ہو گیا۔",
+  "projectEdit.mediaRemoved": "منصوبے کا میڈیا ہٹا دیا گیا۔",
+  "projectEdit.uploadIncomplete": "منصوبہ محفوظ ہو گیا، لیکن {count} فائلیں اپ لوڈ نہیں ہوئیں۔ اپ لوڈ کی فہرست سے دوبارہ کوشش کریں۔",
+  "projectEdit.addImages": "مزید تصاویر شامل کریں",
+  "projectEdit.addVideos": "مزید ویڈیوز شامل کریں",
+  "projectEdit.newImagePreview": "نئی تصاویر کا پیش منظر",
+  "projectEdit.newVideoPreview": "نئی ویڈیوز کا پیش منظر",
+  "projectEdit.noNewImages": "کوئی نئی تصویر منتخب نہیں۔",
+  "projectEdit.noNewVideos": "کوئی نئی ویڈیو منتخب نہیں۔",
+  "projectEdit.uploadedImages": "اپ لوڈ شدہ تصاویر",
+  "projectEdit.uploadedVideos": "اپ لوڈ شدہ ویڈیوز",
+  "projectEdit.noUploadedVideos": "کوئی ویڈیو اپ لوڈ نہیں ہوئی۔",
+  "projectEdit.updating": "اپ ڈیٹ ہو رہا ہے...",
+
+  "review.approve": "منظور کریں",
+  "review.requestChanges": "تبدیلیوں کی درخواست کریں",
+  "review.reject": "مسترد کریں",
+  "review.archive": "آرکائیو کریں",
+  "review.commentLabel": "غیر منافع بخش تنظیم کے لیے تبصرہ",
+
+  "projectPreview.title": "منصوبے کا پیش منظر",
+  "projectPreview.forbidden": "صرف ایڈمن صارفین منصوبوں کا پیش منظر دیکھ اور انہیں منظور کر سکتے ہیں۔",
+  "projectPreview.description": "صرف ایڈمن کے لیے جائزے کا صفحہ، جہاں منصوبے منظور، واپس، مسترد یا آرکائیو کیے جاتے ہیں۔",
+  "projectPreview.loading": "منصوبے کا پیش منظر لوڈ ہو رہا ہے...",
+  "projectPreview.notFound": "منصوبہ نہیں ملا۔",
+  "projectPreview.tabDetails": "تفصیلات",
+  "projectPreview.tabDonations": "عطیات",
+  "projectPreview.approved": "منصوبہ منظور ہو گیا۔",
+  "projectPreview.changesRequested": "غیر منافع بخش تنظیم سے تبدیلیوں کی درخواست کی گئی۔",
+  "projectPreview.rejected": "منصوبہ مسترد ہو گیا۔",
+  "projectPreview.archived": "منصوبہ آرکائیو ہو گیا۔",
+  "projectPreview.commentRequired": "اس منصوبے کو \"{status}\" قرار دینے کے لیے تبصرہ لازمی ہے۔",
+  "projectPreview.imageRemoved": "تصویر ہٹا دی گئی۔",
+  "projectPreview.videoRemoved": "ویڈیو ہٹا دی گئی۔",
+  "projectPreview.previewImage": "{name} کا پیش منظر",
+  "projectPreview.removeImageTitle": "تصویر ہٹائیں",
+  "projectPreview.removeVideoTitle": "ویڈیو ہٹائیں",
+  "projectPreview.removeConfirm": "\"{name}\" کو اس منصوبے سے حذف کریں؟",
+  "projectPreview.removeConfirmGeneric": "یہ میڈیا اس منصوبے سے حذف کریں؟",
+  "projectPreview.removing": "ہٹایا جا رہا ہے...",
+  "projectPreview.remove": "ہٹائیں",
+  "projectPreview.review": "جائزہ",
+  "projectPreview.reviewer": "جائزہ کار",
+  "projectPreview.commentPlaceholder": "تبدیلیوں کی درخواست یا مسترد کرتے وقت لازمی ہے۔",
+  "projectPreview.raisedAmount": "جمع شدہ رقم",
+  "projectPreview.autoClose": "خودکار بندش",
+  "projectPreview.autoCloseOn": "ہدف پورا ہونے پر",
+  "projectPreview.autoCloseOff": "بند",
+  "projectPreview.approvedAt": "منظوری کا وقت",
+  "projectPreview.approvedBy": "منظور کنندہ",
+  "projectPreview.addresses": "پتے",
+  "projectPreview.images": "تصاویر",
+  "projectPreview.noImages": "کوئی تصویر اپ لوڈ نہیں ہوئی۔",
+  "projectPreview.videos": "ویڈیوز",
+  "projectPreview.noVideos": "کوئی ویڈیو اپ لوڈ نہیں ہوئی۔",
+
+  "reviewQueue.description": "جمع شدہ منصوبے، پرانے پہلے۔ ایک ساتھ جائزے کے لیے کئی منتخب کریں۔",
+  "reviewQueue.selectAll": "سب منتخب کریں",
+  "reviewQueue.selectRow": "{title} منتخب کریں",
+  "reviewQueue.columnProject": "منصوبہ",
+  "reviewQueue.columnSubmitted": "جمع کرانے کی تاریخ",
+  "reviewQueue.progressApproved": "{total} میں سے {done} منظور ہو رہے ہیں...",
+  "reviewQueue.progressChangesRequested": "{total} میں سے {done} پر تبدیلیوں کی درخواست ہو رہی ہے...",
+  "reviewQueue.progressRejected": "{total} میں سے {done} مسترد ہو رہے ہیں...",
+  "reviewQueue.doneApproved": {
+    one: "{count} منصوبہ منظور ہوا۔",
+    other: "{count} منصوبے منظور ہوئے۔",
+  },
+  "reviewQueue.doneChangesRequested": {
+    one: "{count} منصوبہ تبدیلیوں کے لیے واپس بھیجا گیا۔",
+    other: "{count} منصوبے تبدیلیوں کے لیے واپس بھیجے گئے۔",
+  },
+  "reviewQueue.doneRejected": {
+    one: "{count} منصوبہ مسترد ہوا۔",
+    other: "{count} منصوبے مسترد ہوئے۔",
+  },
+  "reviewQueue.partialApproved": "{count} منصوبے منظور ہوئے، {failed} ناکام رہے۔ ناکام آئٹمز دوبارہ کوشش کے لیے منتخب رہتے ہیں۔",
+  "reviewQueue.partialChangesRequested": "{count} منصوبے تبدیلیوں کے لیے واپس بھیجے گئے، {failed} ناکام رہے۔ ناکام آئٹمز دوبارہ کوشش کے لیے منتخب رہتے ہیں۔",
+  "reviewQueue.partialRejected": "{count} منصوبے مسترد ہوئے، {failed} ناکام رہے۔ ناکام آئٹمز دوبارہ کوشش کے لیے منتخب رہتے ہیں۔",
+  "reviewQueue.rejectTitle": "منصوبے مسترد کریں",
+  "reviewQueue.rejectConfirm": {
+    one: "{count} منصوبہ مسترد کریں؟ مسترد منصوبے شائع نہیں ہوتے۔",
+    other: "{count} منصوبے مسترد کریں؟ مسترد منصوبے شائع نہیں ہوتے۔",
+  },
+  "reviewQueue.requestChangesConfirm": {
+    one: "{count} منصوبہ تبدیلیوں کے لیے اس کی تنظیم کو واپس بھیجیں۔",
+    other: "{count} منصوبے تبدیلیوں کے لیے ان کی تنظیموں کو واپس بھیجیں۔",
+  },
+  "reviewQueue.commentPlaceholder": "وضاحت کریں کہ کیا بدلنا ہے...",
+  "reviewQueue.selectedCount": "{count} منتخب",
+  "reviewQueue.awaiting": {
+    one: "{count} منصوبہ جائزے کا منتظر",
+    other: "{count} منصوبے جائزے کے منتظر",
+  },
+  "reviewQueue.showingOldest": "سب سے پرانے {count} دکھائے جا رہے ہیں",
+  "reviewQueue.retryFailed": "ناکام دوبارہ آزمائیں ({count})",
+  "reviewQueue.approveSelected": "منتخب منظور کریں",
+  "reviewQueue.rejectSelected": "منتخب مسترد کریں",
+  "reviewQueue.refresh": "تازہ کریں",
+  "reviewQueue.loading": "جمع شدہ منصوبے لوڈ ہو رہے ہیں...",
+  "reviewQueue.empty": "جائزے کے لیے کچھ باقی نہیں۔",
+  "reviewQueue.shortcutNext": "اگلا منصوبہ",
+  "reviewQueue.shortcutPrevious": "پچھلا منصوبہ",
+  "reviewQueue.shortcutToggle": "انتخاب بدلیں",
+  "reviewQueue.shortcutApprove": "موجودہ منصوبہ منظور کریں",
+  "reviewQueue.shortcutRequestChanges": "موجودہ منصوبے پر تبدیلیوں کی درخواست کریں",
+  "reviewQueue.shortcutReject": "موجودہ منصوبہ مسترد کریں",
+  "reviewQueue.shortcutOpen": "پیش منظر کھولیں",
+
+  "auth.invalidToken": "لاگ ان ٹوکن پڑھا نہیں جا سکا۔",
+
+  "apiError.network": "براؤزر سے API تک رسائی نہیں ہو سکی۔ VITE_API_BASE_URL، CORS اور HTTPS/HTTP کے فرق کی جانچ کریں۔",
+  "apiError.fallback": "کچھ غلط ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔",
+  "apiError.timeout": "درخواست کا وقت ختم ہو گیا۔",
+  "apiError.status": "درخواست اسٹیٹس کوڈ {status} کے ساتھ ناکام ہوئی",
+
+  "xlsx.invalidWorkbook": "فائل درست XLSX ورک بک نہیں ہے۔",
+  "xlsx.unsupportedCompression": "XLSX ورک بک ایسا کمپریشن طریقہ استعمال کرتی ہے جو معاون نہیں۔",
+  "xlsx.noWorksheet": "XLSX ورک بک میں کوئی ورک شیٹ نہیں ہے۔",
+
+  "projectExport.sheetName": "منصوبے",
+  "projectExport.id": "شناخت",
+  "projectExport.title": "عنوان",
+  "projectExport.category": "زمرہ",
+  "projectExport.categoryId": "زمرہ شناخت",
+  "projectExport.owner": "مالک",
+  "projectExport.ownerId": "مالک شناخت",
+  "projectExport.createdDate": "تخلیق کی تاریخ",
+  "projectExport.startDate": "تاریخ آغاز",
+  "projectExport.endDate": "اختتام کی تاریخ",
+  "projectExport.targetAmount": "ہدف کی رقم",
+  "projectExport.raisedAmount": "جمع شدہ رقم",
+  "projectExport.currency": "کرنسی",
+  "projectExport.status": "حیثیت",
+};
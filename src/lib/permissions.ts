@@ -0,0 +1,176 @@
+import type { UserRole } from "@/types/api";
+
+export type KnownRole = "admin" | "npo" | "donor";
+
+export type Permission =
+  | "project.view.any"
+  | "project.view.own"
+  | "project.create"
+  | "project.update.any"
+  | "project.update.own"
+  | "project.delete.any"
+  | "project.delete.own"
+  | "project.approve"
+  | "project.import"
+  | "project.autoClose"
+  | "user.view"
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "user.role.update"
+  | "category.manage"
+  | "donation.view.any"
+  | "donation.view.own"
+  | "donation.reconcile"
+  | "audit.view"
+  | "exchangeRate.manage"
+  | "profile.update.own"
+  | "bank.update.any"
+  | "bank.update.own";
+
+/** Actions that are granted either on every record (`.any`) or only on records the user owns (`.own`). */
+export type OwnedAction = "project.view" | "project.update" | "project.delete" | "donation.view" | "bank.update";
+
+export type PermissionCheck = Permission | OwnedAction;
+
+export type PermissionGroup =
+  | "projects"
+  | "categories"
+  | "donations"
+  | "users"
+  | "audit"
+  | "reporting"
+  | "profile"
+  | "bank";
+
+export const PERMISSION_GROUPS: readonly PermissionGroup[] = [
+  "projects",
+  "categories",
+  "donations",
+  "users",
+  "audit",
+  "reporting",
+  "profile",
+  "bank",
+];
+
+/** Labels live in the message catalogs under `permission.<name>`. */
+export const PERMISSION_GROUP_BY_PERMISSION: Record<Permission, PermissionGroup> = {
+  "project.view.any": "projects",
+  "project.view.own": "projects",
+  "project.create": "projects",
+  "project.update.any": "projects",
+  "project.update.own": "projects",
+  "project.delete.any": "projects",
+  "project.delete.own": "projects",
+  "project.approve": "projects",
+  "project.import": "projects",
+  "project.autoClose": "projects",
+  "user.view": "users",
+  "user.create": "users",
+  "user.update": "users",
+  "user.delete": "users",
+  "user.role.update": "users",
+  "category.manage": "categories",
+  "donation.view.any": "donations",
+  "donation.view.own": "donations",
+  "donation.reconcile": "donations",
+  "audit.view": "audit",
+  "exchangeRate.manage": "reporting",
+  "profile.update.own": "profile",
+  "bank.update.any": "bank",
+  "bank.update.own": "bank",
+};
+
+export const ROLE_PERMISSIONS: Record<KnownRole, readonly Permission[]> = {
+  admin: [
+    "project.view.any",
+    "project.create",
+    "project.update.any",
+    "project.delete.any",
+    "project.approve",
+    "project.import",
+    "project.autoClose",
+    "user.view",
+    "user.create",
+    "user.update",
+    "user.delete",
+    "user.role.update",
+    "category.manage",
+    "donation.view.any",
+    "donation.reconcile",
+    "audit.view",
+    "exchangeRate.manage",
+    "profile.update.own",
+    "bank.update.any",
+  ],
+  npo: [
+    "project.view.own",
+    "project.create",
+    "project.update.own",
+    "project.delete.own",
+    "donation.view.own",
+    "profile.update.own",
+    "bank.update.own",
+  ],
+  donor: ["project.view.own", "profile.update.own"],
+};
+
+const OWNED_ACTIONS: readonly OwnedAction[] = [
+  "project.view",
+  "project.update",
+  "project.delete",
+  "donation.view",
+  "bank.update",
+];
+
+export function normalizeRole(role: UserRole | null | undefined): KnownRole {
+  const normalized = role?.trim().toLowerCase();
+  if (normalized === "admin" || normalized === "npo") {
+    return normalized;
+  }
+
+  return "donor";
+}
+
+export function isNpoRole(role: UserRole | null | undefined): boolean {
+  return normalizeRole(role) === "npo";
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[normalizeRole(role)].includes(permission);
+}
+
+function isOwnedAction(check: PermissionCheck): check is OwnedAction {
+  return (OWNED_ACTIONS as readonly string[]).includes(check);
+}
+
+/**
+ * Resolves a permission check for a role. Owned actions pass when the role holds the
+ * `.any` grant, or the `.own` grant and `ownerId` matches `userId`. Without an
+ * `ownerId`, an owned action asks whether the role may act on at least its own records.
+ */
+export function can(
+  role: UserRole | null | undefined,
+  userId: string,
+  check: PermissionCheck,
+  ownerId?: string,
+): boolean {
+  if (!isOwnedAction(check)) {
+    return hasPermission(role, check);
+  }
+
+  if (hasPermission(role, `${check}.any`)) {
+    return true;
+  }
+
+  if (!hasPermission(role, `${check}.own`)) {
+    return false;
+  }
+
+  return ownerId === undefined || (Boolean(userId) && ownerId === userId);
+}
+
+export function getRolePermissions(role: KnownRole, group: PermissionGroup): Permission[] {
+  return ROLE_PERMISSIONS[role].filter((permission) => PERMISSION_GROUP_BY_PERMISSION[permission] === group);
+}
@@ -0,0 +1,103 @@
+import { formatCurrency, formatDateTime, translate, type Locale, type MessageKey } from "@/lib/i18n";
+import { getProjectReviewStatus } from "@/lib/project-status";
+import type { Project } from "@/types/api";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportCell = string | number | null;
+
+export interface ProjectExportOptions {
+  /**
+   * Formats headers, amounts, dates and statuses for this locale; null exports raw values, ISO dates
+   * and the fixed English headers that scripts reading the file can rely on.
+   */
+  locale: Locale | null;
+  ownerNameById: Map<string, string>;
+  categoryNameById: Map<number, string>;
+}
+
+const EXPORT_CHUNK_SIZE = 250;
+
+const PROJECT_EXPORT_COLUMNS: { header: string; label: MessageKey }[] = [
+  { header: "ID", label: "projectExport.id" },
+  { header: "Title", label: "projectExport.title" },
+  { header: "Category", label: "projectExport.category" },
+  { header: "Category ID", label: "projectExport.categoryId" },
+  { header: "Owner", label: "projectExport.owner" },
+  { header: "Owner ID", label: "projectExport.ownerId" },
+  { header: "Created Date", label: "projectExport.createdDate" },
+  { header: "Start Date", label: "projectExport.startDate" },
+  { header: "End Date", label: "projectExport.endDate" },
+  { header: "Target Amount", label: "projectExport.targetAmount" },
+  { header: "Raised Amount", label: "projectExport.raisedAmount" },
+  { header: "Currency", label: "projectExport.currency" },
+  { header: "Status", label: "projectExport.status" },
+];
+
+export function getProjectExportSheetName(locale: Locale | null): string {
+  return locale ? translate(locale, "projectExport.sheetName") : "Projects";
+}
+
+function yieldToBrowser(): Promise<void> {
+  return new Promise((resolve) => {
+    window.setTimeout(resolve, 0);
+  });
+}
+
+function formatLocalizedDate(value: string | null | undefined, locale: Locale): string {
+  if (!value) {
+    return "";
+  }
+
+  // Date-only values carry no time zone, so format them as UTC to keep the calendar day.
+  return formatDateTime(value, locale, {
+    dateStyle: "medium",
+    timeZone: value.includes("T") ? undefined : "UTC",
+  });
+}
+
+function toProjectExportRow(project: Project, options: ProjectExportOptions): ExportCell[] {
+  const currency = (project.currency || "USD").trim().toUpperCase();
+  const createdDate = project.createdOn ?? project.createdAt ?? project.startDate;
+  const { locale } = options;
+  const status = getProjectReviewStatus(project);
+
+  return [
+    project.id,
+    project.title,
+    project.category?.name ?? options.categoryNameById.get(project.categoryId) ?? "",
+    project.categoryId,
+    options.ownerNameById.get(project.npoUserId) ?? "",
+    project.npoUserId,
+    locale ? formatLocalizedDate(createdDate, locale) : createdDate,
+    locale ? formatLocalizedDate(project.startDate, locale) : project.startDate,
+    locale ? formatLocalizedDate(project.endDate, locale) : (project.endDate ?? ""),
+    locale ? formatCurrency(project.targetAmount, currency, locale) : project.targetAmount,
+    locale ? formatCurrency(project.raisedAmount, currency, locale) : project.raisedAmount,
+    currency,
+    locale ? translate(locale, `projectStatus.${status}`) : status,
+  ];
+}
+
+/**
+ * Converts projects to spreadsheet rows (header first), pausing between chunks so
+ * exports of thousands of projects leave the page responsive.
+ */
+export async function buildProjectExportRows(
+  projects: Project[],
+  options: ProjectExportOptions,
+): Promise<ExportCell[][]> {
+  const { locale } = options;
+  const rows: ExportCell[][] = [
+    PROJECT_EXPORT_COLUMNS.map(({ header, label }) => (locale ? translate(locale, label) : header)),
+  ];
+
+  for (let start = 0; start < projects.length; start += EXPORT_CHUNK_SIZE) {
+    projects.slice(start, start + EXPORT_CHUNK_SIZE).forEach((project) => {
+      rows.push(toProjectExportRow(project, options));
+    });
+    await yieldToBrowser();
+  }
+
+  return rows;
+}
@@ -0,0 +1,273 @@
+import type { CreateProjectPayload } from "@/lib/api";
+import { parseDecimal, type DecimalSeparator } from "@/lib/csv";
+import { translate, type Locale, type MessageKey } from "@/lib/i18n";
+import {
+  createProjectFormSchema,
+  toProjectAddressFormValues,
+  toProjectAddresses,
+  type CreateProjectFormValues,
+} from "@/lib/validations/project";
+import type { Category, User } from "@/types/api";
+
+type ProjectAddressField = "country" | "state" | "city";
+
+/** Spreadsheets carry one address per row, spread over three columns, and no project settings. */
+export type ProjectImportField =
+  | Exclude<keyof CreateProjectFormValues, "addresses" | "autoCloseOnTarget">
+  | ProjectAddressField;
+
+/** Zero-based index of the file column feeding each field, or null when the field is not imported. */
+export type ProjectImportMapping = Record<ProjectImportField, number | null>;
+
+export type ProjectImportErrors = Partial<Record<ProjectImportField, string>>;
+
+export interface ProjectImportFieldDefinition {
+  field: ProjectImportField;
+  label: MessageKey;
+  required: boolean;
+  aliases: string[];
+}
+
+/** A non-blank row of the file. */
+export interface ProjectImportSourceRow {
+  /** Spreadsheet row number, counting blank rows so it matches what the spreadsheet shows. */
+  rowNumber: number;
+  cells: string[];
+}
+
+export interface ProjectImportRow {
+  /** Spreadsheet row number, counting blank rows so it matches what the spreadsheet shows. */
+  rowNumber: number;
+  raw: Record<ProjectImportField, string>;
+  values: CreateProjectFormValues | null;
+  errors: ProjectImportErrors;
+}
+
+export interface ProjectImportLookups {
+  npoUsers: User[];
+  categories: Category[];
+}
+
+export const PROJECT_IMPORT_FIELDS: readonly ProjectImportFieldDefinition[] = [
+  { field: "npoUserId", label: "projects.owner", required: true, aliases: ["npo", "npoemail", "owner", "owneremail", "npouserid"] },
+  { field: "title", label: "projects.columnTitle", required: true, aliases: ["title", "projecttitle", "name"] },
+  { field: "categoryId", label: "projects.category", required: true, aliases: ["category", "categoryname", "categoryid"] },
+  { field: "startDate", label: "projects.columnStartDate", required: true, aliases: ["startdate", "start"] },
+  { field: "endDate", label: "projectForm.endDate", required: false, aliases: ["enddate", "end"] },
+  { field: "description", label: "projectForm.description", required: true, aliases: ["description", "details"] },
+  { field: "targetAmount", label: "projectForm.targetAmount", required: true, aliases: ["targetamount", "target", "goal", "amount"] },
+  { field: "currency", label: "projectForm.currency", required: true, aliases: ["currency", "currencycode"] },
+  { field: "country", label: "address.country", required: false, aliases: ["country"] },
+  { field: "state", label: "address.state", required: false, aliases: ["state", "province", "region"] },
+  { field: "city", label: "address.city", required: false, aliases: ["city", "town"] },
+];
+
+export const PROJECT_IMPORT_TEMPLATE_ROWS: string[][] = [
+  [
+    "NPO Email",
+    "Title",
+    "Category",
+    "Start Date",
+    "End Date",
+    "Description",
+    "Target Amount",
+    "Currency",
+    "Country",
+    "State",
+    "City",
+  ],
+  [
+    "npo@example.org",
+    "Clean Water for Rural Schools",
+    "Water",
+    "2026-01-15",
+    "2026-06-30",
+    "Install filtration units in five rural schools.",
+    "25000",
+    "USD",
+    "Kenya",
+    "Nakuru",
+    "Naivasha",
+  ],
+];
+
+/** Drops blank rows after numbering every row, so errors still point at the right spreadsheet row. */
+export function toProjectImportSourceRows(rows: string[][]): ProjectImportSourceRow[] {
+  return rows.flatMap((cells, index) =>
+    cells.some((cell) => cell.trim().length > 0) ? [{ rowNumber: index + 1, cells }] : [],
+  );
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function guessProjectImportMapping(headers: string[]): ProjectImportMapping {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const claimed = new Set<number>();
+
+  return Object.fromEntries(
+    PROJECT_IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalizedHeaders.findIndex((header, headerIndex) => !claimed.has(headerIndex) && aliases.includes(header));
+      if (index < 0) {
+        return [field, null];
+      }
+
+      claimed.add(index);
+      return [field, index];
+    }),
+  ) as ProjectImportMapping;
+}
+
+export function getMissingRequiredFields(mapping: ProjectImportMapping): ProjectImportFieldDefinition[] {
+  return PROJECT_IMPORT_FIELDS.filter((definition) => definition.required && mapping[definition.field] === null);
+}
+
+// Excel stores dates as days since 1899-12-30.
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns a `YYYY-MM-DD` date, or null when the value is neither that (as in the template) nor an
+ * Excel serial date. Other notations such as "03/04/2025" are rejected because their day and month
+ * order cannot be told apart.
+ */
+function normalizeImportDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && toIsoDate(parsed) === value ? value : null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return toIsoDate(new Date(EXCEL_EPOCH_MS + Math.floor(Number(value)) * DAY_MS));
+  }
+
+  return null;
+}
+
+/** Returns the amount as a plain decimal string, or null when it is not a number in the file's notation. */
+function normalizeImportAmount(value: string, decimalSeparator: DecimalSeparator): string | null {
+  const amount = parseDecimal(value, decimalSeparator);
+  return Number.isFinite(amount) ? String(amount) : null;
+}
+
+function readRawValues(cells: string[], mapping: ProjectImportMapping): Record<ProjectImportField, string> {
+  return Object.fromEntries(
+    PROJECT_IMPORT_FIELDS.map(({ field }) => {
+      const index = mapping[field];
+      return [field, index === null ? "" : (cells[index] ?? "").trim()];
+    }),
+  ) as Record<ProjectImportField, string>;
+}
+
+/**
+ * Resolves owner, category and address references, normalizes dates and amounts, then validates
+ * each row with the same schema as the single-project form. Amounts are read with `decimalSeparator`.
+ */
+export function validateProjectImportRows(
+  rows: ProjectImportSourceRow[],
+  mapping: ProjectImportMapping,
+  lookups: ProjectImportLookups,
+  decimalSeparator: DecimalSeparator,
+  locale: Locale,
+): ProjectImportRow[] {
+  const schema = createProjectFormSchema(locale);
+  const npoByKey = new Map<string, User>();
+  lookups.npoUsers.forEach((user) => {
+    npoByKey.set(user.id.toLowerCase(), user);
+    npoByKey.set(user.email.toLowerCase(), user);
+  });
+
+  const categoryByKey = new Map<string, Category>();
+  lookups.categories.forEach((category) => {
+    categoryByKey.set(String(category.id), category);
+    categoryByKey.set(category.name.trim().toLowerCase(), category);
+  });
+
+  return rows.map(({ rowNumber, cells }) => {
+    const raw = readRawValues(cells, mapping);
+    const errors: ProjectImportErrors = {};
+    const { country, state, city, ...candidate } = raw;
+
+    if (raw.npoUserId) {
+      const owner = npoByKey.get(raw.npoUserId.toLowerCase());
+      if (owner) {
+        candidate.npoUserId = owner.id;
+      } else {
+        errors.npoUserId = translate(locale, "projectImport.noOwnerMatch", { value: raw.npoUserId });
+      }
+    }
+
+    if (raw.categoryId) {
+      const category = categoryByKey.get(raw.categoryId.toLowerCase());
+      if (category) {
+        candidate.categoryId = String(category.id);
+      } else {
+        errors.categoryId = translate(locale, "projectImport.noCategoryMatch", { value: raw.categoryId });
+      }
+    }
+
+    (["startDate", "endDate"] as const).forEach((field) => {
+      if (!raw[field]) {
+        return;
+      }
+
+      const date = normalizeImportDate(raw[field]);
+      if (date) {
+        candidate[field] = date;
+      } else {
+        errors[field] = translate(locale, "projectImport.invalidDate", { value: raw[field] });
+      }
+    });
+
+    if (raw.targetAmount) {
+      const amount = normalizeImportAmount(raw.targetAmount, decimalSeparator);
+      if (amount) {
+        candidate.targetAmount = amount;
+      } else {
+        errors.targetAmount = translate(locale, "projectImport.invalidAmount", { value: raw.targetAmount });
+      }
+    }
+
+    const result = schema.safeParse({
+      ...candidate,
+      addresses: [toProjectAddressFormValues({ country, state, city })],
+    });
+    if (!result.success) {
+      result.error.issues.forEach((issue) => {
+        // Address issues are reported as ["addresses", 0, "city"]; point them at the column instead.
+        const field = (issue.path[0] === "addresses" ? issue.path[2] : issue.path[0]) as ProjectImportField | undefined;
+        if (field && !errors[field]) {
+          errors[field] = issue.message;
+        }
+      });
+    }
+
+    return {
+      rowNumber,
+      raw,
+      values: result.success && Object.keys(errors).length === 0 ? result.data : null,
+      errors,
+    };
+  });
+}
+
+export function toImportedProjectPayload(values: CreateProjectFormValues): CreateProjectPayload {
+  return {
+    npoUserId: values.npoUserId,
+    title: values.title.trim(),
+    categoryId: Number(values.categoryId),
+    startDate: values.startDate,
+    endDate: values.endDate || undefined,
+    description: values.description.trim(),
+    targetAmount: Number(values.targetAmount),
+    currency: values.currency,
+    addresses: toProjectAddresses(values),
+    images: [],
+    videos: [],
+  };
+}
@@ -0,0 +1,102 @@
+import { getProjectReviewStatus, type ReviewStatusBadgeVariant } from "@/lib/project-status";
+import type { Project, ProjectLifecycleState } from "@/types/api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type LifecycleProject = Pick<
+  Project,
+  "isApproved" | "reviewStatus" | "startDate" | "endDate" | "targetAmount" | "raisedAmount" | "autoCloseOnTarget"
+>;
+
+export const PROJECT_LIFECYCLE_STATES: readonly ProjectLifecycleState[] = ["upcoming", "live", "funded", "ended"];
+
+const BADGE_VARIANTS: Record<ProjectLifecycleState, ReviewStatusBadgeVariant> = {
+  upcoming: "outline",
+  live: "default",
+  funded: "secondary",
+  ended: "destructive",
+};
+
+export function parseDate(value: string | null | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/** Dates without a time mean "through the end of that day". */
+export function parseEndDate(value: string | null | undefined): Date | null {
+  const parsed = parseDate(value);
+  if (!parsed || !value || value.includes("T")) {
+    return parsed;
+  }
+
+  return new Date(parsed.getTime() + DAY_MS - 1);
+}
+
+export function hasProjectStarted(project: Pick<Project, "startDate">, now: Date): boolean {
+  const startDate = parseDate(project.startDate);
+  return !startDate || startDate.getTime() <= now.getTime();
+}
+
+export function hasProjectEnded(project: Pick<Project, "endDate">, now: Date): boolean {
+  const endDate = parseEndDate(project.endDate);
+  return Boolean(endDate && endDate.getTime() < now.getTime());
+}
+
+export function hasReachedTarget(project: Pick<Project, "targetAmount" | "raisedAmount">): boolean {
+  return project.targetAmount > 0 && project.raisedAmount >= project.targetAmount;
+}
+
+/** Raised share of the target, which can exceed 1 for overfunded projects. */
+export function getFundingRatio(project: Pick<Project, "targetAmount" | "raisedAmount">): number {
+  return project.targetAmount > 0 ? project.raisedAmount / project.targetAmount : 0;
+}
+
+function getDaysUntil(date: Date | null, now: Date): number | null {
+  return date ? Math.max(0, Math.ceil((date.getTime() - now.getTime()) / DAY_MS)) : null;
+}
+
+export function getDaysUntilStart(project: Pick<Project, "startDate">, now: Date): number | null {
+  return getDaysUntil(parseDate(project.startDate), now);
+}
+
+/** Whole days left before the end date, counting today; null without an end date. */
+export function getDaysRemaining(project: Pick<Project, "endDate">, now: Date): number | null {
+  return getDaysUntil(parseEndDate(project.endDate), now);
+}
+
+/**
+ * Only approved projects fundraise, so others have no lifecycle. Reaching the target
+ * wins over the end date so successful campaigns keep showing as funded.
+ */
+export function getProjectLifecycle(project: LifecycleProject, now: Date): ProjectLifecycleState | null {
+  if (getProjectReviewStatus(project) !== "approved") {
+    return null;
+  }
+
+  if (!hasProjectStarted(project, now)) {
+    return "upcoming";
+  }
+  if (hasReachedTarget(project)) {
+    return "funded";
+  }
+
+  return hasProjectEnded(project, now) ? "ended" : "live";
+}
+
+/** Funded projects keep taking donations until their end date unless they auto-close. */
+export function isAcceptingDonations(project: LifecycleProject, now: Date): boolean {
+  const lifecycle = getProjectLifecycle(project, now);
+  if (lifecycle === "live") {
+    return true;
+  }
+
+  return lifecycle === "funded" && !project.autoCloseOnTarget && !hasProjectEnded(project, now);
+}
+
+export function getLifecycleBadgeVariant(state: ProjectLifecycleState): ReviewStatusBadgeVariant {
+  return BADGE_VARIANTS[state];
+}
@@ -0,0 +1,37 @@
+import type { ProjectImage } from "@/types/api";
+
+export const MAX_IMAGE_CAPTION_LENGTH = 300;
+export const MAX_IMAGE_ALT_TEXT_LENGTH = 150;
+
+/** Orders images by their saved position; images without one follow in server order. */
+export function sortProjectImages(images: ProjectImage[]): ProjectImage[] {
+  return images
+    .map((image, index) => ({ image, index }))
+    .sort(
+      (a, b) =>
+        (a.image.sortOrder ?? Number.MAX_SAFE_INTEGER) - (b.image.sortOrder ?? Number.MAX_SAFE_INTEGER) ||
+        a.index - b.index,
+    )
+    .map(({ image }) => image);
+}
+
+/** The image marked as cover, or the first image in saved order. */
+export function getProjectCoverImage(images: ProjectImage[]): ProjectImage | null {
+  return images.find((image) => image.isCover) ?? sortProjectImages(images)[0] ?? null;
+}
+
+export function getProjectImageAltText(image: ProjectImage): string {
+  return image.altText?.trim() || image.caption?.trim() || image.fileName;
+}
+
+/** Moves one image and renumbers `sortOrder` to match the new positions. */
+export function moveProjectImage(images: ProjectImage[], fromIndex: number, toIndex: number): ProjectImage[] {
+  const next = [...images];
+  const [moved] = next.splice(fromIndex, 1);
+  if (!moved) {
+    return images;
+  }
+
+  next.splice(toIndex, 0, moved);
+  return next.map((image, index) => ({ ...image, sortOrder: index }));
+}
@@ -0,0 +1,43 @@
+import type { Project, ProjectReviewStatus } from "@/types/api";
+
+export type ReviewStatusBadgeVariant = "default" | "secondary" | "destructive" | "outline";
+
+export const PROJECT_REVIEW_STATUSES: readonly ProjectReviewStatus[] = [
+  "draft",
+  "submitted",
+  "changesRequested",
+  "approved",
+  "rejected",
+  "archived",
+];
+
+const BADGE_VARIANTS: Record<ProjectReviewStatus, ReviewStatusBadgeVariant> = {
+  draft: "outline",
+  submitted: "outline",
+  changesRequested: "default",
+  approved: "secondary",
+  rejected: "destructive",
+  archived: "outline",
+};
+
+/** Projects saved before review statuses existed only carry `isApproved`. */
+export function getProjectReviewStatus(project: Pick<Project, "isApproved" | "reviewStatus">): ProjectReviewStatus {
+  if (project.reviewStatus) {
+    return project.reviewStatus;
+  }
+
+  return project.isApproved ? "approved" : "submitted";
+}
+
+export function getReviewStatusBadgeVariant(status: ProjectReviewStatus): ReviewStatusBadgeVariant {
+  return BADGE_VARIANTS[status];
+}
+
+/** Reviewers must explain why a project is sent back or turned down. */
+export function requiresReviewComment(status: ProjectReviewStatus): boolean {
+  return status === "rejected" || status === "changesRequested";
+}
+
+export function canSubmitForReview(status: ProjectReviewStatus): boolean {
+  return status === "draft" || status === "changesRequested" || status === "rejected";
+}
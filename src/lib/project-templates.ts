@@ -0,0 +1,40 @@
+import type { ProjectTemplatePayload } from "@/lib/api";
+import { toProjectAddressFormValues, type CreateProjectFormInput } from "@/lib/validations/project";
+import type { Project } from "@/types/api";
+
+export const MAX_PROJECT_TEMPLATE_NAME_LENGTH = 100;
+
+/** Fields carried over by both templates and duplicated projects. */
+export type ProjectPrefillSource = Pick<
+  Project,
+  "title" | "categoryId" | "description" | "targetAmount" | "currency" | "autoCloseOnTarget" | "addresses"
+>;
+
+export type ProjectFormPrefill = Omit<CreateProjectFormInput, "npoUserId" | "startDate" | "endDate">;
+
+/** Create-form values for a new project based on `source`; dates are left for the new campaign. */
+export function toProjectFormPrefill(source: ProjectPrefillSource): ProjectFormPrefill {
+  return {
+    title: source.title,
+    categoryId: String(source.categoryId),
+    description: source.description,
+    targetAmount: String(source.targetAmount),
+    currency: source.currency || "USD",
+    autoCloseOnTarget: Boolean(source.autoCloseOnTarget),
+    addresses: source.addresses.map(toProjectAddressFormValues),
+  };
+}
+
+export function toProjectTemplatePayload(project: Project, name: string): ProjectTemplatePayload {
+  return {
+    npoUserId: project.npoUserId,
+    name,
+    title: project.title,
+    categoryId: project.categoryId,
+    description: project.description,
+    targetAmount: project.targetAmount,
+    currency: project.currency || "USD",
+    autoCloseOnTarget: Boolean(project.autoCloseOnTarget),
+    addresses: project.addresses,
+  };
+}
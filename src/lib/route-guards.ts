@@ -0,0 +1,24 @@
+import { redirect } from "@tanstack/react-router";
+import { readStoredSession } from "@/lib/auth";
+import { can, type PermissionCheck } from "@/lib/permissions";
+
+/**
+ * Builds a `beforeLoad` guard that redirects users lacking `permission`.
+ * The session lives in localStorage, so server renders are left to the dashboard layout.
+ */
+export function requirePermission(permission: PermissionCheck) {
+  return () => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const session = readStoredSession();
+    if (!session) {
+      throw redirect({ to: "/login", replace: true });
+    }
+
+    if (!can(session.user.role, session.user.id, permission)) {
+      throw redirect({ to: "/dashboard/projects", replace: true });
+    }
+  };
+}
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { LOCALES, translate, type Locale } from "@/lib/i18n";
+import type { BankDetails } from "@/types/api";
+
+// IBAN lengths per country from the ISO 13616 registry.
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BI: 27,
+  BR: 29, BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DJ: 27, DK: 18, DO: 28,
+  EE: 20, EG: 29, ES: 24, FI: 18, FK: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23,
+  GL: 18, GR: 27, GT: 28, HN: 28, HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26,
+  IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21,
+  LY: 25, MC: 27, MD: 24, ME: 22, MK: 19, MN: 20, MR: 27, MT: 31, MU: 30, NI: 28,
+  NL: 18, NO: 15, OM: 23, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22,
+  RU: 33, SA: 24, SC: 31, SD: 18, SE: 24, SI: 19, SK: 24, SM: 27, SO: 23, ST: 25,
+  SV: 28, TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20, YE: 30,
+};
+
+const SWIFT_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const ACCOUNT_NUMBER_PATTERN = /^[A-Z0-9]{4,34}$/;
+
+export type BankDetailsField = keyof BankDetails;
+export type BankDetailsFieldErrors = Partial<Record<BankDetailsField, string>>;
+
+export function normalizeIban(value: string): string {
+  return value.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+function normalizeCode(value: string): string {
+  return value.replace(/\s+/g, "").toUpperCase();
+}
+
+export function isValidIbanChecksum(iban: string): boolean {
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+
+  for (const character of rearranged) {
+    const digits = /[A-Z]/.test(character) ? String(character.charCodeAt(0) - 55) : character;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+export function isValidAbaRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+
+  const digits = [...routingNumber].map(Number);
+  const checksum =
+    3 * (digits[0] + digits[3] + digits[6]) +
+    7 * (digits[1] + digits[4] + digits[7]) +
+    (digits[2] + digits[5] + digits[8]);
+
+  return checksum % 10 === 0;
+}
+
+/** Returns the ISO 3166 alpha-2 country encoded in an IBAN, or null when it is not an IBAN country. */
+export function inferIbanCountry(iban: string): string | null {
+  const countryCode = normalizeIban(iban).slice(0, 2);
+  return countryCode in IBAN_LENGTHS ? countryCode : null;
+}
+
+export function getCountryName(countryCode: string, locale: Locale): string {
+  try {
+    return new Intl.DisplayNames([LOCALES[locale].intlLocale], { type: "region" }).of(countryCode) ?? countryCode;
+  } catch {
+    return countryCode;
+  }
+}
+
+function validateIban(iban: string, locale: Locale): string | null {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+    return translate(locale, "validation.ibanFormat");
+  }
+
+  const countryCode = iban.slice(0, 2);
+  const expectedLength = IBAN_LENGTHS[countryCode];
+  if (!expectedLength) {
+    return translate(locale, "validation.ibanCountry", { country: countryCode });
+  }
+
+  if (iban.length !== expectedLength) {
+    return translate(locale, "validation.ibanLength", {
+      country: getCountryName(countryCode, locale),
+      length: expectedLength,
+    });
+  }
+
+  if (!isValidIbanChecksum(iban)) {
+    return translate(locale, "validation.ibanChecksum");
+  }
+
+  return null;
+}
+
+export function createBankDetailsSchema(locale: Locale) {
+  return z
+    .object({
+      accountHolderName: z
+        .string()
+        .trim()
+        .min(1, translate(locale, "validation.accountHolderRequired"))
+        .max(200, translate(locale, "validation.accountHolderMax", { max: 200 })),
+      bankName: z
+        .string()
+        .trim()
+        .min(1, translate(locale, "validation.bankNameRequired"))
+        .max(200, translate(locale, "validation.bankNameMax", { max: 200 })),
+      accountNumber: z
+        .string()
+        .transform((value) => value.replace(/[\s-]+/g, "").toUpperCase())
+        .refine(
+          (value) => !value || ACCOUNT_NUMBER_PATTERN.test(value),
+          translate(locale, "validation.accountNumberFormat"),
+        ),
+      iban: z.string().transform(normalizeIban),
+      swiftCode: z
+        .string()
+        .transform(normalizeCode)
+        .refine(
+          (value) => !value || SWIFT_PATTERN.test(value),
+          translate(locale, "validation.swiftFormat"),
+        ),
+      routingNumber: z.string().transform((value) => value.replace(/[\s-]+/g, "")),
+      bankCountry: z.string().nullish(),
+    })
+    .superRefine((values, context) => {
+      if (!values.accountNumber && !values.iban) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["accountNumber"],
+          message: translate(locale, "validation.accountOrIbanRequired"),
+        });
+      }
+
+      if (values.iban) {
+        const ibanError = validateIban(values.iban, locale);
+        if (ibanError) {
+          context.addIssue({ code: z.ZodIssueCode.custom, path: ["iban"], message: ibanError });
+        }
+      }
+
+      const ibanCountry = values.iban ? inferIbanCountry(values.iban) : null;
+
+      if (ibanCountry && SWIFT_PATTERN.test(values.swiftCode)) {
+        const swiftCountry = values.swiftCode.slice(4, 6);
+        if (swiftCountry !== ibanCountry) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["swiftCode"],
+            message: translate(locale, "validation.swiftCountryMismatch", { swiftCountry, ibanCountry }),
+          });
+        }
+      }
+
+      // Routing numbers outside the US (sort codes, IFSC, ...) follow other formats, so only
+      // apply the ABA checksum when the account is not known to be held abroad.
+      const isForeignAccount = Boolean(ibanCountry) && ibanCountry !== "US";
+      if (values.routingNumber && !isForeignAccount && !isValidAbaRoutingNumber(values.routingNumber)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["routingNumber"],
+          message: translate(locale, "validation.routingNumber"),
+        });
+      }
+    })
+    .transform((values) => ({
+      ...values,
+      bankCountry:
+        (values.iban ? inferIbanCountry(values.iban) : null) ??
+        (SWIFT_PATTERN.test(values.swiftCode) ? values.swiftCode.slice(4, 6) : null) ??
+        values.bankCountry ??
+        null,
+    }));
+}
+
+type BankDetailsSchema = ReturnType<typeof createBankDetailsSchema>;
+
+export type BankDetailsFormValues = z.input<BankDetailsSchema>;
+export type ValidatedBankDetails = z.output<BankDetailsSchema>;
+
+export type BankDetailsValidationResult =
+  | { success: true; data: ValidatedBankDetails }
+  | { success: false; fieldErrors: BankDetailsFieldErrors };
+
+export function validateBankDetails(details: BankDetails, locale: Locale): BankDetailsValidationResult {
+  const result = createBankDetailsSchema(locale).safeParse(details);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const fieldErrors: BankDetailsFieldErrors = {};
+  result.error.issues.forEach((issue) => {
+    const field = issue.path[0] as BankDetailsField | undefined;
+    if (field && !fieldErrors[field]) {
+      fieldErrors[field] = issue.message;
+    }
+  });
+
+  return { success: false, fieldErrors };
+}
@@ -1,89 +1,156 @@
 import { z } from "zod";
+import { getCurrencyMinorUnits, hasValidMinorUnits, isCurrencyCode, normalizeCurrencyCode } from "@/lib/currencies";
+import { translate, type Locale, type MessageKey } from "@/lib/i18n";
+import { hasSubdivisionData, normalizeAddress } from "@/lib/locations";
 import type { Address } from "@/types/api";
 
-export const createProjectFormSchema = z
-  .object({
-    npoUserId: z.string().min(1, "NPO owner is required"),
-    title: z
-      .string()
-      .min(1, "Project title is required")
-      .max(200, "Project title must be at most 200 characters"),
-    categoryId: z.string().min(1, "Category is required"),
-    startDate: z.string().min(1, "Start date is required"),
-    endDate: z.string().optional().default(""),
-    description: z
-      .string()
-      .min(1, "Description is required")
-      .max(4000, "Description must be at most 4000 characters"),
-    targetAmount: z
-      .string()
-      .min(1, "Target amount is required")
-      .refine((value) => Number(value) > 0, "Target amount must be greater than 0"),
-    currency: z
-      .string()
-      .min(1, "Currency is required")
-      .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter code (for example, USD)"),
-    country: z.string().optional().default(""),
-    state: z.string().optional().default(""),
-    city: z.string().optional().default(""),
-  })
-  .superRefine((values, context) => {
-    if (values.endDate && values.startDate && values.endDate < values.startDate) {
-      context.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["endDate"],
-        message: "End date must be on or after the start date",
-      });
-    }
+export const MAX_PROJECT_ADDRESSES = 20;
+
+const ADDRESS_FIELD_LABELS = {
+  country: "address.country",
+  state: "address.state",
+  city: "address.city",
+} as const satisfies Record<string, MessageKey>;
+
+/** Blank rows are allowed and dropped on save; a partly filled row must be completed. */
+function createProjectAddressSchema(locale: Locale) {
+  return z
+    .object({
+      country: z.string(),
+      countryCode: z.string(),
+      state: z.string(),
+      stateCode: z.string(),
+      city: z.string(),
+    })
+    .superRefine((address, context) => {
+      const fields = Object.keys(ADDRESS_FIELD_LABELS) as (keyof typeof ADDRESS_FIELD_LABELS)[];
+      if (fields.every((field) => !address[field].trim())) {
+        return;
+      }
 
-    const hasAnyAddress =
-      values.country.trim().length > 0 ||
-      values.state.trim().length > 0 ||
-      values.city.trim().length > 0;
+      fields.forEach((field) => {
+        if (!address[field].trim()) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: translate(locale, "validation.addressFieldRequired", {
+              field: translate(locale, ADDRESS_FIELD_LABELS[field]),
+            }),
+          });
+        }
+      });
 
-    if (hasAnyAddress) {
-      if (!values.country.trim()) {
+      if (address.country.trim() && !address.countryCode) {
         context.addIssue({
           code: z.ZodIssueCode.custom,
           path: ["country"],
-          message: "Country is required when address is provided",
+          message: translate(locale, "validation.selectCountry"),
         });
       }
 
-      if (!values.state.trim()) {
+      if (address.state.trim() && !address.stateCode && hasSubdivisionData(address.countryCode)) {
         context.addIssue({
           code: z.ZodIssueCode.custom,
           path: ["state"],
-          message: "State is required when address is provided",
+          message: translate(locale, "validation.selectState"),
+        });
+      }
+    });
+}
+
+export type ProjectAddressFormValues = z.infer<ReturnType<typeof createProjectAddressSchema>>;
+
+export const EMPTY_PROJECT_ADDRESS: ProjectAddressFormValues = {
+  country: "",
+  countryCode: "",
+  state: "",
+  stateCode: "",
+  city: "",
+};
+
+/** Amounts must fit the currency's ISO 4217 minor units, e.g. whole yen or cents for dollars. */
+function describeCurrencyMinorUnits(currency: string, locale: Locale): string {
+  const minorUnits = getCurrencyMinorUnits(currency);
+  const code = normalizeCurrencyCode(currency);
+  return minorUnits === 0
+    ? translate(locale, "validation.amountWhole", { currency: code })
+    : translate(locale, "validation.amountDecimals", { currency: code, count: minorUnits });
+}
+
+export function createProjectFormSchema(locale: Locale) {
+  return z
+    .object({
+      npoUserId: z.string().min(1, translate(locale, "validation.ownerRequired")),
+      title: z
+        .string()
+        .min(1, translate(locale, "validation.titleRequired"))
+        .max(200, translate(locale, "validation.titleMax", { max: 200 })),
+      categoryId: z.string().min(1, translate(locale, "validation.categoryRequired")),
+      startDate: z.string().min(1, translate(locale, "validation.startDateRequired")),
+      endDate: z.string().optional().default(""),
+      description: z
+        .string()
+        .min(1, translate(locale, "validation.descriptionRequired"))
+        .max(4000, translate(locale, "validation.descriptionMax", { max: 4000 })),
+      targetAmount: z
+        .string()
+        .min(1, translate(locale, "validation.targetRequired"))
+        .refine((value) => Number(value) > 0, translate(locale, "validation.targetPositive")),
+      currency: z
+        .string()
+        .min(1, translate(locale, "validation.currencyRequired"))
+        .regex(/^[A-Za-z]{3}$/, translate(locale, "validation.currencyFormat"))
+        .refine(isCurrencyCode, translate(locale, "validation.currencyIso")),
+      autoCloseOnTarget: z.boolean().optional().default(false),
+      addresses: z
+        .array(createProjectAddressSchema(locale))
+        .max(MAX_PROJECT_ADDRESSES, translate(locale, "validation.addressesMax", { max: MAX_PROJECT_ADDRESSES })),
+    })
+    .superRefine((values, context) => {
+      if (values.targetAmount && !hasValidMinorUnits(values.targetAmount, values.currency)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["targetAmount"],
+          message: describeCurrencyMinorUnits(values.currency, locale),
         });
       }
 
-      if (!values.city.trim()) {
+      if (values.endDate && values.startDate && values.endDate < values.startDate) {
         context.addIssue({
           code: z.ZodIssueCode.custom,
-          path: ["city"],
-          message: "City is required when address is provided",
+          path: ["endDate"],
+          message: translate(locale, "validation.endBeforeStart"),
         });
       }
-    }
-  });
-
-export type CreateProjectFormValues = z.infer<typeof createProjectFormSchema>;
-
-export function toProjectAddresses(values: CreateProjectFormValues): Address[] {
-  const country = values.country.trim();
-  const state = values.state.trim();
-  const city = values.city.trim();
-
-  if (!country && !state && !city) {
-    return [];
-  }
-
-  return [
-    {
-      country,
-      state,
-      city,
-    },
-  ];
+    });
+}
+
+type CreateProjectFormSchema = ReturnType<typeof createProjectFormSchema>;
+
+export type CreateProjectFormInput = z.input<CreateProjectFormSchema>;
+export type CreateProjectFormValues = z.infer<CreateProjectFormSchema>;
+
+/** Loads a stored, possibly free-text, address into the form in its canonical form. */
+export function toProjectAddressFormValues(address: Address): ProjectAddressFormValues {
+  const normalized = normalizeAddress(address);
+
+  return {
+    country: normalized.country,
+    countryCode: normalized.countryCode ?? "",
+    state: normalized.state,
+    stateCode: normalized.stateCode ?? "",
+    city: normalized.city,
+  };
+}
+
+export function toProjectAddresses(values: Pick<CreateProjectFormValues, "addresses">): Address[] {
+  return values.addresses
+    .map((address) => ({
+      country: address.country.trim(),
+      countryCode: address.countryCode || undefined,
+      state: address.state.trim(),
+      stateCode: address.stateCode || undefined,
+      city: address.city.trim(),
+    }))
+    .filter((address) => address.country || address.state || address.city);
 }
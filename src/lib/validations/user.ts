@@ -0,0 +1,46 @@
+import { z } from "zod";
+import type { Translate } from "@/lib/i18n";
+
+export function createUserFormSchema(t: Translate) {
+  return z
+    .object({
+      email: z.string().trim().min(1, t("validation.emailRequired")).email(t("validation.emailInvalid")),
+      firstName: z
+        .string()
+        .trim()
+        .min(1, t("validation.firstNameRequired"))
+        .max(100, t("validation.firstNameMax", { max: 100 })),
+      lastName: z
+        .string()
+        .trim()
+        .min(1, t("validation.lastNameRequired"))
+        .max(100, t("validation.lastNameMax", { max: 100 })),
+      mobileNumber: z.string().trim(),
+      role: z.string().min(1, t("validation.roleRequired")),
+      sendInvite: z.boolean(),
+      password: z.string(),
+    })
+    .superRefine((values, context) => {
+      if (!values.sendInvite && values.password.length < 8) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["password"],
+          message: t("validation.passwordMin", { min: 8 }),
+        });
+      }
+    });
+}
+
+export type UserFormValues = z.input<ReturnType<typeof createUserFormSchema>>;
+export type UserFormField = keyof UserFormValues;
+export type UserFormErrors = Partial<Record<UserFormField, string>>;
+
+export const EMPTY_USER_FORM: UserFormValues = {
+  email: "",
+  firstName: "",
+  lastName: "",
+  mobileNumber: "",
+  role: "Donor",
+  sendInvite: true,
+  password: "",
+};
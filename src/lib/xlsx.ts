@@ -0,0 +1,347 @@
+import { downloadFile } from "@/lib/csv";
+import { translate, type Locale } from "@/lib/i18n";
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+/** Packs the entries into an uncompressed ("stored") zip archive, which is all XLSX needs. */
+function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.content);
+    const checksum = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true); // UTF-8 file names
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, 0, true);
+    localView.setUint16(12, 0x21, true); // 1980-01-01
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, 0, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...localParts, ...centralParts, end].forEach((part) => {
+    archive.set(part, position);
+    position += part.length;
+  });
+
+  return archive;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab and newlines are not allowed in XML.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+function toColumnName(index: number): string {
+  let name = "";
+  let current = index + 1;
+  while (current > 0) {
+    const remainder = (current - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    current = Math.floor((current - 1) / 26);
+  }
+
+  return name;
+}
+
+function toCellXml(value: XlsxCell, reference: string, isHeader: boolean): string {
+  const style = isHeader ? ' s="1"' : "";
+
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+
+  if (typeof value === "boolean") {
+    return `<c r="${reference}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function toSheetXml(rows: XlsxCell[][]): string {
+  const rowXml = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => toCellXml(value, `${toColumnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0))
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXml}</sheetData></worksheet>`;
+}
+
+/** Sheet names are limited to 31 characters and may not contain `[]:*?/\`. */
+function toSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+}
+
+/** Builds a single-sheet workbook. The first row is treated as the header and rendered bold. */
+export function toXlsx(sheetName: string, rows: XlsxCell[][]): Blob {
+  const archive = createZip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>',
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>',
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>',
+    },
+    {
+      name: "xl/styles.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>',
+    },
+    { name: "xl/worksheets/sheet1.xml", content: toSheetXml(rows) },
+  ]);
+
+  return new Blob([archive], { type: XLSX_MIME_TYPE });
+}
+
+export function downloadXlsx(fileName: string, sheetName: string, rows: XlsxCell[][]): void {
+  downloadFile(fileName, toXlsx(sheetName, rows), XLSX_MIME_TYPE);
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Reads the named entries of a zip archive, leaving every other entry untouched. */
+async function readZipEntries(buffer: ArrayBuffer, names: string[], locale: Locale): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOffset = offset;
+      break;
+    }
+  }
+
+  if (endOffset < 0) {
+    throw new Error(translate(locale, "xlsx.invalidWorkbook"));
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, string>();
+
+  for (let index = 0; index < entryCount; index += 1) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!names.includes(name)) {
+      continue;
+    }
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      entries.set(name, decoder.decode(await inflateRaw(data)));
+    } else {
+      throw new Error(translate(locale, "xlsx.unsupportedCompression"));
+    }
+  }
+
+  return entries;
+}
+
+function parseXml(content: string): Document {
+  return new DOMParser().parseFromString(content, "application/xml");
+}
+
+function elementsByName(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", name));
+}
+
+function toColumnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+
+  return index - 1;
+}
+
+/**
+ * Reads the first worksheet of an XLSX file as rows of strings, with blank rows left in place so
+ * indexes match the sheet's row numbers. Numbers keep their stored form, so dates arrive as Excel
+ * serial day numbers.
+ */
+export async function readXlsxRows(file: Blob, locale: Locale): Promise<string[][]> {
+  const buffer = await file.arrayBuffer();
+  const parts = await readZipEntries(buffer, [
+    "xl/workbook.xml",
+    "xl/_rels/workbook.xml.rels",
+    "xl/sharedStrings.xml",
+  ], locale);
+
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = parts.get("xl/workbook.xml");
+  const relationships = parts.get("xl/_rels/workbook.xml.rels");
+  if (workbook && relationships) {
+    const firstSheet = elementsByName(parseXml(workbook), "sheet")[0];
+    const relationshipId =
+      firstSheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id") ??
+      firstSheet?.getAttribute("r:id");
+    const target = elementsByName(parseXml(relationships), "Relationship")
+      .find((relationship) => relationship.getAttribute("Id") === relationshipId)
+      ?.getAttribute("Target");
+
+    if (target) {
+      sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = (await readZipEntries(buffer, [sheetPath], locale)).get(sheetPath);
+  if (!sheet) {
+    throw new Error(translate(locale, "xlsx.noWorksheet"));
+  }
+
+  const sharedStringsXml = parts.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? elementsByName(parseXml(sharedStringsXml), "si").map((item) =>
+        elementsByName(item, "t")
+          .map((text) => text.textContent ?? "")
+          .join(""),
+      )
+    : [];
+
+  const rows: string[][] = [];
+  elementsByName(parseXml(sheet), "row").forEach((rowElement) => {
+    const rowIndex = Number(rowElement.getAttribute("r") ?? rows.length + 1) - 1;
+    const row: string[] = [];
+
+    elementsByName(rowElement, "c").forEach((cell) => {
+      const reference = cell.getAttribute("r");
+      const columnIndex = reference ? toColumnIndex(reference) : row.length;
+      const type = cell.getAttribute("t");
+      const rawValue = elementsByName(cell, "v")[0]?.textContent ?? "";
+
+      let value = rawValue;
+      if (type === "s") {
+        value = sharedStrings[Number(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        value = elementsByName(cell, "t")
+          .map((text) => text.textContent ?? "")
+          .join("");
+      } else if (type === "b") {
+        value = rawValue === "1" ? "TRUE" : "FALSE";
+      }
+
+      while (row.length < columnIndex) {
+        row.push("");
+      }
+      row[columnIndex] = value;
+    });
+
+    rows[rowIndex] = row;
+  });
+
+  return Array.from(rows, (row) => row ?? []);
+}
@@ -14,11 +14,17 @@ import { Route as DonationsRouteImport } from './routes/donations'
 import { Route as DashboardRouteImport } from './routes/dashboard'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as DashboardIndexRouteImport } from './routes/dashboard.index'
+import { Route as DashboardUsersRouteImport } from './routes/dashboard.users'
 import { Route as DashboardProjectsRouteImport } from './routes/dashboard.projects'
 import { Route as DashboardProfileRouteImport } from './routes/dashboard.profile'
+import { Route as DashboardDonationsRouteImport } from './routes/dashboard.donations'
+import { Route as DashboardCategoriesRouteImport } from './routes/dashboard.categories'
+import { Route as DashboardAuditRouteImport } from './routes/dashboard.audit'
 import { Route as DashboardAdminRouteImport } from './routes/dashboard.admin'
 import { Route as DashboardProjectsIndexRouteImport } from './routes/dashboard.projects.index'
+import { Route as DashboardProjectsReviewRouteImport } from './routes/dashboard.projects.review'
 import { Route as DashboardProjectsNewRouteImport } from './routes/dashboard.projects.new'
+import { Route as DashboardProjectsImportRouteImport } from './routes/dashboard.projects.import'
 import { Route as DashboardProjectsPreviewProjectIdRouteImport } from './routes/dashboard.projects.preview.$projectId'
 import { Route as DashboardProjectsEditProjectIdRouteImport } from './routes/dashboard.projects.edit.$projectId'
 
@@ -47,6 +53,11 @@ const DashboardIndexRoute = DashboardIndexRouteImport.update({
   path: '/',
   getParentRoute: () => DashboardRoute,
 } as any)
+const DashboardUsersRoute = DashboardUsersRouteImport.update({
+  id: '/users',
+  path: '/users',
+  getParentRoute: () => DashboardRoute,
+} as any)
 const DashboardProjectsRoute = DashboardProjectsRouteImport.update({
   id: '/projects',
   path: '/projects',
@@ -57,6 +68,21 @@ const DashboardProfileRoute = DashboardProfileRouteImport.update({
   path: '/profile',
   getParentRoute: () => DashboardRoute,
 } as any)
+const DashboardDonationsRoute = DashboardDonationsRouteImport.update({
+  id: '/donations',
+  path: '/donations',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardCategoriesRoute = DashboardCategoriesRouteImport.update({
+  id: '/categories',
+  path: '/categories',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardAuditRoute = DashboardAuditRouteImport.update({
+  id: '/audit',
+  path: '/audit',
+  getParentRoute: () => DashboardRoute,
+} as any)
 const DashboardAdminRoute = DashboardAdminRouteImport.update({
   id: '/admin',
   path: '/admin',
@@ -67,11 +93,21 @@ const DashboardProjectsIndexRoute = DashboardProjectsIndexRouteImport.update({
   path: '/',
   getParentRoute: () => DashboardProjectsRoute,
 } as any)
+const DashboardProjectsReviewRoute = DashboardProjectsReviewRouteImport.update({
+  id: '/review',
+  path: '/review',
+  getParentRoute: () => DashboardProjectsRoute,
+} as any)
 const DashboardProjectsNewRoute = DashboardProjectsNewRouteImport.update({
   id: '/new',
   path: '/new',
   getParentRoute: () => DashboardProjectsRoute,
 } as any)
+const DashboardProjectsImportRoute = DashboardProjectsImportRouteImport.update({
+  id: '/import',
+  path: '/import',
+  getParentRoute: () => DashboardProjectsRoute,
+} as any)
 const DashboardProjectsPreviewProjectIdRoute =
   DashboardProjectsPreviewProjectIdRouteImport.update({
     id: '/preview/$projectId',
@@ -91,10 +127,16 @@ export interface FileRoutesByFullPath {
   '/donations': typeof DonationsRoute
   '/login': typeof LoginRoute
   '/dashboard/admin': typeof DashboardAdminRoute
+  '/dashboard/audit': typeof DashboardAuditRoute
+  '/dashboard/categories': typeof DashboardCategoriesRoute
+  '/dashboard/donations': typeof DashboardDonationsRoute
   '/dashboard/profile': typeof DashboardProfileRoute
   '/dashboard/projects': typeof DashboardProjectsRouteWithChildren
+  '/dashboard/users': typeof DashboardUsersRoute
   '/dashboard/': typeof DashboardIndexRoute
+  '/dashboard/projects/import': typeof DashboardProjectsImportRoute
   '/dashboard/projects/new': typeof DashboardProjectsNewRoute
+  '/dashboard/projects/review': typeof DashboardProjectsReviewRoute
   '/dashboard/projects/': typeof DashboardProjectsIndexRoute
   '/dashboard/projects/edit/$projectId': typeof DashboardProjectsEditProjectIdRoute
   '/dashboard/projects/preview/$projectId': typeof DashboardProjectsPreviewProjectIdRoute
@@ -104,9 +146,15 @@ export interface FileRoutesByTo {
   '/donations': typeof DonationsRoute
   '/login': typeof LoginRoute
   '/dashboard/admin': typeof DashboardAdminRoute
+  '/dashboard/audit': typeof DashboardAuditRoute
+  '/dashboard/categories': typeof DashboardCategoriesRoute
+  '/dashboard/donations': typeof DashboardDonationsRoute
   '/dashboard/profile': typeof DashboardProfileRoute
+  '/dashboard/users': typeof DashboardUsersRoute
   '/dashboard': typeof DashboardIndexRoute
+  '/dashboard/projects/import': typeof DashboardProjectsImportRoute
   '/dashboard/projects/new': typeof DashboardProjectsNewRoute
+  '/dashboard/projects/review': typeof DashboardProjectsReviewRoute
   '/dashboard/projects': typeof DashboardProjectsIndexRoute
   '/dashboard/projects/edit/$projectId': typeof DashboardProjectsEditProjectIdRoute
   '/dashboard/projects/preview/$projectId': typeof DashboardProjectsPreviewProjectIdRoute
@@ -118,10 +166,16 @@ export interface FileRoutesById {
   '/donations': typeof DonationsRoute
   '/login': typeof LoginRoute
   '/dashboard/admin': typeof DashboardAdminRoute
+  '/dashboard/audit': typeof DashboardAuditRoute
+  '/dashboard/categories': typeof DashboardCategoriesRoute
+  '/dashboard/donations': typeof DashboardDonationsRoute
   '/dashboard/profile': typeof DashboardProfileRoute
   '/dashboard/projects': typeof DashboardProjectsRouteWithChildren
+  '/dashboard/users': typeof DashboardUsersRoute
   '/dashboard/': typeof DashboardIndexRoute
+  '/dashboard/projects/import': typeof DashboardProjectsImportRoute
   '/dashboard/projects/new': typeof DashboardProjectsNewRoute
+  '/dashboard/projects/review': typeof DashboardProjectsReviewRoute
   '/dashboard/projects/': typeof DashboardProjectsIndexRoute
   '/dashboard/projects/edit/$projectId': typeof DashboardProjectsEditProjectIdRoute
   '/dashboard/projects/preview/$projectId': typeof DashboardProjectsPreviewProjectIdRoute
@@ -134,10 +188,16 @@ export interface FileRouteTypes {
     | '/donations'
     | '/login'
     | '/dashboard/admin'
+    | '/dashboard/audit'
+    | '/dashboard/categories'
+    | '/dashboard/donations'
     | '/dashboard/profile'
     | '/dashboard/projects'
+    | '/dashboard/users'
     | '/dashboard/'
+    | '/dashboard/projects/import'
     | '/dashboard/projects/new'
+    | '/dashboard/projects/review'
     | '/dashboard/projects/'
     | '/dashboard/projects/edit/$projectId'
     | '/dashboard/projects/preview/$projectId'
@@ -147,9 +207,15 @@ export interface FileRouteTypes {
     | '/donations'
     | '/login'
     | '/dashboard/admin'
+    | '/dashboard/audit'
+    | '/dashboard/categories'
+    | '/dashboard/donations'
     | '/dashboard/profile'
+    | '/dashboard/users'
     | '/dashboard'
+    | '/dashboard/projects/import'
     | '/dashboard/projects/new'
+    | '/dashboard/projects/review'
     | '/dashboard/projects'
     | '/dashboard/projects/edit/$projectId'
     | '/dashboard/projects/preview/$projectId'
@@ -160,10 +226,16 @@ export interface FileRouteTypes {
     | '/donations'
     | '/login'
     | '/dashboard/admin'
+    | '/dashboard/audit'
+    | '/dashboard/categories'
+    | '/dashboard/donations'
     | '/dashboard/profile'
     | '/dashboard/projects'
+    | '/dashboard/users'
     | '/dashboard/'
+    | '/dashboard/projects/import'
     | '/dashboard/projects/new'
+    | '/dashboard/projects/review'
     | '/dashboard/projects/'
     | '/dashboard/projects/edit/$projectId'
     | '/dashboard/projects/preview/$projectId'
@@ -213,6 +285,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardIndexRouteImport
       parentRoute: typeof DashboardRoute
     }
+    '/dashboard/users': {
+      id: '/dashboard/users'
+      path: '/users'
+      fullPath: '/dashboard/users'
+      preLoaderRoute: typeof DashboardUsersRouteImport
+      parentRoute: typeof DashboardRoute
+    }
     '/dashboard/projects': {
       id: '/dashboard/projects'
       path: '/projects'
@@ -227,6 +306,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardProfileRouteImport
       parentRoute: typeof DashboardRoute
     }
+    '/dashboard/donations': {
+      id: '/dashboard/donations'
+      path: '/donations'
+      fullPath: '/dashboard/donations'
+      preLoaderRoute: typeof DashboardDonationsRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/dashboard/categories': {
+      id: '/dashboard/categories'
+      path: '/categories'
+      fullPath: '/dashboard/categories'
+      preLoaderRoute: typeof DashboardCategoriesRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/dashboard/audit': {
+      id: '/dashboard/audit'
+      path: '/audit'
+      fullPath: '/dashboard/audit'
+      preLoaderRoute: typeof DashboardAuditRouteImport
+      parentRoute: typeof DashboardRoute
+    }
     '/dashboard/admin': {
       id: '/dashboard/admin'
       path: '/admin'
@@ -241,6 +341,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardProjectsIndexRouteImport
       parentRoute: typeof DashboardProjectsRoute
     }
+    '/dashboard/projects/review': {
+      id: '/dashboard/projects/review'
+      path: '/review'
+      fullPath: '/dashboard/projects/review'
+      preLoaderRoute: typeof DashboardProjectsReviewRouteImport
+      parentRoute: typeof DashboardProjectsRoute
+    }
     '/dashboard/projects/new': {
       id: '/dashboard/projects/new'
       path: '/new'
@@ -248,6 +355,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardProjectsNewRouteImport
       parentRoute: typeof DashboardProjectsRoute
     }
+    '/dashboard/projects/import': {
+      id: '/dashboard/projects/import'
+      path: '/import'
+      fullPath: '/dashboard/projects/import'
+      preLoaderRoute: typeof DashboardProjectsImportRouteImport
+      parentRoute: typeof DashboardProjectsRoute
+    }
     '/dashboard/projects/preview/$projectId': {
       id: '/dashboard/projects/preview/$projectId'
       path: '/preview/$projectId'
@@ -266,14 +380,18 @@ declare module '@tanstack/react-router' {
 }
 
 interface DashboardProjectsRouteChildren {
+  DashboardProjectsImportRoute: typeof DashboardProjectsImportRoute
   DashboardProjectsNewRoute: typeof DashboardProjectsNewRoute
+  DashboardProjectsReviewRoute: typeof DashboardProjectsReviewRoute
   DashboardProjectsIndexRoute: typeof DashboardProjectsIndexRoute
   DashboardProjectsEditProjectIdRoute: typeof DashboardProjectsEditProjectIdRoute
   DashboardProjectsPreviewProjectIdRoute: typeof DashboardProjectsPreviewProjectIdRoute
 }
 
 const DashboardProjectsRouteChildren: DashboardProjectsRouteChildren = {
+  DashboardProjectsImportRoute: DashboardProjectsImportRoute,
   DashboardProjectsNewRoute: DashboardProjectsNewRoute,
+  DashboardProjectsReviewRoute: DashboardProjectsReviewRoute,
   DashboardProjectsIndexRoute: DashboardProjectsIndexRoute,
   DashboardProjectsEditProjectIdRoute: DashboardProjectsEditProjectIdRoute,
   DashboardProjectsPreviewProjectIdRoute:
@@ -285,15 +403,23 @@ const DashboardProjectsRouteWithChildren =
 
 interface DashboardRouteChildren {
   DashboardAdminRoute: typeof DashboardAdminRoute
+  DashboardAuditRoute: typeof DashboardAuditRoute
+  DashboardCategoriesRoute: typeof DashboardCategoriesRoute
+  DashboardDonationsRoute: typeof DashboardDonationsRoute
   DashboardProfileRoute: typeof DashboardProfileRoute
   DashboardProjectsRoute: typeof DashboardProjectsRouteWithChildren
+  DashboardUsersRoute: typeof DashboardUsersRoute
   DashboardIndexRoute: typeof DashboardIndexRoute
 }
 
 const DashboardRouteChildren: DashboardRouteChildren = {
   DashboardAdminRoute: DashboardAdminRoute,
+  DashboardAuditRoute: DashboardAuditRoute,
+  DashboardCategoriesRoute: DashboardCategoriesRoute,
+  DashboardDonationsRoute: DashboardDonationsRoute,
   DashboardProfileRoute: DashboardProfileRoute,
   DashboardProjectsRoute: DashboardProjectsRouteWithChildren,
+  DashboardUsersRoute: DashboardUsersRoute,
   DashboardIndexRoute: DashboardIndexRoute,
 }
 
@@ -9,7 +9,9 @@ import {
 import { TanStackRouterDevtools } from "@tanstack/react-router-devtools";
 import { ThemeProvider } from "@/components/theme-provider";
 import { AuthProvider } from "@/components/auth-provider";
+import { LocaleProvider, useLocale } from "@/components/locale-provider";
 import { Button } from "@/components/ui/button";
+import { LOCALES, LOCALE_STORAGE_KEY } from "@/lib/i18n";
 import "@/styles.css";
 
 const themeScript = `
@@ -22,6 +24,18 @@ const themeScript = `
   })();
 `;
 
+// Applied before hydration so RTL languages never render a left-to-right first frame.
+const localeScript = `
+  (function() {
+    const directions = ${JSON.stringify(Object.fromEntries(Object.entries(LOCALES).map(([code, locale]) => [code, locale.dir])))};
+    const locale = localStorage.getItem('${LOCALE_STORAGE_KEY}');
+    if (locale && directions[locale]) {
+      document.documentElement.lang = locale;
+      document.documentElement.dir = directions[locale];
+    }
+  })();
+`;
+
 export const Route = createRootRoute({
   head: () => ({
     meta: [
@@ -39,9 +53,11 @@ function RootComponent() {
   return (
     <RootDocument>
       <ThemeProvider defaultTheme="system" storageKey="vite-ui-theme">
-        <AuthProvider>
-          <Outlet />
-        </AuthProvider>
+        <LocaleProvider>
+          <AuthProvider>
+            <Outlet />
+          </AuthProvider>
+        </LocaleProvider>
       </ThemeProvider>
     </RootDocument>
   );
@@ -49,10 +65,11 @@ function RootComponent() {
 
 function RootDocument({ children }: Readonly<{ children: ReactNode }>) {
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang="en" dir="ltr" suppressHydrationWarning>
       <head>
         <HeadContent />
         <script dangerouslySetInnerHTML={{ __html: themeScript }} />
+        <script dangerouslySetInnerHTML={{ __html: localeScript }} />
       </head>
       <body className="min-h-screen bg-background font-sans antialiased">
         {children}
@@ -64,11 +81,13 @@ function RootDocument({ children }: Readonly<{ children: ReactNode }>) {
 }
 
 function NotFoundComponent() {
+  const { t } = useLocale();
+
   return (
     <div className="flex min-h-screen flex-col items-center justify-center gap-4">
       <h1 className="text-4xl font-bold">404</h1>
-      <p className="text-muted-foreground">Page not found</p>
-      <Button render={<Link to="/">Go Home</Link>} />
+      <p className="text-muted-foreground">{t("notFound.message")}</p>
+      <Button render={<Link to="/">{t("notFound.goHome")}</Link>} />
     </div>
   );
 }
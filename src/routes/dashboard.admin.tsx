@@ -1,20 +1,44 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createFileRoute } from "@tanstack/react-router";
-import { useAuth } from "@/components/auth-provider";
-import { extractApiErrorMessage, getUsers, updateUserRole } from "@/lib/api";
-import { EMPTY_BANK_DETAILS, readBankDetails, writeBankDetails } from "@/lib/bank-details";
+import { BankDetailsFields } from "@/components/bank-details-fields";
+import { Can, useCan } from "@/components/can";
+import { ExchangeRatesEditor } from "@/components/exchange-rates-editor";
+import { useLocale } from "@/components/locale-provider";
+import { extractApiErrorMessage, getNpoBankAccount, getUsers, updateUserRole } from "@/lib/api";
+import {
+  EMPTY_BANK_DETAILS,
+  migrateLocalBankDetails,
+  saveBankDetails,
+  toBankDetails,
+} from "@/lib/bank-details";
+import {
+  PERMISSION_GROUPS,
+  ROLE_PERMISSIONS,
+  getRolePermissions,
+  isNpoRole,
+  type KnownRole,
+} from "@/lib/permissions";
+import { requirePermission } from "@/lib/route-guards";
+import {
+  validateBankDetails,
+  type BankDetailsField,
+  type BankDetailsFieldErrors,
+} from "@/lib/validations/bank-details";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { BankDetails, User, UserRole } from "@/types/api";
+import type { BankDetails, NpoBankAccount, User, UserRole } from "@/types/api";
 
 export const Route = createFileRoute("/dashboard/admin")({
+  beforeLoad: requirePermission("user.role.update"),
   component: DashboardAdminPage,
 });
 
+const MATRIX_ROLES = Object.keys(ROLE_PERMISSIONS) as KnownRole[];
+
 function DashboardAdminPage() {
-  const { session } = useAuth();
+  const { locale, t } = useLocale();
+  const can = useCan();
   const [users, setUsers] = useState<User[]>([]);
   const [roleDrafts, setRoleDrafts] = useState<Record<string, UserRole>>({});
   const [isLoading, setIsLoading] = useState(true);
@@ -24,14 +48,48 @@ function DashboardAdminPage() {
 
   const [selectedBankUserId, setSelectedBankUserId] = useState("");
   const [bankDetails, setBankDetails] = useState<BankDetails>(EMPTY_BANK_DETAILS);
+  const [bankAccount, setBankAccount] = useState<NpoBankAccount | null>(null);
+  const [bankErrors, setBankErrors] = useState<BankDetailsFieldErrors>({});
+  const [isLoadingBank, setIsLoadingBank] = useState(false);
+  const [isSavingBank, setIsSavingBank] = useState(false);
+  const latestBankUserIdRef = useRef("");
 
-  const isAdmin = session?.user.role.toLowerCase() === "admin";
+  const isAdmin = can("user.role.update");
 
   const npoUsers = useMemo(
-    () => users.filter((user) => user.role.toLowerCase() === "npo"),
+    () => users.filter((user) => isNpoRole(user.role)),
     [users],
   );
 
+  const selectBankUser = useCallback(async (userId: string) => {
+    latestBankUserIdRef.current = userId;
+    setSelectedBankUserId(userId);
+    setBankAccount(null);
+    setBankDetails({ ...EMPTY_BANK_DETAILS });
+    setBankErrors({});
+
+    setIsLoadingBank(Boolean(userId));
+
+    if (!userId) {
+      return;
+    }
+
+
+    try {
+      const account = await getNpoBankAccount(userId);
+      if (latestBankUserIdRef.current === userId) {
+        setBankAccount(account);
+        setBankDetails(toBankDetails(account));
+      }
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      if (latestBankUserIdRef.current === userId) {
+        setIsLoadingBank(false);
+      }
+    }
+  }, []);
+
   useEffect(() => {
     if (!isAdmin) {
       setIsLoading(false);
@@ -49,9 +107,10 @@ function DashboardAdminPage() {
           Object.fromEntries(usersResponse.map((user) => [user.id, user.role])) as Record<string, UserRole>,
         );
 
-        const defaultNpoId = usersResponse.find((user) => user.role.toLowerCase() === "npo")?.id ?? "";
-        setSelectedBankUserId(defaultNpoId);
-        setBankDetails(defaultNpoId ? readBankDetails(defaultNpoId) : { ...EMPTY_BANK_DETAILS });
+        await migrateLocalBankDetails((userId) => can("bank.update", userId));
+
+        const defaultNpoId = usersResponse.find((user) => isNpoRole(user.role))?.id ?? "";
+        void selectBankUser(defaultNpoId);
       } catch (error) {
         setErrorMessage(extractApiErrorMessage(error));
       } finally {
@@ -60,21 +119,22 @@ function DashboardAdminPage() {
     }
 
     void loadUsers();
-  }, [isAdmin]);
+  }, [can, isAdmin, selectBankUser]);
 
   if (!isAdmin) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Admin Settings</CardTitle>
-          <CardDescription>Only admin users can access this section.</CardDescription>
+          <CardTitle>{t("nav.admin")}</CardTitle>
+          <CardDescription>{t("admin.adminOnly")}</CardDescription>
         </CardHeader>
       </Card>
     );
   }
 
-  function onBankDetailChange<K extends keyof BankDetails>(field: K, value: BankDetails[K]) {
+  function onBankDetailChange(field: BankDetailsField, value: string) {
     setBankDetails((current) => ({ ...current, [field]: value }));
+    setBankErrors((current) => ({ ...current, [field]: undefined }));
   }
 
   async function onSaveRole(userId: string) {
@@ -88,7 +148,7 @@ function DashboardAdminPage() {
       setUsers((current) =>
         current.map((user) => (user.id === userId ? { ...user, role } : user)),
       );
-      setSuccessMessage("User role updated.");
+      setSuccessMessage(t("admin.roleUpdated"));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
@@ -96,27 +156,42 @@ function DashboardAdminPage() {
     }
   }
 
-  function onSaveBankDetails() {
+  async function onSaveBankDetails() {
     setErrorMessage(null);
     setSuccessMessage(null);
 
     if (!selectedBankUserId) {
-      setErrorMessage("Please select an NPO user.");
+      setErrorMessage(t("admin.selectNpoRequired"));
       return;
     }
 
-    writeBankDetails(selectedBankUserId, bankDetails);
-    setSuccessMessage("NPO bank details saved (local browser storage).");
+    const validation = validateBankDetails(bankDetails, locale);
+    if (!validation.success) {
+      setBankErrors(validation.fieldErrors);
+      return;
+    }
+
+    setBankErrors({});
+    setIsSavingBank(true);
+
+    try {
+      const savedAccount = await saveBankDetails(selectedBankUserId, validation.data, bankAccount);
+      setBankAccount(savedAccount);
+      setBankDetails(toBankDetails(savedAccount));
+      setSuccessMessage(t("admin.bankSaved"));
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsSavingBank(false);
+    }
   }
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Admin Configuration</CardTitle>
-          <CardDescription>
-            Manage users, roles, and local NPO receiving bank details.
-          </CardDescription>
+          <CardTitle>{t("admin.title")}</CardTitle>
+          <CardDescription>{t("admin.description")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {errorMessage ? (
@@ -131,14 +206,14 @@ function DashboardAdminPage() {
             </div>
           ) : null}
 
-          {isLoading ? <p className="text-sm text-muted-foreground">Loading users...</p> : null}
+          {isLoading ? <p className="text-sm text-muted-foreground">{t("admin.loadingUsers")}</p> : null}
         </CardContent>
       </Card>
 
       <Card>
         <CardHeader>
-          <CardTitle>User Role Management</CardTitle>
-          <CardDescription>Admin has full access. NPO and Donor permissions depend on role.</CardDescription>
+          <CardTitle>{t("admin.rolesTitle")}</CardTitle>
+          <CardDescription>{t("admin.rolesDescription")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
           {users.map((user) => (
@@ -160,9 +235,9 @@ function DashboardAdminPage() {
                       }))
                     }
                   >
-                    <option value="Admin">Admin</option>
-                    <option value="Npo">NPO</option>
-                    <option value="Donor">Donor</option>
+                    <option value="Admin">{t("role.admin")}</option>
+                    <option value="Npo">{t("role.npo")}</option>
+                    <option value="Donor">{t("role.donor")}</option>
                   </select>
 
                   <Button
@@ -173,7 +248,7 @@ function DashboardAdminPage() {
                       void onSaveRole(user.id);
                     }}
                   >
-                    {isSavingRoleFor === user.id ? "Saving..." : "Save Role"}
+                    {isSavingRoleFor === user.id ? t("common.saving") : t("admin.saveRole")}
                   </Button>
                 </div>
               </div>
@@ -184,141 +259,113 @@ function DashboardAdminPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Permissions Matrix</CardTitle>
-          <CardDescription>
-            Current frontend permission model used by the dashboard.
-          </CardDescription>
+          <CardTitle>{t("admin.matrixTitle")}</CardTitle>
+          <CardDescription>{t("admin.matrixDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
             <table className="w-full border-collapse text-sm">
               <thead>
-                <tr className="border-b text-left">
-                  <th className="py-2 pr-3">Role</th>
-                  <th className="py-2 pr-3">Projects</th>
-                  <th className="py-2 pr-3">Users / Roles</th>
-                  <th className="py-2 pr-3">Profile</th>
-                  <th className="py-2 pr-3">Bank Details</th>
+                <tr className="border-b text-start">
+                  <th className="py-2 pe-3">{t("admin.role")}</th>
+                  {PERMISSION_GROUPS.map((group) => (
+                    <th key={group} className="py-2 pe-3">
+                      {t(`permissionGroup.${group}`)}
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody>
-                <tr className="border-b">
-                  <td className="py-2 pr-3 font-medium">Admin</td>
-                  <td className="py-2 pr-3">Full CRUD + approval</td>
-                  <td className="py-2 pr-3">Full access</td>
-                  <td className="py-2 pr-3">Own profile</td>
-                  <td className="py-2 pr-3">Configure any NPO (local storage)</td>
-                </tr>
-                <tr className="border-b">
-                  <td className="py-2 pr-3 font-medium">NPO</td>
-                  <td className="py-2 pr-3">Own projects CRUD</td>
-                  <td className="py-2 pr-3">No admin access</td>
-                  <td className="py-2 pr-3">Own profile</td>
-                  <td className="py-2 pr-3">Own bank details (local storage)</td>
-                </tr>
-                <tr>
-                  <td className="py-2 pr-3 font-medium">Donor</td>
-                  <td className="py-2 pr-3">Read-only dashboard</td>
-                  <td className="py-2 pr-3">No admin access</td>
-                  <td className="py-2 pr-3">Own profile</td>
-                  <td className="py-2 pr-3">No project management</td>
-                </tr>
+                {MATRIX_ROLES.map((role, index) => (
+                  <tr key={role} className={index < MATRIX_ROLES.length - 1 ? "border-b" : undefined}>
+                    <td className="py-2 pe-3 align-top font-medium">{t(`role.${role}`)}</td>
+                    {PERMISSION_GROUPS.map((group) => {
+                      const permissions = getRolePermissions(role, group);
+                      return (
+                        <td key={group} className="py-2 pe-3 align-top">
+                          {permissions.length === 0 ? (
+                            <span className="text-muted-foreground">{t("admin.noAccess")}</span>
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {permissions.map((permission) => (
+                                <li key={permission}>{t(`permission.${permission}`)}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>NPO Bank Details</CardTitle>
-          <CardDescription>
-            Configure NPO receiving account details (stored in browser local storage until backend API is available).
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="grid gap-4 md:grid-cols-2">
-          <div className="space-y-2 md:col-span-2">
-            <Label htmlFor="admin-bank-user">NPO User</Label>
-            <select
-              id="admin-bank-user"
-              className="h-9 w-full rounded-md border bg-background px-3 text-sm"
-              value={selectedBankUserId}
-              onChange={(event) => {
-                const userId = event.target.value;
-                setSelectedBankUserId(userId);
-                setBankDetails(userId ? readBankDetails(userId) : { ...EMPTY_BANK_DETAILS });
-              }}
-            >
-              <option value="">Select NPO user</option>
-              {npoUsers.map((user) => (
-                <option key={user.id} value={user.id}>
-                  {user.firstName} {user.lastName} ({user.email})
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="admin-bank-holder">Account Holder Name</Label>
-            <Input
-              id="admin-bank-holder"
-              value={bankDetails.accountHolderName}
-              onChange={(event) => onBankDetailChange("accountHolderName", event.target.value)}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="admin-bank-name">Bank Name</Label>
-            <Input
-              id="admin-bank-name"
-              value={bankDetails.bankName}
-              onChange={(event) => onBankDetailChange("bankName", event.target.value)}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="admin-account-number">Account Number</Label>
-            <Input
-              id="admin-account-number"
-              value={bankDetails.accountNumber}
-              onChange={(event) => onBankDetailChange("accountNumber", event.target.value)}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="admin-routing-number">Routing Number</Label>
-            <Input
-              id="admin-routing-number"
-              value={bankDetails.routingNumber}
-              onChange={(event) => onBankDetailChange("routingNumber", event.target.value)}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="admin-iban">IBAN</Label>
-            <Input
-              id="admin-iban"
-              value={bankDetails.iban}
-              onChange={(event) => onBankDetailChange("iban", event.target.value)}
-            />
-          </div>
+      <Can permission="exchangeRate.manage">
+        <ExchangeRatesEditor
+          onError={(message) => {
+            setSuccessMessage(null);
+            setErrorMessage(message);
+          }}
+          onSuccess={(message) => {
+            setErrorMessage(null);
+            setSuccessMessage(message);
+          }}
+        />
+      </Can>
+
+      <Can permission="bank.update.any">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("admin.bankTitle")}</CardTitle>
+            <CardDescription>{t("admin.bankDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="admin-bank-user">{t("admin.npoUser")}</Label>
+              <select
+                id="admin-bank-user"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={selectedBankUserId}
+                onChange={(event) => {
+                  void selectBankUser(event.target.value);
+                }}
+              >
+                <option value="">{t("admin.selectNpoUser")}</option>
+                {npoUsers.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.firstName} {user.lastName} ({user.email})
+                  </option>
+                ))}
+              </select>
+              {isLoadingBank ? (
+                <p className="text-xs text-muted-foreground">{t("bank.loading")}</p>
+              ) : null}
+            </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="admin-swift">SWIFT Code</Label>
-            <Input
-              id="admin-swift"
-              value={bankDetails.swiftCode}
-              onChange={(event) => onBankDetailChange("swiftCode", event.target.value)}
+            <BankDetailsFields
+              idPrefix="admin-bank"
+              value={bankDetails}
+              errors={bankErrors}
+              onChange={onBankDetailChange}
             />
-          </div>
 
-          <div className="md:col-span-2">
-            <Button type="button" onClick={onSaveBankDetails}>
-              Save NPO Bank Details
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+            <div className="md:col-span-2">
+              <Button
+                type="button"
+                disabled={isSavingBank || isLoadingBank}
+                onClick={() => {
+                  void onSaveBankDetails();
+                }}
+              >
+                {isSavingBank ? t("common.saving") : t("admin.saveBank")}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </Can>
     </div>
   );
 }
@@ -0,0 +1,564 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import {
+  type ColumnDef,
+  type ExpandedState,
+  type PaginationState,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { extractApiErrorMessage, getAuditLogs, getUsers } from "@/lib/api";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  auditEntriesToRows,
+  getAuditActionLabel,
+  getAuditTargetLabel,
+} from "@/lib/audit";
+import { downloadCsv } from "@/lib/csv";
+import { requirePermission } from "@/lib/route-guards";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import type { AuditAction, AuditLogEntry, AuditLogQuery, AuditTargetType, User } from "@/types/api";
+import { useLocale } from "@/components/locale-provider";
+
+export const Route = createFileRoute("/dashboard/audit")({
+  beforeLoad: requirePermission("audit.view"),
+  component: DashboardAuditPage,
+});
+
+interface AuditFilters {
+  action: AuditAction | "";
+  targetType: AuditTargetType | "";
+  actorUserId: string;
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  action: "",
+  targetType: "",
+  actorUserId: "",
+  fromDate: "",
+  toDate: "",
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+const EXPORT_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+function toIsoBoundary(date: string, endOfDay: boolean): string | undefined {
+  if (!date) {
+    return undefined;
+  }
+
+  const parsed = new Date(`${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function DashboardAuditPage() {
+  const { locale, t, formatDateTime } = useLocale();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: 20 });
+  const [expanded, setExpanded] = useState<ExpandedState>({});
+
+  const userNameById = useMemo(
+    () =>
+      new Map(users.map((user) => [user.id, `${user.firstName} ${user.lastName}`.trim() || user.email])),
+    [users],
+  );
+
+  useEffect(() => {
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    if (!successMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setSuccessMessage(null);
+    }, 3500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [successMessage]);
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPagination((current) => (current.pageIndex === 0 ? current : { ...current, pageIndex: 0 }));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [search]);
+
+  const baseQuery = useMemo<Omit<AuditLogQuery, "page" | "pageSize">>(
+    () => ({
+      action: filters.action || undefined,
+      targetType: filters.targetType || undefined,
+      actorUserId: filters.actorUserId || undefined,
+      from: toIsoBoundary(filters.fromDate, false),
+      to: toIsoBoundary(filters.toDate, true),
+      search: debouncedSearch || undefined,
+    }),
+    [debouncedSearch, filters],
+  );
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadUsers() {
+      try {
+        const usersResponse = await getUsers();
+        if (isActive) {
+          setUsers(usersResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      }
+    }
+
+    void loadUsers();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadEntries() {
+      setIsLoading(true);
+
+      try {
+        const result = await getAuditLogs({
+          ...baseQuery,
+          page: pagination.pageIndex + 1,
+          pageSize: pagination.pageSize,
+        });
+
+        if (isActive) {
+          setEntries(result.items);
+          setTotalCount(result.totalCount);
+          setExpanded({});
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadEntries();
+
+    return () => {
+      isActive = false;
+    };
+  }, [baseQuery, pagination]);
+
+  function onFilterChange<K extends keyof AuditFilters>(field: K, value: AuditFilters[K]) {
+    setFilters((current) => ({ ...current, [field]: value }));
+    setPagination((current) => ({ ...current, pageIndex: 0 }));
+  }
+
+  async function onExportCsv() {
+    setErrorMessage(null);
+    setSuccessMessage(null);
+    setIsExporting(true);
+
+    try {
+      const exported: AuditLogEntry[] = [];
+      let page = 1;
+      let total = 0;
+
+      do {
+        const result = await getAuditLogs({ ...baseQuery, page, pageSize: EXPORT_PAGE_SIZE });
+        exported.push(...result.items);
+        total = result.totalCount;
+        page += 1;
+
+        if (result.items.length === 0) {
+          break;
+        }
+      } while (exported.length < Math.min(total, MAX_EXPORT_ROWS));
+
+      const rows = auditEntriesToRows(
+        exported.slice(0, MAX_EXPORT_ROWS).map((entry) => ({
+          ...entry,
+          actorName: entry.actorName ?? userNameById.get(entry.actorUserId) ?? null,
+        })),
+        locale,
+      );
+      downloadCsv(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, rows);
+
+      setSuccessMessage(
+        total > MAX_EXPORT_ROWS
+          ? t("audit.exportedPartial", { count: MAX_EXPORT_ROWS, total })
+          : t("audit.exported", { count: exported.length }),
+      );
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  const columns = useMemo<ColumnDef<AuditLogEntry>[]>(
+    () => [
+      {
+        id: "occurredAt",
+        header: t("audit.columnWhen"),
+        cell: ({ row }) => formatDateTime(row.original.occurredAt),
+      },
+      {
+        id: "actor",
+        header: t("audit.columnActor"),
+        cell: ({ row }) =>
+          row.original.actorName ?? userNameById.get(row.original.actorUserId) ?? row.original.actorUserId,
+      },
+      {
+        id: "action",
+        header: t("audit.columnAction"),
+        cell: ({ row }) => getAuditActionLabel(row.original.action, locale),
+      },
+      {
+        id: "target",
+        header: t("audit.columnTarget"),
+        cell: ({ row }) => (
+          <div>
+            <p className="font-medium">{row.original.targetLabel || row.original.targetId}</p>
+            <p className="text-xs text-muted-foreground">
+              {getAuditTargetLabel(row.original.targetType, locale)}
+            </p>
+          </div>
+        ),
+      },
+      {
+        id: "changes",
+        header: t("audit.columnChanges"),
+        cell: ({ row }) =>
+          row.getCanExpand() ? (
+            <Button type="button" size="sm" variant="outline" onClick={row.getToggleExpandedHandler()}>
+              {row.getIsExpanded()
+                ? t("audit.hideChanges")
+                : t("audit.showChanges", { count: row.original.changes.length })}
+            </Button>
+          ) : (
+            <span className="text-xs text-muted-foreground">{t("audit.noChanges")}</span>
+          ),
+      },
+    ],
+    [formatDateTime, locale, t, userNameById],
+  );
+
+  const table = useReactTable({
+    data: entries,
+    columns,
+    rowCount: totalCount,
+    state: { pagination, expanded },
+    manualPagination: true,
+    getRowId: (entry) => entry.id,
+    getRowCanExpand: (row) => row.original.changes.length > 0,
+    onPaginationChange: setPagination,
+    onExpandedChange: setExpanded,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  const visibleColumnCount = table.getVisibleLeafColumns().length;
+
+  return (
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      {successMessage ? (
+        <NotificationToast
+          type="success"
+          message={successMessage}
+          onClose={() => {
+            setSuccessMessage(null);
+          }}
+        />
+      ) : null}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>{t("audit.title")}</CardTitle>
+            <CardDescription>{t("audit.description")}</CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isExporting || totalCount === 0}
+            onClick={() => {
+              void onExportCsv();
+            }}
+          >
+            {isExporting ? t("audit.exporting") : t("audit.exportCsv")}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 rounded-md border bg-muted/30 p-3 sm:grid-cols-2 xl:grid-cols-3 xl:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="audit-search">{t("projects.search")}</Label>
+              <Input
+                id="audit-search"
+                placeholder={t("audit.searchPlaceholder")}
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-action-filter">{t("audit.columnAction")}</Label>
+              <select
+                id="audit-action-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={filters.action}
+                onChange={(event) => onFilterChange("action", event.target.value as AuditAction | "")}
+              >
+                <option value="">{t("common.all")}</option>
+                {AUDIT_ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {getAuditActionLabel(action, locale)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-target-filter">{t("audit.columnTargetType")}</Label>
+              <select
+                id="audit-target-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={filters.targetType}
+                onChange={(event) =>
+                  onFilterChange("targetType", event.target.value as AuditTargetType | "")
+                }
+              >
+                <option value="">{t("common.all")}</option>
+                {AUDIT_TARGET_TYPES.map((targetType) => (
+                  <option key={targetType} value={targetType}>
+                    {getAuditTargetLabel(targetType, locale)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-actor-filter">{t("audit.columnActor")}</Label>
+              <select
+                id="audit-actor-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={filters.actorUserId}
+                onChange={(event) => onFilterChange("actorUserId", event.target.value)}
+              >
+                <option value="">{t("common.all")}</option>
+                {users.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {userNameById.get(user.id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">{t("common.from")}</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.fromDate}
+                onChange={(event) => onFilterChange("fromDate", event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">{t("common.to")}</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.toDate}
+                onChange={(event) => onFilterChange("toDate", event.target.value)}
+              />
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setSearch("");
+                setPagination((current) => ({ ...current, pageIndex: 0 }));
+              }}
+            >
+              {t("projects.clearFilters")}
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">{t("projects.results", { count: totalCount })}</p>
+
+          <div className="rounded-md border">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <tr key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <th key={header.id} className="px-3 py-2 text-start font-medium">
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(header.column.columnDef.header, header.getContext())}
+                        </th>
+                      ))}
+                    </tr>
+                  ))}
+                </thead>
+                <tbody>
+                  {isLoading ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={visibleColumnCount}>
+                        {t("audit.loading")}
+                      </td>
+                    </tr>
+                  ) : table.getRowModel().rows.length === 0 ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={visibleColumnCount}>
+                        {t("audit.empty")}
+                      </td>
+                    </tr>
+                  ) : (
+                    table.getRowModel().rows.map((row) => (
+                      <Fragment key={row.id}>
+                        <tr className="border-t">
+                          {row.getVisibleCells().map((cell) => (
+                            <td key={cell.id} className="px-3 py-3 align-top">
+                              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                            </td>
+                          ))}
+                        </tr>
+                        {row.getIsExpanded() ? (
+                          <tr className="bg-muted/20">
+                            <td className="px-3 py-3" colSpan={visibleColumnCount}>
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-start text-muted-foreground">
+                                    <th className="py-1 pe-3 font-medium">{t("audit.field")}</th>
+                                    <th className="py-1 pe-3 font-medium">{t("audit.before")}</th>
+                                    <th className="py-1 pe-3 font-medium">{t("audit.after")}</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {row.original.changes.map((change) => (
+                                    <tr key={change.field} className="align-top">
+                                      <td className="py-1 pe-3 font-medium">{change.field}</td>
+                                      <td className="py-1 pe-3 whitespace-pre-line text-destructive">
+                                        {change.before ?? "—"}
+                                      </td>
+                                      <td className="py-1 pe-3 whitespace-pre-line text-emerald-700 dark:text-emerald-300">
+                                        {change.after ?? "—"}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        ) : null}
+                      </Fragment>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-xs text-muted-foreground">
+              {t("pagination.summary", {
+                page: table.getState().pagination.pageIndex + 1,
+                pageCount: table.getPageCount() || 1,
+              })}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                className="h-8 rounded-md border bg-background px-2 text-xs"
+                value={table.getState().pagination.pageSize}
+                onChange={(event) => {
+                  table.setPageSize(Number(event.target.value));
+                }}
+              >
+                {[20, 50, 100].map((size) => (
+                  <option key={size} value={size}>
+                    {t("pagination.pageSize", { size })}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => table.previousPage()}
+                disabled={!table.getCanPreviousPage()}
+              >
+                {t("pagination.previous")}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => table.nextPage()}
+                disabled={!table.getCanNextPage()}
+              >
+                {t("pagination.next")}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
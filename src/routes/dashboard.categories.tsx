@@ -0,0 +1,524 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { useLocale } from "@/components/locale-provider";
+import {
+  createCategory,
+  deleteCategory,
+  extractApiErrorMessage,
+  getCategories,
+  getProjectsByCategory,
+  resolveAssetUrl,
+  setProjectCategory,
+  updateCategory,
+} from "@/lib/api";
+import { requirePermission } from "@/lib/route-guards";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import type { Category } from "@/types/api";
+
+export const Route = createFileRoute("/dashboard/categories")({
+  beforeLoad: requirePermission("category.manage"),
+  component: DashboardCategoriesPage,
+});
+
+const MAX_CATEGORY_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
+
+function DashboardCategoriesPage() {
+  const { t } = useLocale();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [projectCounts, setProjectCounts] = useState<Record<number, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [name, setName] = useState("");
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [imageInputKey, setImageInputKey] = useState(0);
+
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+  const [reassignToId, setReassignToId] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteProgress, setDeleteProgress] = useState<string | null>(null);
+
+  const imagePreviewUrl = useMemo(
+    () => (imageFile ? URL.createObjectURL(imageFile) : null),
+    [imageFile],
+  );
+
+  useEffect(() => {
+    return () => {
+      if (imagePreviewUrl) {
+        URL.revokeObjectURL(imagePreviewUrl);
+      }
+    };
+  }, [imagePreviewUrl]);
+
+  useEffect(() => {
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    if (!successMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setSuccessMessage(null);
+    }, 3500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [successMessage]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadCategories() {
+      setIsLoading(true);
+
+      try {
+        const categoriesResponse = await getCategories();
+        const counts = await Promise.all(
+          categoriesResponse.map(async (category) => {
+            const projects = await getProjectsByCategory(category.id);
+            return [category.id, projects.length] as const;
+          }),
+        );
+
+        if (isActive) {
+          setCategories(categoriesResponse);
+          setProjectCounts(Object.fromEntries(counts));
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadCategories();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  const sortedCategories = useMemo(
+    () => [...categories].sort((a, b) => a.name.localeCompare(b.name)),
+    [categories],
+  );
+
+  const reassignTargets = useMemo(
+    () => sortedCategories.filter((category) => category.id !== categoryToDelete?.id),
+    [categoryToDelete, sortedCategories],
+  );
+
+  const projectsToReassign = categoryToDelete ? (projectCounts[categoryToDelete.id] ?? 0) : 0;
+  const existingImageUrl = editingCategory?.imagePath ? resolveAssetUrl(editingCategory.imagePath) : null;
+  const previewUrl = imagePreviewUrl ?? existingImageUrl;
+
+  function clearAlerts() {
+    setErrorMessage(null);
+    setSuccessMessage(null);
+  }
+
+  function resetForm() {
+    setEditingCategory(null);
+    setName("");
+    setNameError(null);
+    setImageFile(null);
+    setImageError(null);
+    setImageInputKey((current) => current + 1);
+  }
+
+  function onStartEdit(category: Category) {
+    clearAlerts();
+    setEditingCategory(category);
+    setName(category.name);
+    setNameError(null);
+    setImageFile(null);
+    setImageError(null);
+    setImageInputKey((current) => current + 1);
+  }
+
+  function onImageChange(file: File | null) {
+    setImageError(null);
+
+    if (!file) {
+      setImageFile(null);
+      return;
+    }
+
+    if (!file.type.startsWith("image/")) {
+      setImageError(t("categories.imageTypeError"));
+      return;
+    }
+
+    if (file.size > MAX_CATEGORY_IMAGE_SIZE_BYTES) {
+      setImageError(t("categories.imageSizeError", { size: "5MB" }));
+      return;
+    }
+
+    setImageFile(file);
+  }
+
+  async function onSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    clearAlerts();
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setNameError(t("categories.nameRequired"));
+      return;
+    }
+
+    const isDuplicate = categories.some(
+      (category) =>
+        category.id !== editingCategory?.id &&
+        category.name.trim().toLowerCase() === trimmedName.toLowerCase(),
+    );
+    if (isDuplicate) {
+      setNameError(t("categories.nameTaken"));
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      if (editingCategory) {
+        const updated = await updateCategory(editingCategory.id, { name: trimmedName, image: imageFile });
+        setCategories((current) =>
+          current.map((category) => (category.id === updated.id ? updated : category)),
+        );
+        setSuccessMessage(t("categories.updated"));
+      } else {
+        const created = await createCategory({ name: trimmedName, image: imageFile });
+        setCategories((current) => [...current, created]);
+        setProjectCounts((current) => ({ ...current, [created.id]: 0 }));
+        setSuccessMessage(t("categories.created"));
+      }
+
+      resetForm();
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function onRequestDelete(category: Category) {
+    clearAlerts();
+    setCategoryToDelete(category);
+    setReassignToId("");
+    setDeleteProgress(null);
+  }
+
+  async function confirmDeleteCategory() {
+    if (!categoryToDelete) {
+      return;
+    }
+
+    const targetId = Number(reassignToId);
+    if (projectsToReassign > 0 && !targetId) {
+      setErrorMessage(t("categories.chooseReassignTarget"));
+      return;
+    }
+
+    clearAlerts();
+    setIsDeleting(true);
+
+    try {
+      if (projectsToReassign > 0) {
+        // Re-read the projects so ones added since the page loaded are moved as well.
+        const projects = await getProjectsByCategory(categoryToDelete.id);
+        for (const [index, project] of projects.entries()) {
+          setDeleteProgress(t("categories.movingProject", { index: index + 1, total: projects.length }));
+          await setProjectCategory(project.id, targetId);
+          setProjectCounts((current) => ({
+            ...current,
+            [targetId]: (current[targetId] ?? 0) + 1,
+            [categoryToDelete.id]: Math.max(0, (current[categoryToDelete.id] ?? 0) - 1),
+          }));
+        }
+      }
+
+      setDeleteProgress(t("categories.deletingCategory"));
+      await deleteCategory(categoryToDelete.id);
+      setCategories((current) => current.filter((category) => category.id !== categoryToDelete.id));
+      if (editingCategory?.id === categoryToDelete.id) {
+        resetForm();
+      }
+      setSuccessMessage(
+        projectsToReassign > 0 ? t("categories.reassignedAndDeleted") : t("categories.deleted"),
+      );
+      setCategoryToDelete(null);
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsDeleting(false);
+      setDeleteProgress(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      {successMessage ? (
+        <NotificationToast
+          type="success"
+          message={successMessage}
+          onClose={() => {
+            setSuccessMessage(null);
+          }}
+        />
+      ) : null}
+
+      <AlertDialog
+        open={Boolean(categoryToDelete)}
+        onOpenChange={(open) => {
+          if (!open && !isDeleting) {
+            setCategoryToDelete(null);
+          }
+        }}
+      >
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("categories.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {projectsToReassign > 0
+                ? t("categories.stillHoldsProjects", { name: categoryToDelete?.name ?? "", count: projectsToReassign })
+                : t("categories.deleteConfirm", { name: categoryToDelete?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {projectsToReassign > 0 ? (
+            <div className="space-y-2">
+              <Label htmlFor="category-reassign">{t("categories.moveProjectsTo")}</Label>
+              <select
+                id="category-reassign"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={reassignToId}
+                disabled={isDeleting}
+                onChange={(event) => setReassignToId(event.target.value)}
+              >
+                <option value="">{t("categories.selectCategory")}</option>
+                {reassignTargets.map((category) => (
+                  <option key={category.id} value={String(category.id)}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+              {reassignTargets.length === 0 ? (
+                <p className="text-xs text-destructive">
+                  {t("categories.noReassignTargets")}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {deleteProgress ? <p className="text-xs text-muted-foreground">{deleteProgress}</p> : null}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              disabled={isDeleting || (projectsToReassign > 0 && !reassignToId)}
+              onClick={() => {
+                void confirmDeleteCategory();
+              }}
+            >
+              {isDeleting
+                ? t("projects.deleting")
+                : projectsToReassign > 0
+                  ? t("categories.reassignAndDelete")
+                  : t("categories.deleteTitle")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingCategory ? t("categories.editTitle") : t("categories.newTitle")}</CardTitle>
+          <CardDescription>
+            {editingCategory ? t("categories.editDescription") : t("categories.newDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="grid gap-4 md:grid-cols-[minmax(0,1fr)_auto]" onSubmit={onSubmit}>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="category-name">{t("categories.name")}</Label>
+                <Input
+                  id="category-name"
+                  value={name}
+                  aria-invalid={Boolean(nameError)}
+                  onChange={(event) => {
+                    setName(event.target.value);
+                    setNameError(null);
+                  }}
+                />
+                {nameError ? <p className="text-xs text-destructive">{nameError}</p> : null}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="category-image">
+                  {editingCategory?.imagePath ? t("categories.replaceImage") : t("categories.image")}
+                </Label>
+                <Input
+                  key={imageInputKey}
+                  id="category-image"
+                  type="file"
+                  accept="image/*"
+                  aria-invalid={Boolean(imageError)}
+                  onChange={(event) => onImageChange(event.target.files?.[0] ?? null)}
+                />
+                {imageError ? <p className="text-xs text-destructive">{imageError}</p> : null}
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving
+                    ? t("common.saving")
+                    : editingCategory
+                      ? t("common.saveChanges")
+                      : t("categories.create")}
+                </Button>
+                {editingCategory ? (
+                  <Button type="button" variant="outline" disabled={isSaving} onClick={resetForm}>
+                    {t("common.cancel")}
+                  </Button>
+                ) : null}
+              </div>
+            </div>
+
+            <div className="flex h-32 w-48 items-center justify-center overflow-hidden rounded-md border bg-muted/30">
+              {previewUrl ? (
+                <img src={previewUrl} alt={t("categories.imagePreview")} className="h-full w-full object-cover" />
+              ) : (
+                <span className="text-xs text-muted-foreground">{t("categories.noImage")}</span>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("categories.title")}</CardTitle>
+          <CardDescription>{t("categories.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-start font-medium">{t("categories.image")}</th>
+                    <th className="px-3 py-2 text-start font-medium">{t("categories.name")}</th>
+                    <th className="px-3 py-2 text-start font-medium">{t("categories.projects")}</th>
+                    <th className="px-3 py-2 text-start font-medium">{t("projects.columnActions")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {isLoading ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={4}>
+                        {t("categories.loading")}
+                      </td>
+                    </tr>
+                  ) : sortedCategories.length === 0 ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={4}>
+                        {t("categories.empty")}
+                      </td>
+                    </tr>
+                  ) : (
+                    sortedCategories.map((category) => (
+                      <tr key={category.id} className="border-t">
+                        <td className="px-3 py-3 align-top">
+                          {category.imagePath ? (
+                            <img
+                              src={resolveAssetUrl(category.imagePath)}
+                              alt={category.name}
+                              className="h-10 w-16 rounded-md border object-cover"
+                            />
+                          ) : (
+                            <span className="text-xs text-muted-foreground">{t("categories.noImage")}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-3 align-top font-medium">{category.name}</td>
+                        <td className="px-3 py-3 align-top">{projectCounts[category.id] ?? 0}</td>
+                        <td className="px-3 py-3 align-top">
+                          <div className="flex gap-2">
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              onClick={() => onStartEdit(category)}
+                            >
+                              {t("projects.edit")}
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => onRequestDelete(category)}
+                            >
+                              {t("projects.delete")}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
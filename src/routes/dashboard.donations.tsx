@@ -0,0 +1,516 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import {
+  type ColumnDef,
+  type PaginationState,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { useAuth } from "@/components/auth-provider";
+import { useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
+import { extractApiErrorMessage, getUsers, queryDonations, queryProjects } from "@/lib/api";
+import {
+  DONATION_PAYMENT_STATUSES,
+  getDonationStatusBadgeVariant,
+  getDonationStatusLabel,
+  getDonorLabel,
+} from "@/lib/donations";
+import { isNpoRole } from "@/lib/permissions";
+import { requirePermission } from "@/lib/route-guards";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import type { Donation, DonationListQuery, DonationPaymentStatus, Project, User } from "@/types/api";
+
+export const Route = createFileRoute("/dashboard/donations")({
+  beforeLoad: requirePermission("donation.view"),
+  component: DashboardDonationsPage,
+});
+
+interface DonationFilters {
+  projectId: string;
+  npoUserId: string;
+  paymentStatus: DonationPaymentStatus | "";
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FILTERS: DonationFilters = {
+  projectId: "",
+  npoUserId: "",
+  paymentStatus: "",
+  fromDate: "",
+  toDate: "",
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PROJECT_LOOKUP_PAGE_SIZE = 1000;
+
+function toIsoBoundary(date: string, endOfDay: boolean): string | undefined {
+  if (!date) {
+    return undefined;
+  }
+
+  const parsed = new Date(`${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function DashboardDonationsPage() {
+  const { locale, t, formatCurrency, formatDateTime } = useLocale();
+  const { session } = useAuth();
+  const can = useCan();
+  const userId = session?.user.id ?? "";
+  const canViewAllDonations = can("donation.view.any");
+  const canViewUsers = can("user.view");
+
+  const [donations, setDonations] = useState<Donation[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<DonationFilters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: 20 });
+
+  const npoUsers = useMemo(() => users.filter((user) => isNpoRole(user.role) || user.isNpo), [users]);
+
+  const userNameById = useMemo(
+    () =>
+      new Map(users.map((user) => [user.id, `${user.firstName} ${user.lastName}`.trim() || user.email])),
+    [users],
+  );
+
+  const projectTitleById = useMemo(
+    () => new Map(projects.map((project) => [project.id, project.title])),
+    [projects],
+  );
+
+  // Narrow the project picker to the selected NPO so the two filters cannot contradict each other.
+  const projectOptions = useMemo(
+    () => (filters.npoUserId ? projects.filter((project) => project.npoUserId === filters.npoUserId) : projects),
+    [filters.npoUserId, projects],
+  );
+
+  useEffect(() => {
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPagination((current) => (current.pageIndex === 0 ? current : { ...current, pageIndex: 0 }));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [search]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadLookups() {
+      try {
+        const [projectsResponse, usersResponse] = await Promise.all([
+          queryProjects({
+            page: 1,
+            pageSize: PROJECT_LOOKUP_PAGE_SIZE,
+            sortBy: "title",
+            sortDirection: "asc",
+            npoUserId: canViewAllDonations ? undefined : userId,
+          }),
+          canViewUsers ? getUsers() : Promise.resolve([]),
+        ]);
+
+        if (isActive) {
+          setProjects(projectsResponse.items);
+          setUsers(usersResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      }
+    }
+
+    void loadLookups();
+
+    return () => {
+      isActive = false;
+    };
+  }, [canViewAllDonations, canViewUsers, userId]);
+
+  const donationQuery = useMemo<DonationListQuery>(
+    () => ({
+      page: pagination.pageIndex + 1,
+      pageSize: pagination.pageSize,
+      projectId: filters.projectId || undefined,
+      npoUserId: canViewAllDonations ? filters.npoUserId || undefined : userId,
+      paymentStatus: filters.paymentStatus || undefined,
+      from: toIsoBoundary(filters.fromDate, false),
+      to: toIsoBoundary(filters.toDate, true),
+      search: debouncedSearch || undefined,
+    }),
+    [canViewAllDonations, debouncedSearch, filters, pagination, userId],
+  );
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadDonations() {
+      setIsLoading(true);
+
+      try {
+        const result = await queryDonations(donationQuery);
+        if (isActive) {
+          setDonations(result.items);
+          setTotalCount(result.totalCount);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadDonations();
+
+    return () => {
+      isActive = false;
+    };
+  }, [donationQuery]);
+
+  function onFilterChange<K extends keyof DonationFilters>(field: K, value: DonationFilters[K]) {
+    setFilters((current) => {
+      const next = { ...current, [field]: value };
+      if (field === "npoUserId" && value && current.projectId) {
+        const selectedProject = projects.find((project) => project.id === current.projectId);
+        if (selectedProject && selectedProject.npoUserId !== value) {
+          next.projectId = "";
+        }
+      }
+
+      return next;
+    });
+    setPagination((current) => ({ ...current, pageIndex: 0 }));
+  }
+
+  const columns = useMemo<ColumnDef<Donation>[]>(
+    () => [
+      {
+        id: "donor",
+        header: t("donations.columnDonor"),
+        cell: ({ row }) => (
+          <div>
+            <p className="font-medium">{getDonorLabel(row.original, locale)}</p>
+            {!row.original.isAnonymous && row.original.donorEmail && row.original.donorName ? (
+              <p className="text-xs text-muted-foreground">{row.original.donorEmail}</p>
+            ) : null}
+          </div>
+        ),
+      },
+      {
+        id: "amount",
+        header: t("donations.columnAmount"),
+        cell: ({ row }) => formatCurrency(row.original.amount, row.original.currency),
+      },
+      {
+        id: "currency",
+        header: t("donations.columnCurrency"),
+        cell: ({ row }) => (row.original.currency || "USD").toUpperCase(),
+      },
+      {
+        id: "project",
+        header: t("donations.columnProject"),
+        cell: ({ row }) => {
+          const title =
+            row.original.projectTitle ?? projectTitleById.get(row.original.projectId) ?? row.original.projectId;
+
+          return can("project.approve") ? (
+            <Link
+              to="/dashboard/projects/preview/$projectId"
+              params={{ projectId: row.original.projectId }}
+              className="font-medium underline-offset-4 hover:underline"
+            >
+              {title}
+            </Link>
+          ) : (
+            <span className="font-medium">{title}</span>
+          );
+        },
+      },
+      {
+        id: "donatedAt",
+        header: t("donations.columnDate"),
+        cell: ({ row }) => formatDateTime(row.original.donatedAt),
+      },
+      {
+        id: "paymentStatus",
+        header: t("donations.paymentStatus"),
+        cell: ({ row }) => (
+          <Badge variant={getDonationStatusBadgeVariant(row.original.paymentStatus)}>
+            {getDonationStatusLabel(row.original.paymentStatus, locale)}
+          </Badge>
+        ),
+      },
+      {
+        id: "paymentReference",
+        header: t("donations.columnReference"),
+        cell: ({ row }) =>
+          row.original.paymentReference ? (
+            <code className="text-xs">{row.original.paymentReference}</code>
+          ) : (
+            <span className="text-xs text-muted-foreground">-</span>
+          ),
+      },
+    ],
+    [can, formatCurrency, formatDateTime, locale, projectTitleById, t],
+  );
+
+  const table = useReactTable({
+    data: donations,
+    columns,
+    rowCount: totalCount,
+    state: { pagination },
+    manualPagination: true,
+    getRowId: (donation) => donation.id,
+    onPaginationChange: setPagination,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  const visibleColumnCount = table.getVisibleLeafColumns().length;
+
+  return (
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("donations.title")}</CardTitle>
+          <CardDescription>
+            {canViewAllDonations ? t("donations.descriptionAll") : t("donations.descriptionOwn")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 rounded-md border bg-muted/30 p-3 sm:grid-cols-2 xl:grid-cols-3 xl:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="donations-search">{t("projects.search")}</Label>
+              <Input
+                id="donations-search"
+                placeholder={t("donations.searchPlaceholder")}
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="donations-project-filter">{t("donations.columnProject")}</Label>
+              <select
+                id="donations-project-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={filters.projectId}
+                onChange={(event) => onFilterChange("projectId", event.target.value)}
+              >
+                <option value="">{t("common.all")}</option>
+                {projectOptions.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {canViewAllDonations ? (
+              <div className="space-y-1">
+                <Label htmlFor="donations-npo-filter">{t("donations.npo")}</Label>
+                <select
+                  id="donations-npo-filter"
+                  className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                  value={filters.npoUserId}
+                  onChange={(event) => onFilterChange("npoUserId", event.target.value)}
+                >
+                  <option value="">{t("common.all")}</option>
+                  {npoUsers.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {userNameById.get(user.id)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+
+            <div className="space-y-1">
+              <Label htmlFor="donations-status-filter">{t("donations.paymentStatus")}</Label>
+              <select
+                id="donations-status-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={filters.paymentStatus}
+                onChange={(event) =>
+                  onFilterChange("paymentStatus", event.target.value as DonationPaymentStatus | "")
+                }
+              >
+                <option value="">{t("common.all")}</option>
+                {DONATION_PAYMENT_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {getDonationStatusLabel(status, locale)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="donations-from">{t("common.from")}</Label>
+              <Input
+                id="donations-from"
+                type="date"
+                value={filters.fromDate}
+                max={filters.toDate || undefined}
+                onChange={(event) => onFilterChange("fromDate", event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="donations-to">{t("common.to")}</Label>
+              <Input
+                id="donations-to"
+                type="date"
+                value={filters.toDate}
+                min={filters.fromDate || undefined}
+                onChange={(event) => onFilterChange("toDate", event.target.value)}
+              />
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setSearch("");
+                setPagination((current) => ({ ...current, pageIndex: 0 }));
+              }}
+            >
+              {t("projects.clearFilters")}
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">{t("projects.results", { count: totalCount })}</p>
+
+          <div className="rounded-md border">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <tr key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <th key={header.id} className="px-3 py-2 text-start font-medium">
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(header.column.columnDef.header, header.getContext())}
+                        </th>
+                      ))}
+                    </tr>
+                  ))}
+                </thead>
+                <tbody>
+                  {isLoading ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={visibleColumnCount}>
+                        {t("overview.loadingDonations")}
+                      </td>
+                    </tr>
+                  ) : table.getRowModel().rows.length === 0 ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={visibleColumnCount}>
+                        {t("donations.empty")}
+                      </td>
+                    </tr>
+                  ) : (
+                    table.getRowModel().rows.map((row) => (
+                      <tr key={row.id} className="border-t">
+                        {row.getVisibleCells().map((cell) => (
+                          <td key={cell.id} className="px-3 py-3 align-top">
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </td>
+                        ))}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-xs text-muted-foreground">
+              {t("pagination.summary", {
+                page: table.getState().pagination.pageIndex + 1,
+                pageCount: table.getPageCount() || 1,
+              })}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                className="h-8 rounded-md border bg-background px-2 text-xs"
+                value={table.getState().pagination.pageSize}
+                onChange={(event) => {
+                  table.setPageSize(Number(event.target.value));
+                }}
+              >
+                <option value={20}>{t("pagination.pageSize", { size: 20 })}</option>
+                <option value={50}>{t("pagination.pageSize", { size: 50 })}</option>
+                <option value={100}>{t("pagination.pageSize", { size: 100 })}</option>
+              </select>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => table.previousPage()}
+                disabled={!table.getCanPreviousPage()}
+              >
+                {t("pagination.previous")}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => table.nextPage()}
+                disabled={!table.getCanNextPage()}
+              >
+                {t("pagination.next")}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,20 +1,547 @@
-import { useEffect } from "react";
-import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useMemo, useState } from "react";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { useAuth } from "@/components/auth-provider";
+import { BarList, ColumnChart } from "@/components/bar-chart";
+import { useCan } from "@/components/can";
+import { ConvertedAmount } from "@/components/converted-amount";
+import { CurrencySelect } from "@/components/currency-select";
+import { useLocale } from "@/components/locale-provider";
+import { ProjectStatusBadge } from "@/components/project-status-badge";
+import {
+  extractApiErrorMessage,
+  getCategories,
+  getExchangeRates,
+  getProjectOverview,
+  getUsers,
+  queryDonations,
+  queryProjects,
+} from "@/lib/api";
+import {
+  ENDING_SOON_DAYS,
+  LOW_FUNDING_RATIO,
+  convertCurrencyTotals,
+  countDistinctDonors,
+  getAttentionItems,
+  getMonthlyRaisedTotals,
+  getMonthlyWindowStart,
+  getProjectsPerCategory,
+  summarizeProjects,
+} from "@/lib/analytics";
+import { createCurrencyConverter, readReportingCurrency, writeReportingCurrency } from "@/lib/exchange-rates";
+import { isNpoRole } from "@/lib/permissions";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import type { Category, Donation, ExchangeRate, ProjectOverview, User } from "@/types/api";
 
 export const Route = createFileRoute("/dashboard/")({
   component: DashboardIndexPage,
 });
 
+const OVERVIEW_SAMPLE_SIZE = 1000;
+const DONATION_PAGE_SIZE = 500;
+const MAX_ATTENTION_ITEMS = 10;
+
+/**
+ * Uses the server-side aggregate when the backend has one; otherwise summarizes the most recent
+ * projects so the landing page never pages through every project.
+ */
+async function loadProjectOverview(npoUserId: string | undefined): Promise<ProjectOverview> {
+  const overview = await getProjectOverview(npoUserId);
+  if (overview) {
+    return overview;
+  }
+
+  const sample = await queryProjects({
+    page: 1,
+    pageSize: OVERVIEW_SAMPLE_SIZE,
+    sortBy: "createdDate",
+    sortDirection: "desc",
+    npoUserId,
+  });
+  return summarizeProjects(sample.items, sample.totalCount, new Date());
+}
+
+/** Succeeded donations since `from`, which is all the chart and donor count need. */
+async function loadDonations(npoUserId: string | undefined, from: string): Promise<Donation[]> {
+  const donations: Donation[] = [];
+  let page = 1;
+  let total = 0;
+
+  do {
+    const result = await queryDonations({
+      page,
+      pageSize: DONATION_PAGE_SIZE,
+      npoUserId,
+      paymentStatus: "succeeded",
+      from,
+    });
+    donations.push(...result.items);
+    total = result.totalCount;
+    page += 1;
+
+    if (result.items.length === 0) {
+      break;
+    }
+  } while (donations.length < total);
+
+  return donations;
+}
+
 function DashboardIndexPage() {
-  const navigate = Route.useNavigate();
+  const { intlLocale, formatCurrency, formatNumber, t } = useLocale();
+  const { session } = useAuth();
+  const can = useCan();
+  const userId = session?.user.id ?? "";
+  const canViewAllProjects = can("project.view.any");
+  const canViewDonations = can("donation.view");
+  const canViewUsers = can("user.view");
+  const canReviewProjects = can("project.approve");
+
+  const [projectOverview, setProjectOverview] = useState<ProjectOverview | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [donations, setDonations] = useState<Donation[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [areRatesUnavailable, setAreRatesUnavailable] = useState(false);
+  const [reportingCurrency, setReportingCurrency] = useState(readReportingCurrency);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingDonations, setIsLoadingDonations] = useState(canViewDonations);
+  const [chartCurrency, setChartCurrency] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   useEffect(() => {
-    void navigate({ to: "/dashboard/projects", replace: true });
-  }, [navigate]);
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadOverview() {
+      setIsLoading(true);
+
+      try {
+        const [overviewResponse, categoriesResponse, usersResponse] = await Promise.all([
+          loadProjectOverview(canViewAllProjects ? undefined : userId),
+          getCategories(),
+          canViewUsers ? getUsers() : Promise.resolve([]),
+        ]);
+
+        if (isActive) {
+          setProjectOverview(overviewResponse);
+          setCategories(categoriesResponse);
+          setUsers(usersResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadOverview();
+
+    return () => {
+      isActive = false;
+    };
+  }, [canViewAllProjects, canViewUsers, userId]);
+
+  // Rates only feed the reporting-currency view, so without them the totals stay per currency.
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadExchangeRates() {
+      try {
+        const ratesResponse = await getExchangeRates();
+        if (isActive) {
+          setExchangeRates(ratesResponse);
+        }
+      } catch {
+        if (isActive) {
+          setAreRatesUnavailable(true);
+        }
+      }
+    }
+
+    void loadExchangeRates();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  // Donations load separately so a slow or missing donations endpoint never hides the project numbers.
+  useEffect(() => {
+    if (!canViewDonations) {
+      return;
+    }
+
+    let isActive = true;
+
+    async function loadDonationOverview() {
+      setIsLoadingDonations(true);
+
+      try {
+        const donationsResponse = await loadDonations(
+          can("donation.view.any") ? undefined : userId,
+          getMonthlyWindowStart(new Date()).toISOString(),
+        );
+        if (isActive) {
+          setDonations(donationsResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoadingDonations(false);
+        }
+      }
+    }
+
+    void loadDonationOverview();
+
+    return () => {
+      isActive = false;
+    };
+  }, [can, canViewDonations, userId]);
+
+  const overview = useMemo(() => {
+    const now = new Date();
+
+    return {
+      now,
+      currencyTotals: projectOverview?.currencyTotals ?? [],
+      statusCounts: projectOverview?.statusCounts ?? { active: 0, pending: 0, expired: 0 },
+      projectsPerCategory: getProjectsPerCategory(projectOverview?.categoryCounts ?? [], categories, (categoryId) =>
+        t("overview.unknownCategory", { id: String(categoryId) }),
+      ),
+      attentionItems: getAttentionItems(projectOverview?.attentionProjects ?? [], now),
+    };
+  }, [categories, projectOverview, t]);
+
+  const appliedReportingCurrency = areRatesUnavailable ? "" : reportingCurrency;
+  const convertCurrency = useMemo(() => createCurrencyConverter(exchangeRates), [exchangeRates]);
+  const convertedTotals = useMemo(
+    () =>
+      appliedReportingCurrency
+        ? convertCurrencyTotals(overview.currencyTotals, appliedReportingCurrency, convertCurrency)
+        : null,
+    [appliedReportingCurrency, convertCurrency, overview.currencyTotals],
+  );
+
+  const activeChartCurrency =
+    appliedReportingCurrency || chartCurrency || overview.currencyTotals[0]?.currency || "USD";
+  const monthlyRaised = useMemo(
+    () =>
+      getMonthlyRaisedTotals(
+        donations,
+        activeChartCurrency,
+        overview.now,
+        intlLocale,
+        appliedReportingCurrency ? convertCurrency : null,
+      ),
+    [activeChartCurrency, appliedReportingCurrency, convertCurrency, donations, intlLocale, overview.now],
+  );
+
+  const npoCount = users.length > 0
+    ? users.filter((user) => user.isNpo || isNpoRole(user.role)).length
+    : (projectOverview?.npoCount ?? 0);
+  const donorCount = countDistinctDonors(donations);
 
   return (
-    <div className="rounded-xl border bg-background p-4 text-sm text-muted-foreground">
-      Redirecting to projects...
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>{t("overview.title")}</CardTitle>
+            <CardDescription>
+              {canViewAllProjects ? t("overview.descriptionAll") : t("overview.descriptionOwn")}
+            </CardDescription>
+          </div>
+          <div className="w-64 space-y-1">
+            <Label htmlFor="overview-reporting-currency" className="text-xs">
+              {t("currency.reportIn")}
+            </Label>
+            <CurrencySelect
+              id="overview-reporting-currency"
+              name="reportingCurrency"
+              value={reportingCurrency}
+              placeholder={t("overview.eachProjectCurrency")}
+              onChange={(currency) => {
+                writeReportingCurrency(currency);
+                setReportingCurrency(currency);
+              }}
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? <p className="text-sm text-muted-foreground">{t("overview.loading")}</p> : null}
+          {projectOverview && projectOverview.projectCount < projectOverview.totalProjectCount ? (
+            <p className="text-xs text-muted-foreground">
+              {t("overview.partialProjects", {
+                count: projectOverview.projectCount,
+                total: projectOverview.totalProjectCount,
+              })}
+            </p>
+          ) : null}
+
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">{t("overview.activeProjects")}</p>
+              <p className="text-2xl font-semibold">{isLoading ? "-" : overview.statusCounts.active}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">{t("overview.pendingApproval")}</p>
+              <p className="text-2xl font-semibold">{isLoading ? "-" : overview.statusCounts.pending}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">{t("overview.expiredProjects")}</p>
+              <p className="text-2xl font-semibold">{isLoading ? "-" : overview.statusCounts.expired}</p>
+            </div>
+            {canViewAllProjects ? (
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">{t("overview.npos")}</p>
+                <p className="text-2xl font-semibold">{isLoading ? "-" : npoCount}</p>
+              </div>
+            ) : null}
+            {canViewDonations ? (
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">{t("overview.donors")}</p>
+                <p className="text-2xl font-semibold">{isLoadingDonations ? "-" : donorCount}</p>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">{t("overview.raisedVsTarget")}</h3>
+            {!isLoading && overview.currencyTotals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t("overview.noProjects")}</p>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+                {(convertedTotals ? [convertedTotals] : overview.currencyTotals).map((totals) => {
+                  const ratio = totals.target > 0 ? Math.min(totals.raised / totals.target, 1) : 0;
+
+                  return (
+                    <div key={totals.currency} className="space-y-2 rounded-md border p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">{totals.currency}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatNumber(ratio, { style: "percent", maximumFractionDigits: 0 })}
+                        </p>
+                      </div>
+                      <p
+                        className="font-medium"
+                        title={
+                          convertedTotals
+                            ? overview.currencyTotals
+                                .map((original) =>
+                                  t("overview.raisedOfTarget", {
+                                    raised: formatCurrency(original.raised, original.currency, 0),
+                                    target: formatCurrency(original.target, original.currency, 0),
+                                  }),
+                                )
+                                .join("\n")
+                            : undefined
+                        }
+                      >
+                        {formatCurrency(totals.raised, totals.currency, 0)}{" "}
+                        <span className="text-sm font-normal text-muted-foreground">
+                          {t("overview.ofTarget", { target: formatCurrency(totals.target, totals.currency, 0) })}
+                        </span>
+                      </p>
+                      <div className="h-2 rounded-full bg-muted">
+                        <div className="h-2 rounded-full bg-emerald-500" style={{ width: `${ratio * 100}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {convertedTotals && convertedTotals.unconverted.length > 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {t("overview.unconverted", {
+                  currency: convertedTotals.currency,
+                  currencies: convertedTotals.unconverted.join(", "),
+                })}
+              </p>
+            ) : null}
+            {areRatesUnavailable && reportingCurrency ? (
+              <p className="text-xs text-muted-foreground">
+                {t("overview.ratesUnavailable", { currency: reportingCurrency })}
+              </p>
+            ) : null}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        {canViewDonations ? (
+          <Card>
+            <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+              <div>
+                <CardTitle>{t("overview.fundsRaised")}</CardTitle>
+                <CardDescription>{t("overview.fundsRaisedDescription")}</CardDescription>
+              </div>
+              {!appliedReportingCurrency && overview.currencyTotals.length > 1 ? (
+                <select
+                  aria-label={t("overview.chartCurrency")}
+                  className="h-8 rounded-md border bg-background px-2 text-xs"
+                  value={activeChartCurrency}
+                  onChange={(event) => setChartCurrency(event.target.value)}
+                >
+                  {overview.currencyTotals.map((totals) => (
+                    <option key={totals.currency} value={totals.currency}>
+                      {totals.currency}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+            </CardHeader>
+            <CardContent>
+              {isLoadingDonations ? (
+                <p className="py-10 text-center text-sm text-muted-foreground">{t("overview.loadingDonations")}</p>
+              ) : (
+                <ColumnChart
+                  data={monthlyRaised}
+                  formatValue={(value) => formatCurrency(value, activeChartCurrency, 0)}
+                  emptyMessage={
+                    appliedReportingCurrency
+                      ? t("overview.noConvertibleDonations", { currency: activeChartCurrency })
+                      : t("overview.noDonations", { currency: activeChartCurrency })
+                  }
+                />
+              )}
+            </CardContent>
+          </Card>
+        ) : null}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("overview.projectsPerCategory")}</CardTitle>
+            <CardDescription>{t("overview.projectsPerCategoryDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="py-10 text-center text-sm text-muted-foreground">{t("projects.loading")}</p>
+            ) : (
+              <BarList data={overview.projectsPerCategory} emptyMessage={t("overview.noProjects")} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("overview.needsAttention")}</CardTitle>
+          <CardDescription>
+            {t("overview.needsAttentionDescription", {
+              days: ENDING_SOON_DAYS,
+              percent: formatNumber(LOW_FUNDING_RATIO, { style: "percent" }),
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">{t("projects.loading")}</p>
+          ) : overview.attentionItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("overview.nothingNeedsAttention")}</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {overview.attentionItems.slice(0, MAX_ATTENTION_ITEMS).map(({ project, reasons }) => (
+                <li key={project.id} className="flex flex-col gap-2 p-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {canReviewProjects ? (
+                        <Link
+                          to="/dashboard/projects/preview/$projectId"
+                          params={{ projectId: project.id }}
+                          className="truncate font-medium underline-offset-4 hover:underline"
+                        >
+                          {project.title}
+                        </Link>
+                      ) : can("project.update", project.npoUserId) ? (
+                        <Link
+                          to="/dashboard/projects/edit/$projectId"
+                          params={{ projectId: project.id }}
+                          className="truncate font-medium underline-offset-4 hover:underline"
+                        >
+                          {project.title}
+                        </Link>
+                      ) : (
+                        <span className="truncate font-medium">{project.title}</span>
+                      )}
+                      <ProjectStatusBadge project={project} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      <ConvertedAmount
+                        amount={project.raisedAmount}
+                        currency={project.currency}
+                        reportingCurrency={appliedReportingCurrency}
+                        convert={convertCurrency}
+                        maximumFractionDigits={0}
+                      />{" "}
+                      {t("overview.of")}{" "}
+                      <ConvertedAmount
+                        amount={project.targetAmount}
+                        currency={project.currency}
+                        reportingCurrency={appliedReportingCurrency}
+                        convert={convertCurrency}
+                        maximumFractionDigits={0}
+                      />
+                      {project.endDate ? ` · ${t("overview.endsOn", { date: project.endDate })}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {reasons.map((reason) => (
+                      <Badge key={reason} variant={reason === "pendingApproval" ? "outline" : "default"}>
+                        {t(`attention.${reason}`, {
+                          days: ENDING_SOON_DAYS,
+                          percent: formatNumber(LOW_FUNDING_RATIO, { style: "percent" }),
+                        })}
+                      </Badge>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {overview.attentionItems.length > MAX_ATTENTION_ITEMS ? (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {t("overview.moreNeedAttention", { count: overview.attentionItems.length - MAX_ATTENTION_ITEMS })}{" "}
+              <Link to="/dashboard/projects" className="underline underline-offset-4">
+                {t("overview.viewProjects")}
+              </Link>
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
     </div>
   );
 }
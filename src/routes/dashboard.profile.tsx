@@ -1,13 +1,26 @@
 import { useEffect, useState, type FormEvent } from "react";
 import { createFileRoute } from "@tanstack/react-router";
 import { useAuth } from "@/components/auth-provider";
-import { extractApiErrorMessage, updateOwnProfile } from "@/lib/api";
-import { EMPTY_BANK_DETAILS, readBankDetails, writeBankDetails } from "@/lib/bank-details";
+import { BankDetailsFields } from "@/components/bank-details-fields";
+import { Can, useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
+import { extractApiErrorMessage, getNpoBankAccount, updateOwnProfile } from "@/lib/api";
+import {
+  EMPTY_BANK_DETAILS,
+  migrateLocalBankDetails,
+  saveBankDetails,
+  toBankDetails,
+} from "@/lib/bank-details";
+import {
+  validateBankDetails,
+  type BankDetailsField,
+  type BankDetailsFieldErrors,
+} from "@/lib/validations/bank-details";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { BankDetails } from "@/types/api";
+import type { BankDetails, NpoBankAccount } from "@/types/api";
 
 export const Route = createFileRoute("/dashboard/profile")({
   component: DashboardProfilePage,
@@ -15,13 +28,20 @@ export const Route = createFileRoute("/dashboard/profile")({
 
 function DashboardProfilePage() {
   const { session, applyProfileUpdate } = useAuth();
+  const can = useCan();
+  const { locale, t } = useLocale();
+  const sessionUserId = session?.user.id ?? "";
+  const canManageOwnBank = Boolean(sessionUserId) && can("bank.update", sessionUserId);
 
   const [email, setEmail] = useState("");
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [mobileNumber, setMobileNumber] = useState("");
   const [bankDetails, setBankDetails] = useState<BankDetails>(EMPTY_BANK_DETAILS);
+  const [bankAccount, setBankAccount] = useState<NpoBankAccount | null>(null);
+  const [bankErrors, setBankErrors] = useState<BankDetailsFieldErrors>({});
 
+  const [isLoadingBank, setIsLoadingBank] = useState(false);
   const [isSavingProfile, setIsSavingProfile] = useState(false);
   const [isSavingBank, setIsSavingBank] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -36,9 +56,43 @@ function DashboardProfilePage() {
     setFirstName(session.user.firstName ?? "");
     setLastName(session.user.lastName ?? "");
     setMobileNumber(session.user.mobileNumber ?? "");
-    setBankDetails(readBankDetails(session.user.id));
   }, [session]);
 
+  useEffect(() => {
+    if (!canManageOwnBank) {
+      return;
+    }
+
+    let isActive = true;
+
+    async function loadBankAccount() {
+      setIsLoadingBank(true);
+
+      try {
+        await migrateLocalBankDetails((userId) => can("bank.update", userId));
+        const account = await getNpoBankAccount(sessionUserId);
+        if (isActive) {
+          setBankAccount(account);
+          setBankDetails(toBankDetails(account));
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoadingBank(false);
+        }
+      }
+    }
+
+    void loadBankAccount();
+
+    return () => {
+      isActive = false;
+    };
+  }, [can, canManageOwnBank, sessionUserId]);
+
   if (!session) {
     return null;
   }
@@ -58,7 +112,7 @@ function DashboardProfilePage() {
       });
 
       applyProfileUpdate(response);
-      setSuccessMessage("Profile updated successfully.");
+      setSuccessMessage(t("profile.updated"));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
@@ -66,35 +120,43 @@ function DashboardProfilePage() {
     }
   }
 
-  function onBankDetailChange<K extends keyof BankDetails>(
-    field: K,
-    value: BankDetails[K],
-  ) {
+  function onBankDetailChange(field: BankDetailsField, value: string) {
     setBankDetails((current) => ({ ...current, [field]: value }));
+    setBankErrors((current) => ({ ...current, [field]: undefined }));
   }
 
-  function onSaveBankDetails(event: FormEvent<HTMLFormElement>) {
+  async function onSaveBankDetails(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setErrorMessage(null);
     setSuccessMessage(null);
-    setIsSavingBank(true);
 
-    writeBankDetails(session.user.id, bankDetails);
-    setSuccessMessage("Receiving bank details saved.");
+    const validation = validateBankDetails(bankDetails, locale);
+    if (!validation.success) {
+      setBankErrors(validation.fieldErrors);
+      return;
+    }
 
-    window.setTimeout(() => {
+    setBankErrors({});
+    setIsSavingBank(true);
+
+    try {
+      const savedAccount = await saveBankDetails(sessionUserId, validation.data, bankAccount);
+      setBankAccount(savedAccount);
+      setBankDetails(toBankDetails(savedAccount));
+      setSuccessMessage(t("profile.bankSaved"));
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
       setIsSavingBank(false);
-    }, 250);
+    }
   }
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Profile</CardTitle>
-          <CardDescription>
-            Update your account details. Changes are persisted to backend.
-          </CardDescription>
+          <CardTitle>{t("profile.title")}</CardTitle>
+          <CardDescription>{t("profile.description")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {errorMessage ? (
@@ -111,7 +173,7 @@ function DashboardProfilePage() {
 
           <form className="grid gap-4 md:grid-cols-2" onSubmit={onSaveProfile}>
             <div className="space-y-2">
-              <Label htmlFor="profile-email">Email</Label>
+              <Label htmlFor="profile-email">{t("users.email")}</Label>
               <Input
                 id="profile-email"
                 type="email"
@@ -122,7 +184,7 @@ function DashboardProfilePage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="profile-mobile">Mobile Number</Label>
+              <Label htmlFor="profile-mobile">{t("users.mobileNumber")}</Label>
               <Input
                 id="profile-mobile"
                 value={mobileNumber}
@@ -131,7 +193,7 @@ function DashboardProfilePage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="profile-first-name">First Name</Label>
+              <Label htmlFor="profile-first-name">{t("users.firstName")}</Label>
               <Input
                 id="profile-first-name"
                 value={firstName}
@@ -141,7 +203,7 @@ function DashboardProfilePage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="profile-last-name">Last Name</Label>
+              <Label htmlFor="profile-last-name">{t("users.lastName")}</Label>
               <Input
                 id="profile-last-name"
                 value={lastName}
@@ -151,84 +213,40 @@ function DashboardProfilePage() {
 
             <div className="md:col-span-2">
               <Button type="submit" disabled={isSavingProfile}>
-                {isSavingProfile ? "Saving..." : "Save Profile"}
+                {isSavingProfile ? t("common.saving") : t("profile.save")}
               </Button>
             </div>
           </form>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Receiving Bank Details</CardTitle>
-          <CardDescription>
-            NPO payout details. Backend endpoint is not available yet, so this is stored locally in browser storage.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form className="grid gap-4 md:grid-cols-2" onSubmit={onSaveBankDetails}>
-            <div className="space-y-2">
-              <Label htmlFor="bank-holder">Account Holder Name</Label>
-              <Input
-                id="bank-holder"
-                value={bankDetails.accountHolderName}
-                onChange={(event) => onBankDetailChange("accountHolderName", event.target.value)}
+      <Can permission="bank.update" ownerId={session.user.id}>
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("profile.bankTitle")}</CardTitle>
+            <CardDescription>{t("profile.bankDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoadingBank ? (
+              <p className="text-sm text-muted-foreground">{t("bank.loading")}</p>
+            ) : null}
+            <form className="grid gap-4 md:grid-cols-2" onSubmit={onSaveBankDetails}>
+              <BankDetailsFields
+                idPrefix="bank"
+                value={bankDetails}
+                errors={bankErrors}
+                onChange={onBankDetailChange}
               />
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="bank-name">Bank Name</Label>
-              <Input
-                id="bank-name"
-                value={bankDetails.bankName}
-                onChange={(event) => onBankDetailChange("bankName", event.target.value)}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="bank-account">Account Number</Label>
-              <Input
-                id="bank-account"
-                value={bankDetails.accountNumber}
-                onChange={(event) => onBankDetailChange("accountNumber", event.target.value)}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="bank-routing">Routing Number</Label>
-              <Input
-                id="bank-routing"
-                value={bankDetails.routingNumber}
-                onChange={(event) => onBankDetailChange("routingNumber", event.target.value)}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="bank-iban">IBAN</Label>
-              <Input
-                id="bank-iban"
-                value={bankDetails.iban}
-                onChange={(event) => onBankDetailChange("iban", event.target.value)}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="bank-swift">SWIFT Code</Label>
-              <Input
-                id="bank-swift"
-                value={bankDetails.swiftCode}
-                onChange={(event) => onBankDetailChange("swiftCode", event.target.value)}
-              />
-            </div>
-
-            <div className="md:col-span-2">
-              <Button type="submit" disabled={isSavingBank}>
-                {isSavingBank ? "Saving..." : "Save Bank Details"}
-              </Button>
-            </div>
-          </form>
-        </CardContent>
-      </Card>
+              <div className="md:col-span-2">
+                <Button type="submit" disabled={isSavingBank || isLoadingBank}>
+                  {isSavingBank ? t("common.saving") : t("profile.saveBank")}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </Can>
     </div>
   );
 }
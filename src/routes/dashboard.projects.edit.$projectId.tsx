@@ -1,16 +1,46 @@
-import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Link, createFileRoute } from "@tanstack/react-router";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Controller, useForm, useWatch } from "react-hook-form";
 import {
-  addProjectMedia,
   deleteProjectImage,
   extractApiErrorMessage,
   getCategories,
+  getMediaPolicy,
   getProjectById,
   getUsers,
   resolveAssetUrl,
+  submitProjectForReview,
   updateProject,
 } from "@/lib/api";
 import { useAuth } from "@/components/auth-provider";
+import { useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
+import { MediaUploadList, useMediaUploadQueue } from "@/components/media-upload-list";
+import { ProjectAddressFields } from "@/components/project-address-fields";
+import { ProjectMediaManager } from "@/components/project-media-manager";
+import { ProjectStatusBadge } from "@/components/project-status-badge";
+import { isNpoRole } from "@/lib/permissions";
+import { getCurrencyAmountStep } from "@/lib/currencies";
+import { IMAGE_PROCESSING_OPTIONS, processImages, type ProcessedImage } from "@/lib/image-processing";
+import {
+  DEFAULT_MEDIA_POLICY,
+  describeMediaPolicy,
+  formatMediaCountLimit,
+  validateImageFiles,
+  validateMediaSelection,
+  validateVideoFiles,
+} from "@/lib/media-policy";
+import { canSubmitForReview, getProjectReviewStatus } from "@/lib/project-status";
+import { requirePermission } from "@/lib/route-guards";
+import { formatFileSize } from "@/lib/utils";
+import {
+  createProjectFormSchema,
+  toProjectAddressFormValues,
+  toProjectAddresses,
+  type CreateProjectFormInput,
+  type CreateProjectFormValues,
+} from "@/lib/validations/project";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { CurrencySelect } from "@/components/currency-select";
@@ -18,38 +48,24 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { NotificationToast } from "@/components/ui/notification-toast";
 import { Textarea } from "@/components/ui/textarea";
-import type { Address, Category, Project, User } from "@/types/api";
+import type { Category, MediaPolicy, Project, User } from "@/types/api";
 
 export const Route = createFileRoute("/dashboard/projects/edit/$projectId")({
+  beforeLoad: requirePermission("project.update"),
   component: EditProjectPage,
 });
 
-interface ProjectFormState {
-  npoUserId: string;
-  title: string;
-  categoryId: string;
-  startDate: string;
-  endDate: string;
-  description: string;
-  targetAmount: string;
-  currency: string;
-  country: string;
-  state: string;
-  city: string;
-}
-
 interface MediaPreview {
   id: string;
   file: File;
   previewUrl: string;
 }
 
-const MAX_IMAGE_COUNT = 10;
-const MAX_VIDEO_COUNT = 1;
-const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
-const MAX_VIDEO_SIZE_BYTES = 20 * 1024 * 1024;
+interface ImagePreview extends MediaPreview {
+  originalSize: number;
+}
 
-const EMPTY_FORM: ProjectFormState = {
+const EMPTY_FORM: CreateProjectFormInput = {
   npoUserId: "",
   title: "",
   categoryId: "",
@@ -58,9 +74,8 @@ const EMPTY_FORM: ProjectFormState = {
   description: "",
   targetAmount: "",
   currency: "USD",
-  country: "",
-  state: "",
-  city: "",
+  autoCloseOnTarget: false,
+  addresses: [],
 };
 
 function EditProjectPage() {
@@ -68,34 +83,60 @@ function EditProjectPage() {
   const { projectId } = Route.useParams();
   const { session } = useAuth();
 
-  const userId = session?.user.id ?? "";
-  const normalizedRole = session?.user.role.toLowerCase() ?? "";
-  const isAdmin = normalizedRole === "admin";
-  const isNpo = normalizedRole === "npo";
-  const canManageProjects = isAdmin || isNpo;
+  const can = useCan();
+  const { locale, t, formatNumber } = useLocale();
+  const canManageProjects = can("project.update");
+  // Only roles that manage every project may reassign the owning NPO.
+  const canAssignOwner = can("project.update.any");
+  const canSetAutoClose = can("project.autoClose");
+  const canReviewProjects = can("project.approve");
 
   const [categories, setCategories] = useState<Category[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [project, setProject] = useState<Project | null>(null);
-  const [editForm, setEditForm] = useState<ProjectFormState>(EMPTY_FORM);
-  const [newEditImages, setNewEditImages] = useState<File[]>([]);
+  const [newEditImages, setNewEditImages] = useState<ProcessedImage[]>([]);
   const [newEditVideos, setNewEditVideos] = useState<File[]>([]);
+  const [mediaPolicy, setMediaPolicy] = useState<MediaPolicy>(DEFAULT_MEDIA_POLICY);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isProcessingImages, setIsProcessingImages] = useState(false);
+  const [isCheckingVideos, setIsCheckingVideos] = useState(false);
+  const [isResubmitting, setIsResubmitting] = useState(false);
   const [isDeletingMedia, setIsDeletingMedia] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const {
+    items: uploadItems,
+    isUploading,
+    uploadAll,
+    retry,
+    cancel,
+    clearFinished,
+  } = useMediaUploadQueue(setProject);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<CreateProjectFormInput, unknown, CreateProjectFormValues>({
+    resolver: zodResolver(createProjectFormSchema(locale)),
+    defaultValues: EMPTY_FORM,
+  });
+  const selectedCurrency = useWatch({ control, name: "currency" });
 
   const npoUsers = useMemo(
-    () => users.filter((user) => user.role.toLowerCase() === "npo"),
+    () => users.filter((user) => isNpoRole(user.role)),
     [users],
   );
 
-  const editImagePreviews = useMemo<MediaPreview[]>(
+  const editImagePreviews = useMemo<ImagePreview[]>(
     () =>
-      newEditImages.map((file, index) => ({
+      newEditImages.map(({ file, originalSize }, index) => ({
         id: `${file.name}-${file.size}-${file.lastModified}-edit-image-${index}`,
         file,
+        originalSize,
         previewUrl: URL.createObjectURL(file),
       })),
     [newEditImages],
@@ -156,27 +197,7 @@ function EditProjectPage() {
     setSuccessMessage(null);
   }
 
-  function setEditField<K extends keyof ProjectFormState>(field: K, value: ProjectFormState[K]) {
-    setEditForm((current) => ({ ...current, [field]: value }));
-  }
-
-  function toAddressArray(form: ProjectFormState): Address[] {
-    if (!form.country.trim() && !form.state.trim() && !form.city.trim()) {
-      return [];
-    }
-
-    return [
-      {
-        country: form.country,
-        state: form.state,
-        city: form.city,
-      },
-    ];
-  }
-
-  function projectToForm(item: Project): ProjectFormState {
-    const firstAddress = item.addresses[0];
-
+  function projectToForm(item: Project): CreateProjectFormInput {
     return {
       npoUserId: item.npoUserId,
       title: item.title,
@@ -186,9 +207,8 @@ function EditProjectPage() {
       description: item.description,
       targetAmount: String(item.targetAmount),
       currency: item.currency || "USD",
-      country: firstAddress?.country ?? "",
-      state: firstAddress?.state ?? "",
-      city: firstAddress?.city ?? "",
+      autoCloseOnTarget: Boolean(item.autoCloseOnTarget),
+      addresses: item.addresses.map(toProjectAddressFormValues),
     };
   }
 
@@ -202,35 +222,36 @@ function EditProjectPage() {
     clearAlerts();
 
     try {
-      const [categoriesResponse, projectResponse, usersResponse] = await Promise.all([
+      const [categoriesResponse, projectResponse, usersResponse, mediaPolicyResponse] = await Promise.all([
         getCategories(),
         getProjectById(projectId),
-        isAdmin ? getUsers() : Promise.resolve([]),
+        canAssignOwner ? getUsers() : Promise.resolve([]),
+        getMediaPolicy(),
       ]);
 
-      if (isNpo && projectResponse.npoUserId !== userId) {
+      if (!can("project.update", projectResponse.npoUserId)) {
         setProject(null);
-        setErrorMessage("You are not allowed to edit this project.");
+        setErrorMessage(t("projectEdit.notAllowed"));
         return;
       }
 
       setCategories(categoriesResponse);
       setUsers(usersResponse);
+      setMediaPolicy(mediaPolicyResponse);
       setProject(projectResponse);
-      setEditForm(projectToForm(projectResponse));
+      reset(projectToForm(projectResponse));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
       setIsLoading(false);
     }
-  }, [canManageProjects, isAdmin, isNpo, projectId, session, userId]);
+  }, [can, canAssignOwner, canManageProjects, projectId, reset, session, t]);
 
   useEffect(() => {
     void loadData();
   }, [loadData]);
 
-  async function onUpdateProject(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
+  async function onUpdateProject(values: CreateProjectFormValues) {
     if (!project || !session) {
       return;
     }
@@ -239,57 +260,76 @@ function EditProjectPage() {
     setIsUpdating(true);
 
     try {
-      if (project.images.length + newEditImages.length > MAX_IMAGE_COUNT) {
-        setErrorMessage("Total images cannot exceed 10 per project.");
+      const mediaError = validateMediaSelection(
+        {
+          existingImageCount: project.images.length,
+          existingVideoCount: project.videos.length,
+          images: newEditImages.map(({ file }) => file),
+          videos: newEditVideos,
+        },
+        mediaPolicy,
+        locale,
+      );
+      if (mediaError) {
+        setErrorMessage(mediaError);
         return;
       }
 
-      if (project.videos.length + newEditVideos.length > MAX_VIDEO_COUNT) {
-        setErrorMessage("Only 1 video is allowed per project.");
-        return;
-      }
+      await updateProject(project.id, {
+        npoUserId: values.npoUserId,
+        title: values.title,
+        categoryId: Number(values.categoryId),
+        startDate: values.startDate,
+        endDate: values.endDate || undefined,
+        description: values.description,
+        targetAmount: Number(values.targetAmount),
+        currency: values.currency,
+        autoCloseOnTarget: canSetAutoClose ? values.autoCloseOnTarget : undefined,
+        addresses: toProjectAddresses(values),
+      });
 
-      const oversizedImage = newEditImages.find((file) => file.size > MAX_IMAGE_SIZE_BYTES);
-      if (oversizedImage) {
-        setErrorMessage(`Image '${oversizedImage.name}' exceeds 5 MB.`);
-        return;
-      }
+      // Selected files move to the upload list, where failed ones can be retried.
+      clearFinished();
+      setNewEditImages([]);
+      setNewEditVideos([]);
+      const summary = await uploadAll(project.id, [
+        ...newEditImages.map(({ file }) => ({ file, kind: "image" as const })),
+        ...newEditVideos.map((file) => ({ file, kind: "video" as const })),
+      ]);
+
+      const latest = await getProjectById(project.id);
+      setProject(latest);
+      reset(projectToForm(latest));
 
-      const oversizedVideo = newEditVideos.find((file) => file.size > MAX_VIDEO_SIZE_BYTES);
-      if (oversizedVideo) {
-        setErrorMessage(`Video '${oversizedVideo.name}' exceeds 20 MB.`);
+      if (summary.succeeded < summary.total) {
+        setErrorMessage(t("projectEdit.uploadIncomplete", { count: summary.total - summary.succeeded }));
         return;
       }
 
-      await updateProject(project.id, {
-        npoUserId: editForm.npoUserId,
-        title: editForm.title,
-        categoryId: Number(editForm.categoryId),
-        startDate: editForm.startDate,
-        endDate: editForm.endDate || undefined,
-        description: editForm.description,
-        targetAmount: Number(editForm.targetAmount),
-        currency: editForm.currency,
-        addresses: toAddressArray(editForm),
-      });
+      setSuccessMessage(t("projectEdit.saved"));
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsUpdating(false);
+    }
+  }
 
-      if (newEditImages.length > 0 || newEditVideos.length > 0) {
-        await addProjectMedia(project.id, {
-          images: newEditImages,
-          videos: newEditVideos,
-        });
-      }
+  async function onResubmitProject() {
+    if (!project) {
+      return;
+    }
 
-      const latest = await getProjectById(project.id);
+    clearAlerts();
+    setIsResubmitting(true);
+
+    try {
+      const latest = await submitProjectForReview(project.id);
       setProject(latest);
-      setEditForm(projectToForm(latest));
-      setNewEditImages([]);
-      setNewEditVideos([]);
-      setSuccessMessage("Project updated successfully.");
+      setSuccessMessage(t("projectEdit.resubmitted"));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
-      setIsUpdating(false);
+      setIsResubmitting(false);
     }
   }
 
@@ -305,8 +345,8 @@ function EditProjectPage() {
       await deleteProjectImage(projectImageId);
       const refreshedProject = await getProjectById(project.id);
       setProject(refreshedProject);
-      setEditForm(projectToForm(refreshedProject));
-      setSuccessMessage("Project media removed.");
+      reset(projectToForm(refreshedProject));
+      setSuccessMessage(t("projectEdit.mediaRemoved"));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
@@ -314,17 +354,79 @@ function EditProjectPage() {
     }
   }
 
+  async function onImagesSelected(imageFiles: File[]) {
+    if (!project) {
+      return;
+    }
+
+    setIsProcessingImages(true);
+
+    try {
+      const invalidMessage = await validateImageFiles(imageFiles, mediaPolicy, locale);
+      if (invalidMessage) {
+        setErrorMessage(invalidMessage);
+        return;
+      }
+
+      const processed = await processImages(imageFiles);
+      const oversized = processed.find(({ file }) => file.size > mediaPolicy.maxImageSizeBytes);
+      if (oversized) {
+        setErrorMessage(
+          t("projectForm.imageStillTooLarge", {
+            name: oversized.file.name,
+            size: formatFileSize(mediaPolicy.maxImageSizeBytes),
+          }),
+        );
+        return;
+      }
+
+      const remainingSlots = mediaPolicy.maxImageCount - project.images.length;
+      const merged = [...newEditImages, ...processed];
+      setErrorMessage(merged.length > remainingSlots ? formatMediaCountLimit("image", mediaPolicy, locale) : null);
+      setNewEditImages(merged.slice(0, Math.max(remainingSlots, 0)));
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsProcessingImages(false);
+    }
+  }
+  async function onVideosSelected(videoFiles: File[]) {
+    if (!project) {
+      return;
+    }
+
+    setIsCheckingVideos(true);
+
+    try {
+      const invalidMessage = await validateVideoFiles(videoFiles, mediaPolicy, locale);
+      if (invalidMessage) {
+        setErrorMessage(invalidMessage);
+        return;
+      }
+
+      const remainingSlots = mediaPolicy.maxVideoCount - project.videos.length;
+      const merged = [...newEditVideos, ...videoFiles];
+      setErrorMessage(merged.length > remainingSlots ? formatMediaCountLimit("video", mediaPolicy, locale) : null);
+      setNewEditVideos(merged.slice(0, Math.max(remainingSlots, 0)));
+    } finally {
+      setIsCheckingVideos(false);
+    }
+  }
+
+
   if (!canManageProjects) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Edit Project</CardTitle>
-          <CardDescription>Only Admin and NPO users can edit projects.</CardDescription>
+          <CardTitle>{t("projectEdit.title")}</CardTitle>
+          <CardDescription>{t("projectEdit.forbidden")}</CardDescription>
         </CardHeader>
       </Card>
     );
   }
 
+  const canResubmit = project ? canSubmitForReview(getProjectReviewStatus(project)) : false;
+
   return (
     <div className="space-y-6">
       {errorMessage ? (
@@ -350,31 +452,31 @@ function EditProjectPage() {
       <Card>
         <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
           <div>
-            <CardTitle>Edit Project</CardTitle>
-            <CardDescription>Update project details and media in a dedicated page.</CardDescription>
+            <CardTitle>{t("projectEdit.title")}</CardTitle>
+            <CardDescription>{t("projectEdit.description")}</CardDescription>
           </div>
           <div className="flex gap-2">
-            {isAdmin && project ? (
+            {canReviewProjects && project ? (
               <Button
                 variant="secondary"
                 render={
                   <Link to="/dashboard/projects/preview/$projectId" params={{ projectId: project.id }} />
                 }
               >
-                Preview
+                {t("projects.preview")}
               </Button>
             ) : null}
             <Button variant="outline" render={<Link to="/dashboard/projects" />}>
-              Back to Projects
+              {t("projects.backToProjects")}
             </Button>
           </div>
         </CardHeader>
         <CardContent>
-          {isLoading ? <p className="text-sm text-muted-foreground">Loading project...</p> : null}
+          {isLoading ? <p className="text-sm text-muted-foreground">{t("projectEdit.loading")}</p> : null}
 
           {!isLoading && !project ? (
             <div className="space-y-3">
-              <p className="text-sm text-muted-foreground">Project not found or not accessible.</p>
+              <p className="text-sm text-muted-foreground">{t("projectEdit.notFound")}</p>
               <Button
                 type="button"
                 variant="outline"
@@ -382,212 +484,227 @@ function EditProjectPage() {
                   void navigate({ to: "/dashboard/projects" });
                 }}
               >
-                Go Back
+                {t("projectEdit.goBack")}
               </Button>
             </div>
           ) : null}
 
+          {project && (project.reviewComment || canResubmit) ? (
+            <div className="mb-4 space-y-2 rounded-md border bg-muted/30 p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-semibold">{t("projectEdit.reviewStatus")}</p>
+                  <ProjectStatusBadge project={project} />
+                </div>
+                {canResubmit ? (
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={isResubmitting || isUpdating}
+                    onClick={() => {
+                      void onResubmitProject();
+                    }}
+                  >
+                    {isResubmitting ? t("projectEdit.submitting") : t("projectEdit.resubmit")}
+                  </Button>
+                ) : null}
+              </div>
+              {project.reviewComment ? (
+                <div className="text-sm">
+                  <p className="text-xs text-muted-foreground">{t("projectEdit.reviewerFeedback")}</p>
+                  <p className="whitespace-pre-line">{project.reviewComment}</p>
+                </div>
+              ) : null}
+              {canResubmit ? (
+                <p className="text-xs text-muted-foreground">{t("projectEdit.resubmitHint")}</p>
+              ) : null}
+            </div>
+          ) : null}
+
           {project ? (
-            <form className="grid gap-4 md:grid-cols-2" onSubmit={onUpdateProject}>
-              {isAdmin ? (
+            <form className="grid gap-4 md:grid-cols-2" onSubmit={handleSubmit(onUpdateProject)}>
+              {canAssignOwner ? (
                 <div className="space-y-2">
-                  <Label htmlFor="edit-npo">NPO Owner</Label>
+                  <Label htmlFor="edit-npo">{t("projects.owner")}</Label>
                   <select
                     id="edit-npo"
                     className="h-9 w-full rounded-md border bg-background px-3 text-sm"
-                    value={editForm.npoUserId}
-                    onChange={(event) => setEditField("npoUserId", event.target.value)}
-                    required
+                    {...register("npoUserId")}
                   >
-                    <option value="">Select NPO user</option>
+                    <option value="">{t("projectForm.selectOwner")}</option>
                     {npoUsers.map((user) => (
                       <option key={user.id} value={user.id}>
                         {user.firstName} {user.lastName} ({user.email})
                       </option>
                     ))}
                   </select>
+                  {errors.npoUserId ? (
+                    <p className="text-xs text-destructive">{errors.npoUserId.message}</p>
+                  ) : null}
                 </div>
               ) : null}
 
               <div className="space-y-2">
-                <Label htmlFor="edit-title">Project Title</Label>
+                <Label htmlFor="edit-title">{t("projectForm.title")}</Label>
                 <Input
                   id="edit-title"
-                  value={editForm.title}
-                  onChange={(event) => setEditField("title", event.target.value)}
-                  required
+                  {...register("title")}
                 />
+                {errors.title ? (
+                  <p className="text-xs text-destructive">{errors.title.message}</p>
+                ) : null}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-category">Category</Label>
+                <Label htmlFor="edit-category">{t("projects.category")}</Label>
                 <select
                   id="edit-category"
                   className="h-9 w-full rounded-md border bg-background px-3 text-sm"
-                  value={editForm.categoryId}
-                  onChange={(event) => setEditField("categoryId", event.target.value)}
-                  required
+                  {...register("categoryId")}
                 >
-                  <option value="">Select category</option>
+                  <option value="">{t("projectForm.selectCategory")}</option>
                   {categories.map((category) => (
                     <option key={category.id} value={category.id}>
                       {category.name}
                     </option>
                   ))}
                 </select>
+                {errors.categoryId ? (
+                  <p className="text-xs text-destructive">{errors.categoryId.message}</p>
+                ) : null}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-target">Target Amount</Label>
+                <Label htmlFor="edit-target">{t("projectForm.targetAmount")}</Label>
                 <Input
                   id="edit-target"
                   type="number"
                   min="1"
-                  step="0.01"
-                  value={editForm.targetAmount}
-                  onChange={(event) => setEditField("targetAmount", event.target.value)}
-                  required
+                  step={getCurrencyAmountStep(selectedCurrency)}
+                  {...register("targetAmount")}
                 />
+                {errors.targetAmount ? (
+                  <p className="text-xs text-destructive">{errors.targetAmount.message}</p>
+                ) : null}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-currency">Currency</Label>
-                <CurrencySelect
-                  id="edit-currency"
+                <Label htmlFor="edit-currency">{t("projectForm.currency")}</Label>
+                <Controller
                   name="currency"
-                  value={editForm.currency}
-                  onChange={(value) => setEditField("currency", value)}
+                  control={control}
+                  render={({ field }) => (
+                    <CurrencySelect
+                      id="edit-currency"
+                      name={field.name}
+                      value={field.value ?? "USD"}
+                      onChange={field.onChange}
+                    />
+                  )}
                 />
+                {errors.currency ? (
+                  <p className="text-xs text-destructive">{errors.currency.message}</p>
+                ) : null}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-start-date">Start Date</Label>
+                <Label htmlFor="edit-start-date">{t("projects.columnStartDate")}</Label>
                 <Input
                   id="edit-start-date"
                   type="date"
-                  value={editForm.startDate}
-                  onChange={(event) => setEditField("startDate", event.target.value)}
-                  required
+                  {...register("startDate")}
                 />
+                {errors.startDate ? (
+                  <p className="text-xs text-destructive">{errors.startDate.message}</p>
+                ) : null}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-end-date">End Date (optional)</Label>
+                <Label htmlFor="edit-end-date">{t("projectForm.endDateOptional")}</Label>
                 <Input
                   id="edit-end-date"
                   type="date"
-                  value={editForm.endDate}
-                  onChange={(event) => setEditField("endDate", event.target.value)}
+                  {...register("endDate")}
                 />
+                {errors.endDate ? (
+                  <p className="text-xs text-destructive">{errors.endDate.message}</p>
+                ) : null}
               </div>
 
+              {canSetAutoClose ? (
+                <label className="flex items-center gap-2 text-sm md:col-span-2">
+                  <input type="checkbox" disabled={isUpdating} {...register("autoCloseOnTarget")} />
+                  {t("projectForm.autoClose")}
+                </label>
+              ) : null}
+
               <div className="space-y-2 md:col-span-2">
-                <Label htmlFor="edit-description">Description</Label>
+                <Label htmlFor="edit-description">{t("projectForm.description")}</Label>
                 <Textarea
                   id="edit-description"
-                  value={editForm.description}
-                  onChange={(event) => setEditField("description", event.target.value)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="edit-country">Address Country</Label>
-                <Input
-                  id="edit-country"
-                  value={editForm.country}
-                  onChange={(event) => setEditField("country", event.target.value)}
+                  {...register("description")}
                 />
+                {errors.description ? (
+                  <p className="text-xs text-destructive">{errors.description.message}</p>
+                ) : null}
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="edit-state">Address State</Label>
-                <Input
-                  id="edit-state"
-                  value={editForm.state}
-                  onChange={(event) => setEditField("state", event.target.value)}
+              <div className="md:col-span-2">
+                <ProjectAddressFields
+                  idPrefix="edit"
+                  control={control}
+                  errors={errors}
+                  disabled={isUpdating}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-city">Address City</Label>
-                <Input
-                  id="edit-city"
-                  value={editForm.city}
-                  onChange={(event) => setEditField("city", event.target.value)}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="edit-images">Add More Images</Label>
+                <Label htmlFor="edit-images">{t("projectEdit.addImages")}</Label>
                 <Input
                   id="edit-images"
                   type="file"
                   multiple
-                  accept="image/*"
+                  accept={mediaPolicy.allowedImageTypes.join(",")}
+                  disabled={isProcessingImages}
                   onChange={(event) => {
                     const files = event.target.files ? Array.from(event.target.files) : [];
-                    const imageFiles = files.filter((file) => file.type.startsWith("image/"));
-                    const oversized = imageFiles.find((file) => file.size > MAX_IMAGE_SIZE_BYTES);
-                    if (oversized) {
-                      setErrorMessage(`Image '${oversized.name}' exceeds 5 MB.`);
-                      event.target.value = "";
-                      return;
-                    }
-
-                    const remainingSlots = MAX_IMAGE_COUNT - project.images.length;
-                    setNewEditImages((current) => {
-                      const merged = [...current, ...imageFiles];
-                      if (merged.length > remainingSlots) {
-                        setErrorMessage("Total images cannot exceed 10 per project.");
-                      } else {
-                        setErrorMessage(null);
-                      }
-
-                      return merged.slice(0, Math.max(remainingSlots, 0));
-                    });
                     event.target.value = "";
+                    void onImagesSelected(files);
                   }}
                 />
+                <p className="text-xs text-muted-foreground">
+                  {isProcessingImages
+                    ? t("projectForm.optimizingImages")
+                    : t("projectForm.imageHint", {
+                        pixels: formatNumber(IMAGE_PROCESSING_OPTIONS.maxDimension, { useGrouping: false }),
+                      })}
+                </p>
+                <p className="text-xs text-muted-foreground">{describeMediaPolicy("image", mediaPolicy, locale)}</p>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-videos">Add More Videos</Label>
+                <Label htmlFor="edit-videos">{t("projectEdit.addVideos")}</Label>
                 <Input
                   id="edit-videos"
                   type="file"
                   multiple
-                  accept="video/*"
+                  accept={mediaPolicy.allowedVideoTypes.join(",")}
+                  disabled={isCheckingVideos}
                   onChange={(event) => {
                     const files = event.target.files ? Array.from(event.target.files) : [];
-                    const videoFiles = files.filter((file) => file.type.startsWith("video/"));
-                    const oversized = videoFiles.find((file) => file.size > MAX_VIDEO_SIZE_BYTES);
-                    if (oversized) {
-                      setErrorMessage(`Video '${oversized.name}' exceeds 20 MB.`);
-                      event.target.value = "";
-                      return;
-                    }
-
-                    const remainingSlots = MAX_VIDEO_COUNT - project.videos.length;
-                    setNewEditVideos((current) => {
-                      const merged = [...current, ...videoFiles];
-                      if (merged.length > remainingSlots) {
-                        setErrorMessage("Only 1 video is allowed per project.");
-                      } else {
-                        setErrorMessage(null);
-                      }
-
-                      return merged.slice(0, Math.max(remainingSlots, 0));
-                    });
                     event.target.value = "";
+                    void onVideosSelected(files);
                   }}
                 />
+                <p className="text-xs text-muted-foreground">
+                  {isCheckingVideos ? t("projectForm.checkingVideos") : describeMediaPolicy("video", mediaPolicy, locale)}
+                </p>
               </div>
 
               <div className="space-y-2 md:col-span-2">
-                <Label>New Image Preview</Label>
+                <Label>{t("projectEdit.newImagePreview")}</Label>
                 {editImagePreviews.length === 0 ? (
-                  <p className="text-xs text-muted-foreground">No new images selected.</p>
+                  <p className="text-xs text-muted-foreground">{t("projectEdit.noNewImages")}</p>
                 ) : (
                   <div className="flex flex-wrap gap-2">
                     {editImagePreviews.map((preview, index) => (
@@ -597,8 +714,11 @@ function EditProjectPage() {
                           alt={preview.file.name}
                           className="h-20 w-24 rounded-md border object-cover"
                         />
+                        <p className="mt-1 text-center text-[11px] text-muted-foreground">
+                          {formatFileSize(preview.originalSize)} → {formatFileSize(preview.file.size)}
+                        </p>
                         <Button
-                          className="absolute top-1 right-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
+                          className="absolute top-1 end-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
                           variant="destructive"
                           type="button"
                           onClick={() => {
@@ -616,9 +736,9 @@ function EditProjectPage() {
               </div>
 
               <div className="space-y-2 md:col-span-2">
-                <Label>New Video Preview</Label>
+                <Label>{t("projectEdit.newVideoPreview")}</Label>
                 {editVideoPreviews.length === 0 ? (
-                  <p className="text-xs text-muted-foreground">No new videos selected.</p>
+                  <p className="text-xs text-muted-foreground">{t("projectEdit.noNewVideos")}</p>
                 ) : (
                   <div className="flex flex-wrap gap-2">
                     {editVideoPreviews.map((preview, index) => (
@@ -629,7 +749,7 @@ function EditProjectPage() {
                           controls
                         />
                         <Button
-                          className="absolute top-1 right-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
+                          className="absolute top-1 end-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
                           variant="destructive"
                           type="button"
                           onClick={() => {
@@ -646,40 +766,46 @@ function EditProjectPage() {
                 )}
               </div>
 
+              {uploadItems.length > 0 ? (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>{t("projectForm.uploads")}</Label>
+                  <MediaUploadList
+                    items={uploadItems}
+                    onCancel={cancel}
+                    onRetry={(id) => {
+                      void retry(id);
+                    }}
+                  />
+                </div>
+              ) : null}
+
               <div className="space-y-2 md:col-span-2">
-                <Label>Uploaded Images</Label>
-                {project.images.length === 0 ? (
-                  <p className="text-xs text-muted-foreground">No uploaded images.</p>
-                ) : (
-                  <div className="flex flex-wrap gap-2">
-                    {project.images.map((image) => (
-                      <div key={image.id} className="relative">
-                        <img
-                          src={resolveAssetUrl(image.storagePath)}
-                          alt={image.fileName}
-                          className="h-20 w-24 rounded-md border object-cover"
-                        />
-                        <Button
-                          className="absolute top-1 right-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
-                          variant="destructive"
-                          type="button"
-                          disabled={isDeletingMedia}
-                          onClick={() => {
-                            void onDeleteMedia(image.id);
-                          }}
-                        >
-                          X
-                        </Button>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <Label>{t("projectEdit.uploadedImages")}</Label>
+                <ProjectMediaManager
+                  projectId={project.id}
+                  images={project.images}
+                  disabled={isDeletingMedia}
+                  onImagesChange={(images) => {
+                    setProject((current) => (current ? { ...current, images } : current));
+                  }}
+                  onDelete={(image) => {
+                    void onDeleteMedia(image.id);
+                  }}
+                  onError={(message) => {
+                    setSuccessMessage(null);
+                    setErrorMessage(message);
+                  }}
+                  onSuccess={(message) => {
+                    setErrorMessage(null);
+                    setSuccessMessage(message);
+                  }}
+                />
               </div>
 
               <div className="space-y-2 md:col-span-2">
-                <Label>Uploaded Videos</Label>
+                <Label>{t("projectEdit.uploadedVideos")}</Label>
                 {project.videos.length === 0 ? (
-                  <p className="text-xs text-muted-foreground">No uploaded videos.</p>
+                  <p className="text-xs text-muted-foreground">{t("projectEdit.noUploadedVideos")}</p>
                 ) : (
                   <div className="flex flex-wrap gap-2">
                     {project.videos.map((video) => (
@@ -690,7 +816,7 @@ function EditProjectPage() {
                           controls
                         />
                         <Button
-                          className="absolute top-1 right-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
+                          className="absolute top-1 end-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
                           variant="destructive"
                           type="button"
                           disabled={isDeletingMedia}
@@ -707,8 +833,8 @@ function EditProjectPage() {
               </div>
 
               <div className="md:col-span-2 flex flex-wrap gap-2">
-                <Button type="submit" disabled={isUpdating}>
-                  {isUpdating ? "Updating..." : "Save Changes"}
+                <Button type="submit" disabled={isUpdating || isUploading || isProcessingImages}>
+                  {isUpdating ? t("projectEdit.updating") : t("common.saveChanges")}
                 </Button>
                 <Button
                   type="button"
@@ -717,7 +843,7 @@ function EditProjectPage() {
                     void navigate({ to: "/dashboard/projects" });
                   }}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
               </div>
             </form>
@@ -0,0 +1,615 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { createProject, extractApiErrorMessage, getCategories, getUsers } from "@/lib/api";
+import { detectCsvDecimalSeparator, downloadCsv, parseCsv, type DecimalSeparator } from "@/lib/csv";
+import type { Locale, MessageKey, Translate } from "@/lib/i18n";
+import { isNpoRole } from "@/lib/permissions";
+import {
+  PROJECT_IMPORT_FIELDS,
+  PROJECT_IMPORT_TEMPLATE_ROWS,
+  getMissingRequiredFields,
+  guessProjectImportMapping,
+  toImportedProjectPayload,
+  toProjectImportSourceRows,
+  validateProjectImportRows,
+  type ProjectImportField,
+  type ProjectImportMapping,
+  type ProjectImportRow,
+  type ProjectImportSourceRow,
+} from "@/lib/project-import";
+import { requirePermission } from "@/lib/route-guards";
+import { formatFileSize } from "@/lib/utils";
+import { downloadXlsx, readXlsxRows } from "@/lib/xlsx";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLocale } from "@/components/locale-provider";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import type { Category, User } from "@/types/api";
+
+export const Route = createFileRoute("/dashboard/projects/import")({
+  beforeLoad: requirePermission("project.import"),
+  component: ImportProjectsPage,
+});
+
+type ImportStep = "upload" | "map" | "review" | "result";
+
+type ImportOutcome = "created" | "skipped" | "failed";
+
+interface ImportResult {
+  rowNumber: number;
+  title: string;
+  outcome: ImportOutcome;
+  message: string;
+}
+
+interface ImportProgress {
+  processed: number;
+  total: number;
+}
+
+const MAX_IMPORT_ROWS = 500;
+const MAX_IMPORT_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+const IMPORT_BATCH_SIZE = 5;
+
+const IMPORT_STEPS: { id: ImportStep; label: MessageKey }[] = [
+  { id: "upload", label: "projectImport.stepUpload" },
+  { id: "map", label: "projectImport.stepMap" },
+  { id: "review", label: "projectImport.stepReview" },
+  { id: "result", label: "projectImport.stepResult" },
+];
+
+const IMPORT_OUTCOMES: readonly ImportOutcome[] = ["created", "skipped", "failed"];
+
+interface SpreadsheetContent {
+  rows: string[][];
+  decimalSeparator: DecimalSeparator;
+}
+
+/** XLSX stores numbers with a decimal point; CSV follows the convention of its delimiter. */
+async function readSpreadsheet(file: File, locale: Locale): Promise<SpreadsheetContent> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return { rows: await readXlsxRows(file, locale), decimalSeparator: "." };
+  }
+
+  const text = await file.text();
+  return { rows: parseCsv(text), decimalSeparator: detectCsvDecimalSeparator(text) };
+}
+
+function summarizeErrors(row: ProjectImportRow, t: Translate): string {
+  return PROJECT_IMPORT_FIELDS.flatMap(({ field, label }) =>
+    row.errors[field] ? [t("projectImport.fieldError", { field: t(label), error: row.errors[field] })] : [],
+  ).join("; ");
+}
+
+function ImportProjectsPage() {
+  const { locale, t } = useLocale();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoadingLookups, setIsLoadingLookups] = useState(true);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<ProjectImportSourceRow[]>([]);
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(".");
+  const [mapping, setMapping] = useState<ProjectImportMapping>(() => guessProjectImportMapping([]));
+  const [showOnlyInvalid, setShowOnlyInvalid] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const npoUsers = useMemo(() => users.filter((user) => user.isNpo || isNpoRole(user.role)), [users]);
+  const missingRequiredFields = useMemo(() => getMissingRequiredFields(mapping), [mapping]);
+
+  const validatedRows = useMemo(
+    () =>
+      step === "review"
+        ? validateProjectImportRows(dataRows, mapping, { npoUsers, categories }, decimalSeparator, locale)
+        : [],
+    [categories, dataRows, decimalSeparator, locale, mapping, npoUsers, step],
+  );
+  const validRowCount = validatedRows.filter((row) => row.values).length;
+  const visibleRows = showOnlyInvalid ? validatedRows.filter((row) => !row.values) : validatedRows;
+
+  const resultCounts = useMemo(
+    () =>
+      results.reduce<Record<ImportOutcome, number>>(
+        (counts, result) => ({ ...counts, [result.outcome]: counts[result.outcome] + 1 }),
+        { created: 0, skipped: 0, failed: 0 },
+      ),
+    [results],
+  );
+
+  useEffect(() => {
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    if (!successMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setSuccessMessage(null);
+    }, 3500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [successMessage]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadLookups() {
+      try {
+        const [categoriesResponse, usersResponse] = await Promise.all([getCategories(), getUsers()]);
+        if (isActive) {
+          setCategories(categoriesResponse);
+          setUsers(usersResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoadingLookups(false);
+        }
+      }
+    }
+
+    void loadLookups();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  function resetWizard() {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(guessProjectImportMapping([]));
+    setResults([]);
+    setShowOnlyInvalid(false);
+    setFileInputKey((current) => current + 1);
+  }
+
+  async function onFileSelected(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      setErrorMessage(t("projectImport.fileType"));
+      setFileInputKey((current) => current + 1);
+      return;
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE_BYTES) {
+      setErrorMessage(t("projectImport.fileSize", { size: formatFileSize(MAX_IMPORT_FILE_SIZE_BYTES) }));
+      setFileInputKey((current) => current + 1);
+      return;
+    }
+
+    setIsReadingFile(true);
+
+    try {
+      const spreadsheet = await readSpreadsheet(file, locale);
+      const [headerRow, ...rows] = toProjectImportSourceRows(spreadsheet.rows);
+      const headerCells = headerRow?.cells ?? [];
+
+      if (rows.length === 0) {
+        setErrorMessage(t("projectImport.noRows"));
+        setFileInputKey((current) => current + 1);
+        return;
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        setErrorMessage(t("projectImport.tooManyRows", { max: MAX_IMPORT_ROWS, count: rows.length }));
+        setFileInputKey((current) => current + 1);
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerCells.map((header) => header.trim()));
+      setDataRows(rows);
+      setDecimalSeparator(spreadsheet.decimalSeparator);
+      setMapping(guessProjectImportMapping(headerCells));
+      setStep("map");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : t("projectImport.readFailed"));
+      setFileInputKey((current) => current + 1);
+    } finally {
+      setIsReadingFile(false);
+    }
+  }
+
+  function onMappingChange(field: ProjectImportField, value: string) {
+    setMapping((current) => ({ ...current, [field]: value === "" ? null : Number(value) }));
+  }
+
+  async function onStartImport() {
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    const importResults: ImportResult[] = validatedRows
+      .filter((row) => !row.values)
+      .map((row) => ({
+        rowNumber: row.rowNumber,
+        title: row.raw.title,
+        outcome: "skipped",
+        message: summarizeErrors(row, t),
+      }));
+    const rowsToCreate = validatedRows.flatMap((row) => (row.values ? [{ row, values: row.values }] : []));
+
+    setImportProgress({ processed: 0, total: rowsToCreate.length });
+
+    for (let start = 0; start < rowsToCreate.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rowsToCreate.slice(start, start + IMPORT_BATCH_SIZE);
+      const settled = await Promise.allSettled(
+        batch.map(({ values }) => createProject(toImportedProjectPayload(values))),
+      );
+
+      settled.forEach((outcome, index) => {
+        const { row } = batch[index];
+        importResults.push({
+          rowNumber: row.rowNumber,
+          title: row.raw.title,
+          outcome: outcome.status === "fulfilled" ? "created" : "failed",
+          message: outcome.status === "fulfilled" ? "" : extractApiErrorMessage(outcome.reason),
+        });
+      });
+
+      setImportProgress({ processed: Math.min(start + batch.length, rowsToCreate.length), total: rowsToCreate.length });
+    }
+
+    importResults.sort((a, b) => a.rowNumber - b.rowNumber);
+    setResults(importResults);
+    setImportProgress(null);
+    setStep("result");
+
+    const createdCount = importResults.filter((result) => result.outcome === "created").length;
+    if (createdCount > 0) {
+      setSuccessMessage(t("projectImport.imported", { count: createdCount }));
+    }
+  }
+
+  function onDownloadReport() {
+    downloadCsv(`project-import-report-${new Date().toISOString().slice(0, 10)}.csv`, [
+      [t("projectImport.columnRow"), t("projects.columnTitle"), t("projectImport.columnOutcome"), t("projectImport.columnMessage")],
+      ...results.map((result) => [
+        result.rowNumber,
+        result.title,
+        t(`importOutcome.${result.outcome}`),
+        result.message,
+      ]),
+    ]);
+  }
+
+  const isImporting = importProgress !== null;
+
+  return (
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      {successMessage ? (
+        <NotificationToast
+          type="success"
+          message={successMessage}
+          onClose={() => {
+            setSuccessMessage(null);
+          }}
+        />
+      ) : null}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>{t("projectImport.title")}</CardTitle>
+            <CardDescription>{t("projectImport.description")}</CardDescription>
+          </div>
+          <Button variant="outline" render={<Link to="/dashboard/projects" />}>
+            {t("projects.backToProjects")}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ol className="flex flex-wrap gap-2 text-xs">
+            {IMPORT_STEPS.map((item) => (
+              <li
+                key={item.id}
+                className={
+                  item.id === step
+                    ? "rounded-full bg-secondary px-3 py-1 font-medium"
+                    : "rounded-full px-3 py-1 text-muted-foreground"
+                }
+              >
+                {t(item.label)}
+              </li>
+            ))}
+          </ol>
+
+          {step === "upload" ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="project-import-file">{t("projectImport.file")}</Label>
+                <Input
+                  key={fileInputKey}
+                  id="project-import-file"
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  disabled={isReadingFile || isLoadingLookups}
+                  onChange={(event) => {
+                    void onFileSelected(event);
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {isReadingFile ? t("projectImport.readingFile") : t("projectImport.fileHint", { max: MAX_IMPORT_ROWS })}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-sm text-muted-foreground">{t("projectImport.templatePrompt")}</p>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => downloadCsv("project-import-template.csv", PROJECT_IMPORT_TEMPLATE_ROWS)}
+                >
+                  {t("projectImport.downloadCsvTemplate")}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    downloadXlsx("project-import-template.xlsx", "Projects", PROJECT_IMPORT_TEMPLATE_ROWS)
+                  }
+                >
+                  {t("projectImport.downloadXlsxTemplate")}
+                </Button>
+              </div>
+            </div>
+          ) : null}
+
+          {step === "map" ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {t("projectImport.mapDescription", { name: fileName, count: dataRows.length })}
+              </p>
+
+              <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+                {PROJECT_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`project-import-map-${field}`}>
+                      {t(label)}
+                      {required ? " *" : ""}
+                    </Label>
+                    <select
+                      id={`project-import-map-${field}`}
+                      className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                      value={mapping[field] === null ? "" : String(mapping[field])}
+                      onChange={(event) => onMappingChange(field, event.target.value)}
+                    >
+                      <option value="">{t("projectImport.notImported")}</option>
+                      {headers.map((header, index) => (
+                        <option key={`${header}-${index}`} value={String(index)}>
+                          {header || t("projectImport.columnFallback", { index: index + 1 })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {missingRequiredFields.length > 0 ? (
+                <p className="text-xs text-destructive">
+                  {t("projectImport.missingFields", {
+                    fields: missingRequiredFields.map((definition) => t(definition.label)).join(", "),
+                  })}
+                </p>
+              ) : null}
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" onClick={resetWizard}>
+                  {t("projectImport.chooseAnother")}
+                </Button>
+                <Button
+                  type="button"
+                  disabled={missingRequiredFields.length > 0}
+                  onClick={() => {
+                    setShowOnlyInvalid(false);
+                    setStep("review");
+                  }}
+                >
+                  {t("projectImport.validateRows")}
+                </Button>
+              </div>
+            </div>
+          ) : null}
+
+          {step === "review" ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="secondary">{t("projectImport.readyCount", { count: validRowCount })}</Badge>
+                <Badge variant={validRowCount === validatedRows.length ? "outline" : "destructive"}>
+                  {t("projectImport.errorCount", { count: validatedRows.length - validRowCount })}
+                </Badge>
+                <label className="ms-auto flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={showOnlyInvalid}
+                    onChange={(event) => setShowOnlyInvalid(event.target.checked)}
+                  />
+                  {t("projectImport.showOnlyInvalid")}
+                </label>
+              </div>
+
+              <div className="max-h-[28rem] overflow-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-muted">
+                    <tr>
+                      <th className="px-3 py-2 text-start font-medium">{t("projectImport.columnRow")}</th>
+                      <th className="px-3 py-2 text-start font-medium">{t("projects.columnTitle")}</th>
+                      <th className="px-3 py-2 text-start font-medium">{t("projects.owner")}</th>
+                      <th className="px-3 py-2 text-start font-medium">{t("projects.category")}</th>
+                      <th className="px-3 py-2 text-start font-medium">{t("projects.columnTarget")}</th>
+                      <th className="px-3 py-2 text-start font-medium">{t("projectImport.columnResult")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map((row) => (
+                      <tr key={row.rowNumber} className="border-t align-top">
+                        <td className="px-3 py-2 text-muted-foreground">{row.rowNumber}</td>
+                        <td className="px-3 py-2 font-medium">{row.raw.title || "-"}</td>
+                        <td className="px-3 py-2">{row.raw.npoUserId || "-"}</td>
+                        <td className="px-3 py-2">{row.raw.categoryId || "-"}</td>
+                        <td className="px-3 py-2">
+                          {row.raw.targetAmount ? `${row.raw.targetAmount} ${row.raw.currency.toUpperCase()}` : "-"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.values ? (
+                            <Badge variant="secondary">{t("projectImport.ready")}</Badge>
+                          ) : (
+                            <ul className="space-y-0.5 text-xs text-destructive">
+                              {PROJECT_IMPORT_FIELDS.filter(({ field }) => row.errors[field]).map(({ field, label }) => (
+                                <li key={field}>
+                                  {t("projectImport.fieldError", { field: t(label), error: row.errors[field] ?? "" })}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {importProgress ? (
+                <div className="space-y-1">
+                  <div className="h-2 rounded-full bg-muted">
+                    <div
+                      className="h-2 rounded-full bg-emerald-500 transition-all"
+                      style={{
+                        width: `${importProgress.total === 0 ? 100 : (importProgress.processed / importProgress.total) * 100}%`,
+                      }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t("projectImport.progress", { processed: importProgress.processed, total: importProgress.total })}
+                  </p>
+                </div>
+              ) : null}
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" disabled={isImporting} onClick={() => setStep("map")}>
+                  {t("projectImport.backToMapping")}
+                </Button>
+                <Button
+                  type="button"
+                  disabled={isImporting || validRowCount === 0}
+                  onClick={() => {
+                    void onStartImport();
+                  }}
+                >
+                  {isImporting
+                    ? t("projectImport.importing")
+                    : validRowCount < validatedRows.length
+                      ? t("projectImport.importAndSkip", {
+                          count: validRowCount,
+                          skipped: validatedRows.length - validRowCount,
+                        })
+                      : t("projectImport.importRows", { count: validRowCount })}
+                </Button>
+              </div>
+            </div>
+          ) : null}
+
+          {step === "result" ? (
+            <div className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-3">
+                {IMPORT_OUTCOMES.map((outcome) => (
+                  <div key={outcome} className="rounded-md border p-3">
+                    <p className="text-xs text-muted-foreground">{t(`importOutcome.${outcome}`)}</p>
+                    <p className="text-2xl font-semibold">{resultCounts[outcome]}</p>
+                  </div>
+                ))}
+              </div>
+
+              {resultCounts.skipped + resultCounts.failed > 0 ? (
+                <div className="max-h-[24rem] overflow-auto rounded-md border">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-muted">
+                      <tr>
+                        <th className="px-3 py-2 text-start font-medium">{t("projectImport.columnRow")}</th>
+                        <th className="px-3 py-2 text-start font-medium">{t("projects.columnTitle")}</th>
+                        <th className="px-3 py-2 text-start font-medium">{t("projectImport.columnOutcome")}</th>
+                        <th className="px-3 py-2 text-start font-medium">{t("projectImport.columnReason")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results
+                        .filter((result) => result.outcome !== "created")
+                        .map((result) => (
+                          <tr key={result.rowNumber} className="border-t align-top">
+                            <td className="px-3 py-2 text-muted-foreground">{result.rowNumber}</td>
+                            <td className="px-3 py-2 font-medium">{result.title || "-"}</td>
+                            <td className="px-3 py-2">
+                              <Badge variant={result.outcome === "failed" ? "destructive" : "outline"}>
+                                {t(`importOutcome.${result.outcome}`)}
+                              </Badge>
+                            </td>
+                            <td className="px-3 py-2 text-xs">{result.message}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" onClick={onDownloadReport}>
+                  {t("projectImport.downloadReport")}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetWizard}>
+                  {t("projectImport.importAnother")}
+                </Button>
+                <Button render={<Link to="/dashboard/projects" />}>{t("projectImport.viewProjects")}</Button>
+              </div>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
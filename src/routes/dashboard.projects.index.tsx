@@ -3,22 +3,37 @@ import { Link, createFileRoute } from "@tanstack/react-router";
 import {
   type ColumnFiltersState,
   type ColumnDef,
+  type PaginationState,
   type SortingState,
+  type Updater,
   flexRender,
   getCoreRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
-  getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
 import {
+  createProjectTemplate,
   deleteProject,
   extractApiErrorMessage,
   getCategories,
-  getProjectsForDashboard,
+  getExchangeRates,
   getUsers,
+  queryProjects,
 } from "@/lib/api";
 import { useAuth } from "@/components/auth-provider";
+import { useCan } from "@/components/can";
+import { ConvertedAmount } from "@/components/converted-amount";
+import { CurrencySelect } from "@/components/currency-select";
+import { useLocale } from "@/components/locale-provider";
+import { ProjectLifecycleBadge } from "@/components/project-lifecycle-badge";
+import { ProjectStatusBadge } from "@/components/project-status-badge";
+import { downloadCsv } from "@/lib/csv";
+import { createCurrencyConverter, readReportingCurrency, writeReportingCurrency } from "@/lib/exchange-rates";
+import { isNpoRole } from "@/lib/permissions";
+import { buildProjectExportRows, getProjectExportSheetName, type ExportFormat } from "@/lib/project-export";
+import { PROJECT_LIFECYCLE_STATES, getProjectLifecycle } from "@/lib/project-lifecycle";
+import { MAX_PROJECT_TEMPLATE_NAME_LENGTH, toProjectTemplatePayload } from "@/lib/project-templates";
+import { PROJECT_REVIEW_STATUSES, getProjectReviewStatus } from "@/lib/project-status";
+import { downloadXlsx } from "@/lib/xlsx";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,13 +44,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { NotificationToast } from "@/components/ui/notification-toast";
-import type { Category, Project, User } from "@/types/api";
+import type {
+  Category,
+  ExchangeRate,
+  Project,
+  ProjectLifecycleState,
+  ProjectListQuery,
+  ProjectReviewStatus,
+  ProjectSortField,
+  User,
+} from "@/types/api";
 
 export const Route = createFileRoute("/dashboard/projects/")({
   component: DashboardProjectsPage,
@@ -54,21 +77,23 @@ interface ProjectTableRow {
   currency: string;
   startDate: string;
   status: string;
+  lifecycle: ProjectLifecycleState | null;
   project: Project;
 }
 
-function formatCurrency(amount: number, currency: string): string {
-  const normalizedCurrency = (currency || "USD").trim().toUpperCase();
-
-  try {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: normalizedCurrency,
-      maximumFractionDigits: 2,
-    }).format(amount);
-  } catch {
-    return `${amount.toFixed(2)} ${normalizedCurrency}`;
-  }
+const SEARCH_DEBOUNCE_MS = 300;
+const EXPORT_PAGE_SIZE = 500;
+
+type ExportScope = "filtered" | "all";
+
+interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+function readFilterValue(filters: ColumnFiltersState, columnId: string): string {
+  const value = filters.find((filter) => filter.id === columnId)?.value;
+  return typeof value === "string" ? value : "";
 }
 
 function toDateEpoch(value: string | undefined | null): number {
@@ -84,48 +109,51 @@ function getProjectCreatedDate(project: Project): string {
   return project.createdOn ?? project.createdAt ?? project.startDate;
 }
 
-function formatDateTime(value: string): string {
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) {
-    return value;
-  }
-
-  try {
-    return new Intl.DateTimeFormat("en-US", {
-      dateStyle: "medium",
-      timeStyle: "short",
-    }).format(date);
-  } catch {
-    return value;
-  }
-}
-
 function DashboardProjectsPage() {
   const { session } = useAuth();
+  const can = useCan();
+  const { locale, t, formatDateTime } = useLocale();
   const userId = session?.user.id ?? "";
-  const normalizedRole = session?.user.role.toLowerCase() ?? "";
-  const isAdmin = normalizedRole === "admin";
-  const isNpo = normalizedRole === "npo";
-  const canManageProjects = isAdmin || isNpo;
+  const canViewAllProjects = can("project.view.any");
+  const canViewUsers = can("user.view");
+  const canCreateProjects = can("project.create");
+  const canReviewProjects = can("project.approve");
 
   const [categories, setCategories] = useState<Category[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState(readReportingCurrency);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
   const [isDeletingProject, setIsDeletingProject] = useState(false);
+  const [templateSource, setTemplateSource] = useState<Project | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [templateNameError, setTemplateNameError] = useState<string | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const [sorting, setSorting] = useState<SortingState>([{ id: "createdDate", desc: true }]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [globalFilter, setGlobalFilter] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: 10 });
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportScope, setExportScope] = useState<ExportScope>("filtered");
+  const [exportLocalized, setExportLocalized] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
 
   const npoUsers = useMemo(
-    () => users.filter((user) => user.role.toLowerCase() === "npo"),
+    () => users.filter((user) => isNpoRole(user.role)),
     [users],
   );
 
+  const convertCurrency = useMemo(() => createCurrencyConverter(exchangeRates), [exchangeRates]);
+
   const userNameById = useMemo(
     () =>
       new Map(
@@ -165,34 +193,130 @@ function DashboardProjectsPage() {
     };
   }, [successMessage]);
 
-  const loadData = useCallback(async () => {
-    setIsLoading(true);
-    setErrorMessage(null);
+  const resetPageIndex = useCallback(() => {
+    setPagination((current) => (current.pageIndex === 0 ? current : { ...current, pageIndex: 0 }));
+  }, []);
 
-    try {
-      const [categoriesResponse, projectsResponse, usersResponse] = await Promise.all([
-        getCategories(),
-        getProjectsForDashboard(),
-        isAdmin ? getUsers() : Promise.resolve([]),
-      ]);
-
-      const scopedProjects = isAdmin
-        ? projectsResponse
-        : projectsResponse.filter((project) => project.npoUserId === userId);
-
-      setCategories(categoriesResponse);
-      setUsers(usersResponse);
-      setProjects(scopedProjects);
-    } catch (error) {
-      setErrorMessage(extractApiErrorMessage(error));
-    } finally {
-      setIsLoading(false);
+  // A new search starts from page 1; resetting with the debounced term keeps it to one request.
+  useEffect(() => {
+    const search = globalFilter.trim();
+    if (search === debouncedSearch) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setDebouncedSearch(search);
+      resetPageIndex();
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [debouncedSearch, globalFilter, resetPageIndex]);
+
+  const onSortingChange = useCallback(
+    (updater: Updater<SortingState>) => {
+      setSorting(updater);
+      resetPageIndex();
+    },
+    [resetPageIndex],
+  );
+
+  const onColumnFiltersChange = useCallback(
+    (updater: Updater<ColumnFiltersState>) => {
+      setColumnFilters(updater);
+      resetPageIndex();
+    },
+    [resetPageIndex],
+  );
+
+  const projectQuery = useMemo<ProjectListQuery>(() => {
+    const activeSort = sorting[0];
+    const categoryFilter = readFilterValue(columnFilters, "category");
+    const statusFilter = readFilterValue(columnFilters, "status");
+    const lifecycleFilter = readFilterValue(columnFilters, "lifecycle");
+    const ownerFilter = readFilterValue(columnFilters, "owner");
+
+    return {
+      page: pagination.pageIndex + 1,
+      pageSize: pagination.pageSize,
+      sortBy: activeSort ? (activeSort.id as ProjectSortField) : undefined,
+      sortDirection: activeSort ? (activeSort.desc ? "desc" : "asc") : undefined,
+      status: statusFilter ? (statusFilter as ProjectReviewStatus) : undefined,
+      lifecycle: lifecycleFilter ? (lifecycleFilter as ProjectLifecycleState) : undefined,
+      npoUserId: canViewAllProjects ? ownerFilter || undefined : userId,
+      categoryId: categoryFilter ? Number(categoryFilter) : undefined,
+      search: debouncedSearch || undefined,
+    };
+  }, [canViewAllProjects, columnFilters, debouncedSearch, pagination, sorting, userId]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadLookups() {
+      try {
+        const [categoriesResponse, usersResponse, ratesResponse] = await Promise.all([
+          getCategories(),
+          canViewUsers ? getUsers() : Promise.resolve([]),
+          getExchangeRates(),
+        ]);
+
+        if (isActive) {
+          setCategories(categoriesResponse);
+          setUsers(usersResponse);
+          setExchangeRates(ratesResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      }
     }
-  }, [isAdmin, userId]);
+
+    void loadLookups();
+
+    return () => {
+      isActive = false;
+    };
+  }, [canViewUsers]);
 
   useEffect(() => {
-    void loadData();
-  }, [loadData]);
+    let isActive = true;
+
+    async function loadProjects() {
+      setIsLoading(true);
+
+      try {
+        const result = await queryProjects(projectQuery);
+        if (!isActive) {
+          return;
+        }
+
+        const lastPageIndex = Math.max(0, Math.ceil(result.totalCount / projectQuery.pageSize) - 1);
+        if (result.items.length === 0 && projectQuery.page - 1 > lastPageIndex) {
+          setPagination((current) => ({ ...current, pageIndex: lastPageIndex }));
+          return;
+        }
+
+        setProjects(result.items);
+        setTotalCount(result.totalCount);
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadProjects();
+
+    return () => {
+      isActive = false;
+    };
+  }, [projectQuery, reloadKey]);
 
   function clearAlerts() {
     setErrorMessage(null);
@@ -201,14 +325,14 @@ function DashboardProjectsPage() {
 
   const onDeleteProject = useCallback(
     (project: Project) => {
-      if (!canManageProjects) {
+      if (!can("project.delete", project.npoUserId)) {
         return;
       }
 
       clearAlerts();
       setProjectToDelete(project);
     },
-    [canManageProjects],
+    [can],
   );
 
   const confirmDeleteProject = useCallback(async () => {
@@ -221,47 +345,137 @@ function DashboardProjectsPage() {
 
     try {
       await deleteProject(projectToDelete.id);
-      setProjects((current) => current.filter((project) => project.id !== projectToDelete.id));
       setProjectToDelete(null);
-      setSuccessMessage("Project deleted successfully.");
+      setReloadKey((current) => current + 1);
+      setSuccessMessage(t("projects.deleted"));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
       setIsDeletingProject(false);
     }
-  }, [projectToDelete]);
+  }, [projectToDelete, t]);
 
-  const tableRows = useMemo<ProjectTableRow[]>(
-    () =>
-      projects.map((project) => {
-        const createdDate = getProjectCreatedDate(project);
-
-        return {
-          createdDate,
-          createdDateLabel: formatDateTime(createdDate),
-          createdDateSort: toDateEpoch(createdDate),
-          id: project.id,
-          title: project.title,
-          category: project.category?.name ?? String(project.categoryId),
-          owner:
-            userNameById.get(project.npoUserId) ??
-            (project.npoUserId === userId ? "You" : project.npoUserId),
-          targetAmount: project.targetAmount,
-          raisedAmount: project.raisedAmount,
-          currency: project.currency || "USD",
-          startDate: project.startDate,
-          status: project.isApproved ? "Approved" : "Pending",
-          project,
-        };
-      }),
-    [projects, userNameById, userId],
-  );
+  const onSaveAsTemplate = useCallback((project: Project) => {
+    clearAlerts();
+    setTemplateSource(project);
+    setTemplateName(project.title.slice(0, MAX_PROJECT_TEMPLATE_NAME_LENGTH));
+    setTemplateNameError(null);
+  }, []);
+
+  async function confirmSaveTemplate() {
+    if (!templateSource) {
+      return;
+    }
+
+    if (!templateName.trim()) {
+      setTemplateNameError(t("projects.templateNameRequired"));
+      return;
+    }
+
+    clearAlerts();
+    setIsSavingTemplate(true);
+
+    try {
+      const template = await createProjectTemplate(toProjectTemplatePayload(templateSource, templateName));
+      setTemplateSource(null);
+      setSuccessMessage(t("projects.templateSaved", { name: template.name }));
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  }
+
+  async function onExportProjects() {
+    clearAlerts();
+    setExportProgress({ loaded: 0, total: totalCount });
+
+    try {
+      const baseQuery: ProjectListQuery =
+        exportScope === "filtered"
+          ? projectQuery
+          : {
+              page: 1,
+              pageSize: EXPORT_PAGE_SIZE,
+              npoUserId: canViewAllProjects ? undefined : userId,
+            };
+
+      const exported: Project[] = [];
+      let page = 1;
+      let total = 0;
+
+      do {
+        const result = await queryProjects({ ...baseQuery, page, pageSize: EXPORT_PAGE_SIZE });
+        exported.push(...result.items);
+        total = result.totalCount;
+        setExportProgress({ loaded: exported.length, total });
+        page += 1;
+
+        if (result.items.length === 0) {
+          break;
+        }
+      } while (exported.length < total);
+
+      const ownerNameById = new Map(userNameById);
+      if (userId && !ownerNameById.has(userId)) {
+        ownerNameById.set(userId, session?.user.displayName || session?.user.email || t("common.you"));
+      }
+
+      const exportLocale = exportLocalized ? locale : null;
+      const rows = await buildProjectExportRows(exported, {
+        locale: exportLocale,
+        ownerNameById,
+        categoryNameById: new Map(categories.map((category) => [category.id, category.name])),
+      });
+      const fileName = `projects-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+
+      if (exportFormat === "xlsx") {
+        downloadXlsx(fileName, getProjectExportSheetName(exportLocale), rows);
+      } else {
+        downloadCsv(fileName, rows);
+      }
+
+      setIsExportDialogOpen(false);
+      setSuccessMessage(t("projects.exported", { count: exported.length }));
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setExportProgress(null);
+    }
+  }
+
+  const tableRows = useMemo<ProjectTableRow[]>(() => {
+    const now = new Date();
+
+    return projects.map((project) => {
+      const createdDate = getProjectCreatedDate(project);
+
+      return {
+        createdDate,
+        createdDateLabel: formatDateTime(createdDate),
+        createdDateSort: toDateEpoch(createdDate),
+        id: project.id,
+        title: project.title,
+        category: project.category?.name ?? String(project.categoryId),
+        owner:
+          userNameById.get(project.npoUserId) ??
+          (project.npoUserId === userId ? t("common.you") : project.npoUserId),
+        targetAmount: project.targetAmount,
+        raisedAmount: project.raisedAmount,
+        currency: project.currency || "USD",
+        startDate: project.startDate,
+        status: t(`projectStatus.${getProjectReviewStatus(project)}` as const),
+        lifecycle: getProjectLifecycle(project, now),
+        project,
+      };
+    });
+  }, [formatDateTime, projects, t, userNameById, userId]);
 
   const columns = useMemo<ColumnDef<ProjectTableRow>[]>(() => {
     const baseColumns: ColumnDef<ProjectTableRow>[] = [
       {
         accessorKey: "title",
-        header: "Title",
+        header: t("projects.columnTitle"),
         cell: ({ row }) => (
           <div>
             <p className="font-medium">{row.original.title}</p>
@@ -273,56 +487,73 @@ function DashboardProjectsPage() {
       },
       {
         accessorKey: "category",
-        header: "Category",
+        header: t("projects.category"),
       },
       {
         id: "createdDate",
         accessorFn: (row) => row.createdDateSort,
-        header: "Created Date",
+        header: t("projects.columnCreatedDate"),
         cell: ({ row }) => row.original.createdDateLabel,
       },
       {
         accessorKey: "targetAmount",
-        header: "Target",
-        cell: ({ row }) =>
-          formatCurrency(row.original.targetAmount, row.original.currency),
+        header: t("projects.columnTarget"),
+        cell: ({ row }) => (
+          <ConvertedAmount
+            amount={row.original.targetAmount}
+            currency={row.original.currency}
+            reportingCurrency={reportingCurrency}
+            convert={convertCurrency}
+          />
+        ),
       },
       {
         accessorKey: "raisedAmount",
-        header: "Raised",
-        cell: ({ row }) =>
-          formatCurrency(row.original.raisedAmount, row.original.currency),
+        header: t("projects.columnRaised"),
+        cell: ({ row }) => (
+          <ConvertedAmount
+            amount={row.original.raisedAmount}
+            currency={row.original.currency}
+            reportingCurrency={reportingCurrency}
+            convert={convertCurrency}
+          />
+        ),
       },
       {
         accessorKey: "startDate",
-        header: "Start Date",
+        header: t("projects.columnStartDate"),
       },
       {
         accessorKey: "status",
-        header: "Status",
+        header: t("projects.status"),
         cell: ({ row }) => (
-          <Badge variant={row.original.project.isApproved ? "secondary" : "outline"}>
-            {row.original.status}
-          </Badge>
+          <ProjectStatusBadge project={row.original.project} />
         ),
       },
+      {
+        accessorKey: "lifecycle",
+        header: t("projects.lifecycle"),
+        // Derived from dates and amounts, so the backend has no column to sort by.
+        enableSorting: false,
+        cell: ({ row }) => <ProjectLifecycleBadge state={row.original.lifecycle} />,
+      },
       {
         id: "actions",
-        header: "Actions",
+        header: t("projects.columnActions"),
         enableSorting: false,
         enableColumnFilter: false,
         cell: ({ row }) => {
           const project = row.original.project;
-          const canEditThisProject =
-            canManageProjects && (isAdmin || project.npoUserId === userId);
+          const canEditThisProject = can("project.update", project.npoUserId);
+          const canDeleteThisProject = can("project.delete", project.npoUserId);
 
-          if (!canEditThisProject) {
-            return <span className="text-xs text-muted-foreground">No actions</span>;
+          if (!canEditThisProject && !canDeleteThisProject && !canReviewProjects && !canCreateProjects) {
+            return <span className="text-xs text-muted-foreground">{t("projects.noActions")}</span>;
           }
 
           return (
-            <div className="flex gap-2">
-              {isAdmin ? (
+            <div className="flex flex-wrap gap-2">
+              {canReviewProjects ? (
                 <Button
                   size="sm"
                   variant="secondary"
@@ -333,73 +564,108 @@ function DashboardProjectsPage() {
                     />
                   }
                 >
-                  Preview
+                  {t("projects.preview")}
+                </Button>
+              ) : null}
+              {canEditThisProject ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  render={
+                    <Link
+                      to="/dashboard/projects/edit/$projectId"
+                      params={{ projectId: project.id }}
+                    />
+                  }
+                >
+                  {t("projects.edit")}
+                </Button>
+              ) : null}
+              {canCreateProjects ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  render={<Link to="/dashboard/projects/new" search={{ duplicateFrom: project.id }} />}
+                >
+                  {t("projects.duplicate")}
+                </Button>
+              ) : null}
+              {canCreateProjects && canEditThisProject ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    onSaveAsTemplate(project);
+                  }}
+                >
+                  {t("projects.saveTemplate")}
+                </Button>
+              ) : null}
+              {canDeleteThisProject ? (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => {
+                    void onDeleteProject(project);
+                  }}
+                >
+                  {t("projects.delete")}
                 </Button>
               ) : null}
-              <Button
-                variant="outline"
-                size="sm"
-                render={
-                  <Link
-                    to="/dashboard/projects/edit/$projectId"
-                    params={{ projectId: project.id }}
-                  />
-                }
-              >
-                Edit
-              </Button>
-              <Button
-                type="button"
-                variant="destructive"
-                size="sm"
-                onClick={() => {
-                  void onDeleteProject(project);
-                }}
-              >
-                Delete
-              </Button>
             </div>
           );
         },
       },
     ];
 
-    if (isAdmin) {
+    if (canViewAllProjects) {
       baseColumns.splice(2, 0, {
         accessorKey: "owner",
-        header: "NPO Owner",
+        header: t("projects.owner"),
       });
     }
 
     return baseColumns;
-  }, [canManageProjects, isAdmin, onDeleteProject, userId]);
+  }, [
+    can,
+    canCreateProjects,
+    canReviewProjects,
+    canViewAllProjects,
+    convertCurrency,
+    onDeleteProject,
+    onSaveAsTemplate,
+    reportingCurrency,
+    t,
+  ]);
 
   const table = useReactTable({
     data: tableRows,
     columns,
+    rowCount: totalCount,
     state: {
       sorting,
       columnFilters,
       globalFilter,
+      pagination,
     },
-    onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
+    manualPagination: true,
+    manualSorting: true,
+    manualFiltering: true,
+    enableMultiSort: false,
+    onSortingChange,
+    onColumnFiltersChange,
     onGlobalFilterChange: setGlobalFilter,
+    onPaginationChange: setPagination,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    globalFilterFn: "includesString",
-    initialState: {
-      pagination: {
-        pageSize: 10,
-      },
-    },
   });
 
   const visibleColumnCount = table.getVisibleLeafColumns().length;
+  const isExporting = exportProgress !== null;
   const categoryFilterValue = (table.getColumn("category")?.getFilterValue() as string) ?? "";
   const statusFilterValue = (table.getColumn("status")?.getFilterValue() as string) ?? "";
+  const lifecycleFilterValue = (table.getColumn("lifecycle")?.getFilterValue() as string) ?? "";
   const ownerFilterValue = (table.getColumn("owner")?.getFilterValue() as string) ?? "";
 
   return (
@@ -434,15 +700,15 @@ function DashboardProjectsPage() {
       >
         <AlertDialogContent size="sm">
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Project</AlertDialogTitle>
+            <AlertDialogTitle>{t("projects.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
               {projectToDelete
-                ? `Delete "${projectToDelete.title}" permanently? This action cannot be undone.`
-                : "Delete this project permanently? This action cannot be undone."}
+                ? t("projects.deleteConfirm", { title: projectToDelete.title })
+                : t("projects.deleteConfirmGeneric")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeletingProject}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={isDeletingProject}>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               variant="destructive"
               disabled={isDeletingProject}
@@ -450,7 +716,122 @@ function DashboardProjectsPage() {
                 void confirmDeleteProject();
               }}
             >
-              {isDeletingProject ? "Deleting..." : "Delete Project"}
+              {isDeletingProject ? t("projects.deleting") : t("projects.deleteTitle")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={Boolean(templateSource)}
+        onOpenChange={(open) => {
+          if (!open && !isSavingTemplate) {
+            setTemplateSource(null);
+          }
+        }}
+      >
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("projects.saveTemplate")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("projects.templateDescription", { title: templateSource?.title ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="project-template-name">{t("projects.templateName")}</Label>
+            <Input
+              id="project-template-name"
+              value={templateName}
+              maxLength={MAX_PROJECT_TEMPLATE_NAME_LENGTH}
+              disabled={isSavingTemplate}
+              aria-invalid={Boolean(templateNameError)}
+              onChange={(event) => {
+                setTemplateName(event.target.value);
+                setTemplateNameError(null);
+              }}
+            />
+            {templateNameError ? <p className="text-xs text-destructive">{templateNameError}</p> : null}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSavingTemplate}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isSavingTemplate}
+              onClick={() => {
+                void confirmSaveTemplate();
+              }}
+            >
+              {isSavingTemplate ? t("projects.templateSaving") : t("projects.saveTemplate")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={isExportDialogOpen}
+        onOpenChange={(open) => {
+          if (!open && !isExporting) {
+            setIsExportDialogOpen(false);
+          }
+        }}
+      >
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("projects.exportTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("projects.exportDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="project-export-format">{t("projects.exportFormat")}</Label>
+              <select
+                id="project-export-format"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={exportFormat}
+                disabled={isExporting}
+                onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+              >
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="project-export-scope">{t("projects.exportRows")}</Label>
+              <select
+                id="project-export-scope"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={exportScope}
+                disabled={isExporting}
+                onChange={(event) => setExportScope(event.target.value as ExportScope)}
+              >
+                <option value="filtered">{t("projects.exportFiltered", { count: totalCount })}</option>
+                <option value="all">{t("projects.exportAll")}</option>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={exportLocalized}
+                disabled={isExporting}
+                onChange={(event) => setExportLocalized(event.target.checked)}
+              />
+              {t("projects.exportLocalized")}
+            </label>
+            {exportProgress ? (
+              <p className="text-xs text-muted-foreground">
+                {t("projects.exportProgress", { loaded: exportProgress.loaded, total: exportProgress.total })}
+              </p>
+            ) : null}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isExporting}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isExporting}
+              onClick={() => {
+                void onExportProjects();
+              }}
+            >
+              {isExporting ? t("projects.exporting") : t("projects.export")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -459,33 +840,55 @@ function DashboardProjectsPage() {
       <Card>
         <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
           <div>
-            <CardTitle>Projects</CardTitle>
+            <CardTitle>{t("projects.title")}</CardTitle>
             <CardDescription>
-              {isAdmin
-                ? "Admin can view and manage all projects."
-                : "NPO users can view and manage only their own projects."}
+              {canViewAllProjects
+                ? t("projects.descriptionAll")
+                : t("projects.descriptionOwn")}
             </CardDescription>
           </div>
-          {canManageProjects ? (
-            <Button render={<Link to="/dashboard/projects/new" />}>
-              Create New Project
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                clearAlerts();
+                setIsExportDialogOpen(true);
+              }}
+            >
+              {t("projects.export")}
             </Button>
-          ) : null}
+            {canReviewProjects ? (
+              <Button variant="outline" render={<Link to="/dashboard/projects/review" />}>
+                {t("projects.reviewQueue")}
+              </Button>
+            ) : null}
+            {can("project.import") ? (
+              <Button variant="outline" render={<Link to="/dashboard/projects/import" />}>
+                {t("projects.import")}
+              </Button>
+            ) : null}
+            {canCreateProjects ? (
+              <Button render={<Link to="/dashboard/projects/new" />}>
+                {t("projects.create")}
+              </Button>
+            ) : null}
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid gap-3 rounded-md border bg-muted/30 p-3 sm:grid-cols-2 xl:grid-cols-[minmax(0,1fr)_auto_auto_auto_auto] xl:items-end">
+          <div className="grid gap-3 rounded-md border bg-muted/30 p-3 sm:grid-cols-2 xl:grid-cols-[minmax(0,1fr)_auto_auto_auto_auto_auto] xl:items-end">
             <div className="space-y-1">
-              <Label htmlFor="project-search">Search</Label>
+              <Label htmlFor="project-search">{t("projects.search")}</Label>
               <Input
                 id="project-search"
-                placeholder="Search by title, category, owner..."
+                placeholder={t("projects.searchPlaceholder")}
                 value={globalFilter}
-                onChange={(event) => setGlobalFilter(event.target.value)}
+                onChange={(event) => table.setGlobalFilter(event.target.value)}
               />
             </div>
 
             <div className="space-y-1">
-              <Label htmlFor="project-category-filter">Category</Label>
+              <Label htmlFor="project-category-filter">{t("projects.category")}</Label>
               <select
                 id="project-category-filter"
                 className="h-9 w-full rounded-md border bg-background px-3 text-sm"
@@ -495,9 +898,9 @@ function DashboardProjectsPage() {
                   table.getColumn("category")?.setFilterValue(value || undefined);
                 }}
               >
-                <option value="">All</option>
+                <option value="">{t("common.all")}</option>
                 {categories.map((category) => (
-                  <option key={category.id} value={category.name}>
+                  <option key={category.id} value={String(category.id)}>
                     {category.name}
                   </option>
                 ))}
@@ -505,7 +908,7 @@ function DashboardProjectsPage() {
             </div>
 
             <div className="space-y-1">
-              <Label htmlFor="project-status-filter">Status</Label>
+              <Label htmlFor="project-status-filter">{t("projects.status")}</Label>
               <select
                 id="project-status-filter"
                 className="h-9 w-full rounded-md border bg-background px-3 text-sm"
@@ -515,15 +918,38 @@ function DashboardProjectsPage() {
                   table.getColumn("status")?.setFilterValue(value || undefined);
                 }}
               >
-                <option value="">All</option>
-                <option value="Approved">Approved</option>
-                <option value="Pending">Pending</option>
+                <option value="">{t("common.all")}</option>
+                {PROJECT_REVIEW_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {t(`projectStatus.${status}` as const)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="project-lifecycle-filter">{t("projects.lifecycle")}</Label>
+              <select
+                id="project-lifecycle-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={lifecycleFilterValue}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  table.getColumn("lifecycle")?.setFilterValue(value || undefined);
+                }}
+              >
+                <option value="">{t("common.all")}</option>
+                {PROJECT_LIFECYCLE_STATES.map((state) => (
+                  <option key={state} value={state}>
+                    {t(`projectLifecycle.${state}` as const)}
+                  </option>
+                ))}
               </select>
             </div>
 
-            {isAdmin ? (
+            {canViewAllProjects ? (
               <div className="space-y-1">
-                <Label htmlFor="project-owner-filter">NPO Owner</Label>
+                <Label htmlFor="project-owner-filter">{t("projects.owner")}</Label>
                 <select
                   id="project-owner-filter"
                   className="h-9 w-full rounded-md border bg-background px-3 text-sm"
@@ -533,15 +959,12 @@ function DashboardProjectsPage() {
                     table.getColumn("owner")?.setFilterValue(value || undefined);
                   }}
                 >
-                  <option value="">All</option>
-                  {npoUsers.map((user) => {
-                    const label = `${user.firstName} ${user.lastName}`.trim() || user.email;
-                    return (
-                      <option key={user.id} value={label}>
-                        {label}
-                      </option>
-                    );
-                  })}
+                  <option value="">{t("common.all")}</option>
+                  {npoUsers.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {`${user.firstName} ${user.lastName}`.trim() || user.email}
+                    </option>
+                  ))}
                 </select>
               </div>
             ) : null}
@@ -550,17 +973,36 @@ function DashboardProjectsPage() {
               type="button"
               variant="outline"
               onClick={() => {
-                setGlobalFilter("");
+                table.resetGlobalFilter();
                 table.resetColumnFilters();
               }}
             >
-              Clear Filters
+              {t("projects.clearFilters")}
             </Button>
           </div>
 
-          <p className="text-xs text-muted-foreground">
-            Results: {table.getFilteredRowModel().rows.length} / {tableRows.length}
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {t("projects.results", { count: totalCount })}
+            </p>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="project-reporting-currency" className="text-xs">
+                {t("currency.reportIn")}
+              </Label>
+              <div className="w-64">
+                <CurrencySelect
+                  id="project-reporting-currency"
+                  name="reportingCurrency"
+                  value={reportingCurrency}
+                  placeholder={t("currency.ownCurrency")}
+                  onChange={(currency) => {
+                    writeReportingCurrency(currency);
+                    setReportingCurrency(currency);
+                  }}
+                />
+              </div>
+            </div>
+          </div>
 
           <div className="rounded-md border">
             <div className="overflow-x-auto">
@@ -569,7 +1011,7 @@ function DashboardProjectsPage() {
                   {table.getHeaderGroups().map((headerGroup) => (
                     <tr key={headerGroup.id}>
                       {headerGroup.headers.map((header) => (
-                        <th key={header.id} className="px-3 py-2 text-left font-medium">
+                        <th key={header.id} className="px-3 py-2 text-start font-medium">
                           {header.isPlaceholder ? null : header.column.getCanSort() ? (
                             <button
                               type="button"
@@ -606,7 +1048,7 @@ function DashboardProjectsPage() {
                         className="px-3 py-8 text-center text-muted-foreground"
                         colSpan={visibleColumnCount}
                       >
-                        Loading projects...
+                        {t("projects.loading")}
                       </td>
                     </tr>
                   ) : table.getRowModel().rows.length === 0 ? (
@@ -615,7 +1057,7 @@ function DashboardProjectsPage() {
                         className="px-3 py-8 text-center text-muted-foreground"
                         colSpan={visibleColumnCount}
                       >
-                        No projects found.
+                        {t("projects.empty")}
                       </td>
                     </tr>
                   ) : (
@@ -636,7 +1078,10 @@ function DashboardProjectsPage() {
 
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
             <p className="text-xs text-muted-foreground">
-              Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount() || 1}
+              {t("pagination.summary", {
+                page: table.getState().pagination.pageIndex + 1,
+                pageCount: table.getPageCount() || 1,
+              })}
             </p>
             <div className="flex flex-wrap items-center gap-2">
               <select
@@ -646,10 +1091,10 @@ function DashboardProjectsPage() {
                   table.setPageSize(Number(event.target.value));
                 }}
               >
-                <option value={5}>5 / page</option>
-                <option value={10}>10 / page</option>
-                <option value={20}>20 / page</option>
-                <option value={50}>50 / page</option>
+                <option value={5}>{t("pagination.pageSize", { size: 5 })}</option>
+                <option value={10}>{t("pagination.pageSize", { size: 10 })}</option>
+                <option value={20}>{t("pagination.pageSize", { size: 20 })}</option>
+                <option value={50}>{t("pagination.pageSize", { size: 50 })}</option>
               </select>
               <Button
                 type="button"
@@ -658,7 +1103,7 @@ function DashboardProjectsPage() {
                 onClick={() => table.setPageIndex(0)}
                 disabled={!table.getCanPreviousPage()}
               >
-                First
+                {t("pagination.first")}
               </Button>
               <Button
                 type="button"
@@ -667,7 +1112,7 @@ function DashboardProjectsPage() {
                 onClick={() => table.previousPage()}
                 disabled={!table.getCanPreviousPage()}
               >
-                Prev
+                {t("pagination.previous")}
               </Button>
               <Button
                 type="button"
@@ -676,7 +1121,7 @@ function DashboardProjectsPage() {
                 onClick={() => table.nextPage()}
                 disabled={!table.getCanNextPage()}
               >
-                Next
+                {t("pagination.next")}
               </Button>
               <Button
                 type="button"
@@ -685,7 +1130,7 @@ function DashboardProjectsPage() {
                 onClick={() => table.setPageIndex(Math.max(0, table.getPageCount() - 1))}
                 disabled={!table.getCanNextPage()}
               >
-                Last
+                {t("pagination.last")}
               </Button>
             </div>
           </div>
@@ -1,13 +1,42 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link, createFileRoute } from "@tanstack/react-router";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Controller, useForm } from "react-hook-form";
+import { Controller, useForm, useWatch } from "react-hook-form";
 import { useAuth } from "@/components/auth-provider";
+import { useCan } from "@/components/can";
 import { CurrencySelect } from "@/components/currency-select";
-import { createProject, extractApiErrorMessage, getCategories, getUsers } from "@/lib/api";
+import { useLocale } from "@/components/locale-provider";
+import { MediaUploadList, useMediaUploadQueue } from "@/components/media-upload-list";
+import { ProjectAddressFields } from "@/components/project-address-fields";
+import {
+  createProject,
+  downloadProjectMediaFile,
+  extractApiErrorMessage,
+  getCategories,
+  getMediaPolicy,
+  getProjectById,
+  getProjectTemplates,
+  getUsers,
+} from "@/lib/api";
+import { getCurrencyAmountStep } from "@/lib/currencies";
+import { IMAGE_PROCESSING_OPTIONS, processImages, type ProcessedImage } from "@/lib/image-processing";
+import {
+  DEFAULT_MEDIA_POLICY,
+  describeMediaPolicy,
+  formatMediaCountLimit,
+  validateImageFiles,
+  validateMediaSelection,
+  validateVideoFiles,
+} from "@/lib/media-policy";
+import { isNpoRole } from "@/lib/permissions";
+import { sortProjectImages } from "@/lib/project-media";
+import { toProjectFormPrefill } from "@/lib/project-templates";
+import { requirePermission } from "@/lib/route-guards";
+import { formatFileSize } from "@/lib/utils";
 import {
   createProjectFormSchema,
   toProjectAddresses,
+  type CreateProjectFormInput,
   type CreateProjectFormValues,
 } from "@/lib/validations/project";
 import { Button } from "@/components/ui/button";
@@ -15,9 +44,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import type { Category, User } from "@/types/api";
+import type { Category, MediaPolicy, Project, ProjectTemplate, User } from "@/types/api";
+
+interface CreateProjectSearch {
+  /** Id of an existing project whose details pre-fill the form. */
+  duplicateFrom?: string;
+}
 
 export const Route = createFileRoute("/dashboard/projects/new")({
+  beforeLoad: requirePermission("project.create"),
+  validateSearch: (search: Record<string, unknown>): CreateProjectSearch => ({
+    duplicateFrom: typeof search.duplicateFrom === "string" && search.duplicateFrom ? search.duplicateFrom : undefined,
+  }),
   component: CreateProjectPage,
 });
 
@@ -27,31 +65,45 @@ interface MediaPreview {
   previewUrl: string;
 }
 
-const MAX_IMAGE_COUNT = 10;
-const MAX_VIDEO_COUNT = 1;
-const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
-const MAX_VIDEO_SIZE_BYTES = 20 * 1024 * 1024;
+interface ImagePreview extends MediaPreview {
+  originalSize: number;
+}
 
 function CreateProjectPage() {
   const navigate = Route.useNavigate();
+  const { duplicateFrom } = Route.useSearch();
   const { session } = useAuth();
-  const normalizedRole = session?.user.role.toLowerCase() ?? "";
-  const isAdmin = normalizedRole === "admin";
-  const isNpo = normalizedRole === "npo";
-  const canManageProjects = isAdmin || isNpo;
+  const can = useCan();
+  const { locale, t, formatNumber } = useLocale();
+  const canCreateProjects = can("project.create");
+  // Only roles that manage every project may pick the owning NPO.
+  const canAssignOwner = can("project.update.any");
+  const canSetAutoClose = can("project.autoClose");
 
   const [categories, setCategories] = useState<Category[]>([]);
   const [users, setUsers] = useState<User[]>([]);
-  const [selectedImages, setSelectedImages] = useState<File[]>([]);
+  const [selectedImages, setSelectedImages] = useState<ProcessedImage[]>([]);
   const [selectedVideos, setSelectedVideos] = useState<File[]>([]);
+  const [mediaPolicy, setMediaPolicy] = useState<MediaPolicy>(DEFAULT_MEDIA_POLICY);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [sourceProject, setSourceProject] = useState<Project | null>(null);
+  const [isCopyingMedia, setIsCopyingMedia] = useState(false);
+  const [hasCopiedMedia, setHasCopiedMedia] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isProcessingImages, setIsProcessingImages] = useState(false);
+  const [isCheckingVideos, setIsCheckingVideos] = useState(false);
   const [apiErrorMessage, setApiErrorMessage] = useState<string | null>(null);
+  // Set once the project exists, so a failed media upload never creates it twice.
+  const [createdProjectId, setCreatedProjectId] = useState<string | null>(null);
+  const { items: uploadItems, isUploading, uploadAll, retry, cancel } = useMediaUploadQueue();
 
-  const imagePreviews = useMemo<MediaPreview[]>(
+  const imagePreviews = useMemo<ImagePreview[]>(
     () =>
-      selectedImages.map((file, index) => ({
+      selectedImages.map(({ file, originalSize }, index) => ({
         id: `${file.name}-${file.size}-${file.lastModified}-image-${index}`,
         file,
+        originalSize,
         previewUrl: URL.createObjectURL(file),
       })),
     [selectedImages],
@@ -83,10 +135,12 @@ function CreateProjectPage() {
     register,
     control,
     handleSubmit,
+    getValues,
+    reset,
     setValue,
     formState: { errors, isSubmitting },
-  } = useForm<CreateProjectFormValues>({
-    resolver: zodResolver(createProjectFormSchema),
+  } = useForm<CreateProjectFormInput, unknown, CreateProjectFormValues>({
+    resolver: zodResolver(createProjectFormSchema(locale)),
     defaultValues: {
       npoUserId: "",
       title: "",
@@ -96,36 +150,57 @@ function CreateProjectPage() {
       description: "",
       targetAmount: "",
       currency: "USD",
-      country: "",
-      state: "",
-      city: "",
+      autoCloseOnTarget: false,
+      addresses: [],
     },
   });
+  const selectedCurrency = useWatch({ control, name: "currency" });
 
   useEffect(() => {
-    if (!session || !canManageProjects) {
+    if (!session || !canCreateProjects) {
       setIsLoading(false);
       return;
     }
 
+    const currentUserId = session.user.id;
+
     async function loadData() {
       setIsLoading(true);
       setApiErrorMessage(null);
 
       try {
-        const [categoriesResponse, usersResponse] = await Promise.all([
-          getCategories(),
-          isAdmin ? getUsers() : Promise.resolve([]),
-        ]);
+        const [categoriesResponse, usersResponse, mediaPolicyResponse, templatesResponse, sourceResponse] =
+          await Promise.all([
+            getCategories(),
+            canAssignOwner ? getUsers() : Promise.resolve([]),
+            getMediaPolicy(),
+            getProjectTemplates(canAssignOwner ? undefined : currentUserId),
+            // A missing or inaccessible source falls back to a blank form instead of blocking creation.
+            duplicateFrom
+              ? getProjectById(duplicateFrom).catch((error: unknown) => {
+                  setApiErrorMessage(t("projectCreate.duplicateLoadFailed", { error: extractApiErrorMessage(error) }));
+                  return null;
+                })
+              : Promise.resolve(null),
+          ]);
 
         setCategories(categoriesResponse);
         setUsers(usersResponse);
-
-        if (isNpo) {
-          setValue("npoUserId", session.user.id);
+        setMediaPolicy(mediaPolicyResponse);
+        setTemplates(templatesResponse);
+        setSourceProject(sourceResponse);
+
+        if (sourceResponse) {
+          reset({
+            ...getValues(),
+            ...toProjectFormPrefill(sourceResponse),
+            npoUserId: canAssignOwner ? sourceResponse.npoUserId : currentUserId,
+          });
+        } else if (!canAssignOwner) {
+          setValue("npoUserId", currentUserId);
         } else {
           const defaultNpoUserId =
-            usersResponse.find((user) => user.role.toLowerCase() === "npo")?.id ?? "";
+            usersResponse.find((user) => isNpoRole(user.role))?.id ?? "";
           setValue("npoUserId", defaultNpoUserId);
         }
       } catch (error) {
@@ -136,39 +211,76 @@ function CreateProjectPage() {
     }
 
     void loadData();
-  }, [canManageProjects, isAdmin, isNpo, session, setValue]);
+  }, [canAssignOwner, canCreateProjects, duplicateFrom, getValues, reset, session, setValue, t]);
 
-  async function onSubmit(values: CreateProjectFormValues) {
-    if (!session) {
+  function onTemplateSelected(templateId: string) {
+    setSelectedTemplateId(templateId);
+
+    const template = templates.find((item) => item.id === templateId);
+    if (!template || !session) {
       return;
     }
 
-    if (selectedImages.length > MAX_IMAGE_COUNT) {
-      setApiErrorMessage("You can upload up to 10 images.");
+    reset({
+      ...getValues(),
+      ...toProjectFormPrefill(template),
+      npoUserId: canAssignOwner ? template.npoUserId : session.user.id,
+    });
+  }
+
+  /** Adds the source project's media to the selection, where the usual checks and limits apply. */
+  async function onCopySourceMedia() {
+    if (!sourceProject) {
       return;
     }
 
-    if (selectedVideos.length > MAX_VIDEO_COUNT) {
-      setApiErrorMessage("You can upload only 1 video.");
-      return;
+    setApiErrorMessage(null);
+    setIsCopyingMedia(true);
+
+    try {
+      const [images, videos] = await Promise.all([
+        Promise.all(sortProjectImages(sourceProject.images).map(downloadProjectMediaFile)),
+        Promise.all(sourceProject.videos.map(downloadProjectMediaFile)),
+      ]);
+
+      if (images.length > 0) {
+        await onImagesSelected(images);
+      }
+      if (videos.length > 0) {
+        await onVideosSelected(videos);
+      }
+      setHasCopiedMedia(true);
+    } catch (error) {
+      setApiErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsCopyingMedia(false);
     }
+  }
 
-    const oversizedImage = selectedImages.find((file) => file.size > MAX_IMAGE_SIZE_BYTES);
-    if (oversizedImage) {
-      setApiErrorMessage(`Image '${oversizedImage.name}' exceeds 5 MB.`);
+  async function onSubmit(values: CreateProjectFormValues) {
+    if (!session || createdProjectId) {
       return;
     }
 
-    const oversizedVideo = selectedVideos.find((file) => file.size > MAX_VIDEO_SIZE_BYTES);
-    if (oversizedVideo) {
-      setApiErrorMessage(`Video '${oversizedVideo.name}' exceeds 20 MB.`);
+    const mediaError = validateMediaSelection(
+      {
+        existingImageCount: 0,
+        existingVideoCount: 0,
+        images: selectedImages.map(({ file }) => file),
+        videos: selectedVideos,
+      },
+      mediaPolicy,
+      locale,
+    );
+    if (mediaError) {
+      setApiErrorMessage(mediaError);
       return;
     }
 
     setApiErrorMessage(null);
 
     try {
-      await createProject({
+      const project = await createProject({
         npoUserId: values.npoUserId,
         title: values.title,
         categoryId: Number(values.categoryId),
@@ -177,10 +289,22 @@ function CreateProjectPage() {
         description: values.description,
         targetAmount: Number(values.targetAmount),
         currency: values.currency,
+        autoCloseOnTarget: canSetAutoClose ? values.autoCloseOnTarget : undefined,
         addresses: toProjectAddresses(values),
-        images: selectedImages,
-        videos: selectedVideos,
+        images: [],
+        videos: [],
       });
+      setCreatedProjectId(project.id);
+
+      const summary = await uploadAll(project.id, [
+        ...selectedImages.map(({ file }) => ({ file, kind: "image" as const })),
+        ...selectedVideos.map((file) => ({ file, kind: "video" as const })),
+      ]);
+
+      if (summary.succeeded < summary.total) {
+        setApiErrorMessage(t("projectCreate.uploadIncomplete", { count: summary.total - summary.succeeded }));
+        return;
+      }
 
       void navigate({ to: "/dashboard/projects" });
     } catch (error) {
@@ -188,14 +312,66 @@ function CreateProjectPage() {
     }
   }
 
-  if (!canManageProjects) {
+  async function onImagesSelected(imageFiles: File[]) {
+    setIsProcessingImages(true);
+
+    try {
+      const invalidMessage = await validateImageFiles(imageFiles, mediaPolicy, locale);
+      if (invalidMessage) {
+        setApiErrorMessage(invalidMessage);
+        return;
+      }
+
+      const processed = await processImages(imageFiles);
+      const oversized = processed.find(({ file }) => file.size > mediaPolicy.maxImageSizeBytes);
+      if (oversized) {
+        setApiErrorMessage(
+          t("projectForm.imageStillTooLarge", {
+            name: oversized.file.name,
+            size: formatFileSize(mediaPolicy.maxImageSizeBytes),
+          }),
+        );
+        return;
+      }
+
+      const merged = [...selectedImages, ...processed];
+      setApiErrorMessage(
+        merged.length > mediaPolicy.maxImageCount ? formatMediaCountLimit("image", mediaPolicy, locale) : null,
+      );
+      setSelectedImages(merged.slice(0, mediaPolicy.maxImageCount));
+    } catch (error) {
+      setApiErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsProcessingImages(false);
+    }
+  }
+
+  async function onVideosSelected(videoFiles: File[]) {
+    setIsCheckingVideos(true);
+
+    try {
+      const invalidMessage = await validateVideoFiles(videoFiles, mediaPolicy, locale);
+      if (invalidMessage) {
+        setApiErrorMessage(invalidMessage);
+        return;
+      }
+
+      const merged = [...selectedVideos, ...videoFiles];
+      setApiErrorMessage(
+        merged.length > mediaPolicy.maxVideoCount ? formatMediaCountLimit("video", mediaPolicy, locale) : null,
+      );
+      setSelectedVideos(merged.slice(0, mediaPolicy.maxVideoCount));
+    } finally {
+      setIsCheckingVideos(false);
+    }
+  }
+
+  if (!canCreateProjects) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Create Project</CardTitle>
-          <CardDescription>
-            Only Admin and NPO users can create projects.
-          </CardDescription>
+          <CardTitle>{t("projectCreate.title")}</CardTitle>
+          <CardDescription>{t("projectCreate.forbidden")}</CardDescription>
         </CardHeader>
       </Card>
     );
@@ -205,13 +381,11 @@ function CreateProjectPage() {
     <Card>
       <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
         <div>
-          <CardTitle>Create New Project</CardTitle>
-          <CardDescription>
-            This form uses react-hook-form with zod validation.
-          </CardDescription>
+          <CardTitle>{t("projects.create")}</CardTitle>
+          <CardDescription>{t("projectCreate.description")}</CardDescription>
         </div>
         <Button variant="outline" render={<Link to="/dashboard/projects" />}>
-          Back to Projects
+          {t("projects.backToProjects")}
         </Button>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -222,20 +396,67 @@ function CreateProjectPage() {
         ) : null}
 
         {isLoading ? (
-          <p className="text-sm text-muted-foreground">Loading form data...</p>
+          <p className="text-sm text-muted-foreground">{t("projectCreate.loading")}</p>
         ) : (
           <form className="grid gap-4 md:grid-cols-2" onSubmit={handleSubmit(onSubmit)}>
-            {isAdmin ? (
+            {sourceProject ? (
+              <div className="flex flex-col gap-2 rounded-md border bg-muted/30 p-3 text-sm md:col-span-2 sm:flex-row sm:items-center sm:justify-between">
+                <p>{t("projectCreate.prefilled", { title: sourceProject.title })}</p>
+                {sourceProject.images.length + sourceProject.videos.length > 0 ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isCopyingMedia || hasCopiedMedia || isProcessingImages || isCheckingVideos}
+                    onClick={() => {
+                      void onCopySourceMedia();
+                    }}
+                  >
+                    {isCopyingMedia
+                      ? t("projectCreate.copyingMedia")
+                      : hasCopiedMedia
+                        ? t("projectCreate.mediaCopied")
+                        : t("projectCreate.copyMedia", {
+                            images: sourceProject.images.length,
+                            videos: sourceProject.videos.length,
+                          })}
+                  </Button>
+                ) : null}
+              </div>
+            ) : null}
+
+            {templates.length > 0 ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="projectTemplate">{t("projectCreate.template")}</Label>
+                <select
+                  id="projectTemplate"
+                  className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                  value={selectedTemplateId}
+                  disabled={isSubmitting}
+                  onChange={(event) => onTemplateSelected(event.target.value)}
+                >
+                  <option value="">{t("projectCreate.noTemplate")}</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">{t("projectCreate.templateHint")}</p>
+              </div>
+            ) : null}
+
+            {canAssignOwner ? (
               <div className="space-y-2">
-                <Label htmlFor="npoUserId">NPO Owner</Label>
+                <Label htmlFor="npoUserId">{t("projects.owner")}</Label>
                 <select
                   id="npoUserId"
                   className="h-9 w-full rounded-md border bg-background px-3 text-sm"
                   {...register("npoUserId")}
                 >
-                  <option value="">Select NPO user</option>
+                  <option value="">{t("projectForm.selectOwner")}</option>
                   {users
-                    .filter((user) => user.role.toLowerCase() === "npo")
+                    .filter((user) => isNpoRole(user.role))
                     .map((user) => (
                       <option key={user.id} value={user.id}>
                         {user.firstName} {user.lastName} ({user.email})
@@ -248,10 +469,10 @@ function CreateProjectPage() {
               </div>
             ) : null}
 
-            {!isAdmin ? <input type="hidden" {...register("npoUserId")} /> : null}
+            {!canAssignOwner ? <input type="hidden" {...register("npoUserId")} /> : null}
 
             <div className="space-y-2">
-              <Label htmlFor="title">Project Title</Label>
+              <Label htmlFor="title">{t("projectForm.title")}</Label>
               <Input id="title" {...register("title")} />
               {errors.title ? (
                 <p className="text-xs text-destructive">{errors.title.message}</p>
@@ -259,13 +480,13 @@ function CreateProjectPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="categoryId">Category</Label>
+              <Label htmlFor="categoryId">{t("projects.category")}</Label>
               <select
                 id="categoryId"
                 className="h-9 w-full rounded-md border bg-background px-3 text-sm"
                 {...register("categoryId")}
               >
-                <option value="">Select category</option>
+                <option value="">{t("projectForm.selectCategory")}</option>
                 {categories.map((category) => (
                   <option key={category.id} value={String(category.id)}>
                     {category.name}
@@ -278,15 +499,21 @@ function CreateProjectPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="targetAmount">Target Amount</Label>
-              <Input id="targetAmount" type="number" min="1" step="0.01" {...register("targetAmount")} />
+              <Label htmlFor="targetAmount">{t("projectForm.targetAmount")}</Label>
+              <Input
+                id="targetAmount"
+                type="number"
+                min="1"
+                step={getCurrencyAmountStep(selectedCurrency)}
+                {...register("targetAmount")}
+              />
               {errors.targetAmount ? (
                 <p className="text-xs text-destructive">{errors.targetAmount.message}</p>
               ) : null}
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="currency">Currency</Label>
+              <Label htmlFor="currency">{t("projectForm.currency")}</Label>
               <Controller
                 name="currency"
                 control={control}
@@ -306,7 +533,7 @@ function CreateProjectPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="startDate">Start Date</Label>
+              <Label htmlFor="startDate">{t("projects.columnStartDate")}</Label>
               <Input id="startDate" type="date" {...register("startDate")} />
               {errors.startDate ? (
                 <p className="text-xs text-destructive">{errors.startDate.message}</p>
@@ -314,121 +541,94 @@ function CreateProjectPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="endDate">End Date (optional)</Label>
+              <Label htmlFor="endDate">{t("projectForm.endDateOptional")}</Label>
               <Input id="endDate" type="date" {...register("endDate")} />
               {errors.endDate ? (
                 <p className="text-xs text-destructive">{errors.endDate.message}</p>
               ) : null}
             </div>
 
+            {canSetAutoClose ? (
+              <label className="flex items-center gap-2 text-sm md:col-span-2">
+                <input type="checkbox" disabled={isSubmitting} {...register("autoCloseOnTarget")} />
+                {t("projectForm.autoClose")}
+              </label>
+            ) : null}
+
             <div className="space-y-2 md:col-span-2">
-              <Label htmlFor="description">Description</Label>
+              <Label htmlFor="description">{t("projectForm.description")}</Label>
               <Textarea id="description" {...register("description")} />
               {errors.description ? (
                 <p className="text-xs text-destructive">{errors.description.message}</p>
               ) : null}
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="country">Address Country (optional)</Label>
-              <Input id="country" {...register("country")} />
-              {errors.country ? (
-                <p className="text-xs text-destructive">{errors.country.message}</p>
-              ) : null}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="state">Address State (optional)</Label>
-              <Input id="state" {...register("state")} />
-              {errors.state ? (
-                <p className="text-xs text-destructive">{errors.state.message}</p>
-              ) : null}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="city">Address City (optional)</Label>
-              <Input id="city" {...register("city")} />
-              {errors.city ? (
-                <p className="text-xs text-destructive">{errors.city.message}</p>
-              ) : null}
+            <div className="md:col-span-2">
+              <ProjectAddressFields
+                idPrefix="create"
+                control={control}
+                errors={errors}
+                disabled={isSubmitting}
+              />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="images">Project Images</Label>
+              <Label htmlFor="images">{t("projectCreate.images")}</Label>
               <Input
                 id="images"
                 type="file"
                 multiple
-                accept="image/*"
+                accept={mediaPolicy.allowedImageTypes.join(",")}
+                disabled={isProcessingImages}
                 onChange={(event) => {
                   const files = event.target.files ? Array.from(event.target.files) : [];
-                  const imageFiles = files.filter((file) => file.type.startsWith("image/"));
-                  const oversized = imageFiles.find((file) => file.size > MAX_IMAGE_SIZE_BYTES);
-                  if (oversized) {
-                    setApiErrorMessage(`Image '${oversized.name}' exceeds 5 MB.`);
-                    event.target.value = "";
-                    return;
-                  }
-
-                  setSelectedImages((current) => {
-                    const merged = [...current, ...imageFiles];
-                    if (merged.length > MAX_IMAGE_COUNT) {
-                      setApiErrorMessage("You can upload up to 10 images.");
-                    } else {
-                      setApiErrorMessage(null);
-                    }
-                    return merged.slice(0, MAX_IMAGE_COUNT);
-                  });
                   event.target.value = "";
+                  void onImagesSelected(files);
                 }}
               />
               <p className="text-xs text-muted-foreground">
-                {selectedImages.length > 0
-                  ? `${selectedImages.length} file(s) selected`
-                  : "No files selected"}
+                {isProcessingImages
+                  ? t("projectForm.optimizingImages")
+                  : selectedImages.length > 0
+                    ? t("projectForm.imagesSelected", { count: selectedImages.length })
+                    : t("projectForm.noFilesSelected")}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {t("projectForm.imageHint", {
+                  pixels: formatNumber(IMAGE_PROCESSING_OPTIONS.maxDimension, { useGrouping: false }),
+                })}
               </p>
+              <p className="text-xs text-muted-foreground">{describeMediaPolicy("image", mediaPolicy, locale)}</p>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="videos">Project Videos</Label>
+              <Label htmlFor="videos">{t("projectCreate.videos")}</Label>
               <Input
                 id="videos"
                 type="file"
                 multiple
-                accept="video/*"
+                accept={mediaPolicy.allowedVideoTypes.join(",")}
+                disabled={isCheckingVideos}
                 onChange={(event) => {
                   const files = event.target.files ? Array.from(event.target.files) : [];
-                  const videoFiles = files.filter((file) => file.type.startsWith("video/"));
-                  const oversized = videoFiles.find((file) => file.size > MAX_VIDEO_SIZE_BYTES);
-                  if (oversized) {
-                    setApiErrorMessage(`Video '${oversized.name}' exceeds 20 MB.`);
-                    event.target.value = "";
-                    return;
-                  }
-
-                  setSelectedVideos((current) => {
-                    const merged = [...current, ...videoFiles];
-                    if (merged.length > MAX_VIDEO_COUNT) {
-                      setApiErrorMessage("You can upload only 1 video.");
-                    } else {
-                      setApiErrorMessage(null);
-                    }
-                    return merged.slice(0, MAX_VIDEO_COUNT);
-                  });
                   event.target.value = "";
+                  void onVideosSelected(files);
                 }}
               />
               <p className="text-xs text-muted-foreground">
-                {selectedVideos.length > 0
-                  ? `${selectedVideos.length} video(s) selected`
-                  : "No videos selected"}
+                {isCheckingVideos
+                  ? t("projectForm.checkingVideos")
+                  : selectedVideos.length > 0
+                    ? t("projectForm.videosSelected", { count: selectedVideos.length })
+                    : t("projectForm.noVideosSelected")}
               </p>
+              <p className="text-xs text-muted-foreground">{describeMediaPolicy("video", mediaPolicy, locale)}</p>
             </div>
 
             <div className="space-y-2 md:col-span-2">
-              <Label>Image Preview</Label>
+              <Label>{t("projectCreate.imagePreview")}</Label>
               {imagePreviews.length === 0 ? (
-                <p className="text-xs text-muted-foreground">No images selected.</p>
+                <p className="text-xs text-muted-foreground">{t("projectForm.noImagesSelected")}</p>
               ) : (
                 <div className="flex flex-wrap gap-2">
                   {imagePreviews.map((preview, index) => (
@@ -438,8 +638,11 @@ function CreateProjectPage() {
                         alt={preview.file.name}
                         className="h-24 w-28 rounded-md border object-cover"
                       />
+                      <p className="mt-1 text-center text-[11px] text-muted-foreground">
+                        {formatFileSize(preview.originalSize)} → {formatFileSize(preview.file.size)}
+                      </p>
                       <Button
-                        className="absolute top-1 right-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
+                        className="absolute top-1 end-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
                         variant="destructive"
                         type="button"
                         onClick={() => {
@@ -455,9 +658,9 @@ function CreateProjectPage() {
             </div>
 
             <div className="space-y-2 md:col-span-2">
-              <Label>Video Preview</Label>
+              <Label>{t("projectCreate.videoPreview")}</Label>
               {videoPreviews.length === 0 ? (
-                <p className="text-xs text-muted-foreground">No videos selected.</p>
+                <p className="text-xs text-muted-foreground">{t("projectForm.noVideosSelected")}</p>
               ) : (
                 <div className="flex flex-wrap gap-2">
                   {videoPreviews.map((preview, index) => (
@@ -468,7 +671,7 @@ function CreateProjectPage() {
                         controls
                       />
                       <Button
-                        className="absolute top-1 right-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
+                        className="absolute top-1 end-1 z-10 h-7 w-7 rounded-full p-0 shadow-md"
                         variant="destructive"
                         type="button"
                         onClick={() => {
@@ -483,10 +686,35 @@ function CreateProjectPage() {
               )}
             </div>
 
+            {uploadItems.length > 0 ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label>{t("projectForm.uploads")}</Label>
+                <MediaUploadList
+                  items={uploadItems}
+                  onCancel={cancel}
+                  onRetry={(id) => {
+                    void retry(id);
+                  }}
+                />
+              </div>
+            ) : null}
+
             <div className="md:col-span-2 flex gap-2">
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Creating..." : "Create Project"}
-              </Button>
+              {createdProjectId ? (
+                <Button
+                  type="button"
+                  disabled={isUploading}
+                  onClick={() => {
+                    void navigate({ to: "/dashboard/projects" });
+                  }}
+                >
+                  {isUploading ? t("projectCreate.uploading") : t("projectCreate.continue")}
+                </Button>
+              ) : (
+                <Button type="submit" disabled={isSubmitting || isProcessingImages}>
+                  {isSubmitting ? t("projectCreate.creating") : t("projectCreate.title")}
+                </Button>
+              )}
               <Button
                 type="button"
                 variant="outline"
@@ -494,7 +722,7 @@ function CreateProjectPage() {
                   void navigate({ to: "/dashboard/projects" });
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
             </div>
           </form>
@@ -1,43 +1,31 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Link, createFileRoute } from "@tanstack/react-router";
-import { deleteProjectImage, extractApiErrorMessage, getProjectById, getUsers, resolveAssetUrl, setProjectApproval } from "@/lib/api";
-import { useAuth } from "@/components/auth-provider";
+import { deleteProjectImage, extractApiErrorMessage, getProjectById, getUsers, resolveAssetUrl, updateProjectReviewStatus } from "@/lib/api";
+import { useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
+import { ProjectDonationsPanel } from "@/components/project-donations-panel";
+import { ProjectFundingProgress } from "@/components/project-funding-progress";
+import { ProjectStatusBadge } from "@/components/project-status-badge";
+import { formatDateTime, type Locale, type MessageKey } from "@/lib/i18n";
+import { getProjectCoverImage, getProjectImageAltText, sortProjectImages } from "@/lib/project-media";
+import { getProjectReviewStatus, requiresReviewComment } from "@/lib/project-status";
+import { requirePermission } from "@/lib/route-guards";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
 import { NotificationToast } from "@/components/ui/notification-toast";
-import type { Project, User } from "@/types/api";
+import { Textarea } from "@/components/ui/textarea";
+import type { Project, ProjectReviewStatus, User } from "@/types/api";
 
 export const Route = createFileRoute("/dashboard/projects/preview/$projectId")({
+  beforeLoad: requirePermission("project.approve"),
   component: DashboardProjectPreviewPage,
 });
 
-function formatCurrency(amount: number, currency: string): string {
-  const normalizedCurrency = (currency || "USD").trim().toUpperCase();
-
-  try {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: normalizedCurrency,
-      maximumFractionDigits: 2,
-    }).format(amount);
-  } catch {
-    return `${amount.toFixed(2)} ${normalizedCurrency}`;
-  }
-}
-
-function formatDate(dateValue: string | null | undefined): string {
-  if (!dateValue) {
-    return "-";
-  }
-
-  const parsed = new Date(dateValue);
-  if (Number.isNaN(parsed.getTime())) {
-    return dateValue;
-  }
-
-  return parsed.toLocaleString();
+function formatDate(dateValue: string | null | undefined, locale: Locale): string {
+  return dateValue ? formatDateTime(dateValue, locale) : "-";
 }
 
 interface PendingMediaDelete {
@@ -49,27 +37,50 @@ interface PendingMediaDelete {
 interface ImagePreviewState {
   src: string;
   fileName: string;
+  altText: string;
+  caption: string | null;
 }
 
+type PreviewTab = "details" | "donations";
+
+const PREVIEW_TABS: { id: PreviewTab; label: MessageKey }[] = [
+  { id: "details", label: "projectPreview.tabDetails" },
+  { id: "donations", label: "projectPreview.tabDonations" },
+];
+
+type ReviewAction = Exclude<ProjectReviewStatus, "draft" | "submitted">;
+
+const REVIEW_SUCCESS_MESSAGES: Record<ReviewAction, MessageKey> = {
+  approved: "projectPreview.approved",
+  changesRequested: "projectPreview.changesRequested",
+  rejected: "projectPreview.rejected",
+  archived: "projectPreview.archived",
+};
+
 function DashboardProjectPreviewPage() {
+  const { locale, t, formatCurrency } = useLocale();
   const { projectId } = Route.useParams();
-  const { session } = useAuth();
-  const isAdmin = session?.user.role.toLowerCase() === "admin";
+  const can = useCan();
+  const canReviewProjects = can("project.approve");
 
   const [project, setProject] = useState<Project | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isUpdatingApproval, setIsUpdatingApproval] = useState(false);
+  const [updatingReviewStatus, setUpdatingReviewStatus] = useState<ReviewAction | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+  const [reviewCommentError, setReviewCommentError] = useState<string | null>(null);
   const [isDeletingMedia, setIsDeletingMedia] = useState(false);
   const [mediaToDelete, setMediaToDelete] = useState<PendingMediaDelete | null>(null);
   const [imagePreview, setImagePreview] = useState<ImagePreviewState | null>(null);
+  const [activeTab, setActiveTab] = useState<PreviewTab>("details");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   const userNameById = useMemo(() => new Map(users.map((user) => [user.id, `${user.firstName} ${user.lastName}`.trim() || user.email])), [users]);
+  const coverImageId = project ? getProjectCoverImage(project.images)?.id ?? null : null;
 
   const loadProject = useCallback(async () => {
-    if (!isAdmin) {
+    if (!canReviewProjects) {
       setIsLoading(false);
       return;
     }
@@ -87,7 +98,7 @@ function DashboardProjectPreviewPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [isAdmin, projectId]);
+  }, [canReviewProjects, projectId]);
 
   useEffect(() => {
     void loadProject();
@@ -143,23 +154,31 @@ function DashboardProjectPreviewPage() {
     };
   }, [imagePreview]);
 
-  async function onSetApproval(isApproved: boolean) {
+  async function onUpdateReviewStatus(status: ReviewAction) {
     if (!project) {
       return;
     }
 
     setErrorMessage(null);
     setSuccessMessage(null);
-    setIsUpdatingApproval(true);
+
+    if (requiresReviewComment(status) && !reviewComment.trim()) {
+      setReviewCommentError(t("projectPreview.commentRequired", { status: t(`projectStatus.${status}`) }));
+      return;
+    }
+
+    setReviewCommentError(null);
+    setUpdatingReviewStatus(status);
 
     try {
-      const updated = await setProjectApproval(project.id, isApproved);
+      const updated = await updateProjectReviewStatus(project.id, { status, comment: reviewComment });
       setProject(updated);
-      setSuccessMessage(isApproved ? "Project approved." : "Project disapproved.");
+      setReviewComment("");
+      setSuccessMessage(t(REVIEW_SUCCESS_MESSAGES[status]));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
-      setIsUpdatingApproval(false);
+      setUpdatingReviewStatus(null);
     }
   }
 
@@ -198,7 +217,7 @@ function DashboardProjectPreviewPage() {
         };
       });
       setMediaToDelete(null);
-      setSuccessMessage(mediaToDelete.mediaType === "image" ? "Image removed." : "Video removed.");
+      setSuccessMessage(t(mediaToDelete.mediaType === "image" ? "projectPreview.imageRemoved" : "projectPreview.videoRemoved"));
     } catch (error) {
       setErrorMessage(extractApiErrorMessage(error));
     } finally {
@@ -206,22 +225,25 @@ function DashboardProjectPreviewPage() {
     }
   }
 
-  if (!isAdmin) {
+  if (!canReviewProjects) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Project Preview</CardTitle>
-          <CardDescription>Only admin users can preview and approve projects.</CardDescription>
+          <CardTitle>{t("projectPreview.title")}</CardTitle>
+          <CardDescription>{t("projectPreview.forbidden")}</CardDescription>
         </CardHeader>
         <CardContent>
           <Button variant="outline" render={<Link to="/dashboard/projects" />}>
-            Back to Projects
+            {t("projects.backToProjects")}
           </Button>
         </CardContent>
       </Card>
     );
   }
 
+  const reviewStatus = project ? getProjectReviewStatus(project) : "submitted";
+  const isReviewDisabled = isLoading || !project || Boolean(updatingReviewStatus);
+
   return (
     <div className="space-y-6">
       {errorMessage ? (
@@ -249,25 +271,29 @@ function DashboardProjectPreviewPage() {
           className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 p-4"
           role="dialog"
           aria-modal="true"
-          aria-label={`Preview ${imagePreview.fileName}`}
+          aria-label={t("projectPreview.previewImage", { name: imagePreview.fileName })}
           onClick={() => setImagePreview(null)}
         >
           <button
             type="button"
-            className="absolute top-4 right-4 rounded-md bg-black/60 px-3 py-1.5 text-sm text-white transition hover:bg-black/75"
+            className="absolute top-4 end-4 rounded-md bg-black/60 px-3 py-1.5 text-sm text-white transition hover:bg-black/75"
             onClick={(event) => {
               event.stopPropagation();
               setImagePreview(null);
             }}
           >
-            Close
+            {t("common.close")}
           </button>
-          <img
-            src={imagePreview.src}
-            alt={imagePreview.fileName}
-            className="max-h-[90vh] max-w-[95vw] rounded-lg object-contain"
-            onClick={(event) => event.stopPropagation()}
-          />
+          <figure className="space-y-2" onClick={(event) => event.stopPropagation()}>
+            <img
+              src={imagePreview.src}
+              alt={imagePreview.altText}
+              className="max-h-[85vh] max-w-[95vw] rounded-lg object-contain"
+            />
+            {imagePreview.caption ? (
+              <figcaption className="text-center text-sm text-white">{imagePreview.caption}</figcaption>
+            ) : null}
+          </figure>
         </div>
       ) : null}
 
@@ -281,11 +307,17 @@ function DashboardProjectPreviewPage() {
       >
         <AlertDialogContent size="sm">
           <AlertDialogHeader>
-            <AlertDialogTitle>Remove {mediaToDelete?.mediaType === "video" ? "Video" : "Image"}</AlertDialogTitle>
-            <AlertDialogDescription>{mediaToDelete ? `Delete "${mediaToDelete.fileName}" from this project?` : "Delete this media item from this project?"}</AlertDialogDescription>
+            <AlertDialogTitle>
+              {t(mediaToDelete?.mediaType === "video" ? "projectPreview.removeVideoTitle" : "projectPreview.removeImageTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {mediaToDelete
+                ? t("projectPreview.removeConfirm", { name: mediaToDelete.fileName })
+                : t("projectPreview.removeConfirmGeneric")}
+            </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeletingMedia}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={isDeletingMedia}>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               variant="destructive"
               disabled={isDeletingMedia}
@@ -293,7 +325,7 @@ function DashboardProjectPreviewPage() {
                 void confirmDeleteMedia();
               }}
             >
-              {isDeletingMedia ? "Removing..." : "Remove"}
+              {isDeletingMedia ? t("projectPreview.removing") : t("projectPreview.remove")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -302,177 +334,261 @@ function DashboardProjectPreviewPage() {
       <Card>
         <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
           <div>
-            <CardTitle>Project Preview</CardTitle>
-            <CardDescription>Admin-only review page to approve or disapprove projects.</CardDescription>
+            <CardTitle>{t("projectPreview.title")}</CardTitle>
+            <CardDescription>{t("projectPreview.description")}</CardDescription>
           </div>
           <div className="flex flex-wrap gap-2">
             <Button variant="outline" render={<Link to="/dashboard/projects" />}>
-              Back to Projects
+              {t("projects.backToProjects")}
             </Button>
             <Button
               type="button"
               variant="secondary"
-              disabled={isLoading || !project || isUpdatingApproval || project.isApproved}
+              disabled={isReviewDisabled || reviewStatus === "approved"}
+              onClick={() => {
+                void onUpdateReviewStatus("approved");
+              }}
+            >
+              {updatingReviewStatus === "approved" ? t("common.saving") : t("review.approve")}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isReviewDisabled || reviewStatus === "changesRequested"}
               onClick={() => {
-                void onSetApproval(true);
+                void onUpdateReviewStatus("changesRequested");
               }}
             >
-              {isUpdatingApproval && !project?.isApproved ? "Saving..." : "Approve"}
+              {updatingReviewStatus === "changesRequested" ? t("common.saving") : t("review.requestChanges")}
             </Button>
             <Button
               type="button"
               variant="destructive"
-              disabled={isLoading || !project || isUpdatingApproval || !project.isApproved}
+              disabled={isReviewDisabled || reviewStatus === "rejected"}
+              onClick={() => {
+                void onUpdateReviewStatus("rejected");
+              }}
+            >
+              {updatingReviewStatus === "rejected" ? t("common.saving") : t("review.reject")}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={isReviewDisabled || reviewStatus === "archived"}
               onClick={() => {
-                void onSetApproval(false);
+                void onUpdateReviewStatus("archived");
               }}
             >
-              {isUpdatingApproval && project?.isApproved ? "Saving..." : "Disapprove"}
+              {updatingReviewStatus === "archived" ? t("common.saving") : t("review.archive")}
             </Button>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          {isLoading ? <p className="text-sm text-muted-foreground">Loading project preview...</p> : null}
+          {isLoading ? <p className="text-sm text-muted-foreground">{t("projectPreview.loading")}</p> : null}
 
-          {!isLoading && !project ? <p className="text-sm text-muted-foreground">Project not found.</p> : null}
+          {!isLoading && !project ? <p className="text-sm text-muted-foreground">{t("projectPreview.notFound")}</p> : null}
 
           {project ? (
             <div className="space-y-6">
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
                   <h2 className="text-xl font-semibold">{project.title}</h2>
-                  <Badge variant={project.isApproved ? "secondary" : "outline"}>{project.isApproved ? "Approved" : "Pending"}</Badge>
+                  <ProjectStatusBadge project={project} />
                 </div>
                 <p className="text-sm text-muted-foreground">{project.description}</p>
               </div>
 
-              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Category</p>
-                  <p className="font-medium">{project.category?.name ?? project.categoryId}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">NPO Owner</p>
-                  <p className="font-medium">{userNameById.get(project.npoUserId) ?? project.npoUserId}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Currency</p>
-                  <p className="font-medium">{(project.currency || "USD").toUpperCase()}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Target Amount</p>
-                  <p className="font-medium">{formatCurrency(project.targetAmount, project.currency)}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Raised Amount</p>
-                  <p className="font-medium">{formatCurrency(project.raisedAmount, project.currency)}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Start Date</p>
-                  <p className="font-medium">{project.startDate}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">End Date</p>
-                  <p className="font-medium">{project.endDate || "-"}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Approved At</p>
-                  <p className="font-medium">{formatDate(project.approvedAt)}</p>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="text-xs text-muted-foreground">Approved By</p>
-                  <p className="font-medium">{project.approvedByUserId ? (userNameById.get(project.approvedByUserId) ?? project.approvedByUserId) : "-"}</p>
-                </div>
+              <ProjectFundingProgress project={project} />
+
+              <div className="flex flex-wrap gap-2 border-b pb-3">
+                {PREVIEW_TABS.map((tab) => (
+                  <Button
+                    key={tab.id}
+                    type="button"
+                    size="sm"
+                    variant={activeTab === tab.id ? "secondary" : "ghost"}
+                    onClick={() => setActiveTab(tab.id)}
+                  >
+                    {t(tab.label)}
+                  </Button>
+                ))}
               </div>
 
-              <div className="space-y-2">
-                <h3 className="text-sm font-semibold">Addresses</h3>
-                {project.addresses.length === 0 ? (
-                  <p className="text-sm text-muted-foreground">No addresses added.</p>
-                ) : (
-                  <div className="grid gap-2 sm:grid-cols-2">
-                    {project.addresses.map((address, index) => (
-                      <div key={`${address.country}-${address.state}-${address.city}-${index}`} className="rounded-md border p-3 text-sm">
-                        <p>{address.country}</p>
-                        <p>{address.state}</p>
-                        <p>{address.city}</p>
+              {activeTab === "donations" ? (
+                <ProjectDonationsPanel
+                  project={project}
+                  canReconcile={can("donation.reconcile")}
+                  onProjectUpdated={setProject}
+                  onError={setErrorMessage}
+                  onSuccess={setSuccessMessage}
+                />
+              ) : (
+                <>
+                  <div className="space-y-3 rounded-md border p-3">
+                    <h3 className="text-sm font-semibold">{t("projectPreview.review")}</h3>
+                    {project.reviewComment ? (
+                      <div className="rounded-md bg-muted/40 p-3 text-sm">
+                        <p className="whitespace-pre-line">{project.reviewComment}</p>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {t(`projectStatus.${reviewStatus}`)} · {project.reviewedByUserId ? (userNameById.get(project.reviewedByUserId) ?? project.reviewedByUserId) : t("projectPreview.reviewer")} · {formatDate(project.reviewedAt, locale)}
+                        </p>
                       </div>
-                    ))}
+                    ) : null}
+                    <div className="space-y-2">
+                      <Label htmlFor="preview-review-comment">{t("review.commentLabel")}</Label>
+                      <Textarea
+                        id="preview-review-comment"
+                        value={reviewComment}
+                        placeholder={t("projectPreview.commentPlaceholder")}
+                        aria-invalid={Boolean(reviewCommentError)}
+                        onChange={(event) => {
+                          setReviewComment(event.target.value);
+                          setReviewCommentError(null);
+                        }}
+                      />
+                      {reviewCommentError ? <p className="text-xs text-destructive">{reviewCommentError}</p> : null}
+                    </div>
                   </div>
-                )}
-              </div>
 
-              <div className="space-y-2">
-                <h3 className="text-sm font-semibold">Images</h3>
-                {project.images.length === 0 ? (
-                  <p className="text-sm text-muted-foreground">No images uploaded.</p>
-                ) : (
-                  <div className="flex flex-wrap gap-3">
-                    {project.images.map((image) => (
-                      <div key={image.id} className="relative">
-                        <img
-                          src={resolveAssetUrl(image.storagePath)}
-                          alt={image.fileName}
-                          className="h-28 w-36 cursor-zoom-in rounded-md border object-cover"
-                          onClick={() => {
-                            setImagePreview({
-                              src: resolveAssetUrl(image.storagePath),
-                              fileName: image.fileName,
-                            });
-                          }}
-                        />
-                        <Button
-                          type="button"
-                          size="sm"
-                          variant="destructive"
-                          className="absolute top-1 right-1 h-7 px-2 text-xs"
-                          disabled={isDeletingMedia || isUpdatingApproval}
-                          onClick={() => {
-                            onRequestDeleteMedia({
-                              id: image.id,
-                              fileName: image.fileName,
-                              mediaType: "image",
-                            });
-                          }}
-                        >
-                          Remove
-                        </Button>
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projects.category")}</p>
+                      <p className="font-medium">{project.category?.name ?? project.categoryId}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projects.owner")}</p>
+                      <p className="font-medium">{userNameById.get(project.npoUserId) ?? project.npoUserId}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectForm.currency")}</p>
+                      <p className="font-medium">{(project.currency || "USD").toUpperCase()}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectForm.targetAmount")}</p>
+                      <p className="font-medium">{formatCurrency(project.targetAmount, project.currency)}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectPreview.raisedAmount")}</p>
+                      <p className="font-medium">{formatCurrency(project.raisedAmount, project.currency)}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projects.columnStartDate")}</p>
+                      <p className="font-medium">{project.startDate}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectForm.endDate")}</p>
+                      <p className="font-medium">{project.endDate || "-"}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectPreview.autoClose")}</p>
+                      <p className="font-medium">{project.autoCloseOnTarget ? t("projectPreview.autoCloseOn") : t("projectPreview.autoCloseOff")}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectPreview.approvedAt")}</p>
+                      <p className="font-medium">{formatDate(project.approvedAt, locale)}</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">{t("projectPreview.approvedBy")}</p>
+                      <p className="font-medium">{project.approvedByUserId ? (userNameById.get(project.approvedByUserId) ?? project.approvedByUserId) : "-"}</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">{t("projectPreview.addresses")}</h3>
+                    {project.addresses.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t("address.empty")}</p>
+                    ) : (
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        {project.addresses.map((address, index) => (
+                          <div key={`${address.country}-${address.state}-${address.city}-${index}`} className="rounded-md border p-3 text-sm">
+                            <p>{address.country}</p>
+                            <p>{address.state}</p>
+                            <p>{address.city}</p>
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    )}
                   </div>
-                )}
-              </div>
 
-              <div className="space-y-2">
-                <h3 className="text-sm font-semibold">Videos</h3>
-                {project.videos.length === 0 ? (
-                  <p className="text-sm text-muted-foreground">No videos uploaded.</p>
-                ) : (
-                  <div className="flex flex-wrap gap-3">
-                    {project.videos.map((video) => (
-                      <div key={video.id} className="relative">
-                        <video src={resolveAssetUrl(video.storagePath)} className="h-28 w-44 rounded-md border bg-black/70 object-cover" controls />
-                        <Button
-                          type="button"
-                          size="sm"
-                          variant="destructive"
-                          className="absolute top-1 right-1 h-7 px-2 text-xs"
-                          disabled={isDeletingMedia || isUpdatingApproval}
-                          onClick={() => {
-                            onRequestDeleteMedia({
-                              id: video.id,
-                              fileName: video.fileName,
-                              mediaType: "video",
-                            });
-                          }}
-                        >
-                          Remove
-                        </Button>
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">{t("projectPreview.images")}</h3>
+                    {project.images.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t("projectPreview.noImages")}</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-3">
+                        {sortProjectImages(project.images).map((image) => (
+                          <figure key={image.id} className="relative w-36 space-y-1">
+                            <img
+                              src={resolveAssetUrl(image.storagePath)}
+                              alt={getProjectImageAltText(image)}
+                              className="h-28 w-36 cursor-zoom-in rounded-md border object-cover"
+                              onClick={() => {
+                                setImagePreview({
+                                  src: resolveAssetUrl(image.storagePath),
+                                  fileName: image.fileName,
+                                  altText: getProjectImageAltText(image),
+                                  caption: image.caption?.trim() || null,
+                                });
+                              }}
+                            />
+                            {image.id === coverImageId ? <Badge className="absolute top-1 start-1">{t("mediaManager.cover")}</Badge> : null}
+                            {image.caption ? (
+                              <figcaption className="line-clamp-2 text-xs text-muted-foreground">{image.caption}</figcaption>
+                            ) : null}
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="destructive"
+                              className="absolute top-1 end-1 h-7 px-2 text-xs"
+                              disabled={isDeletingMedia || Boolean(updatingReviewStatus)}
+                              onClick={() => {
+                                onRequestDeleteMedia({
+                                  id: image.id,
+                                  fileName: image.fileName,
+                                  mediaType: "image",
+                                });
+                              }}
+                            >
+                              {t("projectPreview.remove")}
+                            </Button>
+                          </figure>
+                        ))}
                       </div>
-                    ))}
+                    )}
                   </div>
-                )}
-              </div>
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">{t("projectPreview.videos")}</h3>
+                    {project.videos.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t("projectPreview.noVideos")}</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-3">
+                        {project.videos.map((video) => (
+                          <div key={video.id} className="relative">
+                            <video src={resolveAssetUrl(video.storagePath)} className="h-28 w-44 rounded-md border bg-black/70 object-cover" controls />
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="destructive"
+                              className="absolute top-1 end-1 h-7 px-2 text-xs"
+                              disabled={isDeletingMedia || Boolean(updatingReviewStatus)}
+                              onClick={() => {
+                                onRequestDeleteMedia({
+                                  id: video.id,
+                                  fileName: video.fileName,
+                                  mediaType: "video",
+                                });
+                              }}
+                            >
+                              {t("projectPreview.remove")}
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
             </div>
           ) : null}
         </CardContent>
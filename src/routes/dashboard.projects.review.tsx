@@ -0,0 +1,686 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import {
+  type ColumnDef,
+  type RowSelectionState,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
+import {
+  extractApiErrorMessage,
+  getUsers,
+  queryProjects,
+  updateProjectReviewStatus,
+} from "@/lib/api";
+import type { MessageKey } from "@/lib/i18n";
+import { requiresReviewComment } from "@/lib/project-status";
+import { requirePermission } from "@/lib/route-guards";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import { Textarea } from "@/components/ui/textarea";
+import type { Project, ProjectReviewStatus, User } from "@/types/api";
+
+export const Route = createFileRoute("/dashboard/projects/review")({
+  beforeLoad: requirePermission("project.approve"),
+  component: ProjectReviewQueuePage,
+});
+
+type ReviewDecision = Extract<ProjectReviewStatus, "approved" | "changesRequested" | "rejected">;
+
+interface BulkProgress {
+  decision: ReviewDecision;
+  done: number;
+  total: number;
+}
+
+interface BulkOutcome {
+  decision: ReviewDecision;
+  comment: string;
+  failedIds: string[];
+}
+
+interface CommentRequest {
+  decision: Exclude<ReviewDecision, "approved">;
+  projectIds: string[];
+}
+
+const DECISION_MESSAGES: Record<ReviewDecision, { progress: MessageKey; done: MessageKey; partial: MessageKey }> = {
+  approved: {
+    progress: "reviewQueue.progressApproved",
+    done: "reviewQueue.doneApproved",
+    partial: "reviewQueue.partialApproved",
+  },
+  changesRequested: {
+    progress: "reviewQueue.progressChangesRequested",
+    done: "reviewQueue.doneChangesRequested",
+    partial: "reviewQueue.partialChangesRequested",
+  },
+  rejected: {
+    progress: "reviewQueue.progressRejected",
+    done: "reviewQueue.doneRejected",
+    partial: "reviewQueue.partialRejected",
+  },
+};
+
+const QUEUE_PAGE_SIZE = 100;
+
+const SHORTCUTS: { keys: string; action: MessageKey }[] = [
+  { keys: "j / ↓", action: "reviewQueue.shortcutNext" },
+  { keys: "k / ↑", action: "reviewQueue.shortcutPrevious" },
+  { keys: "x", action: "reviewQueue.shortcutToggle" },
+  { keys: "a", action: "reviewQueue.shortcutApprove" },
+  { keys: "c", action: "reviewQueue.shortcutRequestChanges" },
+  { keys: "r", action: "reviewQueue.shortcutReject" },
+  { keys: "Enter", action: "reviewQueue.shortcutOpen" },
+];
+
+function getSubmittedDate(project: Project): string {
+  return project.createdOn ?? project.createdAt ?? project.startDate;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+function ProjectReviewQueuePage() {
+  const { t, formatCurrency, formatDateTime } = useLocale();
+  const navigate = useNavigate();
+  const can = useCan();
+  const canViewUsers = can("user.view");
+
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [totalPending, setTotalPending] = useState(0);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [lastOutcome, setLastOutcome] = useState<BulkOutcome | null>(null);
+  const [commentRequest, setCommentRequest] = useState<CommentRequest | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+
+  const isProcessing = Boolean(progress);
+
+  const userNameById = useMemo(
+    () =>
+      new Map(
+        users.map((user) => [user.id, `${user.firstName} ${user.lastName}`.trim() || user.email]),
+      ),
+    [users],
+  );
+
+  useEffect(() => {
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    if (!successMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setSuccessMessage(null);
+    }, 3500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [successMessage]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadQueue() {
+      setIsLoading(true);
+
+      try {
+        const [result, usersResponse] = await Promise.all([
+          queryProjects({
+            page: 1,
+            pageSize: QUEUE_PAGE_SIZE,
+            status: "submitted",
+            sortBy: "createdDate",
+            sortDirection: "asc",
+          }),
+          canViewUsers ? getUsers() : Promise.resolve([]),
+        ]);
+
+        if (isActive) {
+          setProjects(result.items);
+          setTotalPending(result.totalCount);
+          setUsers(usersResponse);
+          setRowSelection({});
+          setItemErrors({});
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadQueue();
+
+    return () => {
+      isActive = false;
+    };
+  }, [canViewUsers, reloadKey]);
+
+  useEffect(() => {
+    setActiveIndex((current) => Math.min(current, Math.max(0, projects.length - 1)));
+  }, [projects.length]);
+
+  const runDecision = useCallback(
+    async (decision: ReviewDecision, projectIds: string[], comment = "") => {
+      if (projectIds.length === 0 || progress) {
+        return;
+      }
+
+      setErrorMessage(null);
+      setSuccessMessage(null);
+      setLastOutcome(null);
+      setProgress({ decision, done: 0, total: projectIds.length });
+
+      const succeededIds: string[] = [];
+      const failures: Record<string, string> = {};
+
+      // One request at a time keeps the progress honest and avoids hammering the API.
+      for (const [index, projectId] of projectIds.entries()) {
+        try {
+          await updateProjectReviewStatus(projectId, { status: decision, comment });
+          succeededIds.push(projectId);
+        } catch (error) {
+          failures[projectId] = extractApiErrorMessage(error);
+        }
+
+        setProgress({ decision, done: index + 1, total: projectIds.length });
+      }
+
+      const succeeded = new Set(succeededIds);
+      const failedIds = Object.keys(failures);
+
+      setProjects((current) => current.filter((project) => !succeeded.has(project.id)));
+      setTotalPending((current) => Math.max(0, current - succeeded.size));
+      setItemErrors((current) => {
+        const next = { ...current, ...failures };
+        succeeded.forEach((projectId) => {
+          delete next[projectId];
+        });
+        return next;
+      });
+      setRowSelection(Object.fromEntries(failedIds.map((projectId) => [projectId, true])));
+      setLastOutcome({ decision, comment, failedIds });
+      setProgress(null);
+
+      const messages = DECISION_MESSAGES[decision];
+      if (failedIds.length === 0) {
+        setSuccessMessage(t(messages.done, { count: succeeded.size }));
+      } else {
+        setErrorMessage(t(messages.partial, { count: succeeded.size, failed: failedIds.length }));
+      }
+    },
+    [progress, t],
+  );
+
+  const requestDecision = useCallback(
+    (decision: ReviewDecision, projectIds: string[]) => {
+      if (decision !== "approved" && requiresReviewComment(decision)) {
+        setReviewComment("");
+        setCommentRequest({ decision, projectIds });
+        return;
+      }
+
+      void runDecision(decision, projectIds);
+    },
+    [runDecision],
+  );
+
+  const columns = useMemo<ColumnDef<Project>[]>(
+    () => [
+      {
+        id: "select",
+        header: ({ table }) => (
+          <input
+            type="checkbox"
+            aria-label={t("reviewQueue.selectAll")}
+            checked={table.getIsAllRowsSelected()}
+            ref={(element) => {
+              if (element) {
+                element.indeterminate = table.getIsSomeRowsSelected();
+              }
+            }}
+            onChange={table.getToggleAllRowsSelectedHandler()}
+          />
+        ),
+        cell: ({ row }) => (
+          <input
+            type="checkbox"
+            aria-label={t("reviewQueue.selectRow", { title: row.original.title })}
+            checked={row.getIsSelected()}
+            onChange={row.getToggleSelectedHandler()}
+          />
+        ),
+      },
+      {
+        id: "title",
+        header: t("reviewQueue.columnProject"),
+        cell: ({ row }) => (
+          <div>
+            <p className="font-medium">{row.original.title}</p>
+            <p className="text-xs text-muted-foreground line-clamp-2">{row.original.description}</p>
+            {itemErrors[row.original.id] ? (
+              <p className="mt-1 text-xs text-destructive">{itemErrors[row.original.id]}</p>
+            ) : null}
+          </div>
+        ),
+      },
+      {
+        id: "category",
+        header: t("projects.category"),
+        cell: ({ row }) => row.original.category?.name ?? String(row.original.categoryId),
+      },
+      {
+        id: "owner",
+        header: t("projects.owner"),
+        cell: ({ row }) => userNameById.get(row.original.npoUserId) ?? row.original.npoUserId,
+      },
+      {
+        id: "submitted",
+        header: t("reviewQueue.columnSubmitted"),
+        cell: ({ row }) => formatDateTime(getSubmittedDate(row.original), { dateStyle: "medium" }),
+      },
+      {
+        id: "target",
+        header: t("projects.columnTarget"),
+        cell: ({ row }) => formatCurrency(row.original.targetAmount, row.original.currency),
+      },
+      {
+        id: "actions",
+        header: t("projects.columnActions"),
+        cell: ({ row }) => (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              render={
+                <Link
+                  to="/dashboard/projects/preview/$projectId"
+                  params={{ projectId: row.original.id }}
+                />
+              }
+            >
+              {t("projects.preview")}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={isProcessing}
+              onClick={() => requestDecision("approved", [row.original.id])}
+            >
+              {t("review.approve")}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={isProcessing}
+              onClick={() => requestDecision("changesRequested", [row.original.id])}
+            >
+              {t("review.requestChanges")}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={isProcessing}
+              onClick={() => requestDecision("rejected", [row.original.id])}
+            >
+              {t("review.reject")}
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [formatCurrency, formatDateTime, isProcessing, itemErrors, requestDecision, t, userNameById],
+  );
+
+  const table = useReactTable({
+    data: projects,
+    columns,
+    state: { rowSelection },
+    getRowId: (project) => project.id,
+    enableRowSelection: true,
+    onRowSelectionChange: setRowSelection,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  const selectedIds = table.getSelectedRowModel().rows.map((row) => row.original.id);
+  const rows = table.getRowModel().rows;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.metaKey ||
+        event.ctrlKey ||
+        event.altKey ||
+        isTypingTarget(event.target) ||
+        commentRequest ||
+        isProcessing ||
+        rows.length === 0
+      ) {
+        return;
+      }
+
+      const activeRow = rows[Math.min(activeIndex, rows.length - 1)];
+
+      switch (event.key) {
+        case "j":
+        case "ArrowDown":
+          event.preventDefault();
+          setActiveIndex((current) => Math.min(current + 1, rows.length - 1));
+          break;
+        case "k":
+        case "ArrowUp":
+          event.preventDefault();
+          setActiveIndex((current) => Math.max(current - 1, 0));
+          break;
+        case "x":
+          event.preventDefault();
+          activeRow.toggleSelected();
+          break;
+        case "a":
+          event.preventDefault();
+          requestDecision("approved", [activeRow.original.id]);
+          break;
+        case "c":
+          event.preventDefault();
+          requestDecision("changesRequested", [activeRow.original.id]);
+          break;
+        case "r":
+          event.preventDefault();
+          requestDecision("rejected", [activeRow.original.id]);
+          break;
+        case "Enter":
+          event.preventDefault();
+          void navigate({
+            to: "/dashboard/projects/preview/$projectId",
+            params: { projectId: activeRow.original.id },
+          });
+          break;
+        default:
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [activeIndex, commentRequest, isProcessing, navigate, requestDecision, rows]);
+
+  useEffect(() => {
+    document
+      .querySelector(`[data-review-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      {successMessage ? (
+        <NotificationToast
+          type="success"
+          message={successMessage}
+          onClose={() => {
+            setSuccessMessage(null);
+          }}
+        />
+      ) : null}
+
+      <AlertDialog
+        open={Boolean(commentRequest)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCommentRequest(null);
+          }
+        }}
+      >
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {commentRequest?.decision === "rejected" ? t("reviewQueue.rejectTitle") : t("review.requestChanges")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {commentRequest?.decision === "rejected"
+                ? t("reviewQueue.rejectConfirm", { count: commentRequest.projectIds.length })
+                : t("reviewQueue.requestChangesConfirm", { count: commentRequest?.projectIds.length ?? 0 })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">{t("review.commentLabel")}</Label>
+            <Textarea
+              id="review-comment"
+              value={reviewComment}
+              placeholder={t("reviewQueue.commentPlaceholder")}
+              onChange={(event) => setReviewComment(event.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              variant={commentRequest?.decision === "rejected" ? "destructive" : "default"}
+              disabled={!reviewComment.trim()}
+              onClick={() => {
+                if (!commentRequest) {
+                  return;
+                }
+
+                setCommentRequest(null);
+                void runDecision(commentRequest.decision, commentRequest.projectIds, reviewComment);
+              }}
+            >
+              {commentRequest?.decision === "rejected" ? t("review.reject") : t("review.requestChanges")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>{t("projects.reviewQueue")}</CardTitle>
+            <CardDescription>{t("reviewQueue.description")}</CardDescription>
+          </div>
+          <Button variant="outline" render={<Link to="/dashboard/projects" />}>
+            {t("projects.backToProjects")}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-3 rounded-md border bg-muted/30 p-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm">
+              {selectedIds.length > 0
+                ? t("reviewQueue.selectedCount", { count: selectedIds.length })
+                : t("reviewQueue.awaiting", { count: totalPending })}
+              {totalPending > projects.length ? (
+                <span className="text-muted-foreground">
+                  {` · ${t("reviewQueue.showingOldest", { count: projects.length })}`}
+                </span>
+              ) : null}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {lastOutcome && lastOutcome.failedIds.length > 0 ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isProcessing}
+                  onClick={() => {
+                    void runDecision(lastOutcome.decision, lastOutcome.failedIds, lastOutcome.comment);
+                  }}
+                >
+                  {t("reviewQueue.retryFailed", { count: lastOutcome.failedIds.length })}
+                </Button>
+              ) : null}
+              <Button
+                type="button"
+                disabled={isProcessing || selectedIds.length === 0}
+                onClick={() => requestDecision("approved", selectedIds)}
+              >
+                {t("reviewQueue.approveSelected")}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                disabled={isProcessing || selectedIds.length === 0}
+                onClick={() => requestDecision("changesRequested", selectedIds)}
+              >
+                {t("review.requestChanges")}
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                disabled={isProcessing || selectedIds.length === 0}
+                onClick={() => requestDecision("rejected", selectedIds)}
+              >
+                {t("reviewQueue.rejectSelected")}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isProcessing || isLoading}
+                onClick={() => setReloadKey((current) => current + 1)}
+              >
+                {t("reviewQueue.refresh")}
+              </Button>
+            </div>
+          </div>
+
+          {progress ? (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {t(DECISION_MESSAGES[progress.decision].progress, { done: progress.done, total: progress.total })}
+              </p>
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          ) : null}
+
+          <div className="rounded-md border">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <tr key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <th key={header.id} className="px-3 py-2 text-start font-medium">
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(header.column.columnDef.header, header.getContext())}
+                        </th>
+                      ))}
+                    </tr>
+                  ))}
+                </thead>
+                <tbody>
+                  {isLoading ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={columns.length}>
+                        {t("reviewQueue.loading")}
+                      </td>
+                    </tr>
+                  ) : rows.length === 0 ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={columns.length}>
+                        {t("reviewQueue.empty")}
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row, index) => (
+                      <tr
+                        key={row.id}
+                        data-review-index={index}
+                        className={
+                          index === activeIndex
+                            ? "border-t bg-muted/40 outline-2 -outline-offset-2 outline-ring"
+                            : "border-t"
+                        }
+                        onClick={() => setActiveIndex(index)}
+                      >
+                        {row.getVisibleCells().map((cell) => (
+                          <td key={cell.id} className="px-3 py-3 align-top">
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </td>
+                        ))}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {SHORTCUTS.map((shortcut) => (
+              <span key={shortcut.keys}>
+                <kbd className="rounded border bg-muted px-1 font-mono">{shortcut.keys}</kbd>{" "}
+                {t(shortcut.action)}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
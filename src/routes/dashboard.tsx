@@ -1,9 +1,33 @@
-import { useEffect, type ReactNode } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 import { Link, Outlet, createFileRoute, useRouterState } from "@tanstack/react-router";
-import { LayoutDashboard, FolderKanban, UserRoundCog, Users, LogOut } from "lucide-react";
+import {
+  LayoutDashboard,
+  FolderKanban,
+  Gauge,
+  HandCoins,
+  ScrollText,
+  Tags,
+  UserRoundCog,
+  Users,
+  UsersRound,
+  LogOut,
+} from "lucide-react";
+import { LanguageToggle } from "@/components/language-toggle";
 import { ModeToggle } from "@/components/mode-toggle";
 import { useAuth } from "@/components/auth-provider";
+import { useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
 import { API_BASE_URL } from "@/lib/api";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 
 export const Route = createFileRoute("/dashboard")({
@@ -14,6 +38,8 @@ function DashboardLayout() {
   const navigate = Route.useNavigate();
   const routerState = useRouterState();
   const { session, isAuthenticated, isHydrated, logout } = useAuth();
+  const can = useCan();
+  const { t } = useLocale();
 
   useEffect(() => {
     if (!isHydrated || isAuthenticated) {
@@ -26,12 +52,11 @@ function DashboardLayout() {
   if (!isHydrated || !isAuthenticated || !session) {
     return (
       <div className="flex min-h-screen items-center justify-center text-sm text-muted-foreground">
-        Loading dashboard...
+        {t("dashboard.loading")}
       </div>
     );
   }
 
-  const isAdmin = session.user.role.toLowerCase() === "admin";
   const path = routerState.location.pathname;
 
   return (
@@ -43,15 +68,16 @@ function DashboardLayout() {
               H
             </div>
             <div className="min-w-0">
-              <p className="text-xs uppercase tracking-[0.18em] text-muted-foreground">Hadyaa Admin Panel</p>
+              <p className="text-xs uppercase tracking-[0.18em] text-muted-foreground">{t("dashboard.appName")}</p>
               <h1 className="truncate text-lg font-semibold sm:text-xl">
-                Welcome, {session.user.displayName || session.user.email}
+                {t("dashboard.welcome", { name: session.user.displayName || session.user.email })}
               </h1>
-              <p className="text-sm text-muted-foreground">Role: {session.user.role}</p>
+              <p className="text-sm text-muted-foreground">{t("dashboard.role", { role: session.user.role })}</p>
             </div>
           </div>
 
           <div className="flex items-center gap-2 sm:self-start">
+            <LanguageToggle />
             <ModeToggle />
             <Button
               type="button"
@@ -61,8 +87,8 @@ function DashboardLayout() {
                 void navigate({ to: "/login", replace: true });
               }}
             >
-              <LogOut className="size-4" />
-              Logout
+              <LogOut className="size-4 rtl:rotate-180" />
+              {t("dashboard.logout")}
             </Button>
           </div>
         </div>
@@ -71,48 +97,192 @@ function DashboardLayout() {
       <div className="mx-auto grid w-full max-w-7xl gap-4 px-4 py-5 sm:px-6 lg:grid-cols-[240px_minmax(0,1fr)] lg:gap-6">
         <aside className="rounded-xl border bg-background p-3">
           <nav className="space-y-1">
+            <SideNavItem
+              to="/dashboard"
+              isActive={path === "/dashboard" || path === "/dashboard/"}
+              label={t("nav.overview")}
+              icon={<Gauge className="size-4" />}
+            />
             <SideNavItem
               to="/dashboard/projects"
               isActive={path.startsWith("/dashboard/projects")}
-              label="Projects"
+              label={t("nav.projects")}
               icon={<FolderKanban className="size-4" />}
             />
+            {can("category.manage") ? (
+              <SideNavItem
+                to="/dashboard/categories"
+                isActive={path.startsWith("/dashboard/categories")}
+                label={t("nav.categories")}
+                icon={<Tags className="size-4" />}
+              />
+            ) : null}
+            {can("donation.view") ? (
+              <SideNavItem
+                to="/dashboard/donations"
+                isActive={path.startsWith("/dashboard/donations")}
+                label={t("nav.donations")}
+                icon={<HandCoins className="size-4" />}
+              />
+            ) : null}
             <SideNavItem
               to="/dashboard/profile"
               isActive={path.startsWith("/dashboard/profile")}
-              label="Profile & Bank"
+              label={t("nav.profile")}
               icon={<UserRoundCog className="size-4" />}
             />
-            {isAdmin ? (
+            {can("user.view") ? (
+              <SideNavItem
+                to="/dashboard/users"
+                isActive={path.startsWith("/dashboard/users")}
+                label={t("nav.users")}
+                icon={<UsersRound className="size-4" />}
+              />
+            ) : null}
+            {can("user.role.update") ? (
               <SideNavItem
                 to="/dashboard/admin"
                 isActive={path.startsWith("/dashboard/admin")}
-                label="Admin Settings"
+                label={t("nav.admin")}
                 icon={<Users className="size-4" />}
               />
             ) : null}
+            {can("audit.view") ? (
+              <SideNavItem
+                to="/dashboard/audit"
+                isActive={path.startsWith("/dashboard/audit")}
+                label={t("nav.audit")}
+                icon={<ScrollText className="size-4" />}
+              />
+            ) : null}
           </nav>
         </aside>
 
         <main className="min-w-0 space-y-4">
           <div className="flex items-center gap-2 rounded-md border bg-background px-3 py-2 text-sm text-muted-foreground">
             <LayoutDashboard className="size-4" />
-            Connected to backend: <code>{API_BASE_URL}</code>
+            {t("dashboard.connectedTo")} <code dir="ltr">{API_BASE_URL}</code>
           </div>
           <Outlet />
         </main>
       </div>
+
+      <SessionExpiryPrompt
+        onSignInAgain={() => {
+          logout();
+          void navigate({ to: "/login", replace: true });
+        }}
+      />
     </div>
   );
 }
 
+function formatRemaining(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+function SessionExpiryPrompt({ onSignInAgain }: Readonly<{ onSignInAgain: () => void }>) {
+  const { sessionExpiresAt, isSessionExpiring, canRefreshSession, refreshSession } = useAuth();
+  const { t } = useLocale();
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const isOpen = isSessionExpiring && !isDismissed;
+
+  useEffect(() => {
+    if (!isSessionExpiring) {
+      setIsDismissed(false);
+    }
+  }, [isSessionExpiring]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    setNow(Date.now());
+    const intervalId = window.setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [isOpen]);
+
+  async function onRetryRefresh() {
+    setIsRefreshing(true);
+
+    try {
+      const isRefreshed = await refreshSession();
+      if (isRefreshed) {
+        setIsDismissed(true);
+      }
+    } finally {
+      setIsRefreshing(false);
+    }
+  }
+
+  const remaining = sessionExpiresAt ? formatRemaining(sessionExpiresAt - now) : null;
+
+  return (
+    <AlertDialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) {
+          setIsDismissed(true);
+        }
+      }}
+    >
+      <AlertDialogContent size="sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t("session.title")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {remaining ? t("session.expiresIn", { time: remaining }) : t("session.expiringSoon")}{" "}
+            {canRefreshSession ? t("session.refreshFailed") : t("session.signInToContinue")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          {canRefreshSession ? (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isRefreshing}
+              onClick={() => {
+                void onRetryRefresh();
+              }}
+            >
+              {isRefreshing ? t("session.renewing") : t("session.tryAgain")}
+            </Button>
+          ) : (
+            <AlertDialogCancel>{t("session.dismiss")}</AlertDialogCancel>
+          )}
+          <AlertDialogAction onClick={onSignInAgain}>{t("session.signInAgain")}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
 function SideNavItem({
   to,
   isActive,
   label,
   icon,
 }: Readonly<{
-  to: "/dashboard/projects" | "/dashboard/profile" | "/dashboard/admin";
+  to:
+    | "/dashboard"
+    | "/dashboard/projects"
+    | "/dashboard/categories"
+    | "/dashboard/donations"
+    | "/dashboard/profile"
+    | "/dashboard/users"
+    | "/dashboard/admin"
+    | "/dashboard/audit";
   isActive: boolean;
   label: string;
   icon: ReactNode;
@@ -0,0 +1,904 @@
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import {
+  type ColumnDef,
+  type ColumnFiltersState,
+  type FilterFn,
+  type PaginationState,
+  type SortingState,
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { useAuth } from "@/components/auth-provider";
+import { useCan } from "@/components/can";
+import { useLocale } from "@/components/locale-provider";
+import {
+  createUser,
+  deleteUser,
+  extractApiErrorMessage,
+  getUserById,
+  getUsers,
+  inviteUser,
+  resolveAssetUrl,
+  setUserActive,
+  setUserNpoStatus,
+} from "@/lib/api";
+import { normalizeRole } from "@/lib/permissions";
+import { requirePermission } from "@/lib/route-guards";
+import {
+  EMPTY_USER_FORM,
+  createUserFormSchema,
+  type UserFormErrors,
+  type UserFormField,
+  type UserFormValues,
+} from "@/lib/validations/user";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NotificationToast } from "@/components/ui/notification-toast";
+import type { UpdateUserResponse, User } from "@/types/api";
+
+export const Route = createFileRoute("/dashboard/users")({
+  beforeLoad: requirePermission("user.view"),
+  component: DashboardUsersPage,
+});
+
+function getUserName(user: User): string {
+  return `${user.firstName} ${user.lastName}`.trim() || user.email;
+}
+
+function getInitials(user: User): string {
+  const initials = `${user.firstName.charAt(0)}${user.lastName.charAt(0)}`.trim();
+  return (initials || user.email.charAt(0)).toUpperCase();
+}
+
+const matchesUserSearch: FilterFn<User> = (row, _columnId, filterValue: string) => {
+  const search = filterValue.trim().toLowerCase();
+  if (!search) {
+    return true;
+  }
+
+  const user = row.original;
+  return [user.firstName, user.lastName, user.email, user.mobileNumber ?? ""].some((value) =>
+    value.toLowerCase().includes(search),
+  );
+};
+
+function UserAvatar({ user, size = "sm" }: Readonly<{ user: User; size?: "sm" | "lg" }>) {
+  const sizeClass = size === "lg" ? "size-16 text-lg" : "size-8 text-xs";
+
+  if (user.avatarPath) {
+    return (
+      <img
+        src={resolveAssetUrl(user.avatarPath)}
+        alt={getUserName(user)}
+        className={`${sizeClass} shrink-0 rounded-full border object-cover`}
+      />
+    );
+  }
+
+  return (
+    <span
+      className={`${sizeClass} inline-flex shrink-0 items-center justify-center rounded-full border bg-muted font-medium text-muted-foreground`}
+    >
+      {getInitials(user)}
+    </span>
+  );
+}
+
+function DashboardUsersPage() {
+  const { session } = useAuth();
+  const can = useCan();
+  const { t } = useLocale();
+  const sessionUserId = session?.user.id ?? "";
+  const canCreateUsers = can("user.create");
+  const canUpdateUsers = can("user.update");
+  const canDeleteUsers = can("user.delete");
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const [sorting, setSorting] = useState<SortingState>([{ id: "name", desc: false }]);
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+  const [globalFilter, setGlobalFilter] = useState("");
+  const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: 10 });
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formValues, setFormValues] = useState<UserFormValues>(EMPTY_USER_FORM);
+  const [formErrors, setFormErrors] = useState<UserFormErrors>({});
+  const [isSubmittingUser, setIsSubmittingUser] = useState(false);
+
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+  const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [isDeletingUser, setIsDeletingUser] = useState(false);
+
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+
+  useEffect(() => {
+    if (!errorMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setErrorMessage(null);
+    }, 4500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [errorMessage]);
+
+  useEffect(() => {
+    if (!successMessage) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      setSuccessMessage(null);
+    }, 3500);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [successMessage]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    async function loadUsers() {
+      setIsLoading(true);
+
+      try {
+        const usersResponse = await getUsers();
+        if (isActive) {
+          setUsers(usersResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadUsers();
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedUserId) {
+      setSelectedUser(null);
+      return;
+    }
+
+    let isActive = true;
+
+    async function loadUserDetails(userId: string) {
+      setSelectedUser(null);
+      setIsLoadingDetails(true);
+
+      try {
+        const userResponse = await getUserById(userId);
+        if (isActive) {
+          setSelectedUser(userResponse);
+        }
+      } catch (error) {
+        if (isActive) {
+          setErrorMessage(extractApiErrorMessage(error));
+        }
+      } finally {
+        if (isActive) {
+          setIsLoadingDetails(false);
+        }
+      }
+    }
+
+    void loadUserDetails(selectedUserId);
+
+    return () => {
+      isActive = false;
+    };
+  }, [selectedUserId]);
+
+  function clearAlerts() {
+    setErrorMessage(null);
+    setSuccessMessage(null);
+  }
+
+  function applyUserUpdate(response: UpdateUserResponse) {
+    setUsers((current) =>
+      current.map((user) => (user.id === response.id ? { ...user, ...response } : user)),
+    );
+    setSelectedUser((current) => (current?.id === response.id ? { ...current, ...response } : current));
+  }
+
+  const onToggleActive = useCallback(async (user: User) => {
+    clearAlerts();
+    setPendingUserId(user.id);
+
+    try {
+      const response = await setUserActive(user.id, !user.isActive);
+      applyUserUpdate(response);
+      setSuccessMessage(
+        t(response.isActive ? "users.reactivated" : "users.deactivated", { name: getUserName(user) }),
+      );
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setPendingUserId(null);
+    }
+  }, [t]);
+
+  const onToggleNpo = useCallback(async (user: User) => {
+    clearAlerts();
+    setPendingUserId(user.id);
+
+    try {
+      const response = await setUserNpoStatus(user.id, !user.isNpo);
+      applyUserUpdate(response);
+      setSuccessMessage(
+        t(response.isNpo ? "users.markedNpo" : "users.unmarkedNpo", { name: getUserName(user) }),
+      );
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setPendingUserId(null);
+    }
+  }, [t]);
+
+  const confirmDeleteUser = useCallback(async () => {
+    if (!userToDelete) {
+      return;
+    }
+
+    clearAlerts();
+    setIsDeletingUser(true);
+
+    try {
+      await deleteUser(userToDelete.id);
+      setUsers((current) => current.filter((user) => user.id !== userToDelete.id));
+      setSelectedUserId((current) => (current === userToDelete.id ? null : current));
+      setSuccessMessage(t("users.deleted", { name: getUserName(userToDelete) }));
+      setUserToDelete(null);
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsDeletingUser(false);
+    }
+  }, [t, userToDelete]);
+
+  function onFormChange<K extends UserFormField>(field: K, value: UserFormValues[K]) {
+    setFormValues((current) => ({ ...current, [field]: value }));
+    setFormErrors((current) => ({ ...current, [field]: undefined }));
+  }
+
+  function closeForm() {
+    setIsFormOpen(false);
+    setFormValues(EMPTY_USER_FORM);
+    setFormErrors({});
+  }
+
+  async function onSubmitUser(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    clearAlerts();
+
+    const result = createUserFormSchema(t).safeParse(formValues);
+    if (!result.success) {
+      const errors: UserFormErrors = {};
+      result.error.issues.forEach((issue) => {
+        const field = issue.path[0] as UserFormField | undefined;
+        if (field && !errors[field]) {
+          errors[field] = issue.message;
+        }
+      });
+      setFormErrors(errors);
+      return;
+    }
+
+    const { sendInvite, password, ...values } = result.data;
+    const payload = { ...values, mobileNumber: values.mobileNumber || undefined };
+    setIsSubmittingUser(true);
+
+    try {
+      const createdUser = sendInvite
+        ? await inviteUser(payload)
+        : await createUser({ ...payload, password });
+      setUsers((current) => [createdUser, ...current]);
+      setSuccessMessage(
+        sendInvite
+          ? t("users.invitationSent", { email: createdUser.email })
+          : t("users.created", { name: getUserName(createdUser) }),
+      );
+      closeForm();
+    } catch (error) {
+      setErrorMessage(extractApiErrorMessage(error));
+    } finally {
+      setIsSubmittingUser(false);
+    }
+  }
+
+  const columns = useMemo<ColumnDef<User>[]>(
+    () => [
+      {
+        id: "name",
+        accessorFn: (user) => getUserName(user).toLowerCase(),
+        header: t("users.columnUser"),
+        cell: ({ row }) => (
+          <div className="flex items-center gap-3">
+            <UserAvatar user={row.original} />
+            <div className="min-w-0">
+              <p className="font-medium">{getUserName(row.original)}</p>
+              <p className="truncate text-xs text-muted-foreground">{row.original.email}</p>
+            </div>
+          </div>
+        ),
+      },
+      {
+        id: "role",
+        accessorFn: (user) => normalizeRole(user.role),
+        header: t("admin.role"),
+        filterFn: "equalsString",
+        cell: ({ row }) => t(`role.${normalizeRole(row.original.role)}`),
+      },
+      {
+        id: "isNpo",
+        accessorFn: (user) => (user.isNpo ? "npo" : "standard"),
+        header: t("users.npoAccount"),
+        filterFn: "equalsString",
+        cell: ({ row }) =>
+          row.original.isNpo ? (
+            <Badge variant="secondary">{t("role.npo")}</Badge>
+          ) : (
+            <span className="text-muted-foreground">{t("common.no")}</span>
+          ),
+      },
+      {
+        id: "status",
+        accessorFn: (user) => (user.isActive ? "active" : "inactive"),
+        header: t("users.status"),
+        filterFn: "equalsString",
+        cell: ({ row }) => (
+          <Badge variant={row.original.isActive ? "secondary" : "destructive"}>
+            {t(row.original.isActive ? "users.active" : "users.inactive")}
+          </Badge>
+        ),
+      },
+      {
+        id: "actions",
+        header: t("projects.columnActions"),
+        enableSorting: false,
+        enableColumnFilter: false,
+        enableGlobalFilter: false,
+        cell: ({ row }) => {
+          const user = row.original;
+          const isSelf = user.id === sessionUserId;
+          const isPending = pendingUserId === user.id;
+
+          return (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                onClick={() => setSelectedUserId(user.id)}
+              >
+                {t("users.view")}
+              </Button>
+              {canUpdateUsers && !isSelf ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => {
+                    void onToggleActive(user);
+                  }}
+                >
+                  {t(user.isActive ? "users.deactivate" : "users.reactivate")}
+                </Button>
+              ) : null}
+              {canUpdateUsers ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => {
+                    void onToggleNpo(user);
+                  }}
+                >
+                  {t(user.isNpo ? "users.unmarkNpo" : "users.markNpo")}
+                </Button>
+              ) : null}
+              {canDeleteUsers && !isSelf ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="destructive"
+                  disabled={isPending}
+                  onClick={() => {
+                    clearAlerts();
+                    setUserToDelete(user);
+                  }}
+                >
+                  {t("projects.delete")}
+                </Button>
+              ) : null}
+            </div>
+          );
+        },
+      },
+    ],
+    [canDeleteUsers, canUpdateUsers, onToggleActive, onToggleNpo, pendingUserId, sessionUserId, t],
+  );
+
+  const table = useReactTable({
+    data: users,
+    columns,
+    state: {
+      sorting,
+      columnFilters,
+      globalFilter,
+      pagination,
+    },
+    enableMultiSort: false,
+    globalFilterFn: matchesUserSearch,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onGlobalFilterChange: setGlobalFilter,
+    onPaginationChange: setPagination,
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+  });
+
+  const visibleColumnCount = table.getVisibleLeafColumns().length;
+  const filteredCount = table.getFilteredRowModel().rows.length;
+  const roleFilterValue = (table.getColumn("role")?.getFilterValue() as string) ?? "";
+  const npoFilterValue = (table.getColumn("isNpo")?.getFilterValue() as string) ?? "";
+  const statusFilterValue = (table.getColumn("status")?.getFilterValue() as string) ?? "";
+  const detailsUser = selectedUser ?? users.find((user) => user.id === selectedUserId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      {errorMessage ? (
+        <NotificationToast
+          type="error"
+          message={errorMessage}
+          onClose={() => {
+            setErrorMessage(null);
+          }}
+        />
+      ) : null}
+
+      {successMessage ? (
+        <NotificationToast
+          type="success"
+          message={successMessage}
+          onClose={() => {
+            setSuccessMessage(null);
+          }}
+        />
+      ) : null}
+
+      <AlertDialog
+        open={Boolean(userToDelete)}
+        onOpenChange={(open) => {
+          if (!open && !isDeletingUser) {
+            setUserToDelete(null);
+          }
+        }}
+      >
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("users.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {userToDelete
+                ? t("users.deleteConfirm", { name: getUserName(userToDelete), email: userToDelete.email })
+                : t("users.deleteConfirmGeneric")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeletingUser}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              disabled={isDeletingUser}
+              onClick={() => {
+                void confirmDeleteUser();
+              }}
+            >
+              {isDeletingUser ? t("projects.deleting") : t("users.deleteTitle")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {isFormOpen ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("users.formTitle")}</CardTitle>
+            <CardDescription>{t("users.formDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4 md:grid-cols-2" onSubmit={onSubmitUser}>
+              <div className="space-y-2">
+                <Label htmlFor="user-email">{t("users.email")}</Label>
+                <Input
+                  id="user-email"
+                  type="email"
+                  value={formValues.email}
+                  aria-invalid={Boolean(formErrors.email)}
+                  onChange={(event) => onFormChange("email", event.target.value)}
+                />
+                {formErrors.email ? <p className="text-xs text-destructive">{formErrors.email}</p> : null}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="user-role">{t("admin.role")}</Label>
+                <select
+                  id="user-role"
+                  className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                  value={formValues.role}
+                  onChange={(event) => onFormChange("role", event.target.value)}
+                >
+                  <option value="Admin">{t("role.admin")}</option>
+                  <option value="Npo">{t("role.npo")}</option>
+                  <option value="Donor">{t("role.donor")}</option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="user-first-name">{t("users.firstName")}</Label>
+                <Input
+                  id="user-first-name"
+                  value={formValues.firstName}
+                  aria-invalid={Boolean(formErrors.firstName)}
+                  onChange={(event) => onFormChange("firstName", event.target.value)}
+                />
+                {formErrors.firstName ? (
+                  <p className="text-xs text-destructive">{formErrors.firstName}</p>
+                ) : null}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="user-last-name">{t("users.lastName")}</Label>
+                <Input
+                  id="user-last-name"
+                  value={formValues.lastName}
+                  aria-invalid={Boolean(formErrors.lastName)}
+                  onChange={(event) => onFormChange("lastName", event.target.value)}
+                />
+                {formErrors.lastName ? (
+                  <p className="text-xs text-destructive">{formErrors.lastName}</p>
+                ) : null}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="user-mobile">{t("users.mobileNumber")}</Label>
+                <Input
+                  id="user-mobile"
+                  value={formValues.mobileNumber}
+                  onChange={(event) => onFormChange("mobileNumber", event.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="user-password">{t("users.password")}</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  disabled={formValues.sendInvite}
+                  placeholder={formValues.sendInvite ? t("users.passwordFromInvite") : undefined}
+                  value={formValues.password}
+                  aria-invalid={Boolean(formErrors.password)}
+                  onChange={(event) => onFormChange("password", event.target.value)}
+                />
+                {formErrors.password ? (
+                  <p className="text-xs text-destructive">{formErrors.password}</p>
+                ) : null}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm md:col-span-2">
+                <input
+                  type="checkbox"
+                  checked={formValues.sendInvite}
+                  onChange={(event) => onFormChange("sendInvite", event.target.checked)}
+                />
+                {t("users.sendInvite")}
+              </label>
+
+              <div className="flex gap-2 md:col-span-2">
+                <Button type="submit" disabled={isSubmittingUser}>
+                  {isSubmittingUser
+                    ? t("common.saving")
+                    : t(formValues.sendInvite ? "users.sendInvitation" : "users.createUser")}
+                </Button>
+                <Button type="button" variant="outline" disabled={isSubmittingUser} onClick={closeForm}>
+                  {t("common.cancel")}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>{t("users.title")}</CardTitle>
+            <CardDescription>{t("users.description")}</CardDescription>
+          </div>
+          {canCreateUsers && !isFormOpen ? (
+            <Button type="button" onClick={() => setIsFormOpen(true)}>
+              {t("users.addUser")}
+            </Button>
+          ) : null}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 rounded-md border bg-muted/30 p-3 sm:grid-cols-2 xl:grid-cols-[minmax(0,1fr)_auto_auto_auto_auto] xl:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="user-search">{t("projects.search")}</Label>
+              <Input
+                id="user-search"
+                placeholder={t("users.searchPlaceholder")}
+                value={globalFilter}
+                onChange={(event) => table.setGlobalFilter(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="user-role-filter">{t("admin.role")}</Label>
+              <select
+                id="user-role-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={roleFilterValue}
+                onChange={(event) => {
+                  table.getColumn("role")?.setFilterValue(event.target.value || undefined);
+                }}
+              >
+                <option value="">{t("common.all")}</option>
+                <option value="admin">{t("role.admin")}</option>
+                <option value="npo">{t("role.npo")}</option>
+                <option value="donor">{t("role.donor")}</option>
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="user-npo-filter">{t("users.npoAccount")}</Label>
+              <select
+                id="user-npo-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={npoFilterValue}
+                onChange={(event) => {
+                  table.getColumn("isNpo")?.setFilterValue(event.target.value || undefined);
+                }}
+              >
+                <option value="">{t("common.all")}</option>
+                <option value="npo">{t("role.npo")}</option>
+                <option value="standard">{t("users.notNpo")}</option>
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="user-status-filter">{t("users.status")}</Label>
+              <select
+                id="user-status-filter"
+                className="h-9 w-full rounded-md border bg-background px-3 text-sm"
+                value={statusFilterValue}
+                onChange={(event) => {
+                  table.getColumn("status")?.setFilterValue(event.target.value || undefined);
+                }}
+              >
+                <option value="">{t("common.all")}</option>
+                <option value="active">{t("users.active")}</option>
+                <option value="inactive">{t("users.inactive")}</option>
+              </select>
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                table.resetGlobalFilter();
+                table.resetColumnFilters();
+              }}
+            >
+              {t("projects.clearFilters")}
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">{t("projects.results", { count: filteredCount })}</p>
+
+          <div className="rounded-md border">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <tr key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <th key={header.id} className="px-3 py-2 text-start font-medium">
+                          {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                            <button
+                              type="button"
+                              className="inline-flex items-center gap-1"
+                              onClick={header.column.getToggleSortingHandler()}
+                            >
+                              {flexRender(header.column.columnDef.header, header.getContext())}
+                              <span className="text-muted-foreground">
+                                {header.column.getIsSorted() === "asc"
+                                  ? "↑"
+                                  : header.column.getIsSorted() === "desc"
+                                    ? "↓"
+                                    : ""}
+                              </span>
+                            </button>
+                          ) : (
+                            flexRender(header.column.columnDef.header, header.getContext())
+                          )}
+                        </th>
+                      ))}
+                    </tr>
+                  ))}
+                </thead>
+                <tbody>
+                  {isLoading ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={visibleColumnCount}>
+                        {t("admin.loadingUsers")}
+                      </td>
+                    </tr>
+                  ) : table.getRowModel().rows.length === 0 ? (
+                    <tr>
+                      <td className="px-3 py-8 text-center text-muted-foreground" colSpan={visibleColumnCount}>
+                        {t("users.empty")}
+                      </td>
+                    </tr>
+                  ) : (
+                    table.getRowModel().rows.map((row) => (
+                      <tr
+                        key={row.id}
+                        className={row.original.id === selectedUserId ? "border-t bg-muted/40" : "border-t"}
+                      >
+                        {row.getVisibleCells().map((cell) => (
+                          <td key={cell.id} className="px-3 py-3 align-top">
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </td>
+                        ))}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-xs text-muted-foreground">
+              {t("pagination.summary", {
+                page: table.getState().pagination.pageIndex + 1,
+                pageCount: table.getPageCount() || 1,
+              })}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                className="h-8 rounded-md border bg-background px-2 text-xs"
+                value={table.getState().pagination.pageSize}
+                onChange={(event) => {
+                  table.setPageSize(Number(event.target.value));
+                }}
+              >
+                {[10, 20, 50].map((size) => (
+                  <option key={size} value={size}>
+                    {t("pagination.pageSize", { size })}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => table.previousPage()}
+                disabled={!table.getCanPreviousPage()}
+              >
+                {t("pagination.previous")}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => table.nextPage()}
+                disabled={!table.getCanNextPage()}
+              >
+                {t("pagination.next")}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {detailsUser ? (
+        <Card>
+          <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+            <div className="flex items-center gap-4">
+              <UserAvatar user={detailsUser} size="lg" />
+              <div>
+                <CardTitle>{getUserName(detailsUser)}</CardTitle>
+                <CardDescription>{detailsUser.email}</CardDescription>
+              </div>
+            </div>
+            <Button type="button" variant="outline" onClick={() => setSelectedUserId(null)}>
+              {t("common.close")}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoadingDetails ? (
+              <p className="text-sm text-muted-foreground">{t("users.loadingDetails")}</p>
+            ) : null}
+
+            <div className="grid gap-3 text-sm sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <p className="text-xs text-muted-foreground">{t("admin.role")}</p>
+                <p className="font-medium">{t(`role.${normalizeRole(detailsUser.role)}`)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">{t("users.status")}</p>
+                <p className="font-medium">{t(detailsUser.isActive ? "users.active" : "users.inactive")}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">{t("users.npoAccount")}</p>
+                <p className="font-medium">{t(detailsUser.isNpo ? "common.yes" : "common.no")}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">{t("users.mobileNumber")}</p>
+                <p className="font-medium">{detailsUser.mobileNumber || "-"}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t("users.addresses")}</p>
+              {detailsUser.addresses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("users.noAddresses")}</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {detailsUser.addresses.map((address, index) => (
+                    <li key={address.id ?? index} className="rounded-md border px-3 py-2">
+                      {[address.city, address.state, address.country].filter(Boolean).join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
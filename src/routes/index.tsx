@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 import { createFileRoute } from "@tanstack/react-router";
 import { useAuth } from "@/components/auth-provider";
+import { useLocale } from "@/components/locale-provider";
 
 export const Route = createFileRoute("/")({
   component: IndexPage,
@@ -9,6 +10,7 @@ export const Route = createFileRoute("/")({
 function IndexPage() {
   const navigate = Route.useNavigate();
   const { isHydrated, isAuthenticated } = useAuth();
+  const { t } = useLocale();
 
   useEffect(() => {
     if (!isHydrated) {
@@ -23,7 +25,7 @@ function IndexPage() {
 
   return (
     <div className="flex min-h-screen items-center justify-center text-sm text-muted-foreground">
-      Loading...
+      {t("common.loading")}
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useEffect, useState, type FormEvent } from "react";
 import { createFileRoute } from "@tanstack/react-router";
 import { Eye, EyeOff, Lock, Mail } from "lucide-react";
 import { useAuth } from "@/components/auth-provider";
+import { useLocale } from "@/components/locale-provider";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -13,6 +14,7 @@ export const Route = createFileRoute("/login")({
 function LoginPage() {
   const navigate = Route.useNavigate();
   const { login, isAuthenticated, isHydrated } = useAuth();
+  const { t } = useLocale();
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -25,7 +27,7 @@ function LoginPage() {
       return;
     }
 
-    void navigate({ to: "/dashboard/projects", replace: true });
+    void navigate({ to: "/dashboard", replace: true });
   }, [isHydrated, isAuthenticated, navigate]);
 
   async function onSubmit(event: FormEvent<HTMLFormElement>) {
@@ -35,9 +37,9 @@ function LoginPage() {
 
     try {
       await login({ email: email.trim(), password });
-      void navigate({ to: "/dashboard/projects", replace: true });
+      void navigate({ to: "/dashboard", replace: true });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Login failed.";
+      const message = error instanceof Error ? error.message : t("login.failed");
       setErrorMessage(message);
     } finally {
       setIsSubmitting(false);
@@ -46,8 +48,8 @@ function LoginPage() {
 
   return (
     <div className="relative flex min-h-screen items-center justify-center overflow-hidden bg-[radial-gradient(circle_at_15%_20%,#d1fae5,transparent_35%),radial-gradient(circle_at_85%_15%,#bae6fd,transparent_30%),radial-gradient(circle_at_50%_90%,#bbf7d0,transparent_35%),linear-gradient(140deg,#f8fafc_0%,#f5f5f4_50%,#ecfdf5_100%)] p-4">
-      <div className="pointer-events-none absolute -top-24 -left-20 h-72 w-72 rounded-full bg-emerald-300/35 blur-3xl animate-pulse" />
-      <div className="pointer-events-none absolute -right-16 top-24 h-64 w-64 rounded-full bg-sky-300/30 blur-3xl animate-pulse [animation-delay:1200ms]" />
+      <div className="pointer-events-none absolute -top-24 -start-20 h-72 w-72 rounded-full bg-emerald-300/35 blur-3xl animate-pulse" />
+      <div className="pointer-events-none absolute -end-16 top-24 h-64 w-64 rounded-full bg-sky-300/30 blur-3xl animate-pulse [animation-delay:1200ms]" />
       <div className="pointer-events-none absolute inset-0 opacity-50 [background-image:linear-gradient(to_right,rgba(148,163,184,0.1)_1px,transparent_1px),linear-gradient(to_bottom,rgba(148,163,184,0.1)_1px,transparent_1px)] [background-size:44px_44px]" />
 
       <Card className="relative w-full max-w-xl overflow-hidden border border-white/60 bg-white/80 shadow-[0_24px_70px_-30px_rgba(15,23,42,0.45)] backdrop-blur-xl animate-in fade-in zoom-in-95 duration-500">
@@ -59,27 +61,27 @@ function LoginPage() {
         <CardContent className="px-10 pb-10">
           <form className="space-y-5" onSubmit={onSubmit}>
             <div className="group relative">
-              <Mail className="pointer-events-none absolute top-1/2 left-4 size-5 -translate-y-1/2 text-slate-400 transition-colors group-focus-within:text-emerald-600" />
+              <Mail className="pointer-events-none absolute top-1/2 start-4 size-5 -translate-y-1/2 text-slate-400 transition-colors group-focus-within:text-emerald-600" />
               <Input
                 id="email"
                 type="email"
                 value={email}
                 onChange={(event) => setEmail(event.target.value)}
-                placeholder="Email"
+                placeholder={t("login.email")}
                 autoComplete="email"
-                className="h-14 rounded-xl border-slate-200/80 bg-white/90 pl-12 pr-4 text-base shadow-sm transition-all duration-200 focus-visible:border-emerald-400 focus-visible:ring-4 focus-visible:ring-emerald-200/60"
+                className="h-14 rounded-xl border-slate-200/80 bg-white/90 ps-12 pe-4 text-base shadow-sm transition-all duration-200 focus-visible:border-emerald-400 focus-visible:ring-4 focus-visible:ring-emerald-200/60"
                 required
               />
             </div>
 
             <div className="group relative">
-              <Lock className="pointer-events-none absolute top-1/2 left-4 size-5 -translate-y-1/2 text-slate-400 transition-colors group-focus-within:text-emerald-600" />
+              <Lock className="pointer-events-none absolute top-1/2 start-4 size-5 -translate-y-1/2 text-slate-400 transition-colors group-focus-within:text-emerald-600" />
               <Input
                 id="password"
                 type={showPassword ? "text" : "password"}
                 value={password}
                 onChange={(event) => setPassword(event.target.value)}
-                placeholder="Password"
+                placeholder={t("login.password")}
                 autoComplete="current-password"
                 className="h-14 rounded-xl border-slate-200/80 bg-white/90 px-12 text-base shadow-sm transition-all duration-200 focus-visible:border-emerald-400 focus-visible:ring-4 focus-visible:ring-emerald-200/60"
                 required
@@ -87,8 +89,8 @@ function LoginPage() {
               <button
                 type="button"
                 onClick={() => setShowPassword((value) => !value)}
-                className="absolute top-1/2 right-4 -translate-y-1/2 text-slate-400 transition-colors hover:text-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400/70 rounded-sm"
-                aria-label={showPassword ? "Hide password" : "Show password"}
+                className="absolute top-1/2 end-4 -translate-y-1/2 text-slate-400 transition-colors hover:text-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400/70 rounded-sm"
+                aria-label={showPassword ? t("login.hidePassword") : t("login.showPassword")}
               >
                 {showPassword ? <EyeOff className="size-5" /> : <Eye className="size-5" />}
               </button>
@@ -105,7 +107,7 @@ function LoginPage() {
               type="submit"
               disabled={isSubmitting || !isHydrated}
             >
-              {isSubmitting ? "Signing in..." : "Login"}
+              {isSubmitting ? t("login.submitting") : t("login.submit")}
             </Button>
           </form>
         </CardContent>
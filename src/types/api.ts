@@ -13,6 +13,7 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   token: string;
+  refreshToken?: string | null;
   firstName: string;
   lastName: string;
   displayName: string;
@@ -20,6 +21,16 @@ export interface LoginResponse {
   avatarPath?: string | null;
 }
 
+export interface RefreshTokenRequest {
+  token: string;
+  refreshToken: string;
+}
+
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken?: string | null;
+}
+
 export interface Category {
   id: number;
   name: string;
@@ -33,7 +44,11 @@ export interface Category {
 export interface Address {
   id?: string;
   country: string;
+  /** ISO 3166-1 alpha-2 code. */
+  countryCode?: string;
   state: string;
+  /** ISO 3166-2 subdivision code. */
+  stateCode?: string;
   city: string;
 }
 
@@ -42,8 +57,43 @@ export interface ProjectImage {
   fileName: string;
   contentType?: string | null;
   storagePath: string;
+  /** Position saved from the media manager; lower values come first. */
+  sortOrder?: number | null;
+  isCover?: boolean | null;
+  caption?: string | null;
+  altText?: string | null;
+}
+
+/** Upload limits enforced by the server for project media. */
+export interface MediaPolicy {
+  maxImageCount: number;
+  maxVideoCount: number;
+  maxImageSizeBytes: number;
+  maxVideoSizeBytes: number;
+  allowedImageTypes: string[];
+  allowedVideoTypes: string[];
+  maxVideoDurationSeconds: number | null;
+  /** Longest edge of a video frame, regardless of orientation. */
+  maxVideoDimension: number | null;
 }
 
+/** One unit of `baseCurrency` is worth `rate` units of `quoteCurrency` from `effectiveDate` onward. */
+export interface ExchangeRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  /** ISO date (`YYYY-MM-DD`). */
+  effectiveDate: string;
+}
+
+export type ProjectReviewStatus =
+  | "draft"
+  | "submitted"
+  | "changesRequested"
+  | "approved"
+  | "rejected"
+  | "archived";
+
 export interface Project {
   id: string;
   npoUserId: string;
@@ -65,6 +115,91 @@ export interface Project {
   isApproved: boolean;
   approvedAt?: string | null;
   approvedByUserId?: string | null;
+  reviewStatus?: ProjectReviewStatus | null;
+  reviewComment?: string | null;
+  reviewedAt?: string | null;
+  reviewedByUserId?: string | null;
+  /** Stops accepting donations once `raisedAmount` reaches `targetAmount`. */
+  autoCloseOnTarget?: boolean | null;
+}
+
+/** Reusable starting point for recurring campaigns; dates and media are chosen per project. */
+export interface ProjectTemplate {
+  id: string;
+  npoUserId: string;
+  name: string;
+  title: string;
+  categoryId: number;
+  description: string;
+  targetAmount: number;
+  currency: string;
+  autoCloseOnTarget?: boolean | null;
+  addresses: Address[];
+  createdOn?: string;
+}
+
+/** Fundraising stage of an approved project, derived from its dates and amounts. */
+export type ProjectLifecycleState = "upcoming" | "live" | "funded" | "ended";
+
+export type ProjectSortField =
+  | "createdDate"
+  | "title"
+  | "category"
+  | "owner"
+  | "targetAmount"
+  | "raisedAmount"
+  | "startDate"
+  | "status";
+
+export type SortDirection = "asc" | "desc";
+
+export interface ProjectListQuery {
+  page: number;
+  pageSize: number;
+  sortBy?: ProjectSortField;
+  sortDirection?: SortDirection;
+  status?: ProjectReviewStatus;
+  lifecycle?: ProjectLifecycleState;
+  npoUserId?: string;
+  categoryId?: number;
+  search?: string;
+}
+
+export interface PagedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface CurrencyTotals {
+  currency: string;
+  raised: number;
+  target: number;
+}
+
+export interface ProjectStatusCounts {
+  active: number;
+  pending: number;
+  expired: number;
+}
+
+export interface ProjectCategoryCount {
+  categoryId: number;
+  count: number;
+}
+
+/** Aggregate figures for the dashboard overview, computed over every project in scope. */
+export interface ProjectOverview {
+  currencyTotals: CurrencyTotals[];
+  statusCounts: ProjectStatusCounts;
+  categoryCounts: ProjectCategoryCount[];
+  npoCount: number;
+  /** Projects pending approval, ending soon or below the low-funding ratio. */
+  attentionProjects: Project[];
+  /** Projects the figures cover; below `totalProjectCount` when they come from a capped sample. */
+  projectCount: number;
+  totalProjectCount: number;
 }
 
 export interface User {
@@ -104,4 +239,86 @@ export interface BankDetails {
   iban: string;
   swiftCode: string;
   routingNumber: string;
+  /** ISO 3166 alpha-2 code, inferred from the IBAN or SWIFT/BIC when available. */
+  bankCountry?: string | null;
+}
+
+export interface NpoBankAccount extends BankDetails {
+  id: string;
+  userId: string;
+  createdOn?: string;
+  modifiedOn?: string | null;
+}
+
+export type AuditAction =
+  | "project.update"
+  | "project.review"
+  | "project.delete"
+  | "project.media.delete"
+  | "project.media.update"
+  | "project.reconcile"
+  | "user.role.update"
+  | "bank.create"
+  | "bank.update"
+  | "exchangeRates.update"
+  | "projectTemplate.create";
+
+export type AuditTargetType = "project" | "projectMedia" | "user" | "bankAccount" | "exchangeRates" | "projectTemplate";
+
+export interface AuditChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actorUserId: string;
+  actorName?: string | null;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel?: string | null;
+  occurredAt: string;
+  changes: AuditChange[];
+}
+
+export interface AuditLogQuery {
+  page: number;
+  pageSize: number;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actorUserId?: string;
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+export type DonationPaymentStatus = "pending" | "succeeded" | "failed" | "refunded";
+
+export interface Donation {
+  id: string;
+  projectId: string;
+  projectTitle?: string | null;
+  npoUserId?: string | null;
+  donorUserId?: string | null;
+  donorName?: string | null;
+  donorEmail?: string | null;
+  isAnonymous?: boolean;
+  amount: number;
+  currency: string;
+  paymentStatus: DonationPaymentStatus;
+  paymentReference?: string | null;
+  donatedAt: string;
+}
+
+export interface DonationListQuery {
+  page: number;
+  pageSize: number;
+  projectId?: string;
+  npoUserId?: string;
+  paymentStatus?: DonationPaymentStatus;
+  from?: string;
+  to?: string;
+  search?: string;
 }